@@ -46,6 +46,7 @@ const mockDatabaseAdapter = {
       if (filter?.status && d.status !== filter.status) return false;
       if (filter?.policyId && d.policyId !== filter.policyId) return false;
       if (filter?.groupId && d.groupId !== filter.groupId) return false;
+      if (filter?.online !== undefined && (d.online ?? false) !== filter.online) return false;
       return true;
     });
     const offset = filter?.offset ?? 0;
@@ -282,10 +283,12 @@ const mdm = createMDM({
   // Database adapter (use real adapter in production)
   database: mockDatabaseAdapter,
 
-  // Push notifications (FCM, MQTT, or WebSocket)
+  // Push notifications. Devices poll here; for FCM, MQTT or WebSocket pass
+  // the adapter from @openmdm/push-fcm, -mqtt or -websocket instead.
   push: {
-    provider: 'fcm',
-    // fcmCredentials: JSON.parse(process.env.FCM_CREDENTIALS || '{}'),
+    provider: 'polling',
+    // provider: 'fcm',
+    // adapter: fcmPushAdapter({ credentialPath: './firebase-service-account.json' }),
   },
 
   // Enrollment settings
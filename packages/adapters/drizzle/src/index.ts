@@ -26,30 +26,47 @@ import type {
   AppRollback,
   AppVersion,
   Command,
+  CommandCampaign,
+  CommandCampaignFilter,
   CommandFilter,
+  CommandStatus,
+  CommandWorkflow,
+  CommandWorkflowFilter,
+  ComplianceRuleSet,
+  ComplianceViolation,
   CreateApplicationInput,
   CreateAppRollbackInput,
+  CreateCommandCampaignInput,
+  CreateCommandInput,
+  CreateCommandWorkflowInput,
   CreateDeviceInput,
   CreateGroupInput,
   CreatePolicyInput,
+  CreatePushDeliveryInput,
   DatabaseAdapter,
   Device,
   DeviceApp,
   DeviceFilter,
   DeviceListResult,
   DeviceLocation,
+  DeviceSecurityTelemetry,
   EnrollmentChallenge,
   EventFilter,
   Group,
   InstalledApp,
   MDMEvent,
   Policy,
+  PolicyRollout,
+  PolicySchedule,
   PolicySettings,
   PolicyVersion,
+  PushDelivery,
+  PushDeliveryFilter,
   PushToken,
   RegisterPushTokenInput,
-  SendCommandInput,
   UpdateApplicationInput,
+  UpdateCommandCampaignInput,
+  UpdateCommandWorkflowInput,
   UpdateDeviceInput,
   UpdateGroupInput,
   UpdatePolicyInput,
@@ -75,7 +92,9 @@ import { nanoid } from 'nanoid';
 import type {
   mdmApplications,
   mdmAppVersions,
+  mdmCommandCampaigns,
   mdmCommands,
+  mdmCommandWorkflows,
   mdmDeviceApps,
   mdmDeviceGroups,
   mdmDevices,
@@ -85,6 +104,7 @@ import type {
   mdmPluginStorage,
   mdmPolicies,
   mdmPolicyVersions,
+  mdmPushDeliveries,
   mdmPushTokens,
   mdmRollbacks,
 } from './postgres';
@@ -119,6 +139,21 @@ export interface DrizzleAdapterOptions {
     groups: typeof mdmGroups;
     deviceGroups: typeof mdmDeviceGroups;
     pushTokens: typeof mdmPushTokens;
+    /**
+     * Bulk command campaigns. Required for `commands.sendBulk()` and campaign
+     * progress. Omit and single-device commands work as before.
+     */
+    commandCampaigns?: typeof mdmCommandCampaigns;
+    /**
+     * Multi-step command workflows. Required for `commands.startWorkflow()`.
+     * Omit and single commands work as before.
+     */
+    commandWorkflows?: typeof mdmCommandWorkflows;
+    /**
+     * Push delivery log. Required for `commands.getDeliveries()` and device
+     * push receipts. Omit and pushes are still sent, just not recorded.
+     */
+    pushDeliveries?: typeof mdmPushDeliveries;
     appVersions?: typeof mdmAppVersions;
     rollbacks?: typeof mdmRollbacks;
     pluginStorage?: typeof mdmPluginStorage;
@@ -168,6 +203,9 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
     groups,
     deviceGroups,
     pushTokens,
+    commandCampaigns,
+    commandWorkflows,
+    pushDeliveries,
     appVersions,
     rollbacks,
     pluginStorage,
@@ -204,6 +242,14 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
     agentVersion: row.agentVersion as string | null,
     lastHeartbeat: row.lastHeartbeat as Date | null,
     lastSync: row.lastSync as Date | null,
+    online: (row.online as boolean | null) ?? null,
+    presenceChangedAt: (row.presenceChangedAt as Date | null) ?? null,
+    complianceState: (row.complianceState as Device['complianceState']) ?? null,
+    complianceViolations: (row.complianceViolations as ComplianceViolation[] | null) ?? null,
+    complianceCheckedAt: (row.complianceCheckedAt as Date | null) ?? null,
+    quarantinedFromPolicyId: (row.quarantinedFromPolicyId as string | null) ?? null,
+    securityTelemetry: (row.securityTelemetry as DeviceSecurityTelemetry | null) ?? null,
+    policySchedule: (row.policySchedule as PolicySchedule | null) ?? null,
     publicKey: (row.publicKey as string | null) ?? null,
     enrollmentMethod: (row.enrollmentMethod as Device['enrollmentMethod']) ?? null,
     batteryLevel: row.batteryLevel as number | null,
@@ -224,6 +270,17 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
     updatedAt: row.updatedAt as Date,
   });
 
+  // A policy's rollout is stored as JSON, which hands its dates back as strings
+  const toPolicyRollout = (value: unknown): PolicyRollout | null => {
+    if (!value) return null;
+    const rollout = value as PolicyRollout;
+    return {
+      ...rollout,
+      startedAt: new Date(rollout.startedAt),
+      updatedAt: new Date(rollout.updatedAt),
+    };
+  };
+
   // Helper to transform DB row to Policy
   const toPolicy = (row: Record<string, unknown>): Policy => ({
     id: row.id as string,
@@ -233,6 +290,8 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
     isDefault: row.isDefault as boolean,
     settings: row.settings as PolicySettings,
     version: (row.version as number | null) ?? 1,
+    rollout: toPolicyRollout(row.rollout),
+    complianceRules: (row.complianceRules as ComplianceRuleSet | null) ?? null,
     createdAt: row.createdAt as Date,
     updatedAt: row.updatedAt as Date,
   });
@@ -276,9 +335,93 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
     idempotencyKey: (row.idempotencyKey as string | null) ?? null,
     expiresAt: (row.expiresAt as Date | null) ?? null,
     attemptCount: (row.attemptCount as number | null) ?? 0,
+    lastAttemptAt: (row.lastAttemptAt as Date | null) ?? null,
     maxAttempts: (row.maxAttempts as number | null) ?? 5,
+    priority: (row.priority as number | null) ?? 0,
+    notBefore: (row.notBefore as Date | null) ?? null,
+    campaignId: (row.campaignId as string | null) ?? null,
+    workflowId: (row.workflowId as string | null) ?? null,
+    requestedBy: (row.requestedBy as string | null) ?? null,
+    reviewedBy: (row.reviewedBy as string | null) ?? null,
+    reviewedAt: (row.reviewedAt as Date | null) ?? null,
+    cancellation: (row.cancellation as Command['cancellation']) ?? null,
   });
 
+  // Helper to transform DB row to CommandCampaign
+  const toCommandCampaign = (row: Record<string, unknown>): CommandCampaign => ({
+    id: row.id as string,
+    tenantId: (row.tenantId as string | null) ?? null,
+    name: (row.name as string | null) ?? null,
+    type: row.type as CommandCampaign['type'],
+    payload: (row.payload as Record<string, unknown> | null) ?? null,
+    target: (row.target as CommandCampaign['target']) ?? null,
+    filter: (row.filter as CommandCampaign['filter']) ?? null,
+    deviceCount: (row.deviceCount as number | null) ?? 0,
+    status: row.status as CommandCampaign['status'],
+    createdAt: row.createdAt as Date,
+    updatedAt: row.updatedAt as Date,
+    cancelledAt: (row.cancelledAt as Date | null) ?? null,
+  });
+
+  // Helper to transform DB row to CommandWorkflow
+  const toCommandWorkflow = (row: Record<string, unknown>): CommandWorkflow => ({
+    id: row.id as string,
+    tenantId: (row.tenantId as string | null) ?? null,
+    deviceId: row.deviceId as string,
+    name: (row.name as string | null) ?? null,
+    status: row.status as CommandWorkflow['status'],
+    steps: (row.steps as CommandWorkflow['steps'] | null) ?? [],
+    currentStep: (row.currentStep as number | null) ?? 0,
+    requestedBy: (row.requestedBy as string | null) ?? null,
+    error: (row.error as string | null) ?? null,
+    createdAt: row.createdAt as Date,
+    updatedAt: row.updatedAt as Date,
+    completedAt: (row.completedAt as Date | null) ?? null,
+  });
+
+  // Conditions shared by listCommands and countCommandsByStatus
+  const commandConditions = (filter?: CommandFilter): (SQL | undefined)[] => {
+    const conditions: (SQL | undefined)[] = [];
+
+    if (filter?.tenantId) {
+      conditions.push(eq(commands.tenantId, filter.tenantId));
+    }
+
+    if (filter?.deviceId) {
+      conditions.push(eq(commands.deviceId, filter.deviceId));
+    }
+
+    if (filter?.campaignId) {
+      conditions.push(eq(commands.campaignId, filter.campaignId));
+    }
+
+    if (filter?.workflowId) {
+      conditions.push(eq(commands.workflowId, filter.workflowId));
+    }
+
+    if (filter?.status) {
+      if (Array.isArray(filter.status)) {
+        conditions.push(inArray(commands.status, filter.status));
+      } else {
+        conditions.push(eq(commands.status, filter.status));
+      }
+    }
+
+    if (filter?.type) {
+      if (Array.isArray(filter.type)) {
+        conditions.push(inArray(commands.type, filter.type));
+      } else {
+        conditions.push(eq(commands.type, filter.type));
+      }
+    }
+
+    if (filter?.cancellation) {
+      conditions.push(eq(commands.cancellation, filter.cancellation));
+    }
+
+    return conditions;
+  };
+
   // Helper to transform DB row to DeviceApp
   const toDeviceApp = (row: Record<string, unknown>): DeviceApp => ({
     deviceId: row.deviceId as string,
@@ -337,6 +480,21 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
     updatedAt: row.updatedAt as Date,
   });
 
+  // Helper to transform DB row to PushDelivery
+  const toPushDelivery = (row: Record<string, unknown>): PushDelivery => ({
+    id: row.id as string,
+    messageId: (row.messageId as string | null) ?? null,
+    deviceId: row.deviceId as string,
+    provider: (row.provider as PushDelivery['provider']) ?? null,
+    commandId: (row.commandId as string | null) ?? null,
+    messageType: row.messageType as string,
+    status: row.status as PushDelivery['status'],
+    error: (row.error as string | null) ?? null,
+    createdAt: row.createdAt as Date,
+    deliveredAt: (row.deliveredAt as Date | null) ?? null,
+    updatedAt: row.updatedAt as Date,
+  });
+
   // Helper to transform DB row to AppVersion
   const toAppVersion = (row: Record<string, unknown>): AppVersion => ({
     id: row.id as string,
@@ -423,6 +581,19 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
         conditions.push(eq(devices.policyId, filter.policyId));
       }
 
+      if (filter?.online !== undefined) {
+        // Never reported counts as offline, not as "unknown, so excluded".
+        conditions.push(
+          filter.online
+            ? eq(devices.online, true)
+            : or(eq(devices.online, false), isNull(devices.online)),
+        );
+      }
+
+      if (filter?.complianceState) {
+        conditions.push(eq(devices.complianceState, filter.complianceState));
+      }
+
       if (filter?.search) {
         const searchPattern = `%${filter.search}%`;
         conditions.push(
@@ -513,6 +684,19 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
       if (data.storageTotal !== undefined) updateData.storageTotal = data.storageTotal;
       if (data.lastHeartbeat !== undefined) updateData.lastHeartbeat = data.lastHeartbeat;
       if (data.lastSync !== undefined) updateData.lastSync = data.lastSync;
+      if (data.online !== undefined) updateData.online = data.online;
+      if (data.presenceChangedAt !== undefined)
+        updateData.presenceChangedAt = data.presenceChangedAt;
+      if (data.complianceState !== undefined) updateData.complianceState = data.complianceState;
+      if (data.complianceViolations !== undefined)
+        updateData.complianceViolations = data.complianceViolations;
+      if (data.complianceCheckedAt !== undefined)
+        updateData.complianceCheckedAt = data.complianceCheckedAt;
+      if (data.quarantinedFromPolicyId !== undefined)
+        updateData.quarantinedFromPolicyId = data.quarantinedFromPolicyId;
+      if (data.securityTelemetry !== undefined)
+        updateData.securityTelemetry = data.securityTelemetry;
+      if (data.policySchedule !== undefined) updateData.policySchedule = data.policySchedule;
       if (data.installedApps !== undefined) updateData.installedApps = data.installedApps;
       if (data.tags !== undefined) updateData.tags = data.tags;
       if (data.metadata !== undefined) updateData.metadata = data.metadata;
@@ -574,6 +758,7 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
         description: data.description ?? null,
         isDefault: data.isDefault ?? false,
         settings: data.settings,
+        complianceRules: data.complianceRules ?? null,
         createdAt: now,
         updatedAt: now,
       };
@@ -593,6 +778,8 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
       if (data.isDefault !== undefined) updateData.isDefault = data.isDefault;
       if (data.settings !== undefined) updateData.settings = data.settings;
       if (data.version !== undefined) updateData.version = data.version;
+      if (data.rollout !== undefined) updateData.rollout = data.rollout;
+      if (data.complianceRules !== undefined) updateData.complianceRules = data.complianceRules;
 
       await conn().update(policies).set(updateData).where(eq(policies.id, id));
 
@@ -713,31 +900,7 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
     async listCommands(filter?: CommandFilter): Promise<Command[]> {
       let query = conn().select().from(commands);
 
-      const conditions: (SQL | undefined)[] = [];
-
-      if (filter?.tenantId) {
-        conditions.push(eq(commands.tenantId, filter.tenantId));
-      }
-
-      if (filter?.deviceId) {
-        conditions.push(eq(commands.deviceId, filter.deviceId));
-      }
-
-      if (filter?.status) {
-        if (Array.isArray(filter.status)) {
-          conditions.push(inArray(commands.status, filter.status));
-        } else {
-          conditions.push(eq(commands.status, filter.status));
-        }
-      }
-
-      if (filter?.type) {
-        if (Array.isArray(filter.type)) {
-          conditions.push(inArray(commands.type, filter.type));
-        } else {
-          conditions.push(eq(commands.type, filter.type));
-        }
-      }
+      const conditions = commandConditions(filter);
 
       if (conditions.length > 0) {
         query = query.where(and(...conditions));
@@ -751,7 +914,25 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
       return result.map(toCommand);
     },
 
-    async createCommand(data: SendCommandInput): Promise<Command> {
+    async countCommandsByStatus(
+      filter: CommandFilter,
+    ): Promise<Partial<Record<CommandStatus, number>>> {
+      let query = conn()
+        .select({ status: commands.status, count: sql<number>`count(*)::int` })
+        .from(commands);
+
+      const conditions = commandConditions(filter);
+      if (conditions.length > 0) {
+        query = query.where(and(...conditions));
+      }
+
+      const rows: Array<{ status: CommandStatus; count: number }> = await query.groupBy(
+        commands.status,
+      );
+      return Object.fromEntries(rows.map((row) => [row.status, Number(row.count)]));
+    },
+
+    async createCommand(data: CreateCommandInput): Promise<Command> {
       const id = generateId();
       const now = new Date();
 
@@ -761,12 +942,17 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
         deviceId: data.deviceId,
         type: data.type,
         payload: data.payload ?? null,
-        status: 'pending' as const,
+        status: data.status ?? 'pending',
         createdAt: now,
         idempotencyKey: data.idempotencyKey ?? null,
         expiresAt: data.expiresAt ?? null,
         attemptCount: 0,
         maxAttempts: data.maxAttempts ?? 5,
+        priority: data.priority ?? 0,
+        notBefore: data.notBefore ?? null,
+        campaignId: data.campaignId ?? null,
+        workflowId: data.workflowId ?? null,
+        requestedBy: data.requestedBy ?? null,
       };
 
       await conn().insert(commands).values(commandData);
@@ -1035,7 +1221,7 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
      * application code cannot give this guarantee.
      */
     async createCommandIdempotent(
-      data: SendCommandInput,
+      data: CreateCommandInput,
     ): Promise<{ command: Command; created: boolean }> {
       if (!data.idempotencyKey) {
         return { command: await this.createCommand(data), created: true };
@@ -1050,12 +1236,17 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
           deviceId: data.deviceId,
           type: data.type,
           payload: data.payload ?? null,
-          status: 'pending' as const,
+          status: data.status ?? 'pending',
           createdAt: new Date(),
           idempotencyKey: data.idempotencyKey,
           expiresAt: data.expiresAt ?? null,
           attemptCount: 0,
           maxAttempts: data.maxAttempts ?? 5,
+          priority: data.priority ?? 0,
+          notBefore: data.notBefore ?? null,
+          campaignId: data.campaignId ?? null,
+          workflowId: data.workflowId ?? null,
+          requestedBy: data.requestedBy ?? null,
         })
         .onConflictDoNothing({
           target: [commands.deviceId, commands.idempotencyKey],
@@ -1109,6 +1300,7 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
       const updateData: Record<string, unknown> = {};
 
       if (data.status !== undefined) updateData.status = data.status;
+      if (data.payload !== undefined) updateData.payload = data.payload;
       if (data.result !== undefined) updateData.result = data.result;
       if (data.error !== undefined) updateData.error = data.error;
       if (data.sentAt !== undefined) updateData.sentAt = data.sentAt;
@@ -1116,6 +1308,10 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
       if (data.completedAt !== undefined) updateData.completedAt = data.completedAt;
       if (data.expiresAt !== undefined) updateData.expiresAt = data.expiresAt;
       if (data.maxAttempts !== undefined) updateData.maxAttempts = data.maxAttempts;
+      if (data.reviewedBy !== undefined) updateData.reviewedBy = data.reviewedBy;
+      if (data.reviewedAt !== undefined) updateData.reviewedAt = data.reviewedAt;
+      if (data.cancellation !== undefined) updateData.cancellation = data.cancellation;
+      if (data.lastAttemptAt !== undefined) updateData.lastAttemptAt = data.lastAttemptAt;
       // Recording the attempt also stamps lastAttemptAt — that timestamp is
       // what the retry sweep measures backoff against.
       if (data.attemptCount !== undefined) {
@@ -1129,10 +1325,21 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
     },
 
     async getPendingCommands(deviceId: string): Promise<Command[]> {
-      return this.listCommands({
-        deviceId,
-        status: ['pending', 'sent'],
-      });
+      const nowIso = new Date().toISOString();
+      const result = await conn()
+        .select()
+        .from(commands)
+        .where(
+          and(
+            eq(commands.deviceId, deviceId),
+            inArray(commands.status, ['pending', 'sent']),
+            or(isNull(commands.notBefore), sql`${commands.notBefore} <= ${nowIso}::timestamptz`),
+          ),
+        )
+        .orderBy(desc(commands.priority), commands.createdAt)
+        .limit(100);
+
+      return result.map(toCommand);
     },
 
     /**
@@ -1146,7 +1353,7 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
         .set({ status: 'expired', completedAt: now })
         .where(
           and(
-            inArray(commands.status, ['pending', 'sent', 'acknowledged']),
+            inArray(commands.status, ['awaiting_approval', 'pending', 'sent', 'acknowledged']),
             isNotNull(commands.expiresAt),
             lte(commands.expiresAt, now),
           ),
@@ -1214,6 +1421,7 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
             eq(commands.status, 'pending'),
             lt(commands.attemptCount, commands.maxAttempts),
             or(isNull(commands.expiresAt), sql`${commands.expiresAt} > ${nowIso}::timestamptz`),
+            or(isNull(commands.notBefore), sql`${commands.notBefore} <= ${nowIso}::timestamptz`),
             or(
               // Never attempted: no backoff to wait out.
               isNull(commands.lastAttemptAt),
@@ -1222,7 +1430,7 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
             ),
           ),
         )
-        .orderBy(commands.createdAt)
+        .orderBy(desc(commands.priority), commands.createdAt)
         .limit(limit);
 
       return result.map(toCommand);
@@ -1424,6 +1632,250 @@ export function drizzleAdapter(db: DrizzleDB, options: DrizzleAdapterOptions): D
       }
     },
 
+    // ============================================
+    // Command Campaign Methods (Optional)
+    // ============================================
+
+    ...(commandCampaigns
+      ? {
+          async createCommandCampaign(data: CreateCommandCampaignInput): Promise<CommandCampaign> {
+            const now = new Date();
+            const result = await conn()
+              .insert(commandCampaigns)
+              .values({
+                id: generateId(),
+                tenantId: data.tenantId ?? null,
+                name: data.name ?? null,
+                type: data.type,
+                payload: data.payload ?? null,
+                target: data.target ?? null,
+                filter: data.filter ?? null,
+                deviceCount: data.deviceCount,
+                status: 'active',
+                createdAt: now,
+                updatedAt: now,
+              })
+              .returning();
+            return toCommandCampaign(result[0]);
+          },
+
+          async findCommandCampaign(id: string): Promise<CommandCampaign | null> {
+            const result = await conn()
+              .select()
+              .from(commandCampaigns)
+              .where(eq(commandCampaigns.id, id))
+              .limit(1);
+            return result[0] ? toCommandCampaign(result[0]) : null;
+          },
+
+          async listCommandCampaigns(filter?: CommandCampaignFilter): Promise<CommandCampaign[]> {
+            const conditions: (SQL | undefined)[] = [];
+
+            if (filter?.tenantId) {
+              conditions.push(eq(commandCampaigns.tenantId, filter.tenantId));
+            }
+            if (filter?.status) {
+              conditions.push(eq(commandCampaigns.status, filter.status));
+            }
+
+            let query = conn().select().from(commandCampaigns);
+            if (conditions.length > 0) {
+              query = query.where(and(...conditions));
+            }
+
+            const result = await query
+              .orderBy(desc(commandCampaigns.createdAt))
+              .limit(filter?.limit ?? 100)
+              .offset(filter?.offset ?? 0);
+            return result.map(toCommandCampaign);
+          },
+
+          async updateCommandCampaign(
+            id: string,
+            data: UpdateCommandCampaignInput,
+          ): Promise<CommandCampaign> {
+            const updateData: Record<string, unknown> = { updatedAt: new Date() };
+            if (data.status !== undefined) updateData.status = data.status;
+            if (data.cancelledAt !== undefined) updateData.cancelledAt = data.cancelledAt;
+
+            const result = await conn()
+              .update(commandCampaigns)
+              .set(updateData)
+              .where(eq(commandCampaigns.id, id))
+              .returning();
+            return toCommandCampaign(result[0]);
+          },
+        }
+      : {}),
+
+    // ============================================
+    // Command Workflow Methods (Optional)
+    // ============================================
+
+    ...(commandWorkflows
+      ? {
+          async createCommandWorkflow(data: CreateCommandWorkflowInput): Promise<CommandWorkflow> {
+            const now = new Date();
+            const result = await conn()
+              .insert(commandWorkflows)
+              .values({
+                id: generateId(),
+                tenantId: data.tenantId ?? null,
+                deviceId: data.deviceId,
+                name: data.name ?? null,
+                status: 'running',
+                steps: data.steps,
+                currentStep: 0,
+                requestedBy: data.requestedBy ?? null,
+                createdAt: now,
+                updatedAt: now,
+              })
+              .returning();
+            return toCommandWorkflow(result[0]);
+          },
+
+          async findCommandWorkflow(id: string): Promise<CommandWorkflow | null> {
+            const result = await conn()
+              .select()
+              .from(commandWorkflows)
+              .where(eq(commandWorkflows.id, id))
+              .limit(1);
+            return result[0] ? toCommandWorkflow(result[0]) : null;
+          },
+
+          async listCommandWorkflows(filter?: CommandWorkflowFilter): Promise<CommandWorkflow[]> {
+            const conditions: (SQL | undefined)[] = [];
+
+            if (filter?.tenantId) {
+              conditions.push(eq(commandWorkflows.tenantId, filter.tenantId));
+            }
+            if (filter?.deviceId) {
+              conditions.push(eq(commandWorkflows.deviceId, filter.deviceId));
+            }
+            if (filter?.status) {
+              if (Array.isArray(filter.status)) {
+                conditions.push(inArray(commandWorkflows.status, filter.status));
+              } else {
+                conditions.push(eq(commandWorkflows.status, filter.status));
+              }
+            }
+
+            let query = conn().select().from(commandWorkflows);
+            if (conditions.length > 0) {
+              query = query.where(and(...conditions));
+            }
+
+            const result = await query
+              .orderBy(desc(commandWorkflows.createdAt))
+              .limit(filter?.limit ?? 100)
+              .offset(filter?.offset ?? 0);
+            return result.map(toCommandWorkflow);
+          },
+
+          async updateCommandWorkflow(
+            id: string,
+            data: UpdateCommandWorkflowInput,
+          ): Promise<CommandWorkflow> {
+            const updateData: Record<string, unknown> = { updatedAt: new Date() };
+            if (data.status !== undefined) updateData.status = data.status;
+            if (data.steps !== undefined) updateData.steps = data.steps;
+            if (data.currentStep !== undefined) updateData.currentStep = data.currentStep;
+            if (data.error !== undefined) updateData.error = data.error;
+            if (data.completedAt !== undefined) updateData.completedAt = data.completedAt;
+
+            const result = await conn()
+              .update(commandWorkflows)
+              .set(updateData)
+              .where(eq(commandWorkflows.id, id))
+              .returning();
+            return toCommandWorkflow(result[0]);
+          },
+        }
+      : {}),
+
+    // ============================================
+    // Push Delivery Methods (Optional)
+    // ============================================
+
+    ...(pushDeliveries
+      ? {
+          async createPushDelivery(data: CreatePushDeliveryInput): Promise<PushDelivery> {
+            const now = new Date();
+            const result = await conn()
+              .insert(pushDeliveries)
+              .values({
+                id: generateId(),
+                messageId: data.messageId ?? null,
+                deviceId: data.deviceId,
+                provider: data.provider ?? null,
+                commandId: data.commandId ?? null,
+                messageType: data.messageType,
+                status: data.status,
+                error: data.error ?? null,
+                deliveredAt: data.deliveredAt ?? null,
+                createdAt: now,
+                updatedAt: now,
+              })
+              .returning();
+            return toPushDelivery(result[0]);
+          },
+
+          async markPushDelivered(
+            deviceId: string,
+            messageId: string,
+            at: Date,
+          ): Promise<PushDelivery | null> {
+            // A repeated receipt must not move deliveredAt forward: the first
+            // confirmation is when the device actually had the message.
+            const result = await conn()
+              .update(pushDeliveries)
+              .set({
+                status: 'delivered',
+                deliveredAt: sql`coalesce(${pushDeliveries.deliveredAt}, ${at.toISOString()}::timestamptz)`,
+                error: null,
+                updatedAt: at,
+              })
+              .where(
+                and(eq(pushDeliveries.deviceId, deviceId), eq(pushDeliveries.messageId, messageId)),
+              )
+              .returning();
+            return result[0] ? toPushDelivery(result[0]) : null;
+          },
+
+          async listPushDeliveries(filter?: PushDeliveryFilter): Promise<PushDelivery[]> {
+            const conditions: (SQL | undefined)[] = [];
+
+            if (filter?.deviceId) {
+              conditions.push(eq(pushDeliveries.deviceId, filter.deviceId));
+            }
+            if (filter?.commandId) {
+              conditions.push(eq(pushDeliveries.commandId, filter.commandId));
+            }
+            if (filter?.messageId) {
+              conditions.push(eq(pushDeliveries.messageId, filter.messageId));
+            }
+            if (filter?.status) {
+              conditions.push(
+                Array.isArray(filter.status)
+                  ? inArray(pushDeliveries.status, filter.status)
+                  : eq(pushDeliveries.status, filter.status),
+              );
+            }
+
+            let query = conn().select().from(pushDeliveries);
+            if (conditions.length > 0) {
+              query = query.where(and(...conditions));
+            }
+
+            const result = await query
+              .orderBy(desc(pushDeliveries.createdAt))
+              .limit(filter?.limit ?? 100)
+              .offset(filter?.offset ?? 0);
+            return result.map(toPushDelivery);
+          },
+        }
+      : {}),
+
     // ============================================
     // App Version Methods (Optional)
     // ============================================
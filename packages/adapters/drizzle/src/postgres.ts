@@ -50,11 +50,31 @@ export const commandStatusEnum = pgEnum('mdm_command_status', [
   'completed',
   'failed',
   'cancelled',
+  'awaiting_approval',
   'expired',
 ]);
 
+export const commandCampaignStatusEnum = pgEnum('mdm_command_campaign_status', [
+  'active',
+  'cancelled',
+]);
+
+export const commandWorkflowStatusEnum = pgEnum('mdm_command_workflow_status', [
+  'running',
+  'completed',
+  'failed',
+  'cancelled',
+]);
+
 export const pushProviderEnum = pgEnum('mdm_push_provider', ['fcm', 'mqtt', 'websocket']);
 
+export const pushDeliveryStatusEnum = pgEnum('mdm_push_delivery_status', [
+  'sent',
+  'delivered',
+  'failed',
+  'deferred',
+]);
+
 export const deployTargetTypeEnum = pgEnum('mdm_deploy_target_type', ['policy', 'group']);
 
 export const deployActionEnum = pgEnum('mdm_deploy_action', ['install', 'update', 'uninstall']);
@@ -114,6 +134,24 @@ export const mdmDevices = pgTable(
     agentVersion: varchar('agent_version', { length: 255 }), // MDM agent version
     lastHeartbeat: timestamp('last_heartbeat', { withTimezone: true }),
     lastSync: timestamp('last_sync', { withTimezone: true }),
+    // Live connectivity as last reported by a connected push transport. NULL
+    // until one reports: FCM-only and polling devices have no presence.
+    online: boolean('online'),
+    presenceChangedAt: timestamp('presence_changed_at', { withTimezone: true }),
+    // Result of the last heartbeat's compliance check. NULL until a heartbeat
+    // is checked against rules.
+    complianceState: varchar('compliance_state', { length: 20 }),
+    complianceViolations: json('compliance_violations').$type<Array<Record<string, unknown>>>(),
+    complianceCheckedAt: timestamp('compliance_checked_at', { withTimezone: true }),
+    // The policy a quarantine remediation moved the device off, restored once
+    // it is compliant again. Not a foreign key: a deleted policy must not
+    // block the restore from clearing it.
+    quarantinedFromPolicyId: varchar('quarantined_from_policy_id', { length: 36 }),
+    // Security flags from the last heartbeat, so compliance rules can be
+    // checked between heartbeats.
+    securityTelemetry: json('security_telemetry').$type<Record<string, boolean>>(),
+    // Policy per weekly window in a timezone; policyId follows it.
+    policySchedule: json('policy_schedule').$type<Record<string, unknown>>(),
 
     // Device identity (Phase 2b — device-pinned-key enrollment).
     // publicKey is the base64-encoded SPKI EC P-256 public key the
@@ -148,6 +186,8 @@ export const mdmDevices = pgTable(
     index('mdm_devices_status_idx').on(table.status),
     index('mdm_devices_policy_id_idx').on(table.policyId),
     index('mdm_devices_last_heartbeat_idx').on(table.lastHeartbeat),
+    index('mdm_devices_online_idx').on(table.online),
+    index('mdm_devices_compliance_state_idx').on(table.complianceState),
     index('mdm_devices_mac_address_idx').on(table.macAddress),
     index('mdm_devices_serial_number_idx').on(table.serialNumber),
   ],
@@ -170,6 +210,12 @@ export const mdmPolicies = pgTable(
     // Monotonic; bumped only when `settings` changes. See @openmdm/core's
     // Policy type.
     version: integer('version').notNull().default(1),
+    // Staged rollout of the current version. See @openmdm/core's
+    // PolicyRollout.
+    rollout: json('rollout').$type<Record<string, unknown>>(),
+    // Heartbeat compliance rules and remediation. See @openmdm/core's
+    // ComplianceRuleSet.
+    complianceRules: json('compliance_rules').$type<Record<string, unknown>>(),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
   },
@@ -219,6 +265,65 @@ export const mdmApplications = pgTable(
   ],
 );
 
+// ============================================
+// Command Campaigns Table
+// ============================================
+
+export const mdmCommandCampaigns = pgTable(
+  'mdm_command_campaigns',
+  {
+    id: varchar('id', { length: 36 }).primaryKey(),
+    tenantId: varchar('tenant_id', { length: 36 }),
+    name: varchar('name', { length: 255 }),
+    type: varchar('type', { length: 50 }).notNull(),
+    payload: json('payload').$type<Record<string, unknown>>(),
+    // The DeployTarget / DeviceFilter as given, for display and audit.
+    target: json('target').$type<Record<string, unknown>>(),
+    filter: json('filter').$type<Record<string, unknown>>(),
+    deviceCount: integer('device_count').notNull().default(0),
+    status: commandCampaignStatusEnum('status').notNull().default('active'),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+    cancelledAt: timestamp('cancelled_at', { withTimezone: true }),
+  },
+  (table) => [
+    index('mdm_command_campaigns_tenant_id_idx').on(table.tenantId),
+    index('mdm_command_campaigns_status_idx').on(table.status),
+    index('mdm_command_campaigns_created_at_idx').on(table.createdAt),
+  ],
+);
+
+// ============================================
+// Command Workflows Table
+// ============================================
+
+export const mdmCommandWorkflows = pgTable(
+  'mdm_command_workflows',
+  {
+    id: varchar('id', { length: 36 }).primaryKey(),
+    tenantId: varchar('tenant_id', { length: 36 }),
+    deviceId: varchar('device_id', { length: 36 })
+      .notNull()
+      .references(() => mdmDevices.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 255 }),
+    status: commandWorkflowStatusEnum('status').notNull().default('running'),
+    // Step definitions and their progress, in order. See CommandWorkflowStep.
+    steps: json('steps').$type<Record<string, unknown>[]>().notNull(),
+    currentStep: integer('current_step').notNull().default(0),
+    requestedBy: varchar('requested_by', { length: 36 }),
+    error: text('error'),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+  },
+  (table) => [
+    index('mdm_command_workflows_tenant_id_idx').on(table.tenantId),
+    index('mdm_command_workflows_device_id_idx').on(table.deviceId),
+    index('mdm_command_workflows_status_idx').on(table.status),
+    index('mdm_command_workflows_created_at_idx').on(table.createdAt),
+  ],
+);
+
 // ============================================
 // Commands Table
 // ============================================
@@ -252,9 +357,31 @@ export const mdmCommands = pgTable(
     attemptCount: integer('attempt_count').notNull().default(0),
     maxAttempts: integer('max_attempts').notNull().default(5),
     lastAttemptAt: timestamp('last_attempt_at', { withTimezone: true }),
+
+    // Delivery order and deferral. See @openmdm/core's Command type.
+    priority: integer('priority').notNull().default(0),
+    notBefore: timestamp('not_before', { withTimezone: true }),
+
+    campaignId: varchar('campaign_id', { length: 36 }).references(() => mdmCommandCampaigns.id, {
+      onDelete: 'set null',
+    }),
+    workflowId: varchar('workflow_id', { length: 36 }).references(() => mdmCommandWorkflows.id, {
+      onDelete: 'set null',
+    }),
+
+    // Two-person approval. See @openmdm/core's Command type.
+    requestedBy: varchar('requested_by', { length: 36 }),
+    reviewedBy: varchar('reviewed_by', { length: 36 }),
+    reviewedAt: timestamp('reviewed_at', { withTimezone: true }),
+
+    // requested | aborted | too_late. See @openmdm/core's Command type.
+    cancellation: varchar('cancellation', { length: 20 }),
   },
   (table) => [
     index('mdm_commands_tenant_id_idx').on(table.tenantId),
+    // Drives campaign progress: commands per status within one campaign.
+    index('mdm_commands_campaign_status_idx').on(table.campaignId, table.status),
+    index('mdm_commands_workflow_id_idx').on(table.workflowId),
     index('mdm_commands_device_id_idx').on(table.deviceId),
     index('mdm_commands_status_idx').on(table.status),
     index('mdm_commands_device_status_idx').on(table.deviceId, table.status),
@@ -442,6 +569,40 @@ export const mdmPushTokens = pgTable(
   ],
 );
 
+// ============================================
+// Push Deliveries Table
+// ============================================
+// One row per push result core sees, whatever the transport. Device receipts
+// are matched on (device_id, message_id), so a device can only confirm its
+// own messages.
+
+export const mdmPushDeliveries = pgTable(
+  'mdm_push_deliveries',
+  {
+    id: varchar('id', { length: 36 }).primaryKey(),
+    messageId: varchar('message_id', { length: 255 }),
+    deviceId: varchar('device_id', { length: 36 })
+      .notNull()
+      .references(() => mdmDevices.id, { onDelete: 'cascade' }),
+    provider: pushProviderEnum('provider'),
+    commandId: varchar('command_id', { length: 36 }).references(() => mdmCommands.id, {
+      onDelete: 'cascade',
+    }),
+    messageType: varchar('message_type', { length: 255 }).notNull(),
+    status: pushDeliveryStatusEnum('status').notNull(),
+    error: text('error'),
+    deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('mdm_push_deliveries_device_message_idx').on(table.deviceId, table.messageId),
+    index('mdm_push_deliveries_command_id_idx').on(table.commandId),
+    index('mdm_push_deliveries_status_idx').on(table.status),
+    index('mdm_push_deliveries_created_at_idx').on(table.createdAt),
+  ],
+);
+
 // ============================================
 // App Deployments Table
 // ============================================
@@ -686,11 +847,14 @@ export const mdmSchema = {
   mdmPolicies,
   mdmPolicyVersions,
   mdmApplications,
+  mdmCommandCampaigns,
+  mdmCommandWorkflows,
   mdmCommands,
   mdmEvents,
   mdmGroups,
   mdmDeviceGroups,
   mdmPushTokens,
+  mdmPushDeliveries,
   mdmAppDeployments,
   mdmAppVersions,
   mdmRollbacks,
@@ -699,7 +863,10 @@ export const mdmSchema = {
   // Enums
   deviceStatusEnum,
   commandStatusEnum,
+  commandCampaignStatusEnum,
+  commandWorkflowStatusEnum,
   pushProviderEnum,
+  pushDeliveryStatusEnum,
   deployTargetTypeEnum,
   deployActionEnum,
   rollbackStatusEnum,
@@ -20,23 +20,37 @@
 import type {
   AuthenticationError,
   AuthorizationError,
+  CommandArtifact,
+  CommandCampaignFilter,
   CommandFilter,
+  CommandWorkflowFilter,
   CreateApplicationInput,
   CreateGroupInput,
+  CreatePolicyFromTemplateOptions,
   CreatePolicyInput,
   DeviceFilter,
   EnrollmentRequest,
   Heartbeat,
   MDMError,
   MDMInstance,
+  OpenShellSessionInput,
+  PolicyImpactInput,
+  PolicySchedule,
+  PolicySettings,
+  PushMessage,
+  SendBulkCommandInput,
   SendCommandInput,
+  ShellOutputChunk,
+  StartCommandWorkflowInput,
   UpdateApplicationInput,
   UpdateGroupInput,
   UpdatePolicyInput,
 } from '@openmdm/core';
+import { buildHeartbeatResponse } from '@openmdm/core';
 import type { Context, Env, MiddlewareHandler } from 'hono';
 import { Hono } from 'hono';
 import { HTTPException } from 'hono/http-exception';
+import { streamSSE } from 'hono/streaming';
 import {
   agentOkResponse,
   agentReauth,
@@ -118,7 +132,7 @@ export interface HonoAdapterOptions {
   rateLimit?: false | RateLimitOptions;
 
   /**
-   * Routes to expose (default: all)
+   * Routes to expose (default: all but `shell`)
    */
   routes?: {
     enrollment?: boolean;
@@ -128,6 +142,26 @@ export interface HonoAdapterOptions {
     groups?: boolean;
     commands?: boolean;
     events?: boolean;
+    /**
+     * Interactive remote shell sessions. Off unless enabled: it lets an admin
+     * run arbitrary lines on a device, which a host should choose to expose.
+     */
+    shell?: boolean;
+  };
+}
+
+/** How often an open shell stream pings, and re-checks its session's timeouts. */
+const SHELL_STREAM_HEARTBEAT_MS = 15_000;
+
+/**
+ * JSON carries `notBefore` and `expiresAt` as ISO strings; core wants Dates.
+ * Anything unparseable becomes an Invalid Date, which core rejects with a 400.
+ */
+function withCommandDates<T extends { notBefore?: Date; expiresAt?: Date }>(body: T): T {
+  return {
+    ...body,
+    notBefore: body.notBefore === undefined ? undefined : new Date(body.notBefore),
+    expiresAt: body.expiresAt === undefined ? undefined : new Date(body.expiresAt),
   };
 }
 
@@ -145,6 +179,7 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
     groups: true,
     commands: true,
     events: true,
+    shell: false,
     ...options.routes,
   };
 
@@ -271,6 +306,16 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
     await next();
   };
 
+  /**
+   * Id of the authenticated admin, when `config.auth.getUser` returns a user
+   * carrying one. Stamped onto commands as `requestedBy` so the approval gate
+   * can tell the requester and the reviewer apart.
+   */
+  const actorId = (c: Context<MDMEnv>): string | undefined => {
+    const user = c.get('user') as { id?: unknown } | undefined;
+    return typeof user?.id === 'string' ? user.id : undefined;
+  };
+
   // ============================================
   // Health Endpoints
   // ============================================
@@ -439,27 +484,7 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
         timestamp: new Date(body.timestamp || Date.now()),
       });
 
-      // Return pending commands for the device
-      const pendingCommands = await mdm.commands.getPending(deviceId);
-
-      // Get current policy if device has one
-      const device = await mdm.devices.get(deviceId);
-      let policyUpdate = null;
-      if (device?.policyId) {
-        policyUpdate = await mdm.policies.get(device.policyId);
-      }
-
-      // Desired state rides on every heartbeat until the device reports it has
-      // applied that version. That is what makes it a fact the device cannot
-      // miss — unlike a command, which is an event: miss it and the intent is
-      // simply gone.
-      return agentOkResponse(c, {
-        success: true,
-        pendingCommands: pendingCommands,
-        policyUpdate: policyUpdate,
-        desiredState: device?.desiredState ?? {},
-        desiredStateVersion: device?.desiredStateVersion ?? 0,
-      });
+      return agentOkResponse(c, await buildHeartbeatResponse(mdm, deviceId));
     });
 
     // Get device config/policy
@@ -477,12 +502,9 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
         return agentUnenroll(c, 'Device not found');
       }
 
-      let policy = null;
-      if (device.policyId) {
-        policy = await mdm.policies.get(device.policyId);
-      } else {
-        policy = await mdm.policies.getDefault();
-      }
+      // The same merged policy the heartbeat serves, so the two never
+      // disagree about what the device should be running.
+      const policy = await mdm.policies.getForDevice(deviceId);
 
       return agentOkResponse(c, {
         device: {
@@ -542,7 +564,8 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
     enrollment.get('/commands/pending', deviceAuth, async (c) => {
       const deviceId = c.get('deviceId') as string;
       const commands = await mdm.commands.getPending(deviceId);
-      return agentOkResponse(c, { commands });
+      const cancelledCommandIds = await mdm.commands.getCancellations(deviceId);
+      return agentOkResponse(c, { commands, cancelledCommandIds });
     });
 
     // Agent-reported events (app crashes, kiosk exit attempts, security
@@ -573,8 +596,7 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
       const deviceId = c.get('deviceId') as string;
       const body = await c.req.json<{ provider: string; token: string }>();
 
-      await mdm.db.upsertPushToken({
-        deviceId,
+      await mdm.devices.registerPushToken(deviceId, {
         provider: body.provider as any,
         token: body.token,
       });
@@ -598,6 +620,23 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
       return agentOkResponse(c, { status: 'ok' });
     });
 
+    // Confirm receipt of a push message. The message id is the one the
+    // transport put on the push; it is matched against the device's own
+    // deliveries only, so one device cannot confirm another's.
+    enrollment.post('/push/receipt', deviceAuth, async (c) => {
+      const deviceId = c.get('deviceId') as string;
+      const body = await c.req.json<{ messageId?: string }>();
+
+      if (!body.messageId || typeof body.messageId !== 'string') {
+        throw new HTTPException(400, {
+          message: 'Missing or invalid required field: messageId (string)',
+        });
+      }
+
+      const delivery = await mdm.recordPushReceipt(deviceId, body.messageId);
+      return agentOkResponse(c, { status: 'ok', recorded: delivery !== null });
+    });
+
     // Acknowledge command
     enrollment.post('/commands/:id/ack', deviceAuth, async (c) => {
       const commandId = c.req.param('id');
@@ -608,11 +647,76 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
     // Complete command
     enrollment.post('/commands/:id/complete', deviceAuth, async (c) => {
       const commandId = c.req.param('id');
-      const body = await c.req.json<{ success: boolean; message?: string; data?: unknown }>();
+      const body = await c.req.json<{
+        success: boolean;
+        message?: string;
+        data?: unknown;
+        artifacts?: CommandArtifact[];
+      }>();
       const command = await mdm.commands.complete(commandId, body);
       return agentOkResponse(c, command);
     });
 
+    // Presigned upload URL for a screenshot, log or other file the command
+    // produces. The device PUTs the file there and reports the returned key
+    // in `artifacts` when it completes the command.
+    enrollment.post('/commands/:id/artifacts', deviceAuth, async (c) => {
+      const deviceId = c.get('deviceId') as string;
+      const body = await c.req.json<{ filename?: string; contentType?: string }>();
+
+      if (!body.filename || typeof body.filename !== 'string') {
+        throw new HTTPException(400, {
+          message: 'Missing or invalid required field: filename (string)',
+        });
+      }
+      if (!body.contentType || typeof body.contentType !== 'string') {
+        throw new HTTPException(400, {
+          message: 'Missing or invalid required field: contentType (string)',
+        });
+      }
+
+      const upload = await mdm.commands.createArtifactUpload(c.req.param('id'), {
+        filename: body.filename,
+        contentType: body.contentType,
+        deviceId,
+      });
+      return agentOkResponse(c, upload);
+    });
+
+    // Answer to a cancellation: 'aborted' if the device stopped (or never
+    // started) the command, 'too_late' if it had already run it.
+    enrollment.post('/commands/:id/cancellation', deviceAuth, async (c) => {
+      const deviceId = c.get('deviceId') as string;
+      const body = await c.req.json<{ outcome?: string }>();
+
+      if (body.outcome !== 'aborted' && body.outcome !== 'too_late') {
+        throw new HTTPException(400, {
+          message: "Missing or invalid required field: outcome ('aborted' or 'too_late')",
+        });
+      }
+
+      const command = await mdm.commands.confirmCancellation(c.req.param('id'), body.outcome, {
+        deviceId,
+      });
+      return agentOkResponse(c, command);
+    });
+
+    // Output from a line running in a shell session. Posted as it is
+    // produced; the command is completed as usual when the line exits.
+    enrollment.post('/shell/:sessionId/output', deviceAuth, async (c) => {
+      const deviceId = c.get('deviceId') as string;
+      const body = await c.req.json<ShellOutputChunk>();
+
+      if (!body.commandId || typeof body.commandId !== 'string') {
+        throw new HTTPException(400, {
+          message: 'Missing or invalid required field: commandId (string)',
+        });
+      }
+
+      await mdm.shell.appendOutput(c.req.param('sessionId'), deviceId, body);
+      return agentOkResponse(c, { status: 'ok' });
+    });
+
     // Fail command
     enrollment.post('/commands/:id/fail', deviceAuth, async (c) => {
       const commandId = c.req.param('id');
@@ -642,6 +746,8 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
         policyId: c.req.query('policyId'),
         groupId: c.req.query('groupId'),
         search: c.req.query('search'),
+        online: c.req.query('online') ? c.req.query('online') === 'true' : undefined,
+        complianceState: c.req.query('complianceState') as DeviceFilter['complianceState'],
         limit: c.req.query('limit') ? parseInt(c.req.query('limit')!) : undefined,
         offset: c.req.query('offset') ? parseInt(c.req.query('offset')!) : undefined,
       };
@@ -679,6 +785,23 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
       return c.json(device);
     });
 
+    // Switch the device's policy by time of week; null removes the schedule
+    devices.put('/:id/policy-schedule', async (c) => {
+      const { schedule } = await c.req.json<{ schedule?: PolicySchedule | null }>();
+      if (schedule === undefined) {
+        throw new HTTPException(400, { message: 'Missing required field: schedule' });
+      }
+      const device = await mdm.devices.setPolicySchedule(c.req.param('id'), schedule);
+      return c.json(device);
+    });
+
+    // Settings after the default, group and device policies are layered,
+    // with the layer each one came from
+    devices.get('/:id/effective-settings', async (c) => {
+      const effective = await mdm.devices.getEffectiveSettings(c.req.param('id'));
+      return c.json(effective);
+    });
+
     // Get device groups
     devices.get('/:id/groups', async (c) => {
       const groups = await mdm.devices.getGroups(c.req.param('id'));
@@ -701,7 +824,16 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
     // Send command to device
     devices.post('/:id/commands', async (c) => {
       const body = await c.req.json<Omit<SendCommandInput, 'deviceId'>>();
-      const command = await mdm.devices.sendCommand(c.req.param('id'), body);
+      if (!body?.type) {
+        throw new HTTPException(400, { message: 'Missing required field: type' });
+      }
+      // A payload that does not match its type's schema raises a
+      // ValidationError, which `onError` turns into a 400 carrying the
+      // offending field paths in `details.issues`.
+      const command = await mdm.devices.sendCommand(c.req.param('id'), {
+        ...withCommandDates(body),
+        requestedBy: actorId(c),
+      });
       return c.json(command, 201);
     });
 
@@ -729,7 +861,13 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
       const body = await c.req
         .json<{ preserveData?: boolean }>()
         .catch(() => ({ preserveData: undefined }));
-      const command = await mdm.devices.wipe(c.req.param('id'), body.preserveData);
+      // Spelled out rather than `devices.wipe()` so the requester is recorded:
+      // both wipe types are the usual candidates for `requireApproval`.
+      const command = await mdm.devices.sendCommand(c.req.param('id'), {
+        type: body.preserveData ? 'wipe' : 'factoryReset',
+        payload: { preserveData: body.preserveData },
+        requestedBy: actorId(c),
+      });
       return c.json(command, 201);
     });
 
@@ -762,6 +900,32 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
       return c.json(policy);
     });
 
+    // JSON Schema for policy settings, including plugin settings under `custom`
+    policies.get('/schema', (c) => {
+      return c.json(mdm.policies.getSchema());
+    });
+
+    // List policy templates and their parameter schemas
+    policies.get('/templates', (c) => {
+      const templates = mdm.policies
+        .listTemplates()
+        .map(({ id, name, description, parameters }) => ({ id, name, description, parameters }));
+      return c.json({ templates });
+    });
+
+    // Create a policy from a template
+    policies.post('/templates/:templateId', async (c) => {
+      const { params, ...options } = await c.req.json<
+        { params?: Record<string, unknown> } & CreatePolicyFromTemplateOptions
+      >();
+      const policy = await mdm.policies.createFromTemplate(
+        c.req.param('templateId'),
+        params ?? {},
+        options,
+      );
+      return c.json(policy, 201);
+    });
+
     // Get policy
     policies.get('/:id', async (c) => {
       const policy = await mdm.policies.get(c.req.param('id'));
@@ -797,6 +961,82 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
       return c.json(policy);
     });
 
+    // Field-level diff between two versions: /policies/:id/diff?from=7&to=9
+    policies.get('/:id/diff', async (c) => {
+      const from = Number(c.req.query('from'));
+      const to = Number(c.req.query('to'));
+      if (!Number.isInteger(from) || !Number.isInteger(to)) {
+        throw new HTTPException(400, {
+          message: 'Missing or invalid query parameters: from, to (version numbers)',
+        });
+      }
+      const diff = await mdm.policies.diff(c.req.param('id'), from, to);
+      return c.json(diff);
+    });
+
+    // Dry run of an update: which devices it reaches and what it does to them
+    policies.post('/:id/simulate', async (c) => {
+      const body = await c.req.json<PolicyImpactInput>();
+      if (body.settings === undefined && body.complianceRules === undefined) {
+        throw new HTTPException(400, {
+          message: 'Missing required field: settings or complianceRules',
+        });
+      }
+      const impact = await mdm.policies.simulate(c.req.param('id'), body);
+      return c.json(impact);
+    });
+
+    // Staged rollout: publish new settings to a percentage of devices, then
+    // widen, pause, resume or roll back
+    policies.post('/:id/rollout', async (c) => {
+      const body = await c.req.json<{ settings?: PolicySettings; percentage?: number }>();
+      if (!body.settings || typeof body.settings !== 'object') {
+        throw new HTTPException(400, { message: 'Missing or invalid required field: settings' });
+      }
+      if (typeof body.percentage !== 'number') {
+        throw new HTTPException(400, {
+          message: 'Missing or invalid required field: percentage (0-100)',
+        });
+      }
+      const policy = await mdm.policies.startRollout(c.req.param('id'), body.settings, {
+        percentage: body.percentage,
+      });
+      return c.json(policy);
+    });
+
+    policies.patch('/:id/rollout', async (c) => {
+      const body = await c.req.json<{ percentage?: number }>();
+      if (typeof body.percentage !== 'number') {
+        throw new HTTPException(400, {
+          message: 'Missing or invalid required field: percentage (0-100)',
+        });
+      }
+      const policy = await mdm.policies.setRolloutPercentage(c.req.param('id'), body.percentage);
+      return c.json(policy);
+    });
+
+    policies.post('/:id/rollout/pause', async (c) => {
+      const policy = await mdm.policies.pauseRollout(c.req.param('id'));
+      return c.json(policy);
+    });
+
+    policies.post('/:id/rollout/resume', async (c) => {
+      const policy = await mdm.policies.resumeRollout(c.req.param('id'));
+      return c.json(policy);
+    });
+
+    policies.post('/:id/rollout/rollback', async (c) => {
+      const body = await c.req.json<{ note?: string }>().catch(() => ({ note: undefined }));
+      const policy = await mdm.policies.rollbackRollout(c.req.param('id'), { note: body.note });
+      return c.json(policy);
+    });
+
+    // Rollout state across the fleet
+    policies.get('/:id/compliance', async (c) => {
+      const compliance = await mdm.policies.getCompliance(c.req.param('id'));
+      return c.json(compliance);
+    });
+
     // Get devices with this policy
     policies.get('/:id/devices', async (c) => {
       const devices = await mdm.policies.getDevices(c.req.param('id'));
@@ -974,6 +1214,16 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
       return c.json({ status: 'ok' });
     });
 
+    // Push a message to every device in the group
+    groups.post('/:id/broadcast', async (c) => {
+      const body = await c.req.json<PushMessage>();
+      if (!body?.type) {
+        throw new HTTPException(400, { message: 'Missing required field: type' });
+      }
+      const result = await mdm.push.broadcast(c.req.param('id'), body);
+      return c.json(result);
+    });
+
     // Get child groups
     groups.get('/:id/children', async (c) => {
       const children = await mdm.groups.getChildren(c.req.param('id'));
@@ -998,6 +1248,8 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
     commands.get('/', async (c) => {
       const filter: CommandFilter = {
         deviceId: c.req.query('deviceId'),
+        campaignId: c.req.query('campaignId'),
+        workflowId: c.req.query('workflowId'),
         status: c.req.query('status') as any,
         type: c.req.query('type') as any,
         limit: c.req.query('limit') ? parseInt(c.req.query('limit')!) : undefined,
@@ -1008,6 +1260,97 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
       return c.json({ commands: result });
     });
 
+    // Send one command to many devices. Registered before `/:id` so the
+    // campaign paths are not read as command ids.
+    commands.post('/bulk', async (c) => {
+      const body = await c.req.json<SendBulkCommandInput>();
+      if (!body?.type) {
+        throw new HTTPException(400, { message: 'Missing required field: type' });
+      }
+      if (!body.target && !body.filter) {
+        throw new HTTPException(400, { message: 'A bulk command needs a target or a filter' });
+      }
+      const campaign = await mdm.commands.sendBulk({
+        ...withCommandDates(body),
+        requestedBy: actorId(c),
+      });
+      return c.json(campaign, 201);
+    });
+
+    // List campaigns
+    commands.get('/campaigns', async (c) => {
+      const campaigns = await mdm.commands.listCampaigns({
+        status: c.req.query('status') as CommandCampaignFilter['status'],
+        limit: c.req.query('limit') ? parseInt(c.req.query('limit')!) : undefined,
+        offset: c.req.query('offset') ? parseInt(c.req.query('offset')!) : undefined,
+      });
+      return c.json({ campaigns });
+    });
+
+    // Get campaign with its progress
+    commands.get('/campaigns/:id', async (c) => {
+      const id = c.req.param('id');
+      const campaign = await mdm.commands.getCampaign(id);
+      if (!campaign) {
+        throw new HTTPException(404, { message: 'Campaign not found' });
+      }
+      const progress = await mdm.commands.getCampaignProgress(id);
+      return c.json({ ...campaign, progress });
+    });
+
+    // Cancel every campaign command not yet picked up by its device
+    commands.post('/campaigns/:id/cancel', async (c) => {
+      const progress = await mdm.commands.cancelCampaign(c.req.param('id'));
+      return c.json(progress);
+    });
+
+    // Start a multi-step workflow on one device
+    commands.post('/workflows', async (c) => {
+      const body = await c.req.json<StartCommandWorkflowInput>();
+      if (!body?.deviceId) {
+        throw new HTTPException(400, { message: 'Missing required field: deviceId' });
+      }
+      if (!Array.isArray(body.steps) || body.steps.length === 0) {
+        throw new HTTPException(400, { message: 'A workflow needs at least one step' });
+      }
+      if (body.steps.some((step) => !step?.type)) {
+        throw new HTTPException(400, { message: 'Every workflow step needs a type' });
+      }
+      const workflow = await mdm.commands.startWorkflow({
+        ...body,
+        requestedBy: actorId(c),
+      });
+      return c.json(workflow, 201);
+    });
+
+    // List workflows
+    commands.get('/workflows', async (c) => {
+      const workflows = await mdm.commands.listWorkflows({
+        deviceId: c.req.query('deviceId'),
+        status: c.req.query('status') as CommandWorkflowFilter['status'],
+        limit: c.req.query('limit') ? parseInt(c.req.query('limit')!) : undefined,
+        offset: c.req.query('offset') ? parseInt(c.req.query('offset')!) : undefined,
+      });
+      return c.json({ workflows });
+    });
+
+    // Get workflow with the commands sent for its steps
+    commands.get('/workflows/:id', async (c) => {
+      const id = c.req.param('id');
+      const workflow = await mdm.commands.getWorkflow(id);
+      if (!workflow) {
+        throw new HTTPException(404, { message: 'Workflow not found' });
+      }
+      const stepCommands = await mdm.commands.list({ workflowId: id });
+      return c.json({ ...workflow, commands: stepCommands });
+    });
+
+    // Stop a workflow; its current command is cancelled if not yet picked up
+    commands.post('/workflows/:id/cancel', async (c) => {
+      const workflow = await mdm.commands.cancelWorkflow(c.req.param('id'));
+      return c.json(workflow);
+    });
+
     // Get command
     commands.get('/:id', async (c) => {
       const command = await mdm.commands.get(c.req.param('id'));
@@ -1017,10 +1360,35 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
       return c.json(command);
     });
 
+    // Push deliveries for a command, and whether the device confirmed them
+    commands.get('/:id/deliveries', async (c) => {
+      const id = c.req.param('id');
+      const command = await mdm.commands.get(id);
+      if (!command) {
+        throw new HTTPException(404, { message: 'Command not found' });
+      }
+      const deliveries = await mdm.commands.getDeliveries(id);
+      return c.json({ deliveries });
+    });
+
+    // Short-lived download URL for an artifact the device attached to the
+    // command's result
+    commands.get('/:id/artifacts/download', async (c) => {
+      const key = c.req.query('key');
+      if (!key) {
+        throw new HTTPException(400, { message: 'Missing required query parameter: key' });
+      }
+      const download = await mdm.commands.getArtifactDownloadUrl(c.req.param('id'), key);
+      return c.json(download);
+    });
+
     // Send command
     commands.post('/', async (c) => {
       const body = await c.req.json<SendCommandInput>();
-      const command = await mdm.commands.send(body);
+      const command = await mdm.commands.send({
+        ...withCommandDates(body),
+        requestedBy: actorId(c),
+      });
       return c.json(command, 201);
     });
 
@@ -1030,6 +1398,37 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
       return c.json(command);
     });
 
+    // Approve or reject a command held in `awaiting_approval`. Routed through
+    // a user-scoped instance so the decision is permission-checked and both
+    // the requester and the reviewer land in the audit log. The reviewer is
+    // the authenticated user, never a name from the request body.
+    commands.post('/:id/approve', async (c) => {
+      const approvedBy = actorId(c);
+      if (!approvedBy) {
+        throw new HTTPException(403, { message: 'Approving a command requires a signed-in user' });
+      }
+      const scoped = mdm.withContext({
+        userId: approvedBy,
+        userAgent: c.req.header('user-agent'),
+      });
+      const command = await scoped.commands.approve(c.req.param('id'), approvedBy);
+      return c.json(command);
+    });
+
+    commands.post('/:id/reject', async (c) => {
+      const body = await c.req.json<{ reason?: string }>().catch(() => ({ reason: undefined }));
+      const rejectedBy = actorId(c);
+      if (!rejectedBy) {
+        throw new HTTPException(403, { message: 'Rejecting a command requires a signed-in user' });
+      }
+      const scoped = mdm.withContext({
+        userId: rejectedBy,
+        userAgent: c.req.header('user-agent'),
+      });
+      const command = await scoped.commands.reject(c.req.param('id'), rejectedBy, body.reason);
+      return c.json(command);
+    });
+
     app.route('/commands', commands);
   }
 
@@ -1060,6 +1459,113 @@ export function honoAdapter(mdm: MDMInstance, options: HonoAdapterOptions = {}):
     app.route('/events', events);
   }
 
+  // ============================================
+  // Shell Session Routes
+  // ============================================
+
+  if (routes.shell) {
+    const shell = new Hono<MDMEnv>();
+
+    if (enableAuth) {
+      shell.use('/*', adminAuth);
+    }
+
+    // Open a session
+    shell.post('/sessions', async (c) => {
+      const body = await c.req.json<OpenShellSessionInput>();
+      if (!body.deviceId || typeof body.deviceId !== 'string') {
+        throw new HTTPException(400, {
+          message: 'Missing or invalid required field: deviceId (string)',
+        });
+      }
+      const session = await mdm.shell.open({
+        deviceId: body.deviceId,
+        idleTimeoutSeconds: body.idleTimeoutSeconds,
+        maxDurationSeconds: body.maxDurationSeconds,
+        openedBy: actorId(c),
+      });
+      return c.json(session, 201);
+    });
+
+    // List open sessions
+    shell.get('/sessions', async (c) => {
+      const sessions = await mdm.shell.list({ deviceId: c.req.query('deviceId') });
+      return c.json({ sessions });
+    });
+
+    // Get session
+    shell.get('/sessions/:id', async (c) => {
+      const session = await mdm.shell.get(c.req.param('id'));
+      if (!session) {
+        throw new HTTPException(404, { message: 'Shell session not found' });
+      }
+      return c.json(session);
+    });
+
+    // Run a line
+    shell.post('/sessions/:id/exec', async (c) => {
+      const body = await c.req.json<{ command?: string }>();
+      if (!body.command || typeof body.command !== 'string') {
+        throw new HTTPException(400, {
+          message: 'Missing or invalid required field: command (string)',
+        });
+      }
+      const command = await mdm.shell.exec(c.req.param('id'), body.command, { by: actorId(c) });
+      return c.json(command, 201);
+    });
+
+    // Server-sent events: one `input`, `output`, `exit` or `closed` event per
+    // frame. The stream ends after `closed`.
+    shell.get('/sessions/:id/stream', async (c) => {
+      const id = c.req.param('id');
+      if (!(await mdm.shell.get(id))) {
+        throw new HTTPException(404, { message: 'Shell session not found' });
+      }
+
+      return streamSSE(c, async (stream) => {
+        let ended = false;
+        let end!: () => void;
+        const endedSignal = new Promise<void>((resolve) => {
+          end = () => {
+            ended = true;
+            resolve();
+          };
+        });
+
+        let writes = Promise.resolve();
+        const unsubscribe = mdm.shell.subscribe(id, (frame) => {
+          writes = writes.then(() =>
+            stream.writeSSE({ event: frame.type, data: JSON.stringify(frame) }),
+          );
+          if (frame.type === 'closed') end();
+        });
+        stream.onAbort(end);
+
+        try {
+          while (!ended) {
+            await Promise.race([stream.sleep(SHELL_STREAM_HEARTBEAT_MS), endedSignal]);
+            // Timeouts are enforced when a session is used; checking it here
+            // is what closes one nobody is typing into.
+            if (!ended && (await mdm.shell.get(id))) {
+              writes = writes.then(() => stream.write(': ping\n\n').then(() => undefined));
+            }
+          }
+          await writes;
+        } finally {
+          unsubscribe();
+        }
+      });
+    });
+
+    // Close a session
+    shell.post('/sessions/:id/close', async (c) => {
+      const session = await mdm.shell.close(c.req.param('id'), { by: actorId(c) });
+      return c.json(session);
+    });
+
+    app.route('/shell', shell);
+  }
+
   // ============================================
   // Health Check
   // ============================================
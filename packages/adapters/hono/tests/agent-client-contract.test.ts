@@ -33,6 +33,7 @@ function createMemoryAdapter() {
   const groups = new Map<string, any>();
   const deviceGroups: { deviceId: string; groupId: string }[] = [];
   const pushTokens = new Map<string, any>();
+  const pushDeliveries: any[] = [];
 
   let idCounter = 0;
   const nextId = (prefix: string) => `${prefix}-${++idCounter}`;
@@ -249,8 +250,28 @@ function createMemoryAdapter() {
       }
     },
 
+    // Push deliveries
+    async createPushDelivery(data: any) {
+      const now = new Date();
+      const delivery = { id: nextId('pd'), createdAt: now, updatedAt: now, ...data };
+      pushDeliveries.push(delivery);
+      return delivery;
+    },
+    async markPushDelivered(deviceId: string, messageId: string, at: Date) {
+      const delivery = pushDeliveries.find(
+        (d) => d.deviceId === deviceId && d.messageId === messageId,
+      );
+      if (!delivery) return null;
+      Object.assign(delivery, { status: 'delivered', deliveredAt: delivery.deliveredAt ?? at });
+      return delivery;
+    },
+    async listPushDeliveries(filter?: any) {
+      return pushDeliveries.filter((d) => !filter?.commandId || d.commandId === filter.commandId);
+    },
+
     // Test hooks
     _pushTokens: pushTokens,
+    _pushDeliveries: pushDeliveries,
     _events: events,
   };
 }
@@ -400,6 +421,22 @@ describe('client ↔ server agent contract', () => {
     expect(stack.db._pushTokens.get(`${deviceId}:fcm`)).toBeUndefined();
   });
 
+  it('confirms receipt of a push message', async () => {
+    const { deviceId } = await stack.client.enroll(enrollmentRequest());
+    await stack.db.createPushDelivery({
+      messageId: 'msg-1',
+      deviceId,
+      messageType: 'command.sync',
+      status: 'sent',
+    });
+
+    await stack.client.confirmPushReceipt('msg-1');
+    expect(stack.db._pushDeliveries[0]).toMatchObject({ status: 'delivered' });
+
+    // A receipt for a message the server never sent is accepted and ignored.
+    await expect(stack.client.confirmPushReceipt('msg-unknown')).resolves.toBeUndefined();
+  });
+
   it('proactively refreshes the device token', async () => {
     await stack.client.enroll(enrollmentRequest());
     const before = stack.client.state.token;
@@ -0,0 +1,60 @@
+import { createMDM, createSilentLogger } from '@openmdm/core';
+import { describe, expect, it, vi } from 'vitest';
+import { honoAdapter } from '../src/index';
+
+/**
+ * The approval gate is only as good as the identities it compares. Both the
+ * requester and the reviewer come from the authenticated admin; a name in
+ * the request body is ignored, or a caller could approve their own command
+ * by claiming to be someone else.
+ */
+
+function buildApp() {
+  const createCommand = vi.fn(async (data: any) => ({ id: 'cmd-1', ...data }));
+  const mdm = createMDM({
+    database: {
+      createCommand,
+      findDevice: vi.fn(async (id: string) => ({ id, status: 'enrolled' })),
+      createEvent: vi.fn(async () => ({})),
+    } as any,
+    commands: { requireApproval: ['wipe'] },
+    logger: createSilentLogger(),
+  });
+  const app = honoAdapter(mdm, { enableAuth: false });
+  return { app, mdm, createCommand };
+}
+
+function post(app: ReturnType<typeof buildApp>['app'], path: string, body: unknown) {
+  return app.request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('command approval identities', () => {
+  it('does not take the requester from the body', async () => {
+    const { app, createCommand } = buildApp();
+
+    const res = await post(app, '/commands', {
+      deviceId: 'device-1',
+      type: 'wipe',
+      requestedBy: 'alice',
+    });
+
+    expect(res.status).toBe(201);
+    expect(createCommand.mock.calls[0][0].requestedBy).toBeUndefined();
+  });
+
+  it('refuses a decision without a signed-in reviewer', async () => {
+    const { app, mdm } = buildApp();
+    const withContext = vi.spyOn(mdm, 'withContext');
+
+    const approved = await post(app, '/commands/cmd-1/approve', { approvedBy: 'bob' });
+    const rejected = await post(app, '/commands/cmd-1/reject', { rejectedBy: 'bob' });
+
+    expect(approved.status).toBe(403);
+    expect(rejected.status).toBe(403);
+    expect(withContext).not.toHaveBeenCalled();
+  });
+});
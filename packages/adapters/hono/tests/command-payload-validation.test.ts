@@ -0,0 +1,64 @@
+import { createMDM, createSilentLogger } from '@openmdm/core';
+import { describe, expect, it, vi } from 'vitest';
+import { honoAdapter } from '../src/index';
+
+/**
+ * A bad command payload is the caller's mistake, and the caller should hear
+ * about it — with the field that is wrong — rather than the device finding
+ * out later. Core validates payloads against per-type schemas and throws a
+ * ValidationError; these tests pin that it reaches the admin as a 400 with
+ * the field paths, and that nothing is queued.
+ */
+
+function buildApp() {
+  const createCommand = vi.fn();
+  const mdm = createMDM({
+    database: { createCommand } as any,
+    logger: createSilentLogger(),
+  });
+  const app = honoAdapter(mdm, { enableAuth: false });
+  return { app, createCommand };
+}
+
+function postCommand(app: ReturnType<typeof buildApp>['app'], body: unknown) {
+  return app.request('/devices/device-1/commands', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('POST /devices/:id/commands payload validation', () => {
+  it('rejects a misspelled field with its path', async () => {
+    const { app, createCommand } = buildApp();
+
+    const res = await postCommand(app, { type: 'setWifi', payload: { ssdi: 'Store-5' } });
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.code).toBe('VALIDATION_ERROR');
+    expect(body.details.issues).toEqual([
+      { path: 'payload.ssid', message: 'is required' },
+      { path: 'payload.ssdi', message: 'is not a known field' },
+    ]);
+    expect(createCommand).not.toHaveBeenCalled();
+  });
+
+  it('rejects a field of the wrong type', async () => {
+    const { app } = buildApp();
+
+    const res = await postCommand(app, { type: 'setVolume', payload: { level: 'loud' } });
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.details.issues).toEqual([{ path: 'payload.level', message: 'must be a number' }]);
+  });
+
+  it('rejects a command with no type', async () => {
+    const { app } = buildApp();
+
+    const res = await postCommand(app, { payload: {} });
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -27,8 +27,8 @@ function buildMockMDM(overrides: Partial<MDMInstance> = {}): MDMInstance {
 
   // Minimal surface: honoAdapter starts up and /agent/heartbeat needs to
   // go through deviceAuth → processHeartbeat → commands.getPending →
-  // devices.get. Everything else can be a no-op stub; the type cast is
-  // deliberate.
+  // commands.getCancellations → devices.get → policies.getForDevice.
+  // Everything else can be a no-op stub; the type cast is deliberate.
   const devices = {
     get: vi.fn(async (_id: string) => ({
       id: 'device-42',
@@ -42,11 +42,13 @@ function buildMockMDM(overrides: Partial<MDMInstance> = {}): MDMInstance {
 
   const commands = {
     getPending: vi.fn(async () => []),
+    getCancellations: vi.fn(async () => []),
   };
 
   const policies = {
     get: vi.fn(async () => null),
     getDefault: vi.fn(async () => null),
+    getForDevice: vi.fn(async () => null),
   };
 
   // Silent logger stand-in so the hono adapter's error handler can
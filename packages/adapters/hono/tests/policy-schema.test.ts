@@ -0,0 +1,55 @@
+import { createMDM, createSilentLogger } from '@openmdm/core';
+import { describe, expect, it, vi } from 'vitest';
+import { honoAdapter } from '../src/index';
+
+/**
+ * Admin UIs render policy forms from `GET /policies/schema`, and a policy
+ * that does not match it is refused with the offending paths.
+ */
+
+function buildApp() {
+  const createPolicy = vi.fn(async (data: any) => ({ id: 'pol_1', ...data }));
+  const mdm = createMDM({
+    database: { createPolicy } as any,
+    logger: createSilentLogger(),
+    plugins: [
+      {
+        name: 'printer',
+        version: '1.0.0',
+        policySchema: { printerModel: { type: 'string' } },
+      },
+    ],
+  });
+  const app = honoAdapter(mdm, { enableAuth: false });
+  return { app, createPolicy };
+}
+
+describe('policy settings schema', () => {
+  it('is served with plugin settings under custom', async () => {
+    const { app } = buildApp();
+
+    const res = await app.request('/policies/schema');
+
+    expect(res.status).toBe(200);
+    const schema = await res.json();
+    expect(schema.title).toBe('PolicySettings');
+    expect(schema.properties.custom.properties).toEqual({ printerModel: { type: 'string' } });
+  });
+
+  it('rejects a policy that does not match it', async () => {
+    const { app, createPolicy } = buildApp();
+
+    const res = await app.request('/policies', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Store', settings: { camera: 'disabled' } }),
+    });
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.details.issues).toEqual([
+      { path: 'settings.camera', message: 'must be one of: on, off, user' },
+    ]);
+    expect(createPolicy).not.toHaveBeenCalled();
+  });
+});
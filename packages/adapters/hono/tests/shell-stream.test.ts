@@ -0,0 +1,101 @@
+import { createMDM, createSilentLogger } from '@openmdm/core';
+import { describe, expect, it, vi } from 'vitest';
+import { honoAdapter } from '../src/index';
+
+/**
+ * The shell session stream is what an admin console reads while a field
+ * engineer types. These tests pin that each frame arrives as its own SSE
+ * event, in order, and that closing the session ends the response instead
+ * of leaving the connection hanging.
+ */
+
+function buildApp(routes: { shell?: boolean } = { shell: true }) {
+  const commands = new Map<string, any>();
+  let counter = 0;
+  const database = {
+    async findDevice(id: string) {
+      return { id, status: 'enrolled' };
+    },
+    async findCommand(id: string) {
+      return commands.get(id) ?? null;
+    },
+    async createCommand(data: any) {
+      const command = { id: `command-${++counter}`, attemptCount: 0, ...data };
+      commands.set(command.id, command);
+      return command;
+    },
+    async updateCommand(id: string, data: any) {
+      const updated = { ...commands.get(id), ...data };
+      commands.set(id, updated);
+      return updated;
+    },
+    async createAuditLog(data: any) {
+      return { id: `audit-${++counter}`, ...data, createdAt: new Date() };
+    },
+    async createEvent(data: any) {
+      return { id: `event-${++counter}`, ...data, createdAt: new Date() };
+    },
+  } as any;
+
+  const mdm = createMDM({
+    database,
+    push: {
+      send: vi.fn(async () => ({ success: true })),
+      sendBatch: vi.fn(async () => ({ successCount: 0, failureCount: 0, results: [] })),
+    },
+    audit: { enabled: true },
+    logger: createSilentLogger(),
+  });
+  const app = honoAdapter(mdm, { enableAuth: false, routes });
+  return { app, mdm };
+}
+
+function post(app: ReturnType<typeof buildApp>['app'], path: string, body: unknown = {}) {
+  return app.request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('GET /shell/sessions/:id/stream', () => {
+  it('streams each frame as an event and ends when the session closes', async () => {
+    const { app, mdm } = buildApp();
+    const session = await (await post(app, '/shell/sessions', { deviceId: 'd1' })).json();
+
+    const stream = await app.request(`/shell/sessions/${session.id}/stream`);
+    expect(stream.headers.get('Content-Type')).toContain('text/event-stream');
+
+    const command = await (
+      await post(app, `/shell/sessions/${session.id}/exec`, { command: 'uptime' })
+    ).json();
+    await mdm.shell.appendOutput(session.id, 'd1', {
+      commandId: command.id,
+      stream: 'stdout',
+      data: 'up 3 days',
+    });
+    await mdm.commands.complete(command.id, { success: true, data: { exitCode: 0 } });
+    await post(app, `/shell/sessions/${session.id}/close`);
+
+    const events = (await stream.text()).match(/^event: \w+$/gm);
+    expect(events).toEqual(['event: input', 'event: output', 'event: exit', 'event: closed']);
+  });
+
+  it('is 404 for a session that is not open', async () => {
+    const { app } = buildApp();
+
+    const res = await app.request('/shell/sessions/nope/stream');
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('shell routes', () => {
+  it('are not mounted unless enabled', async () => {
+    const { app } = buildApp({});
+
+    const res = await post(app, '/shell/sessions', { deviceId: 'd1' });
+
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,185 @@
+import type {
+  CommandCampaign,
+  CommandCampaignProgress,
+  CommandType,
+  DeployTarget,
+  DeviceFilter,
+  DeviceStatus,
+  MDMInstance,
+} from '@openmdm/core';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import ora from 'ora';
+import { withMDM } from '../config.js';
+
+interface CreateOptions {
+  name?: string;
+  payload?: string;
+  priority?: string;
+  notBefore?: string;
+  device?: string[];
+  group?: string[];
+  policy?: string[];
+  status?: string;
+  force?: boolean;
+  json?: boolean;
+}
+
+interface ShowOptions {
+  json?: boolean;
+}
+
+const VALID_STATUSES: readonly DeviceStatus[] = [
+  'pending',
+  'enrolled',
+  'unenrolled',
+  'blocked',
+] as const;
+
+export const createCampaign = withMDM(
+  async (mdm: MDMInstance, type: string, options: CreateOptions) => {
+    const target: DeployTarget = {};
+    if (options.device?.length) target.devices = options.device;
+    if (options.group?.length) target.groups = options.group;
+    if (options.policy?.length) target.policies = options.policy;
+
+    let filter: DeviceFilter | undefined;
+    if (options.status) {
+      if (!(VALID_STATUSES as readonly string[]).includes(options.status)) {
+        throw new Error(
+          `Invalid status "${options.status}". Valid values: ${VALID_STATUSES.join(', ')}`,
+        );
+      }
+      filter = { status: options.status as DeviceStatus };
+    }
+
+    const hasTarget = Object.keys(target).length > 0;
+    if (!hasTarget && !filter) {
+      throw new Error('Pass at least one of --device, --group, --policy or --status');
+    }
+
+    let payload: Record<string, unknown> | undefined;
+    if (options.payload) {
+      try {
+        payload = JSON.parse(options.payload);
+      } catch {
+        throw new Error('--payload must be valid JSON');
+      }
+    }
+
+    let priority: number | undefined;
+    if (options.priority !== undefined) {
+      priority = Number(options.priority);
+      if (!Number.isInteger(priority)) {
+        throw new Error('--priority must be an integer');
+      }
+    }
+
+    let notBefore: Date | undefined;
+    if (options.notBefore) {
+      notBefore = new Date(options.notBefore);
+      if (Number.isNaN(notBefore.getTime())) {
+        throw new Error('--not-before must be an ISO 8601 time, e.g. 2026-01-31T02:00:00Z');
+      }
+    }
+
+    if (!options.force) {
+      const { confirm } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: `Send "${type}" to every targeted device?`,
+          default: false,
+        },
+      ]);
+
+      if (!confirm) {
+        console.log(chalk.yellow('Campaign cancelled.'));
+        return;
+      }
+    }
+
+    const spinner = ora(`Queueing ${type} commands...`).start();
+    const campaign = await mdm.commands.sendBulk({
+      name: options.name,
+      type: type as CommandType,
+      payload,
+      target: hasTarget ? target : undefined,
+      filter,
+      priority,
+      notBefore,
+    });
+    spinner.succeed(
+      `Campaign ${campaign.id} queued ${campaign.deviceCount} command${campaign.deviceCount === 1 ? '' : 's'}`,
+    );
+
+    if (options.json) {
+      console.log(JSON.stringify(campaign, null, 2));
+      return;
+    }
+
+    console.log(chalk.gray(`Track it with: openmdm campaign show ${campaign.id}`));
+  },
+);
+
+export const showCampaign = withMDM(
+  async (mdm: MDMInstance, campaignId: string, options: ShowOptions) => {
+    const spinner = ora(`Fetching campaign ${campaignId}...`).start();
+    const campaign = await mdm.commands.getCampaign(campaignId);
+
+    if (!campaign) {
+      spinner.stop();
+      console.log(chalk.red(`\nCampaign not found: ${campaignId}`));
+      process.exitCode = 1;
+      return;
+    }
+
+    const progress = await mdm.commands.getCampaignProgress(campaignId);
+    spinner.stop();
+
+    if (options.json) {
+      console.log(JSON.stringify({ ...campaign, progress }, null, 2));
+      return;
+    }
+
+    renderCampaign(campaign, progress);
+  },
+);
+
+export const cancelCampaign = withMDM(async (mdm: MDMInstance, campaignId: string) => {
+  const spinner = ora(`Cancelling campaign ${campaignId}...`).start();
+  const progress = await mdm.commands.cancelCampaign(campaignId);
+  spinner.succeed(`Campaign ${campaignId} cancelled`);
+  console.log(
+    chalk.gray(
+      `${progress.cancelled} cancelled, ${progress.completed} already completed, ${progress.failed} failed`,
+    ),
+  );
+});
+
+function renderCampaign(campaign: CommandCampaign, progress: CommandCampaignProgress): void {
+  console.log(chalk.blue(`\n📣 Campaign ${campaign.id}\n`));
+  if (campaign.name) console.log(`${chalk.gray('Name:'.padEnd(12))} ${campaign.name}`);
+  console.log(`${chalk.gray('Command:'.padEnd(12))} ${campaign.type}`);
+  console.log(
+    `${chalk.gray('Status:'.padEnd(12))} ${
+      campaign.status === 'active' ? chalk.green(campaign.status) : chalk.yellow(campaign.status)
+    }`,
+  );
+  console.log(`${chalk.gray('Created:'.padEnd(12))} ${campaign.createdAt.toLocaleString()}`);
+  console.log(`${chalk.gray('Devices:'.padEnd(12))} ${progress.total}\n`);
+
+  const rows: Array<[string, number, (text: string) => string]> = [
+    ['pending', progress.pending, chalk.gray],
+    ['sent', progress.sent, chalk.cyan],
+    ['acknowledged', progress.acknowledged, chalk.cyan],
+    ['completed', progress.completed, chalk.green],
+    ['failed', progress.failed, chalk.red],
+    ['expired', progress.expired, chalk.red],
+    ['cancelled', progress.cancelled, chalk.yellow],
+  ];
+
+  for (const [label, count, color] of rows) {
+    console.log(`  ${color(label.padEnd(14))} ${count}`);
+  }
+}
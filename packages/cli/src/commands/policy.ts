@@ -1,4 +1,13 @@
-import type { CreatePolicyInput, MDMInstance, Policy } from '@openmdm/core';
+import type {
+  CreatePolicyInput,
+  JsonSchema,
+  MDMInstance,
+  Policy,
+  PolicyImpactInput,
+  PolicySchedule,
+  PolicySettingChange,
+  PolicyTemplate,
+} from '@openmdm/core';
 import chalk from 'chalk';
 import fs from 'fs/promises';
 import inquirer from 'inquirer';
@@ -15,6 +24,30 @@ interface ShowOptions {
 
 interface CreateOptions {
   file?: string;
+  template?: string;
+  /** Template parameters as `key=value`. */
+  set?: string[];
+  name?: string;
+  /** Create without asking: every required parameter must be `--set`. */
+  yes?: boolean;
+}
+
+interface DiffOptions {
+  json?: boolean;
+}
+
+interface SimulateOptions {
+  file: string;
+  json?: boolean;
+}
+
+interface ScheduleOptions {
+  file?: string;
+  clear?: boolean;
+}
+
+interface ApplySchedulesOptions {
+  json?: boolean;
 }
 
 export const listPolicies = withMDM(async (mdm: MDMInstance, options: ListOptions) => {
@@ -83,7 +116,54 @@ export const showPolicy = withMDM(
   },
 );
 
+export const listPolicyTemplates = withMDM(async (mdm: MDMInstance, options: ListOptions) => {
+  const templates = mdm.policies.listTemplates();
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        templates.map(({ id, name, description, parameters }) => ({
+          id,
+          name,
+          description,
+          parameters,
+        })),
+        null,
+        2,
+      ),
+    );
+    return;
+  }
+
+  console.log(chalk.blue('\n📋 Policy templates\n'));
+
+  for (const template of templates) {
+    console.log(`  ${chalk.bold(template.id)} ${chalk.gray(`— ${template.name}`)}`);
+    if (template.description) {
+      console.log(`    ${template.description}`);
+    }
+    const required = template.parameters.required ?? [];
+    for (const [name, schema] of Object.entries(template.parameters.properties ?? {})) {
+      const flags = [
+        required.includes(name) ? 'required' : null,
+        schema.enum ? schema.enum.join('|') : null,
+        schema.default !== undefined ? `default ${JSON.stringify(schema.default)}` : null,
+      ].filter(Boolean);
+      console.log(
+        chalk.gray(`    --set ${name}=…  ${schema.description ?? ''}`) +
+          (flags.length > 0 ? chalk.gray(` (${flags.join(', ')})`) : ''),
+      );
+    }
+    console.log('');
+  }
+});
+
 export const createPolicy = withMDM(async (mdm: MDMInstance, options: CreateOptions) => {
+  if (options.template) {
+    await createPolicyFromTemplate(mdm, options.template, options);
+    return;
+  }
+
   let input: CreatePolicyInput;
 
   if (options.file) {
@@ -184,6 +264,148 @@ export const createPolicy = withMDM(async (mdm: MDMInstance, options: CreateOpti
   spinner.succeed(`Policy "${policy.name}" created (${policy.id})`);
 });
 
+async function createPolicyFromTemplate(
+  mdm: MDMInstance,
+  templateId: string,
+  options: CreateOptions,
+): Promise<void> {
+  const template = mdm.policies.getTemplate(templateId);
+  if (!template) {
+    const available = mdm.policies
+      .listTemplates()
+      .map((t) => t.id)
+      .join(', ');
+    throw new Error(`Unknown policy template "${templateId}". Available: ${available}`);
+  }
+
+  const params = parseTemplateParams(template, options.set ?? []);
+  const missing = missingTemplateParams(template, params);
+  if (options.yes && missing.length > 0) {
+    throw new Error(
+      `Missing required template parameters (pass them with --set): ${missing.join(', ')}`,
+    );
+  }
+  // Once every required parameter is set, the rest keep the template defaults.
+  if (missing.length > 0) {
+    Object.assign(params, await promptTemplateParams(template, params));
+  }
+
+  console.log(chalk.blue('\nPolicy to create:'));
+  console.log(`  Name: ${options.name ?? template.name}`);
+  console.log(`  Template: ${template.id}`);
+  for (const [key, value] of Object.entries(params)) {
+    console.log(`  ${key}: ${JSON.stringify(value)}`);
+  }
+
+  const { confirm } = options.yes
+    ? { confirm: true }
+    : await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: 'Create this policy?',
+          default: true,
+        },
+      ]);
+
+  if (!confirm) {
+    console.log(chalk.yellow('Cancelled.'));
+    return;
+  }
+
+  const spinner = ora('Creating policy...').start();
+  const policy = await mdm.policies.createFromTemplate(template.id, params, {
+    name: options.name,
+  });
+  spinner.succeed(`Policy "${policy.name}" created (${policy.id})`);
+}
+
+/**
+ * Turn `--set key=value` pairs into template parameters, coercing each value
+ * to the type its parameter declares. Arrays are comma-separated. Values
+ * that do not coerce are passed through for core to reject with the
+ * parameter's path.
+ */
+export function parseTemplateParams(
+  template: PolicyTemplate,
+  pairs: string[],
+): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+
+  for (const pair of pairs) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Expected --set key=value, got "${pair}"`);
+    }
+    const key = pair.slice(0, separator);
+    params[key] = coerceParam(template.parameters.properties?.[key], pair.slice(separator + 1));
+  }
+
+  return params;
+}
+
+/** The template's required parameters that `given` leaves out. */
+export function missingTemplateParams(
+  template: PolicyTemplate,
+  given: Record<string, unknown>,
+): string[] {
+  return (template.parameters.required ?? []).filter((name) => given[name] === undefined);
+}
+
+function coerceParam(schema: JsonSchema | undefined, value: string): unknown {
+  switch (schema?.type) {
+    case 'integer':
+    case 'number':
+      return value.trim() !== '' && !Number.isNaN(Number(value)) ? Number(value) : value;
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'array':
+      return value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean);
+    default:
+      return value;
+  }
+}
+
+/** Ask for every parameter not already given. Blank optional answers are left out. */
+async function promptTemplateParams(
+  template: PolicyTemplate,
+  given: Record<string, unknown>,
+): Promise<Record<string, unknown>> {
+  const required = template.parameters.required ?? [];
+  const questions = Object.entries(template.parameters.properties ?? {})
+    .filter(([name]) => given[name] === undefined)
+    .map(([name, schema]) => {
+      const message = `${schema.description ?? name}:`;
+      if (schema.enum) {
+        return { type: 'list', name, message, choices: schema.enum, default: schema.default };
+      }
+      if (schema.type === 'boolean') {
+        return { type: 'confirm', name, message, default: schema.default ?? false };
+      }
+      return {
+        type: 'input',
+        name,
+        message: schema.type === 'array' ? `${message} (comma-separated)` : message,
+        validate: (v: string) =>
+          !required.includes(name) || v.trim().length > 0 || `${name} is required`,
+      };
+    });
+
+  const answers = (await inquirer.prompt(questions)) as Record<string, unknown>;
+  const params: Record<string, unknown> = {};
+  for (const [name, answer] of Object.entries(answers)) {
+    if (typeof answer !== 'string') {
+      params[name] = answer;
+    } else if (answer.trim() !== '') {
+      params[name] = coerceParam(template.parameters.properties?.[name], answer);
+    }
+  }
+  return params;
+}
+
 export const applyPolicy = withMDM(async (mdm: MDMInstance, policyId: string, deviceId: string) => {
   const spinner = ora(`Applying policy ${policyId} to device ${deviceId}...`).start();
   await mdm.policies.applyToDevice(policyId, deviceId);
@@ -191,6 +413,187 @@ export const applyPolicy = withMDM(async (mdm: MDMInstance, policyId: string, de
   console.log(chalk.gray('The device will receive the new policy on its next sync.'));
 });
 
+export const diffPolicy = withMDM(
+  async (
+    mdm: MDMInstance,
+    policyId: string,
+    fromVersion: string,
+    toVersion: string,
+    options: DiffOptions,
+  ) => {
+    const from = Number(fromVersion);
+    const to = Number(toVersion);
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      throw new Error('Versions must be integers');
+    }
+
+    const spinner = ora(`Comparing versions ${from} and ${to} of ${policyId}...`).start();
+    const diff = await mdm.policies.diff(policyId, from, to);
+    spinner.stop();
+
+    if (options.json) {
+      console.log(JSON.stringify(diff, null, 2));
+      return;
+    }
+
+    console.log(chalk.blue(`\n📋 Policy ${policyId}: v${from} → v${to}\n`));
+
+    if (diff.changes.length === 0) {
+      console.log(chalk.gray('No changes.'));
+      return;
+    }
+
+    for (const change of diff.changes) {
+      console.log(renderChange(change));
+    }
+
+    console.log(chalk.gray(`\n${diff.changes.length} change(s)`));
+  },
+);
+
+export const simulatePolicy = withMDM(
+  async (mdm: MDMInstance, policyId: string, options: SimulateOptions) => {
+    // Same shape as a policy file, so an edited copy of one can be checked
+    // before it is applied. Only the fields an update acts on are read.
+    const content = await fs.readFile(options.file, 'utf-8');
+    const parsed = JSON.parse(content) as PolicyImpactInput;
+    if (parsed.settings === undefined && parsed.complianceRules === undefined) {
+      throw new Error('File must include a "settings" object or "complianceRules"');
+    }
+
+    const spinner = ora(`Simulating update of ${policyId}...`).start();
+    const impact = await mdm.policies.simulate(policyId, {
+      settings: parsed.settings,
+      complianceRules: parsed.complianceRules,
+    });
+    spinner.stop();
+
+    if (options.json) {
+      console.log(JSON.stringify(impact, null, 2));
+      return;
+    }
+
+    console.log(
+      chalk.blue(
+        `\n📋 Policy ${policyId}: v${impact.currentVersion} → v${impact.nextVersion} (dry run)\n`,
+      ),
+    );
+
+    if (impact.changes.length === 0) {
+      console.log(chalk.gray('No settings changes.'));
+    }
+    for (const change of impact.changes) {
+      console.log(renderChange(change));
+    }
+
+    const { summary, push } = impact;
+    console.log('');
+    console.log(
+      `  ${chalk.gray('Devices:    ')} ${summary.devices} reached, ${summary.settingsChanged} with changed settings`,
+    );
+    console.log(
+      `  ${chalk.gray('Apps:       ')} ${summary.appInstalls} to install, ${summary.appUpdates} to update, ${summary.appRemovals} to remove`,
+    );
+    console.log(
+      `  ${chalk.gray('Compliance: ')} ${
+        summary.becomeNonCompliant > 0
+          ? chalk.red(`${summary.becomeNonCompliant} device(s) would become non-compliant`)
+          : chalk.green('no device would become non-compliant')
+      }`,
+    );
+    console.log(
+      `  ${chalk.gray('Push:       ')} ${push.immediate} message(s) now, ${push.onNextSync} device(s) on next sync`,
+    );
+
+    const notable = impact.devices.filter(
+      (device) =>
+        device.apps.install.length + device.apps.update.length + device.apps.remove.length > 0 ||
+        device.becomesNonCompliant,
+    );
+    if (notable.length === 0) return;
+
+    console.log('');
+    for (const device of notable) {
+      const via = device.groupId ? `group ${device.groupId}` : device.via;
+      console.log(`  ${device.deviceId} ${chalk.gray(`(${via})`)}`);
+      for (const packageName of device.apps.install) {
+        console.log(chalk.green(`    + ${packageName}`));
+      }
+      for (const packageName of device.apps.update) {
+        console.log(chalk.yellow(`    ~ ${packageName}`));
+      }
+      for (const packageName of device.apps.remove) {
+        console.log(chalk.red(`    - ${packageName}`));
+      }
+      if (device.becomesNonCompliant) {
+        const rules = device.complianceViolations.map((violation) => violation.ruleId);
+        console.log(chalk.red(`    ✗ non-compliant: ${rules.join(', ')}`));
+      }
+    }
+  },
+);
+
+export const schedulePolicy = withMDM(
+  async (mdm: MDMInstance, deviceId: string, options: ScheduleOptions) => {
+    if (!options.file === !options.clear) {
+      throw new Error('Pass either --file with a schedule or --clear');
+    }
+    const schedule = options.file
+      ? (JSON.parse(await fs.readFile(options.file, 'utf-8')) as PolicySchedule)
+      : null;
+
+    const spinner = ora(`Updating the policy schedule of ${deviceId}...`).start();
+    const device = await mdm.devices.setPolicySchedule(deviceId, schedule);
+
+    if (!schedule) {
+      spinner.succeed(`Policy schedule removed from ${deviceId}; it stays on ${device.policyId}`);
+      return;
+    }
+    spinner.succeed(`Policy schedule set on ${deviceId}; it is now on ${device.policyId}`);
+    for (const window of schedule.windows) {
+      const days = window.daysOfWeek.map((day) => WEEKDAYS[day]).join(',');
+      console.log(
+        `  ${chalk.gray(`${days} ${window.startTime}–${window.endTime}`)} ${window.policyId}`,
+      );
+    }
+    console.log(`  ${chalk.gray(`otherwise (${schedule.timezone})`)} ${schedule.defaultPolicyId}`);
+  },
+);
+
+export const applyPolicySchedules = withMDM(
+  async (mdm: MDMInstance, options: ApplySchedulesOptions) => {
+    const result = await mdm.policies.applySchedules();
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    console.log(
+      chalk.blue(
+        `\n🕒 ${result.checked} scheduled device(s), ${result.switched.length} switched\n`,
+      ),
+    );
+    for (const { deviceId, fromPolicyId, toPolicyId } of result.switched) {
+      console.log(`  ${deviceId} ${chalk.gray(`${fromPolicyId ?? '-'} →`)} ${toPolicyId}`);
+    }
+  },
+);
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function renderChange(change: PolicySettingChange): string {
+  const show = (value: unknown) => JSON.stringify(value);
+  switch (change.kind) {
+    case 'added':
+      return chalk.green(`  + ${change.path}: ${show(change.after)}`);
+    case 'removed':
+      return chalk.red(`  - ${change.path}: ${show(change.before)}`);
+    default:
+      return chalk.yellow(`  ~ ${change.path}: ${show(change.before)} → ${show(change.after)}`);
+  }
+}
+
 function renderPolicyDetails(policy: Policy, deviceCount: number): void {
   console.log(chalk.blue(`\n📋 Policy: ${policy.name}\n`));
   console.log(`  ${chalk.gray('ID:          ')} ${policy.id}`);
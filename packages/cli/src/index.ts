@@ -143,13 +143,26 @@ policyCmd
 
 policyCmd
   .command('create')
-  .description('Create a new policy interactively')
+  .description('Create a new policy interactively, from a template or from a file')
+  .option('-t, --template <templateId>', 'Create from a policy template')
+  .option('-s, --set <key=value...>', 'Template parameter (repeatable)')
+  .option('-n, --name <name>', 'Policy name (defaults to the template name)')
+  .option('-y, --yes', 'With --template, create without prompting')
   .option('-f, --file <path>', 'Create from JSON file')
   .action(async (options) => {
     const { createPolicy } = await import('./commands/policy.js');
     await createPolicy(options);
   });
 
+policyCmd
+  .command('templates')
+  .description('List policy templates and their parameters')
+  .option('-j, --json', 'Output as JSON')
+  .action(async (options) => {
+    const { listPolicyTemplates } = await import('./commands/policy.js');
+    await listPolicyTemplates(options);
+  });
+
 policyCmd
   .command('apply <policyId> <deviceId>')
   .description('Apply policy to a device')
@@ -158,6 +171,75 @@ policyCmd
     await applyPolicy(policyId, deviceId);
   });
 
+policyCmd
+  .command('diff <policyId> <fromVersion> <toVersion>')
+  .description('Show what changed between two versions of a policy')
+  .option('-j, --json', 'Output as JSON')
+  .action(async (policyId, fromVersion, toVersion, options) => {
+    const { diffPolicy } = await import('./commands/policy.js');
+    await diffPolicy(policyId, fromVersion, toVersion, options);
+  });
+
+policyCmd
+  .command('simulate <policyId>')
+  .description('Show which devices an update would reach and what it would do to them')
+  .requiredOption(
+    '-f, --file <path>',
+    'JSON file with the proposed settings and/or complianceRules',
+  )
+  .option('-j, --json', 'Output as JSON')
+  .action(async (policyId, options) => {
+    const { simulatePolicy } = await import('./commands/policy.js');
+    await simulatePolicy(policyId, options);
+  });
+
+policyCmd
+  .command('schedule <deviceId>')
+  .description('Switch the policy of a device by time of week')
+  .option('-f, --file <path>', 'JSON file with the policy schedule')
+  .option('--clear', 'Remove the schedule, keeping the current policy')
+  .action(async (deviceId, options) => {
+    const { schedulePolicy } = await import('./commands/policy.js');
+    await schedulePolicy(deviceId, options);
+  });
+
+policyCmd
+  .command('apply-schedules')
+  .description('Move scheduled devices onto the policy their schedule names now')
+  .option('-j, --json', 'Output as JSON')
+  .action(async (options) => {
+    const { applyPolicySchedules } = await import('./commands/policy.js');
+    await applyPolicySchedules(options);
+  });
+
+// Configuration bundle commands
+const bundleCmd = program
+  .command('bundle')
+  .description('Export and import policies, groups, apps and scheduled tasks as one file');
+
+bundleCmd
+  .command('export')
+  .description("Export this instance's configuration as a YAML or JSON bundle")
+  .option('-o, --output <path>', 'Write to a file instead of stdout')
+  .option('--format <format>', 'yaml or json (default: from the file extension, else yaml)')
+  .option('--include-secrets', 'Write wifi, VPN and kiosk exit passwords instead of redacting them')
+  .action(async (options) => {
+    const { exportBundle } = await import('./commands/bundle.js');
+    await exportBundle(options);
+  });
+
+bundleCmd
+  .command('import <file>')
+  .description('Make this instance match a bundle: create, update and, with --prune, delete')
+  .option('--dry-run', 'Show the plan without applying it')
+  .option('--prune', 'Delete resources of the kinds the bundle lists that it does not mention')
+  .option('-u, --user <userId>', 'Actor to record on audit entries')
+  .option('-j, --json', 'Output the plan as JSON')
+  .action(async (file, options) => {
+    const { importBundle } = await import('./commands/bundle.js');
+    await importBundle(file, options);
+  });
+
 // Enrollment commands
 const enrollCmd = program.command('enroll').description('Device enrollment commands');
 
@@ -195,6 +277,46 @@ enrollCmd
     await generateToken(options);
   });
 
+// Campaign commands
+const campaignCmd = program
+  .command('campaign')
+  .description('Send one command to many devices and track it');
+
+campaignCmd
+  .command('create <type>')
+  .description('Queue a command for every device in the target')
+  .option('-d, --device <deviceIds...>', 'Target devices')
+  .option('-g, --group <groupIds...>', 'Target every device in these groups')
+  .option('-p, --policy <policyIds...>', 'Target every device on these policies')
+  .option('-s, --status <status>', 'Target every device with this status')
+  .option('-n, --name <name>', 'Campaign name')
+  .option('--payload <json>', 'Command payload as JSON')
+  .option('--priority <priority>', 'Delivery priority; higher goes first (default: 0)')
+  .option('--not-before <time>', 'Do not deliver before this ISO 8601 time')
+  .option('-f, --force', 'Skip confirmation')
+  .option('-j, --json', 'Output as JSON')
+  .action(async (type, options) => {
+    const { createCampaign } = await import('./commands/campaign.js');
+    await createCampaign(type, options);
+  });
+
+campaignCmd
+  .command('show <campaignId>')
+  .description('Show campaign progress')
+  .option('-j, --json', 'Output as JSON')
+  .action(async (campaignId, options) => {
+    const { showCampaign } = await import('./commands/campaign.js');
+    await showCampaign(campaignId, options);
+  });
+
+campaignCmd
+  .command('cancel <campaignId>')
+  .description('Cancel every command in the campaign not yet picked up')
+  .action(async (campaignId) => {
+    const { cancelCampaign } = await import('./commands/campaign.js');
+    await cancelCampaign(campaignId);
+  });
+
 // Push test command
 program
   .command('push-test <deviceId>')
@@ -0,0 +1,37 @@
+/**
+ * `openmdm bundle export` / `openmdm bundle import`.
+ *
+ * Bundles live in version control as YAML or JSON; the CLI picks the format
+ * from the file name and reads either back the same way.
+ */
+
+import type { ConfigBundle } from '@openmdm/core';
+import { describe, expect, it } from 'vitest';
+import { bundleFormatFor, parseBundle, serializeBundle } from '../src/commands/bundle';
+
+const bundle: ConfigBundle = {
+  apiVersion: 'openmdm/v1',
+  policies: [{ name: 'Store', isDefault: false, version: 3, settings: { lockSettings: true } }],
+  groups: [{ path: 'Region A/Store 5', policy: 'Store' }],
+  applications: [],
+  scheduledTasks: [],
+};
+
+describe('bundle files', () => {
+  it('picks the format from the file name unless told', () => {
+    expect(bundleFormatFor('prod.json')).toBe('json');
+    expect(bundleFormatFor('prod.yaml')).toBe('yaml');
+    expect(bundleFormatFor(undefined)).toBe('yaml');
+    expect(bundleFormatFor('prod.txt', 'json')).toBe('json');
+    expect(() => bundleFormatFor('prod.yaml', 'toml')).toThrow('Invalid format "toml"');
+  });
+
+  it('reads back what it writes, in either format', () => {
+    const yaml = serializeBundle(bundle, 'yaml');
+    expect(yaml).toContain('path: Region A/Store 5');
+
+    expect(parseBundle(yaml)).toEqual(bundle);
+    expect(parseBundle(serializeBundle(bundle, 'json'))).toEqual(bundle);
+    expect(() => parseBundle('')).toThrow('Bundle file is empty');
+  });
+});
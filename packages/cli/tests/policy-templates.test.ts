@@ -0,0 +1,65 @@
+/**
+ * `openmdm policy create --template <id> --set key=value`.
+ *
+ * Values arrive as strings; each is coerced to the type its template
+ * parameter declares before core validates them.
+ */
+
+import type { PolicyTemplate } from '@openmdm/core';
+import { describe, expect, it } from 'vitest';
+import { missingTemplateParams, parseTemplateParams } from '../src/commands/policy';
+
+const template: PolicyTemplate = {
+  id: 'test',
+  name: 'Test',
+  parameters: {
+    type: 'object',
+    properties: {
+      mainApp: { type: 'string' },
+      allowedApps: { type: 'array', items: { type: 'string' } },
+      heartbeatInterval: { type: 'integer' },
+      locked: { type: 'boolean' },
+    },
+    required: ['mainApp'],
+  },
+  build: () => ({}),
+};
+
+describe('parseTemplateParams', () => {
+  it('coerces each value to its parameter type', () => {
+    expect(
+      parseTemplateParams(template, [
+        'mainApp=com.example.pos',
+        'allowedApps=com.a, com.b',
+        'heartbeatInterval=300',
+        'locked=false',
+      ]),
+    ).toEqual({
+      mainApp: 'com.example.pos',
+      allowedApps: ['com.a', 'com.b'],
+      heartbeatInterval: 300,
+      locked: false,
+    });
+  });
+
+  it('keeps everything after the first = in the value', () => {
+    expect(parseTemplateParams(template, ['mainApp=a=b'])).toEqual({ mainApp: 'a=b' });
+  });
+
+  it('passes values that do not coerce through for core to reject', () => {
+    expect(parseTemplateParams(template, ['heartbeatInterval=soon'])).toEqual({
+      heartbeatInterval: 'soon',
+    });
+  });
+
+  it('rejects a pair without a key', () => {
+    expect(() => parseTemplateParams(template, ['=value'])).toThrow('Expected --set key=value');
+  });
+});
+
+describe('missingTemplateParams', () => {
+  it('lists only the required parameters not given', () => {
+    expect(missingTemplateParams(template, {})).toEqual(['mainApp']);
+    expect(missingTemplateParams(template, { mainApp: 'com.example.pos' })).toEqual([]);
+  });
+});
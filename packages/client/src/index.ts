@@ -256,13 +256,24 @@ export interface HeartbeatData {
   screenLockEnabled?: boolean;
 
   // Agent status
+  osVersion?: string;
   agentVersion?: string;
   policyVersion?: string;
+  /**
+   * Why the last policy received could not be applied. Keep sending it until
+   * the policy applies; the server raises `policy.failed` for each report.
+   */
+  policyError?: string;
 }
 
 export interface HeartbeatResponse {
   success: boolean;
   pendingCommands?: Command[];
+  /**
+   * Commands this device was sent that have since been cancelled. Stop any
+   * that are running and answer each with `confirmCancellation`.
+   */
+  cancelledCommandIds?: string[];
   policyUpdate?: Policy;
   message?: string;
 }
@@ -305,6 +316,31 @@ export interface CommandResult {
   success: boolean;
   message?: string;
   data?: unknown;
+  /** Files uploaded with {@link MDMClient.requestArtifactUpload} */
+  artifacts?: CommandArtifact[];
+}
+
+export interface CommandArtifact {
+  /** Key returned by the upload request */
+  key: string;
+  name?: string;
+  contentType?: string;
+  size?: number;
+}
+
+export interface ShellOutputChunk {
+  commandId: string;
+  stream: 'stdout' | 'stderr';
+  data: string;
+}
+
+export interface CommandArtifactUpload {
+  key: string;
+  uploadUrl: string;
+  method: 'PUT';
+  /** Headers the upload request must send */
+  headers: Record<string, string>;
+  expiresAt: string;
 }
 
 export interface DeviceConfig {
@@ -449,12 +485,42 @@ export interface MDMClient {
   /** Report command failure */
   failCommand(commandId: string, error: string): Promise<void>;
 
+  /**
+   * Answer a cancellation (a `command.cancel` push, or an id in
+   * `cancelledCommandIds`): `'aborted'` if the command was stopped or never
+   * started, `'too_late'` if it had already run.
+   */
+  confirmCancellation(commandId: string, outcome: 'aborted' | 'too_late'): Promise<void>;
+
+  /**
+   * Get a presigned URL to upload a file produced by a command (a
+   * screenshot, a log). PUT the file to `uploadUrl` with `headers`, then
+   * pass `{ key }` in `artifacts` to `completeCommand`.
+   */
+  requestArtifactUpload(
+    commandId: string,
+    file: { filename: string; contentType: string },
+  ): Promise<CommandArtifactUpload>;
+
+  /**
+   * Stream output from a `shell` command that carries a `sessionId`. Call it
+   * as output is produced, then complete the command with
+   * `data: { exitCode }` when the line exits.
+   */
+  sendShellOutput(sessionId: string, chunk: ShellOutputChunk): Promise<void>;
+
   /** Register push token (FCM/MQTT) */
   registerPushToken(provider: 'fcm' | 'mqtt', token: string): Promise<void>;
 
   /** Unregister push token */
   unregisterPushToken(provider: 'fcm' | 'mqtt'): Promise<void>;
 
+  /**
+   * Confirm receipt of a push message, by the `messageId` the push carried.
+   * Lets the server tell "FCM accepted it" from "the device has it".
+   */
+  confirmPushReceipt(messageId: string): Promise<void>;
+
   /** Report event to server */
   reportEvent(type: string, payload?: Record<string, unknown>): Promise<void>;
 
@@ -718,6 +784,42 @@ export function createMDMClient(config: MDMClientConfig): MDMClient {
       });
     },
 
+    async confirmCancellation(commandId: string, outcome: 'aborted' | 'too_late'): Promise<void> {
+      if (!this.isEnrolled()) {
+        throw new EnrollmentRequiredError();
+      }
+
+      await request(`/agent/commands/${commandId}/cancellation`, {
+        method: 'POST',
+        body: JSON.stringify({ outcome }),
+      });
+    },
+
+    async requestArtifactUpload(
+      commandId: string,
+      file: { filename: string; contentType: string },
+    ): Promise<CommandArtifactUpload> {
+      if (!this.isEnrolled()) {
+        throw new EnrollmentRequiredError();
+      }
+
+      return request<CommandArtifactUpload>(`/agent/commands/${commandId}/artifacts`, {
+        method: 'POST',
+        body: JSON.stringify(file),
+      });
+    },
+
+    async sendShellOutput(sessionId: string, chunk: ShellOutputChunk): Promise<void> {
+      if (!this.isEnrolled()) {
+        throw new EnrollmentRequiredError();
+      }
+
+      await request(`/agent/shell/${sessionId}/output`, {
+        method: 'POST',
+        body: JSON.stringify(chunk),
+      });
+    },
+
     async registerPushToken(provider: 'fcm' | 'mqtt', token: string): Promise<void> {
       if (!this.isEnrolled()) {
         throw new EnrollmentRequiredError();
@@ -740,6 +842,17 @@ export function createMDMClient(config: MDMClientConfig): MDMClient {
       });
     },
 
+    async confirmPushReceipt(messageId: string): Promise<void> {
+      if (!this.isEnrolled()) {
+        throw new EnrollmentRequiredError();
+      }
+
+      await request('/agent/push/receipt', {
+        method: 'POST',
+        body: JSON.stringify({ messageId }),
+      });
+    },
+
     async reportEvent(type: string, payload?: Record<string, unknown>): Promise<void> {
       if (!this.isEnrolled()) {
         throw new EnrollmentRequiredError();
@@ -849,6 +962,9 @@ export interface HeartbeatSchedulerConfig {
   /** Callback when commands are received */
   onCommands?: (commands: Command[]) => void;
 
+  /** Callback when commands the device holds have been cancelled */
+  onCancellations?: (commandIds: string[]) => void;
+
   /** Callback when policy update is received */
   onPolicyUpdate?: (policy: Policy) => void;
 }
@@ -892,6 +1008,10 @@ export function createHeartbeatScheduler(
         config.onCommands?.(response.pendingCommands);
       }
 
+      if (response.cancelledCommandIds && response.cancelledCommandIds.length > 0) {
+        config.onCancellations?.(response.cancelledCommandIds);
+      }
+
       if (response.policyUpdate) {
         config.onPolicyUpdate?.(response.policyUpdate);
       }
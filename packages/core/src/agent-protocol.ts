@@ -53,6 +53,8 @@
  * major release by ignoring the header and always emitting v2.
  */
 
+import type { Command, MDMInstance, Policy } from './types';
+
 /**
  * Instruction the server gives the agent on how to react to this
  * response. This is the entire client-side decision space.
@@ -128,3 +130,53 @@ export function agentFail(
 export function wantsAgentProtocolV2(headerValue: string | undefined | null): boolean {
   return headerValue === AGENT_PROTOCOL_V2;
 }
+
+/**
+ * What an agent is told on every heartbeat, over HTTP or MQTT: the commands
+ * waiting for it, the ones it holds that were cancelled, its policy and its
+ * desired state.
+ */
+export interface AgentHeartbeatResponse {
+  success: true;
+  pendingCommands: Command[];
+  cancelledCommandIds: string[];
+  /**
+   * The policy as this device should receive it, with every layer merged
+   * (see `policies.getForDevice`). Null when no policy applies.
+   */
+  policyUpdate: Policy | null;
+  desiredState: Record<string, unknown>;
+  desiredStateVersion: number;
+}
+
+/**
+ * Build the reply to a heartbeat that has already been processed. Every
+ * transport that accepts heartbeats answers with this, so a change to what
+ * devices are told reaches all of them at once.
+ */
+export async function buildHeartbeatResponse(
+  mdm: Pick<MDMInstance, 'commands' | 'devices' | 'policies'>,
+  deviceId: string,
+): Promise<AgentHeartbeatResponse> {
+  const pendingCommands = await mdm.commands.getPending(deviceId);
+  const cancelledCommandIds = await mdm.commands.getCancellations(deviceId);
+
+  // Every policy layer merged: the tenant default, the device's groups and
+  // its own. During a staged rollout a layer may be its previous version;
+  // on a policy schedule, the device's own is the one the schedule names now.
+  const device = await mdm.devices.get(deviceId);
+  const policyUpdate = device ? await mdm.policies.getForDevice(deviceId) : null;
+
+  // Desired state rides on every heartbeat until the device reports it has
+  // applied that version. That is what makes it a fact the device cannot
+  // miss — unlike a command, which is an event: miss it and the intent is
+  // simply gone.
+  return {
+    success: true,
+    pendingCommands,
+    cancelledCommandIds,
+    policyUpdate,
+    desiredState: device?.desiredState ?? {},
+    desiredStateVersion: device?.desiredStateVersion ?? 0,
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * Runtime command payload validation.
+ *
+ * `CommandPayloadMap` catches a bad payload at compile time, but most
+ * payloads reach `commands.send` as JSON from an admin UI or a script, where
+ * the compiler never sees them. Before this, a `setWifi` with `ssdi` instead
+ * of `ssid` was stored, pushed, and failed on the device — if the agent
+ * reported it at all. These schemas mirror the map so the same mistake is a
+ * `ValidationError` with the offending field path, before anything is
+ * queued.
+ */
+
+import type {
+  CommandPayloadField,
+  CommandPayloadIssue,
+  CommandPayloadSchema,
+  CommandType,
+} from './types';
+
+const packageOnly: CommandPayloadSchema = {
+  fields: { packageName: { type: 'string', required: true } },
+};
+
+const appInstall: CommandPayloadSchema = {
+  fields: {
+    packageName: { type: 'string', required: true },
+    url: { type: 'string' },
+    // What the docs called `url` before payloads were checked.
+    downloadUrl: { type: 'string' },
+    version: { type: 'string' },
+    versionCode: { type: 'integer' },
+    hash: { type: 'string' },
+    expectedSha256: { type: 'string' },
+  },
+};
+
+/**
+ * Schemas for the built-in command types. Keep in step with
+ * `CommandPayloadMap`; types with no entry accept any object.
+ */
+export const BUILT_IN_COMMAND_PAYLOAD_SCHEMAS: Partial<Record<CommandType, CommandPayloadSchema>> =
+  {
+    lock: { fields: { message: { type: 'string' } } },
+    wipe: { fields: { preserveData: { type: 'boolean' } } },
+    factoryReset: { fields: { preserveData: { type: 'boolean' } } },
+    installApp: appInstall,
+    updateApp: appInstall,
+    uninstallApp: packageOnly,
+    runApp: packageOnly,
+    clearAppData: packageOnly,
+    clearAppCache: packageOnly,
+    rollbackApp: {
+      fields: {
+        packageName: { type: 'string', required: true },
+        version: { type: 'string' },
+      },
+    },
+    whitelistBattery: packageOnly,
+    grantPermissions: {
+      fields: {
+        packageName: { type: 'string', required: true },
+        permissions: { type: 'array', required: true, items: { type: 'string' } },
+      },
+    },
+    setPolicy: {
+      fields: {
+        policyId: { type: 'string', required: true },
+        version: { type: 'integer' },
+      },
+    },
+    shell: {
+      fields: {
+        command: { type: 'string', required: true },
+        sessionId: { type: 'string' },
+      },
+    },
+    setWifi: {
+      fields: {
+        ssid: { type: 'string', required: true },
+        password: { type: 'string' },
+        security: { type: 'string' },
+        hidden: { type: 'boolean' },
+      },
+    },
+    setVolume: {
+      fields: {
+        level: { type: 'integer', required: true, min: 0, max: 100 },
+        stream: { type: 'string' },
+      },
+    },
+    sendNotification: {
+      fields: {
+        title: { type: 'string', required: true },
+        body: { type: 'string' },
+      },
+    },
+    setTimeZone: { fields: { timeZone: { type: 'string', required: true } } },
+    enableAdb: { fields: { enabled: { type: 'boolean', required: true } } },
+  };
+
+/**
+ * Every way `payload` fails `schema`, or an empty array when it passes.
+ * `null` and `undefined` fields count as absent.
+ */
+export function validateCommandPayload(
+  payload: unknown,
+  schema: CommandPayloadSchema,
+): CommandPayloadIssue[] {
+  const issues: CommandPayloadIssue[] = [];
+  if (payload != null && !isPlainObject(payload)) {
+    issues.push({ path: 'payload', message: 'must be an object' });
+    return issues;
+  }
+  checkFields(
+    (payload ?? {}) as Record<string, unknown>,
+    schema.fields,
+    'payload',
+    schema.allowUnknownFields ?? false,
+    issues,
+  );
+  return issues;
+}
+
+function checkFields(
+  value: Record<string, unknown>,
+  fields: Record<string, CommandPayloadField>,
+  path: string,
+  allowUnknownFields: boolean,
+  issues: CommandPayloadIssue[],
+): void {
+  for (const [name, field] of Object.entries(fields)) {
+    const fieldValue = value[name];
+    if (fieldValue == null) {
+      if (field.required) issues.push({ path: `${path}.${name}`, message: 'is required' });
+      continue;
+    }
+    checkField(fieldValue, field, `${path}.${name}`, issues);
+  }
+
+  if (allowUnknownFields) return;
+  for (const name of Object.keys(value)) {
+    if (!(name in fields)) {
+      issues.push({ path: `${path}.${name}`, message: 'is not a known field' });
+    }
+  }
+}
+
+function checkField(
+  value: unknown,
+  field: CommandPayloadField,
+  path: string,
+  issues: CommandPayloadIssue[],
+): void {
+  switch (field.type) {
+    case 'string':
+    case 'boolean':
+      if (typeof value !== field.type) {
+        issues.push({ path, message: `must be a ${field.type}` });
+        return;
+      }
+      break;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path, message: 'must be a number' });
+        return;
+      }
+      if (field.type === 'integer' && !Number.isInteger(value)) {
+        issues.push({ path, message: 'must be an integer' });
+        return;
+      }
+      if (field.min !== undefined && value < field.min) {
+        issues.push({ path, message: `must be at least ${field.min}` });
+      }
+      if (field.max !== undefined && value > field.max) {
+        issues.push({ path, message: `must be at most ${field.max}` });
+      }
+      break;
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: 'must be an array' });
+        return;
+      }
+      if (field.items) {
+        value.forEach((item, index) => {
+          checkField(item, field.items as CommandPayloadField, `${path}[${index}]`, issues);
+        });
+      }
+      return;
+    case 'object':
+      if (!isPlainObject(value)) {
+        issues.push({ path, message: 'must be an object' });
+        return;
+      }
+      if (field.fields) {
+        checkFields(value, field.fields, path, false, issues);
+      }
+      return;
+  }
+
+  if (field.enum && !field.enum.includes(value as string | number)) {
+    issues.push({ path, message: `must be one of: ${field.enum.join(', ')}` });
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,147 @@
+/**
+ * Compliance rules.
+ *
+ * Heartbeats have always carried `isRooted`, `isEncrypted`,
+ * `screenLockEnabled` and the agent version, and nothing looked at them: a
+ * rooted, unencrypted device on a three-year-old OS reported as healthy as
+ * any other. A policy's `complianceRules` state what its devices must
+ * report; `evaluateComplianceRules` checks one heartbeat's worth of
+ * telemetry against them.
+ */
+
+import type {
+  ComplianceField,
+  ComplianceOperator,
+  ComplianceRule,
+  ComplianceRuleSet,
+  ComplianceViolation,
+} from './types';
+
+/** The telemetry a rule can test, as reported on a heartbeat. */
+export type ComplianceTelemetry = Partial<Record<ComplianceField, boolean | string | null>>;
+
+const BOOLEAN_FIELDS: readonly ComplianceField[] = ['isRooted', 'isEncrypted', 'screenLockEnabled'];
+const VERSION_FIELDS: readonly ComplianceField[] = ['osVersion', 'agentVersion'];
+const OPERATORS: readonly ComplianceOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte'];
+
+/** The id a rule is reported under: its own, or `field operator value`. */
+export const complianceRuleId = (rule: ComplianceRule): string =>
+  rule.id ?? `${rule.field} ${rule.operator} ${rule.value}`;
+
+/**
+ * Compare dotted numeric versions (`12`, `3.2.1`): <0, 0 or >0. Missing
+ * parts count as 0. Null when either side has a part that is not a number,
+ * so each caller decides how to fail closed rather than guess.
+ */
+export function compareVersions(a: string, b: string): number | null {
+  const parse = (v: string) => v.split('.').map((part) => Number.parseInt(part, 10));
+  const av = parse(a);
+  const bv = parse(b);
+
+  for (let i = 0; i < Math.max(av.length, bv.length); i++) {
+    const x = av[i] ?? 0;
+    const y = bv[i] ?? 0;
+    if (Number.isNaN(x) || Number.isNaN(y)) return null;
+    if (x !== y) return x < y ? -1 : 1;
+  }
+  return 0;
+}
+
+function satisfies(rule: ComplianceRule, actual: boolean | string): boolean {
+  if (typeof actual === 'boolean') {
+    return rule.operator === 'eq' ? actual === rule.value : actual !== rule.value;
+  }
+
+  const order = compareVersions(actual, String(rule.value));
+  if (order === null) return false;
+  switch (rule.operator) {
+    case 'eq':
+      return order === 0;
+    case 'neq':
+      return order !== 0;
+    case 'gt':
+      return order > 0;
+    case 'gte':
+      return order >= 0;
+    case 'lt':
+      return order < 0;
+    case 'lte':
+      return order <= 0;
+  }
+}
+
+/**
+ * The rules `telemetry` breaks, or an empty array when it meets them all.
+ *
+ * A field the device did not report breaks every rule on it. A device that
+ * stops reporting encryption should not stay compliant by saying nothing.
+ * An unparseable version breaks the rule too.
+ */
+export function evaluateComplianceRules(
+  rules: readonly ComplianceRule[],
+  telemetry: ComplianceTelemetry,
+): ComplianceViolation[] {
+  const violations: ComplianceViolation[] = [];
+
+  for (const rule of rules) {
+    const actual = telemetry[rule.field] ?? null;
+    if (actual !== null && satisfies(rule, actual)) continue;
+
+    violations.push({
+      ruleId: complianceRuleId(rule),
+      field: rule.field,
+      operator: rule.operator,
+      expected: rule.value,
+      actual,
+      ...(rule.description ? { description: rule.description } : {}),
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Every way `ruleSet` is malformed, as `path message` strings, or an empty
+ * array when it is usable. Whether a quarantine policy exists is for the
+ * caller to check.
+ */
+export function validateComplianceRuleSet(ruleSet: ComplianceRuleSet): string[] {
+  const errors: string[] = [];
+  if (!Array.isArray(ruleSet?.rules)) {
+    return ['complianceRules.rules must be an array'];
+  }
+
+  ruleSet.rules.forEach((rule, index) => {
+    const path = `complianceRules.rules[${index}]`;
+    if (BOOLEAN_FIELDS.includes(rule.field)) {
+      if (typeof rule.value !== 'boolean') errors.push(`${path}.value must be a boolean`);
+      if (rule.operator !== 'eq' && rule.operator !== 'neq') {
+        errors.push(`${path}.operator must be eq or neq for ${rule.field}`);
+      }
+    } else if (VERSION_FIELDS.includes(rule.field)) {
+      if (typeof rule.value !== 'string' || compareVersions(rule.value, '0') === null) {
+        errors.push(`${path}.value must be a dotted version such as "12" or "3.2"`);
+      }
+      if (!OPERATORS.includes(rule.operator)) {
+        errors.push(`${path}.operator must be one of: ${OPERATORS.join(', ')}`);
+      }
+    } else {
+      errors.push(
+        `${path}.field must be one of: ${[...BOOLEAN_FIELDS, ...VERSION_FIELDS].join(', ')}`,
+      );
+    }
+  });
+
+  (ruleSet.remediation ?? []).forEach((step, index) => {
+    const path = `complianceRules.remediation[${index}]`;
+    if (step.action === 'quarantine') {
+      if (typeof step.policyId !== 'string' || !step.policyId) {
+        errors.push(`${path}.policyId is required for quarantine`);
+      }
+    } else if (step.action !== 'notify' && step.action !== 'block') {
+      errors.push(`${path}.action must be one of: notify, quarantine, block`);
+    }
+  });
+
+  return errors;
+}
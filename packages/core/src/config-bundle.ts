@@ -0,0 +1,876 @@
+/**
+ * Configuration bundles.
+ *
+ * Staging and production were kept in step by re-creating policies, groups
+ * and app registrations by hand in each, which drifted the first week. A
+ * bundle is an instance's configuration as one document: export it from one
+ * instance, keep it in version control, and import it into another. The
+ * import works out what has to be created, updated or deleted to make the
+ * target match, and can stop there for review.
+ *
+ * Everything is read and written through the managers, not the database, so
+ * an import validates like any other write — and, through a `withContext`
+ * instance, is authorized and audited like one.
+ */
+
+import { validateComplianceRuleSet } from './compliance';
+import { diffPolicySettings } from './policy-diff';
+import { validateJsonSchema } from './policy-schema';
+import type {
+  Application,
+  BundledApplication,
+  BundledGroup,
+  BundledPolicy,
+  BundledScheduledTask,
+  ComplianceRuleSet,
+  ConfigBundle,
+  ConfigBundleChange,
+  ConfigBundlePlan,
+  ConfigBundleTarget,
+  DeployTarget,
+  ExportConfigBundleOptions,
+  Group,
+  ImportConfigBundleOptions,
+  Policy,
+  PolicySettings,
+  ScheduledTask,
+  TaskSchedule,
+} from './types';
+import { ValidationError } from './types';
+
+export const CONFIG_BUNDLE_API_VERSION = 'openmdm/v1';
+
+/** What an export writes in place of a password, unless asked for secrets. */
+export const REDACTED_SECRET = '<redacted>';
+
+const TASK_TYPES = ['command', 'policy_update', 'app_install', 'maintenance', 'custom'];
+const SCHEDULE_TYPES = ['once', 'recurring', 'window'];
+
+/**
+ * JSON with object keys sorted and null fields dropped, so two values
+ * compare equal however the adapter ordered or defaulted them.
+ */
+function canonical(value: unknown): string {
+  return (
+    JSON.stringify(value ?? null, (_key, v) => {
+      if (!v || typeof v !== 'object' || Array.isArray(v)) return v;
+      return Object.fromEntries(
+        Object.keys(v)
+          .sort()
+          .filter((key) => v[key] !== null && v[key] !== undefined)
+          .map((key) => [key, v[key]]),
+      );
+    }) ?? 'null'
+  );
+}
+
+const differs = (a: unknown, b: unknown): boolean => canonical(a) !== canonical(b);
+
+/** `value` without its null and undefined fields, for a tidy export. */
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== null && v !== undefined),
+  ) as T;
+}
+
+const appKey = (app: { packageName: string; version: string }) =>
+  `${app.packageName}@${app.version}`;
+
+const byKey =
+  <T>(key: (item: T) => string) =>
+  (a: T, b: T) =>
+    key(a).localeCompare(key(b));
+
+// ============================================
+// Reading the target
+// ============================================
+
+interface TargetState {
+  policies: Map<string, Policy>;
+  groups: Map<string, Group>;
+  groupPaths: Map<string, string>;
+  apps: Map<string, Application>;
+  tasks: Map<string, ScheduledTask>;
+}
+
+/** Index `items` by key. Two items with one key make every reference to it ambiguous. */
+function indexUnique<T>(items: T[], key: (item: T) => string, what: string): Map<string, T> {
+  const index = new Map<string, T>();
+  const duplicates = new Set<string>();
+  for (const item of items) {
+    if (index.has(key(item))) duplicates.add(key(item));
+    index.set(key(item), item);
+  }
+  if (duplicates.size > 0) {
+    throw new ValidationError(
+      `${what} must be unique to be referred to in a bundle: ${Array.from(duplicates).join(', ')}`,
+      { duplicates: Array.from(duplicates) },
+    );
+  }
+  return index;
+}
+
+async function listAllTasks(target: ConfigBundleTarget): Promise<ScheduledTask[]> {
+  if (!target.schedules) return [];
+  const pageSize = 500;
+  const all: ScheduledTask[] = [];
+  for (let offset = 0; ; offset += pageSize) {
+    const page = await target.schedules.list({ limit: pageSize, offset });
+    all.push(...page.tasks);
+    if (page.tasks.length < pageSize) return all;
+  }
+}
+
+async function loadTarget(target: ConfigBundleTarget): Promise<TargetState> {
+  const groups = await target.groups.list();
+  const groupsById = new Map(groups.map((group) => [group.id, group]));
+
+  // A group's path is its ancestors' names from the root down. Names with a
+  // `/` cannot be told apart from a deeper path.
+  const groupPaths = new Map<string, string>();
+  const pathOf = (group: Group, seen = new Set<string>()): string => {
+    const known = groupPaths.get(group.id);
+    if (known) return known;
+    if (group.name.includes('/')) {
+      throw new ValidationError(`Group names cannot contain "/" in a bundle: ${group.name}`);
+    }
+    seen.add(group.id);
+    const parent = group.parentId ? groupsById.get(group.parentId) : undefined;
+    const path =
+      parent && !seen.has(parent.id) ? `${pathOf(parent, seen)}/${group.name}` : group.name;
+    groupPaths.set(group.id, path);
+    return path;
+  };
+
+  return {
+    policies: indexUnique(await target.policies.list(), (policy) => policy.name, 'Policy names'),
+    groups: indexUnique(groups, (group) => pathOf(group), 'Group paths'),
+    groupPaths,
+    apps: indexUnique(await target.apps.list(), appKey, 'Application versions'),
+    tasks: indexUnique(await listAllTasks(target), (task) => task.name, 'Scheduled task names'),
+  };
+}
+
+/** Swap quarantine policy references between ids and names. */
+function mapQuarantine(
+  ruleSet: ComplianceRuleSet | null | undefined,
+  map: (policyRef: string) => string,
+): ComplianceRuleSet | undefined {
+  if (!ruleSet) return undefined;
+  return {
+    ...ruleSet,
+    ...(ruleSet.remediation
+      ? {
+          remediation: ruleSet.remediation.map((step) =>
+            step.action === 'quarantine' ? { ...step, policyId: map(step.policyId) } : step,
+          ),
+        }
+      : {}),
+  };
+}
+
+/** Swap deploy target references; devices are left as they are. */
+function mapTarget(
+  target: DeployTarget | undefined,
+  policyRef: (ref: string) => string,
+  groupRef: (ref: string) => string,
+): DeployTarget | undefined {
+  if (!target) return undefined;
+  return compact({
+    devices: target.devices,
+    policies: target.policies?.map(policyRef),
+    groups: target.groups?.map(groupRef),
+  });
+}
+
+/**
+ * `settings` with each password passed through `replace`, along with its
+ * path as `policies.diff` writes it. A bundle lives in version control;
+ * these are what must not end up there by default.
+ */
+function mapSecrets(
+  settings: PolicySettings,
+  replace: (value: string, path: string) => string | undefined,
+): PolicySettings {
+  if (!settings || typeof settings !== 'object') return settings;
+  const mapped: PolicySettings = { ...settings };
+  if (typeof settings.kioskExitPassword === 'string') {
+    mapped.kioskExitPassword = replace(settings.kioskExitPassword, 'kioskExitPassword');
+  }
+  if (Array.isArray(settings.wifiConfigs)) {
+    mapped.wifiConfigs = settings.wifiConfigs.map((wifi) =>
+      typeof wifi?.password === 'string'
+        ? { ...wifi, password: replace(wifi.password, `wifiConfigs[${wifi.ssid}].password`) }
+        : wifi,
+    );
+  }
+  if (typeof settings.vpnConfig?.password === 'string') {
+    mapped.vpnConfig = {
+      ...settings.vpnConfig,
+      password: replace(settings.vpnConfig.password, 'vpnConfig.password'),
+    };
+  }
+  return mapped;
+}
+
+/**
+ * `settings` with every redacted password put back from `current`, the
+ * target's settings for the same policy. Paths with nothing to put back
+ * are added to `missing`.
+ */
+function restoreSecrets(
+  settings: PolicySettings,
+  current: PolicySettings,
+  missing: string[],
+): PolicySettings {
+  const secrets = new Map<string, string>();
+  mapSecrets(current, (value, path) => {
+    secrets.set(path, value);
+    return value;
+  });
+  return mapSecrets(settings, (value, path) => {
+    if (value !== REDACTED_SECRET) return value;
+    if (!secrets.has(path)) missing.push(path);
+    return secrets.get(path);
+  });
+}
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * The target's configuration as a bundle. Entries are sorted by name, path
+ * or `packageName@version`, so exporting an unchanged instance twice gives
+ * the same document.
+ *
+ * Passwords in policy settings are written as `REDACTED_SECRET` unless
+ * `includeSecrets` is set; an import keeps the target's own for those.
+ */
+export async function exportConfigBundle(
+  target: ConfigBundleTarget,
+  options: ExportConfigBundleOptions = {},
+): Promise<ConfigBundle> {
+  const state = await loadTarget(target);
+  const policyNames = new Map(Array.from(state.policies.values(), (p) => [p.id, p.name]));
+  const policyName = (id: string) => policyNames.get(id) ?? id;
+  const groupPath = (id: string) => state.groupPaths.get(id) ?? id;
+
+  const policies = Array.from(state.policies.values()).map(
+    (policy): BundledPolicy =>
+      compact({
+        name: policy.name,
+        description: policy.description ?? undefined,
+        isDefault: policy.isDefault,
+        version: policy.version,
+        settings: options.includeSecrets
+          ? policy.settings
+          : mapSecrets(policy.settings, () => REDACTED_SECRET),
+        complianceRules: mapQuarantine(policy.complianceRules, policyName),
+      }),
+  );
+
+  const groups = Array.from(
+    state.groups,
+    ([path, group]): BundledGroup =>
+      compact({
+        path,
+        description: group.description ?? undefined,
+        policy: group.policyId ? policyName(group.policyId) : undefined,
+        metadata: group.metadata ?? undefined,
+      }),
+  );
+
+  const applications = Array.from(state.apps.values()).map(
+    (app): BundledApplication =>
+      compact({
+        packageName: app.packageName,
+        version: app.version,
+        versionCode: app.versionCode,
+        name: app.name,
+        url: app.url,
+        hash: app.hash ?? undefined,
+        size: app.size ?? undefined,
+        minSdkVersion: app.minSdkVersion ?? undefined,
+        showIcon: app.showIcon,
+        runAfterInstall: app.runAfterInstall,
+        runAtBoot: app.runAtBoot,
+        isSystem: app.isSystem,
+        isActive: app.isActive,
+        metadata: app.metadata ?? undefined,
+      }),
+  );
+
+  const scheduledTasks = Array.from(state.tasks.values()).map(
+    (task): BundledScheduledTask =>
+      compact({
+        name: task.name,
+        description: task.description ?? undefined,
+        taskType: task.taskType,
+        schedule: compact({
+          ...task.schedule,
+          executeAt: task.schedule.executeAt
+            ? new Date(task.schedule.executeAt).toISOString()
+            : undefined,
+        }),
+        target: mapTarget(task.target, policyName, groupPath),
+        payload: task.payload ?? undefined,
+        maxRetries: task.maxRetries,
+        status: task.status,
+      }),
+  );
+
+  return {
+    apiVersion: CONFIG_BUNDLE_API_VERSION,
+    policies: policies.sort(byKey((policy) => policy.name)),
+    groups: groups.sort(byKey((group) => group.path)),
+    applications: applications.sort(byKey(appKey)),
+    scheduledTasks: scheduledTasks.sort(byKey((task) => task.name)),
+  };
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Every way `bundle` cannot be imported into `state`, as `path message`
+ * strings. References must resolve to an entry of the bundle, or to a
+ * resource the target has and the import will not prune.
+ */
+function validateBundle(
+  bundle: ConfigBundle,
+  state: TargetState,
+  target: ConfigBundleTarget,
+  prune: boolean,
+): string[] {
+  const issues: string[] = [];
+  if (!bundle || typeof bundle !== 'object') {
+    return ['bundle must be an object'];
+  }
+  if (bundle.apiVersion !== CONFIG_BUNDLE_API_VERSION) {
+    issues.push(`apiVersion must be ${CONFIG_BUNDLE_API_VERSION}`);
+  }
+  for (const field of ['policies', 'groups', 'applications', 'scheduledTasks'] as const) {
+    if (bundle[field] !== undefined && !Array.isArray(bundle[field])) {
+      issues.push(`${field} must be an array`);
+    }
+  }
+  if (issues.length > 0) return issues;
+
+  const unique = (keys: string[], path: string) => {
+    const seen = new Set<string>();
+    keys.forEach((key, index) => {
+      if (seen.has(key)) issues.push(`${path}[${index}] duplicates ${key}`);
+      seen.add(key);
+    });
+  };
+
+  const policies = bundle.policies ?? [];
+  const groups = bundle.groups ?? [];
+  const bundledPolicies = new Set(policies.map((policy) => policy.name));
+  const bundledGroups = new Set(groups.map((group) => group.path));
+  const policyExists = (name: string) =>
+    bundledPolicies.has(name) || (!(prune && bundle.policies) && state.policies.has(name));
+  const groupExists = (path: string) =>
+    bundledGroups.has(path) || (!(prune && bundle.groups) && state.groups.has(path));
+
+  const schema = target.policies.getSchema();
+  unique(
+    policies.map((policy) => policy.name),
+    'policies',
+  );
+  policies.forEach((policy, index) => {
+    const path = `policies[${index}]`;
+    if (typeof policy.name !== 'string' || !policy.name) {
+      issues.push(`${path}.name is required`);
+    }
+    for (const issue of validateJsonSchema(policy.settings, schema, `${path}.settings`)) {
+      issues.push(`${issue.path} ${issue.message}`);
+    }
+    if (policy.complianceRules) {
+      for (const error of validateComplianceRuleSet(policy.complianceRules)) {
+        issues.push(`${path}.${error}`);
+      }
+      for (const step of policy.complianceRules.remediation ?? []) {
+        if (step.action === 'quarantine' && step.policyId && !policyExists(step.policyId)) {
+          issues.push(`${path}.complianceRules quarantines to unknown policy ${step.policyId}`);
+        }
+      }
+    }
+  });
+  if (policies.filter((policy) => policy.isDefault).length > 1) {
+    issues.push('policies has more than one default');
+  }
+
+  unique(
+    groups.map((group) => group.path),
+    'groups',
+  );
+  groups.forEach((group, index) => {
+    const path = `groups[${index}]`;
+    const segments = typeof group.path === 'string' ? group.path.split('/') : [];
+    if (segments.length === 0 || segments.some((segment) => !segment)) {
+      issues.push(`${path}.path must be group names separated by "/"`);
+      return;
+    }
+    const parent = segments.slice(0, -1).join('/');
+    if (parent && !groupExists(parent)) {
+      issues.push(`${path}.path has unknown parent group ${parent}`);
+    }
+    if (group.policy && !policyExists(group.policy)) {
+      issues.push(`${path}.policy is unknown: ${group.policy}`);
+    }
+  });
+
+  unique((bundle.applications ?? []).map(appKey), 'applications');
+  (bundle.applications ?? []).forEach((app, index) => {
+    const path = `applications[${index}]`;
+    for (const field of ['packageName', 'version', 'name', 'url'] as const) {
+      if (typeof app[field] !== 'string' || !app[field]) {
+        issues.push(`${path}.${field} is required`);
+      }
+    }
+    if (!Number.isInteger(app.versionCode)) {
+      issues.push(`${path}.versionCode must be an integer`);
+    }
+  });
+
+  const tasks = bundle.scheduledTasks ?? [];
+  if (tasks.length > 0 && !target.schedules) {
+    issues.push('scheduledTasks needs scheduling to be enabled on the target');
+  }
+  unique(
+    tasks.map((task) => task.name),
+    'scheduledTasks',
+  );
+  tasks.forEach((task, index) => {
+    const path = `scheduledTasks[${index}]`;
+    if (typeof task.name !== 'string' || !task.name) {
+      issues.push(`${path}.name is required`);
+    }
+    if (!TASK_TYPES.includes(task.taskType)) {
+      issues.push(`${path}.taskType must be one of: ${TASK_TYPES.join(', ')}`);
+    }
+    if (!SCHEDULE_TYPES.includes(task.schedule?.type)) {
+      issues.push(`${path}.schedule.type must be one of: ${SCHEDULE_TYPES.join(', ')}`);
+    }
+    if (task.schedule?.executeAt && Number.isNaN(Date.parse(task.schedule.executeAt))) {
+      issues.push(`${path}.schedule.executeAt must be an ISO 8601 date`);
+    }
+    for (const name of task.target?.policies ?? []) {
+      if (!policyExists(name)) issues.push(`${path}.target has unknown policy ${name}`);
+    }
+    for (const group of task.target?.groups ?? []) {
+      if (!groupExists(group)) issues.push(`${path}.target has unknown group ${group}`);
+    }
+  });
+
+  return issues;
+}
+
+// ============================================
+// Import
+// ============================================
+
+interface PlannedChange extends ConfigBundleChange {
+  run(): Promise<void>;
+}
+
+/**
+ * Make the target's configuration match `bundle`, through its managers.
+ *
+ * The plan is worked out in full before anything is written: the bundle is
+ * validated against the target's policy schema and every reference checked,
+ * so a bad bundle fails without having half-applied. A write the managers
+ * reject still stops the import part-way; importing the same bundle again
+ * picks up from there, since the plan only holds what still differs.
+ */
+export async function importConfigBundle(
+  target: ConfigBundleTarget,
+  bundle: ConfigBundle,
+  options: ImportConfigBundleOptions = {},
+): Promise<ConfigBundlePlan> {
+  const prune = options.prune ?? false;
+  const state = await loadTarget(target);
+
+  const issues = validateBundle(bundle, state, target, prune);
+  // A redacted password keeps the one the target has; a policy without one
+  // cannot be imported.
+  const settingsFor = new Map<BundledPolicy, PolicySettings>();
+  if (issues.length === 0) {
+    (bundle.policies ?? []).forEach((policy, index) => {
+      const missing: string[] = [];
+      const current = state.policies.get(policy.name)?.settings ?? {};
+      settingsFor.set(policy, restoreSecrets(policy.settings, current, missing));
+      for (const path of missing) {
+        issues.push(`policies[${index}].settings.${path} is redacted and the target has none`);
+      }
+    });
+  }
+  if (issues.length > 0) {
+    throw new ValidationError(`Invalid config bundle: ${issues.join('; ')}`, { issues });
+  }
+
+  // Names and paths to target ids, filled in as the import creates things.
+  const policyIds = new Map(Array.from(state.policies, ([name, policy]) => [name, policy.id]));
+  const groupIds = new Map(Array.from(state.groups, ([path, group]) => [path, group.id]));
+  const policyId = (name: string) => policyIds.get(name) as string;
+  const groupId = (path: string) => groupIds.get(path) as string;
+
+  const changes: PlannedChange[] = [];
+  const deferred: Array<() => Promise<void>> = [];
+
+  // --- Policies ---
+  for (const policy of bundle.policies ?? []) {
+    const existing = state.policies.get(policy.name);
+    const settings = settingsFor.get(policy) as PolicySettings;
+    const description = policy.description ?? null;
+    const isDefault = policy.isDefault ?? false;
+    const rulesByName = policy.complianceRules ?? null;
+
+    // A quarantine policy created by this same import has no id until it
+    // runs, so rules that name one are set once every policy exists.
+    const rulesReady = () =>
+      (rulesByName?.remediation ?? []).every(
+        (step) => step.action !== 'quarantine' || policyIds.has(step.policyId),
+      );
+    const deferRules = (id: string) =>
+      deferred.push(async () => {
+        await target.policies.update(id, {
+          complianceRules: mapQuarantine(rulesByName, policyId),
+        });
+      });
+
+    if (!existing) {
+      changes.push({
+        resource: 'policy',
+        action: 'create',
+        key: policy.name,
+        run: async () => {
+          const ready = rulesReady();
+          const created = await target.policies.create({
+            name: policy.name,
+            ...(description ? { description } : {}),
+            isDefault,
+            settings,
+            ...(rulesByName && ready
+              ? { complianceRules: mapQuarantine(rulesByName, policyId) }
+              : {}),
+          });
+          policyIds.set(policy.name, created.id);
+          if (!ready) deferRules(created.id);
+        },
+      });
+      continue;
+    }
+
+    const settingsChanges = diffPolicySettings(existing.settings, settings);
+    const rulesById = mapQuarantine(rulesByName, (name) => policyIds.get(name) ?? name);
+    const fields = [
+      ...(differs(existing.description ?? null, description) ? ['description'] : []),
+      ...(existing.isDefault !== isDefault ? ['isDefault'] : []),
+      ...settingsChanges.map((change) => `settings.${change.path}`),
+      ...(differs(existing.complianceRules, rulesById) ? ['complianceRules'] : []),
+    ];
+    if (fields.length === 0) continue;
+
+    changes.push({
+      resource: 'policy',
+      action: 'update',
+      key: policy.name,
+      id: existing.id,
+      fields,
+      run: async () => {
+        const setRules = fields.includes('complianceRules') && rulesReady();
+        if (fields.includes('complianceRules') && !setRules) deferRules(existing.id);
+        await target.policies.update(existing.id, {
+          ...(fields.includes('description') ? { description } : {}),
+          ...(fields.includes('isDefault') ? { isDefault } : {}),
+          ...(settingsChanges.length > 0 ? { settings } : {}),
+          ...(setRules ? { complianceRules: mapQuarantine(rulesByName, policyId) ?? null } : {}),
+        });
+      },
+    });
+  }
+
+  // --- Groups, parents first ---
+  const depth = (group: BundledGroup) => group.path.split('/').length;
+  for (const group of [...(bundle.groups ?? [])].sort((a, b) => depth(a) - depth(b))) {
+    const existing = state.groups.get(group.path);
+    const segments = group.path.split('/');
+    const name = segments[segments.length - 1] as string;
+    const parent = segments.slice(0, -1).join('/');
+    const description = group.description ?? null;
+    const metadata = group.metadata ?? null;
+
+    if (!existing) {
+      changes.push({
+        resource: 'group',
+        action: 'create',
+        key: group.path,
+        run: async () => {
+          const created = await target.groups.create({
+            name,
+            ...(description ? { description } : {}),
+            ...(parent ? { parentId: groupId(parent) } : {}),
+            ...(group.policy ? { policyId: policyId(group.policy) } : {}),
+            ...(metadata ? { metadata } : {}),
+          });
+          groupIds.set(group.path, created.id);
+        },
+      });
+      continue;
+    }
+
+    const currentPolicy = existing.policyId
+      ? (Array.from(state.policies.values()).find((p) => p.id === existing.policyId)?.name ??
+        existing.policyId)
+      : null;
+    const fields = [
+      ...(differs(existing.description ?? null, description) ? ['description'] : []),
+      ...(differs(currentPolicy, group.policy ?? null) ? ['policy'] : []),
+      ...(differs(existing.metadata, metadata) ? ['metadata'] : []),
+    ];
+    if (fields.length === 0) continue;
+
+    changes.push({
+      resource: 'group',
+      action: 'update',
+      key: group.path,
+      id: existing.id,
+      fields,
+      run: async () => {
+        await target.groups.update(existing.id, {
+          ...(fields.includes('description') ? { description } : {}),
+          ...(fields.includes('policy')
+            ? { policyId: group.policy ? policyId(group.policy) : null }
+            : {}),
+          ...(fields.includes('metadata') ? { metadata } : {}),
+        });
+      },
+    });
+  }
+
+  // --- Applications ---
+  // The deployment flags are left alone when the bundle does not set them;
+  // their defaults belong to the adapter.
+  const APP_FIELDS = ['name', 'versionCode', 'url', 'hash', 'size', 'minSdkVersion', 'metadata'];
+  const APP_FLAGS = ['showIcon', 'runAfterInstall', 'runAtBoot', 'isActive'];
+  for (const app of bundle.applications ?? []) {
+    const existing = state.apps.get(appKey(app));
+    if (!existing) {
+      changes.push({
+        resource: 'application',
+        action: 'create',
+        key: appKey(app),
+        run: async () => {
+          const { isActive, ...input } = app;
+          const created = await target.apps.register(input);
+          if (isActive !== undefined && created.isActive !== isActive) {
+            await target.apps.update(created.id, { isActive });
+          }
+        },
+      });
+      continue;
+    }
+
+    const current = existing as unknown as Record<string, unknown>;
+    const wanted = app as unknown as Record<string, unknown>;
+    const fields = [
+      ...APP_FIELDS.filter((field) => differs(current[field], wanted[field])),
+      ...APP_FLAGS.filter(
+        (field) => wanted[field] !== undefined && current[field] !== wanted[field],
+      ),
+    ];
+    if (fields.length === 0) continue;
+
+    changes.push({
+      resource: 'application',
+      action: 'update',
+      key: appKey(app),
+      id: existing.id,
+      fields,
+      run: async () => {
+        await target.apps.update(
+          existing.id,
+          Object.fromEntries(fields.map((field) => [field, wanted[field] ?? null])),
+        );
+      },
+    });
+  }
+
+  // --- Scheduled tasks ---
+  const taskSchedule = (task: BundledScheduledTask): TaskSchedule => ({
+    ...task.schedule,
+    executeAt: task.schedule.executeAt ? new Date(task.schedule.executeAt) : undefined,
+  });
+  const createTask = (task: BundledScheduledTask) => async () => {
+    const schedules = target.schedules!;
+    const created = await schedules.create({
+      name: task.name,
+      ...(task.description ? { description: task.description } : {}),
+      taskType: task.taskType,
+      schedule: taskSchedule(task),
+      target: mapTarget(task.target, policyId, groupId),
+      ...(task.payload ? { payload: task.payload } : {}),
+      ...(task.maxRetries !== undefined ? { maxRetries: task.maxRetries } : {}),
+    });
+    if (task.status && task.status !== created.status) {
+      await schedules.update(created.id, { status: task.status });
+    }
+  };
+
+  for (const task of bundle.scheduledTasks ?? []) {
+    const existing = state.tasks.get(task.name);
+    if (!existing) {
+      changes.push({
+        resource: 'scheduledTask',
+        action: 'create',
+        key: task.name,
+        run: createTask(task),
+      });
+      continue;
+    }
+
+    // The task type cannot be changed in place.
+    if (existing.taskType !== task.taskType) {
+      changes.push(
+        {
+          resource: 'scheduledTask',
+          action: 'delete',
+          key: task.name,
+          id: existing.id,
+          run: () => target.schedules!.delete(existing.id),
+        },
+        { resource: 'scheduledTask', action: 'create', key: task.name, run: createTask(task) },
+      );
+      continue;
+    }
+
+    const targetByRef = mapTarget(
+      task.target,
+      (name) => policyIds.get(name) ?? name,
+      (path) => groupIds.get(path) ?? path,
+    );
+    const fields = [
+      ...(differs(existing.description || null, task.description || null) ? ['description'] : []),
+      ...(differs(existing.schedule, taskSchedule(task)) ? ['schedule'] : []),
+      ...(differs(existing.target, targetByRef) ? ['target'] : []),
+      ...(differs(existing.payload, task.payload) ? ['payload'] : []),
+      ...(task.maxRetries !== undefined && existing.maxRetries !== task.maxRetries
+        ? ['maxRetries']
+        : []),
+      ...(task.status !== undefined && existing.status !== task.status ? ['status'] : []),
+    ];
+    if (fields.length === 0) continue;
+
+    changes.push({
+      resource: 'scheduledTask',
+      action: 'update',
+      key: task.name,
+      id: existing.id,
+      fields,
+      run: async () => {
+        await target.schedules!.update(existing.id, {
+          ...(fields.includes('description') ? { description: task.description ?? '' } : {}),
+          ...(fields.includes('schedule') ? { schedule: taskSchedule(task) } : {}),
+          ...(fields.includes('target')
+            ? { target: mapTarget(task.target, policyId, groupId) ?? {} }
+            : {}),
+          ...(fields.includes('payload') ? { payload: task.payload ?? {} } : {}),
+          ...(fields.includes('maxRetries') ? { maxRetries: task.maxRetries } : {}),
+          ...(fields.includes('status') ? { status: task.status } : {}),
+        });
+      },
+    });
+  }
+
+  // --- Deletes, dependents first. Only kinds the bundle lists are pruned. ---
+  if (prune) {
+    if (bundle.scheduledTasks) {
+      const keep = new Set(bundle.scheduledTasks.map((task) => task.name));
+      for (const [name, task] of state.tasks) {
+        if (keep.has(name)) continue;
+        changes.push({
+          resource: 'scheduledTask',
+          action: 'delete',
+          key: name,
+          id: task.id,
+          run: () => target.schedules!.delete(task.id),
+        });
+      }
+    }
+    if (bundle.applications) {
+      const keep = new Set(bundle.applications.map(appKey));
+      for (const [key, app] of state.apps) {
+        if (keep.has(key)) continue;
+        changes.push({
+          resource: 'application',
+          action: 'delete',
+          key,
+          id: app.id,
+          run: () => target.apps.delete(app.id),
+        });
+      }
+    }
+    if (bundle.groups) {
+      const keep = new Set(bundle.groups.map((group) => group.path));
+      const gone = Array.from(state.groups).filter(([path]) => !keep.has(path));
+      // Children before their parents.
+      gone.sort(([a], [b]) => b.split('/').length - a.split('/').length);
+      for (const [path, group] of gone) {
+        changes.push({
+          resource: 'group',
+          action: 'delete',
+          key: path,
+          id: group.id,
+          run: () => target.groups.delete(group.id),
+        });
+      }
+    }
+    if (bundle.policies) {
+      const keep = new Set(bundle.policies.map((policy) => policy.name));
+      const gone = Array.from(state.policies).filter(([name]) => !keep.has(name));
+      // Policies whose quarantine rules name another one before it:
+      // `policies.delete` refuses a policy that is still named.
+      const quarantineIds = new Set(
+        gone.flatMap(([, policy]) =>
+          (policy.complianceRules?.remediation ?? []).flatMap((step) =>
+            step.action === 'quarantine' ? [step.policyId] : [],
+          ),
+        ),
+      );
+      gone.sort(
+        ([, a], [, b]) => Number(quarantineIds.has(a.id)) - Number(quarantineIds.has(b.id)),
+      );
+      for (const [name, policy] of gone) {
+        changes.push({
+          resource: 'policy',
+          action: 'delete',
+          key: name,
+          id: policy.id,
+          run: () => target.policies.delete(policy.id),
+        });
+      }
+    }
+  }
+
+  const applied = !options.dryRun;
+  if (applied) {
+    for (const change of changes) {
+      await change.run();
+    }
+    for (const finish of deferred) {
+      await finish();
+    }
+  }
+
+  const count = (action: ConfigBundleChange['action']) =>
+    changes.filter((change) => change.action === action).length;
+  return {
+    changes: changes.map(({ run: _run, ...change }) => change),
+    summary: { create: count('create'), update: count('update'), delete: count('delete') },
+    applied,
+  };
+}
@@ -34,43 +34,81 @@ import type {
   AuditManager,
   AuthorizationManager,
   Command,
+  CommandArtifactDownload,
+  CommandArtifactUpload,
+  CommandCampaign,
+  CommandCampaignFilter,
+  CommandCampaignProgress,
+  CommandCancellationOutcome,
   CommandFilter,
   CommandManager,
   CommandResult,
   CommandRetryResult,
+  CommandWorkflow,
+  CommandWorkflowFilter,
   CreateApplicationInput,
+  CreateCommandArtifactUploadInput,
   CreateDeviceInput,
   CreateGroupInput,
+  CreatePolicyFromTemplateOptions,
   CreatePolicyInput,
+  CreateScheduledTaskInput,
   DatabaseAdapter,
   DeployTarget,
   Device,
   DeviceFilter,
   DeviceListResult,
   DeviceManager,
+  EffectiveSettings,
   Group,
   GroupHierarchyStats,
   GroupManager,
   GroupTreeNode,
   Logger,
   MDMContext,
+  OpenShellSessionInput,
   PermissionAction,
   PermissionResource,
   Policy,
+  PolicyDiff,
+  PolicyImpact,
+  PolicyImpactInput,
   PolicyManager,
+  PolicySchedule,
+  PolicyScheduleResult,
+  PolicySettings,
+  PushDelivery,
+  PushToken,
+  RegisterPushTokenInput,
+  ScheduledTask,
+  ScheduledTaskFilter,
+  ScheduledTaskListResult,
+  ScheduleManager,
   ScopedMDM,
+  SendBulkCommandInput,
   SendCommandInput,
+  ShellSession,
+  ShellSessionFilter,
+  ShellSessionListener,
+  ShellSessionManager,
+  StartCommandWorkflowInput,
+  TaskExecution,
   UpdateApplicationInput,
   UpdateDeviceInput,
   UpdateGroupInput,
   UpdatePolicyInput,
+  UpdateScheduledTaskInput,
 } from './types';
 import {
   ApplicationNotFoundError,
+  AuthorizationError,
+  CommandCampaignNotFoundError,
+  CommandWorkflowNotFoundError,
   ConfigurationError,
   DeviceNotFoundError,
   GroupNotFoundError,
   PolicyNotFoundError,
+  ShellSessionNotFoundError,
 } from './types';
 
 export interface ScopedInstanceDeps {
@@ -82,7 +120,12 @@ export interface ScopedInstanceDeps {
     apps: ApplicationManager;
     commands: CommandManager;
     groups: GroupManager;
+    shell: ShellSessionManager;
+    /** Present when scheduling is enabled. */
+    schedules?: ScheduleManager;
   };
+  /** The session as the shell manager holds it, without touching its timeouts. */
+  peekShellSession: (id: string) => ShellSession | null;
   /**
    * Resolved lazily (per call, not per instance) so a host that swaps the
    * authorization manager after construction — or a test that stubs it — is
@@ -142,6 +185,14 @@ export function createScopedInstance(context: MDMContext, deps: ScopedInstanceDe
   const stampTenant = <T extends { tenantId?: string }>(input: T): T =>
     context.tenantId ? { ...input, tenantId: context.tenantId } : input;
 
+  /**
+   * Stamp tenant and requesting user onto a command input. The caller's own
+   * `requestedBy` is overwritten: it is what the approval gate compares the
+   * reviewer against, so it cannot be caller-supplied.
+   */
+  const stampCommand = <T extends { tenantId?: string; requestedBy?: string }>(input: T): T =>
+    stampTenant(context.userId ? { ...input, requestedBy: context.userId } : input);
+
   const writeAudit = async (
     action: 'create' | 'read' | 'update' | 'delete' | 'command',
     resource: string,
@@ -175,6 +226,10 @@ export function createScopedInstance(context: MDMContext, deps: ScopedInstanceDe
     }
   };
 
+  /** Whether `checkPermission` asks anything of this caller. */
+  const permissionsApply = (): boolean =>
+    authorizationEnabled && !!authorization() && !!context.userId;
+
   const checkPermission = async (
     action: PermissionAction,
     resource: PermissionResource,
@@ -291,6 +346,12 @@ export function createScopedInstance(context: MDMContext, deps: ScopedInstanceDe
       });
     },
 
+    async getEffectiveSettings(deviceId: string): Promise<EffectiveSettings> {
+      await checkPermission('read', 'devices', deviceId);
+      await assertDeviceInScope(deviceId);
+      return managers.devices.getEffectiveSettings(deviceId);
+    },
+
     async assignPolicy(deviceId: string, policyId: string): Promise<Device> {
       return guard(
         {
@@ -307,6 +368,63 @@ export function createScopedInstance(context: MDMContext, deps: ScopedInstanceDe
       );
     },
 
+    async setPolicySchedule(deviceId: string, schedule: PolicySchedule | null): Promise<Device> {
+      return guard(
+        {
+          action: 'update',
+          resource: 'devices',
+          resourceId: deviceId,
+          details: { policySchedule: schedule },
+        },
+        async () => {
+          await assertDeviceInScope(deviceId);
+          if (schedule) {
+            for (const window of schedule.windows ?? []) {
+              await assertPolicyInScope(window.policyId);
+            }
+            await assertPolicyInScope(schedule.defaultPolicyId);
+          }
+          return managers.devices.setPolicySchedule(deviceId, schedule);
+        },
+      );
+    },
+
+    async registerPushToken(
+      deviceId: string,
+      input: Omit<RegisterPushTokenInput, 'deviceId'>,
+    ): Promise<PushToken> {
+      return guard(
+        { action: 'update', resource: 'devices', resourceId: deviceId, audited: false },
+        async () => {
+          await assertDeviceInScope(deviceId);
+          return managers.devices.registerPushToken(deviceId, input);
+        },
+      );
+    },
+
+    async setPresence(
+      id: string,
+      online: boolean,
+      options?: { at?: Date; transport?: PushToken['provider'] },
+    ): Promise<Device> {
+      // Presence flips on every reconnect; auditing each one would drown the
+      // audit table the same way reads would.
+      return guard(
+        { action: 'update', resource: 'devices', resourceId: id, audited: false },
+        async () => {
+          await assertDeviceInScope(id);
+          return managers.devices.setPresence(id, online, options);
+        },
+      );
+    },
+
+    async resetPresence(options?: { silentSince?: Date }): Promise<number> {
+      // Like the delivery sweeps, a presence reset is infrastructure and spans
+      // tenants; a scoped instance still needs the permission to trigger it.
+      await checkPermission('manage', 'devices');
+      return managers.devices.resetPresence(options);
+    },
+
     async sendCommand(
       deviceId: string,
       input: Omit<SendCommandInput, 'deviceId'>,
@@ -320,7 +438,7 @@ export function createScopedInstance(context: MDMContext, deps: ScopedInstanceDe
         },
         async () => {
           await assertDeviceInScope(deviceId);
-          return managers.devices.sendCommand(deviceId, stampTenant(input as SendCommandInput));
+          return managers.devices.sendCommand(deviceId, stampCommand(input as SendCommandInput));
         },
       );
     },
@@ -363,6 +481,96 @@ export function createScopedInstance(context: MDMContext, deps: ScopedInstanceDe
         return managers.policies.delete(id);
       });
     },
+
+    async createFromTemplate(
+      templateId: string,
+      params: Record<string, unknown>,
+      options?: CreatePolicyFromTemplateOptions,
+    ): Promise<Policy> {
+      return guard(
+        { action: 'create', resource: 'policies', details: { template: templateId } },
+        () => managers.policies.createFromTemplate(templateId, params, stampTenant(options ?? {})),
+      );
+    },
+
+    async diff(policyId: string, fromVersion: number, toVersion: number): Promise<PolicyDiff> {
+      await checkPermission('read', 'policies', policyId);
+      await assertPolicyInScope(policyId);
+      return managers.policies.diff(policyId, fromVersion, toVersion);
+    },
+
+    async simulate(policyId: string, proposed: PolicyImpactInput): Promise<PolicyImpact> {
+      await checkPermission('read', 'policies', policyId);
+      await assertPolicyInScope(policyId);
+      return managers.policies.simulate(policyId, proposed);
+    },
+
+    async applySchedules(now?: Date): Promise<PolicyScheduleResult> {
+      // Like the command delivery sweeps: infrastructure, not tenant-scoped,
+      // and expected to be driven by the root instance.
+      await checkPermission('manage', 'policies');
+      return managers.policies.applySchedules(now);
+    },
+
+    async startRollout(
+      policyId: string,
+      settings: PolicySettings,
+      options: { percentage: number },
+    ): Promise<Policy> {
+      return guard(
+        {
+          action: 'update',
+          resource: 'policies',
+          resourceId: policyId,
+          details: { rollout: options.percentage },
+        },
+        async () => {
+          await assertPolicyInScope(policyId);
+          return managers.policies.startRollout(policyId, settings, options);
+        },
+      );
+    },
+
+    async setRolloutPercentage(policyId: string, percentage: number): Promise<Policy> {
+      return guard(
+        {
+          action: 'update',
+          resource: 'policies',
+          resourceId: policyId,
+          details: { rollout: percentage },
+        },
+        async () => {
+          await assertPolicyInScope(policyId);
+          return managers.policies.setRolloutPercentage(policyId, percentage);
+        },
+      );
+    },
+
+    async pauseRollout(policyId: string): Promise<Policy> {
+      return guard({ action: 'update', resource: 'policies', resourceId: policyId }, async () => {
+        await assertPolicyInScope(policyId);
+        return managers.policies.pauseRollout(policyId);
+      });
+    },
+
+    async resumeRollout(policyId: string): Promise<Policy> {
+      return guard({ action: 'update', resource: 'policies', resourceId: policyId }, async () => {
+        await assertPolicyInScope(policyId);
+        return managers.policies.resumeRollout(policyId);
+      });
+    },
+
+    async rollbackRollout(policyId: string, options?: { note?: string }): Promise<Policy> {
+      return guard({ action: 'update', resource: 'policies', resourceId: policyId }, async () => {
+        await assertPolicyInScope(policyId);
+        return managers.policies.rollbackRollout(policyId, options);
+      });
+    },
+
+    async getForDevice(deviceId: string): Promise<Policy | null> {
+      await assertDeviceInScope(deviceId);
+      return managers.policies.getForDevice(deviceId);
+    },
   };
 
   // ============================================
@@ -494,7 +702,7 @@ export function createScopedInstance(context: MDMContext, deps: ScopedInstanceDe
           auditAs: 'command',
           details: { deviceId: input.deviceId, type: input.type },
         },
-        () => managers.commands.send(stampTenant(input)),
+        () => managers.commands.send(stampCommand(input)),
       );
     },
 
@@ -525,6 +733,122 @@ export function createScopedInstance(context: MDMContext, deps: ScopedInstanceDe
       return managers.commands.getPending(deviceId);
     },
 
+    async getCancellations(deviceId: string): Promise<string[]> {
+      await assertDeviceInScope(deviceId);
+      return managers.commands.getCancellations(deviceId);
+    },
+
+    async confirmCancellation(
+      id: string,
+      outcome: CommandCancellationOutcome,
+      options?: { deviceId?: string },
+    ): Promise<Command> {
+      await assertCommandInScope(id);
+      return managers.commands.confirmCancellation(id, outcome, options);
+    },
+
+    async getDeliveries(commandId: string): Promise<PushDelivery[]> {
+      await checkPermission('read', 'commands', commandId);
+      await assertCommandInScope(commandId);
+      return managers.commands.getDeliveries(commandId);
+    },
+
+    async sendBulk(input: SendBulkCommandInput): Promise<CommandCampaign> {
+      for (const deviceId of input.target?.devices ?? []) {
+        await assertDeviceInScope(deviceId);
+      }
+      for (const groupId of input.target?.groups ?? []) {
+        await assertGroupInScope(groupId);
+      }
+      for (const policyId of input.target?.policies ?? []) {
+        await assertPolicyInScope(policyId);
+      }
+      return guard(
+        {
+          action: 'create',
+          resource: 'commands',
+          auditAs: 'command',
+          details: {
+            type: input.type,
+            target: input.target as unknown as Record<string, unknown>,
+            filter: input.filter as unknown as Record<string, unknown>,
+          },
+        },
+        () => managers.commands.sendBulk(stampCommand(input)),
+      );
+    },
+
+    async getCampaign(id: string): Promise<CommandCampaign | null> {
+      await checkPermission('read', 'commands', id);
+      return loadInScope(() => managers.commands.getCampaign(id));
+    },
+
+    async listCampaigns(filter?: CommandCampaignFilter): Promise<CommandCampaign[]> {
+      await checkPermission('read', 'commands');
+      return managers.commands.listCampaigns(scopeFilter(filter));
+    },
+
+    async getCampaignProgress(id: string): Promise<CommandCampaignProgress> {
+      await checkPermission('read', 'commands', id);
+      await assertCampaignInScope(id);
+      return managers.commands.getCampaignProgress(id);
+    },
+
+    async cancelCampaign(id: string): Promise<CommandCampaignProgress> {
+      return guard({ action: 'update', resource: 'commands', resourceId: id }, async () => {
+        await assertCampaignInScope(id);
+        return managers.commands.cancelCampaign(id);
+      });
+    },
+
+    async startWorkflow(input: StartCommandWorkflowInput): Promise<CommandWorkflow> {
+      await assertDeviceInScope(input.deviceId);
+      return guard(
+        {
+          action: 'create',
+          resource: 'commands',
+          auditAs: 'command',
+          details: {
+            deviceId: input.deviceId,
+            workflow: input.name,
+            steps: input.steps.map((step) => step.type),
+          },
+        },
+        () => managers.commands.startWorkflow(stampCommand(input)),
+      );
+    },
+
+    async getWorkflow(id: string): Promise<CommandWorkflow | null> {
+      await checkPermission('read', 'commands', id);
+      return loadInScope(() => managers.commands.getWorkflow(id));
+    },
+
+    async listWorkflows(filter?: CommandWorkflowFilter): Promise<CommandWorkflow[]> {
+      await checkPermission('read', 'commands');
+      return managers.commands.listWorkflows(scopeFilter(filter));
+    },
+
+    async cancelWorkflow(id: string): Promise<CommandWorkflow> {
+      return guard({ action: 'update', resource: 'commands', resourceId: id }, async () => {
+        await assertWorkflowInScope(id);
+        return managers.commands.cancelWorkflow(id);
+      });
+    },
+
+    async createArtifactUpload(
+      commandId: string,
+      input: CreateCommandArtifactUploadInput,
+    ): Promise<CommandArtifactUpload> {
+      await assertCommandInScope(commandId);
+      return managers.commands.createArtifactUpload(commandId, input);
+    },
+
+    async getArtifactDownloadUrl(commandId: string, key: string): Promise<CommandArtifactDownload> {
+      await checkPermission('read', 'commands', commandId);
+      await assertCommandInScope(commandId);
+      return managers.commands.getArtifactDownloadUrl(commandId, key);
+    },
+
     async retryPending(options?: { limit?: number }): Promise<CommandRetryResult> {
       // Delivery sweeps are infrastructure, not a user action: they are not
       // tenant-scoped and are expected to be driven by the root instance.
@@ -537,8 +861,47 @@ export function createScopedInstance(context: MDMContext, deps: ScopedInstanceDe
       await checkPermission('manage', 'commands');
       return managers.commands.expireStale();
     },
+
+    // A user-scoped instance reviews as its own user: the reviewer argument
+    // only applies to an instance without one.
+    async approve(id: string, approvedBy: string): Promise<Command> {
+      const reviewer = context.userId ?? approvedBy;
+      const details = await reviewDetails(id, 'approved', reviewer);
+      return guard({ action: 'manage', resource: 'commands', resourceId: id, details }, () =>
+        managers.commands.approve(id, reviewer),
+      );
+    },
+
+    async reject(id: string, rejectedBy: string, reason?: string): Promise<Command> {
+      const reviewer = context.userId ?? rejectedBy;
+      const details = { ...(await reviewDetails(id, 'rejected', reviewer)), reason };
+      return guard({ action: 'manage', resource: 'commands', resourceId: id, details }, () =>
+        managers.commands.reject(id, reviewer, reason),
+      );
+    },
   };
 
+  /**
+   * Audit details for an approval decision. Both actors go into the entry —
+   * the reviewer is also its `userId` — so the trail for a held command can
+   * be read from the decision alone.
+   */
+  async function reviewDetails(
+    id: string,
+    decision: 'approved' | 'rejected',
+    reviewer: string,
+  ): Promise<Record<string, unknown>> {
+    await assertCommandInScope(id);
+    const command = await managers.commands.get(id);
+    return {
+      decision,
+      deviceId: command?.deviceId,
+      type: command?.type,
+      requestedBy: command?.requestedBy ?? null,
+      reviewedBy: reviewer,
+    };
+  }
+
   // ============================================
   // Groups
   // ============================================
@@ -616,6 +979,143 @@ export function createScopedInstance(context: MDMContext, deps: ScopedInstanceDe
     },
   };
 
+  // ============================================
+  // Scheduled tasks
+  // ============================================
+
+  const rootSchedules = managers.schedules;
+  const schedules: ScheduleManager | undefined = rootSchedules && {
+    ...rootSchedules,
+
+    async get(id: string): Promise<ScheduledTask | null> {
+      await checkPermission('read', 'schedules', id);
+      return loadInScope(() => rootSchedules.get(id));
+    },
+
+    async list(filter?: ScheduledTaskFilter): Promise<ScheduledTaskListResult> {
+      await checkPermission('read', 'schedules');
+      return rootSchedules.list(scopeFilter(filter));
+    },
+
+    async create(data: CreateScheduledTaskInput): Promise<ScheduledTask> {
+      return guard({ action: 'create', resource: 'schedules' }, () =>
+        rootSchedules.create(stampTenant(data)),
+      );
+    },
+
+    async update(id: string, data: UpdateScheduledTaskInput): Promise<ScheduledTask> {
+      await assertTaskInScope(id);
+      return guard({ action: 'update', resource: 'schedules', resourceId: id }, () =>
+        rootSchedules.update(id, data),
+      );
+    },
+
+    async delete(id: string): Promise<void> {
+      await assertTaskInScope(id);
+      return guard({ action: 'delete', resource: 'schedules', resourceId: id }, () =>
+        rootSchedules.delete(id),
+      );
+    },
+
+    async pause(id: string): Promise<ScheduledTask> {
+      await assertTaskInScope(id);
+      return guard({ action: 'update', resource: 'schedules', resourceId: id }, () =>
+        rootSchedules.pause(id),
+      );
+    },
+
+    async resume(id: string): Promise<ScheduledTask> {
+      await assertTaskInScope(id);
+      return guard({ action: 'update', resource: 'schedules', resourceId: id }, () =>
+        rootSchedules.resume(id),
+      );
+    },
+
+    async runNow(id: string): Promise<TaskExecution> {
+      await assertTaskInScope(id);
+      return guard({ action: 'update', resource: 'schedules', resourceId: id }, () =>
+        rootSchedules.runNow(id),
+      );
+    },
+
+    async getUpcoming(hours: number): Promise<ScheduledTask[]> {
+      await checkPermission('read', 'schedules');
+      const upcoming = await rootSchedules.getUpcoming(hours);
+      return upcoming.filter(inScope);
+    },
+
+    async getExecutions(taskId: string, limit?: number): Promise<TaskExecution[]> {
+      await assertTaskInScope(taskId);
+      await checkPermission('read', 'schedules', taskId);
+      return rootSchedules.getExecutions(taskId, limit);
+    },
+  };
+
+  // ============================================
+  // Shell sessions
+  // ============================================
+  //
+  // Not wrapped in `guard`: the shell manager writes its own audit entry for
+  // every open, line and close, and a second one here would only duplicate
+  // it. The session's user is the caller's, never one it names.
+
+  // `subscribe` is synchronous and cannot ask the authorization manager, so
+  // it only hands out a stream `get` has already cleared for this caller.
+  const readableShellSessions = new Set<string>();
+
+  const shell: ShellSessionManager = {
+    ...managers.shell,
+
+    async open(input: OpenShellSessionInput): Promise<ShellSession> {
+      await checkPermission('create', 'commands');
+      await assertDeviceInScope(input.deviceId);
+      return managers.shell.open(
+        stampTenant(context.userId ? { ...input, openedBy: context.userId } : input),
+      );
+    },
+
+    async get(id: string): Promise<ShellSession | null> {
+      await checkPermission('read', 'commands');
+      const session = await loadInScope(() => managers.shell.get(id));
+      if (session) readableShellSessions.add(id);
+      return session;
+    },
+
+    async list(filter?: ShellSessionFilter): Promise<ShellSession[]> {
+      await checkPermission('read', 'commands');
+      return managers.shell.list(scopeFilter(filter));
+    },
+
+    async exec(sessionId: string, line: string, options?: { by?: string }): Promise<Command> {
+      await checkPermission('create', 'commands');
+      assertShellSessionInScope(sessionId);
+      return managers.shell.exec(sessionId, line, {
+        by: context.userId ?? options?.by,
+      });
+    },
+
+    subscribe(sessionId: string, listener: ShellSessionListener): () => void {
+      assertShellSessionInScope(sessionId);
+      if (permissionsApply() && !readableShellSessions.has(sessionId)) {
+        throw new AuthorizationError(
+          `Permission denied: read on commands (${sessionId}); call shell.get first`,
+        );
+      }
+      return managers.shell.subscribe(sessionId, listener);
+    },
+
+    async close(sessionId: string, options?: { by?: string }): Promise<ShellSession> {
+      await checkPermission('update', 'commands');
+      assertShellSessionInScope(sessionId);
+      return managers.shell.close(sessionId, { by: context.userId ?? options?.by });
+    },
+
+    async expireIdle(): Promise<number> {
+      await checkPermission('manage', 'commands');
+      return managers.shell.expireIdle();
+    },
+  };
+
   // ============================================
   // Scope assertions
   // ============================================
@@ -665,6 +1165,15 @@ export function createScopedInstance(context: MDMContext, deps: ScopedInstanceDe
     }
   }
 
+  /** The same error the schedule manager throws for a task that does not exist. */
+  async function assertTaskInScope(id: string): Promise<void> {
+    if (!context.tenantId) return;
+    const task = await managers.schedules?.get(id);
+    if (!task || !inScope(task)) {
+      throw new Error(`Scheduled task not found: ${id}`);
+    }
+  }
+
   async function assertCommandInScope(id: string): Promise<void> {
     if (!context.tenantId) return;
     const command = await managers.commands.get(id);
@@ -681,6 +1190,30 @@ export function createScopedInstance(context: MDMContext, deps: ScopedInstanceDe
     await assertDeviceInScope(command.deviceId);
   }
 
+  /** Synchronous, so `shell.subscribe` can keep its signature. */
+  function assertShellSessionInScope(id: string): void {
+    if (!context.tenantId) return;
+    if (!inScope(deps.peekShellSession(id))) {
+      throw new ShellSessionNotFoundError(id);
+    }
+  }
+
+  async function assertCampaignInScope(id: string): Promise<void> {
+    if (!context.tenantId) return;
+    const campaign = await managers.commands.getCampaign(id);
+    if (!campaign || !inScope(campaign)) {
+      throw new CommandCampaignNotFoundError(id);
+    }
+  }
+
+  async function assertWorkflowInScope(id: string): Promise<void> {
+    if (!context.tenantId) return;
+    const workflow = await managers.commands.getWorkflow(id);
+    if (!workflow || !inScope(workflow)) {
+      throw new CommandWorkflowNotFoundError(id);
+    }
+  }
+
   return {
     context,
     devices,
@@ -688,6 +1221,8 @@ export function createScopedInstance(context: MDMContext, deps: ScopedInstanceDe
     apps,
     commands,
     groups,
+    shell,
+    ...(schedules ? { schedules } : {}),
   };
 }
 
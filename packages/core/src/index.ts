@@ -25,6 +25,8 @@
 import { createHash, createHmac, randomUUID, timingSafeEqual } from 'crypto';
 import { createAuditManager } from './audit';
 import { createAuthorizationManager } from './authorization';
+import { BUILT_IN_COMMAND_PAYLOAD_SCHEMAS, validateCommandPayload } from './command-payloads';
+import { compareVersions, evaluateComplianceRules, validateComplianceRuleSet } from './compliance';
 import { createScopedInstance } from './context';
 import { createDashboardManager } from './dashboard';
 import {
@@ -39,6 +41,19 @@ import {
 } from './device-identity';
 import { createConsoleLogger, createSilentLogger } from './logger';
 import { createMemoryPluginStorageAdapter, createPluginStorageAdapter } from './plugin-storage';
+import { diffPolicySettings } from './policy-diff';
+import { planAppChanges } from './policy-impact';
+import { mergePolicyLayers } from './policy-overlay';
+import { scheduledPolicyId, validatePolicySchedule } from './policy-schedule';
+import { composePolicySchema, validateJsonSchema } from './policy-schema';
+import { BUILT_IN_POLICY_TEMPLATES, withParameterDefaults } from './policy-templates';
+import {
+  getPushProviderConfig,
+  groupTopic,
+  resolvePushAdapter,
+  withDeliveryLog,
+  withGroupBroadcast,
+} from './push';
 import { createMessageQueueManager } from './queue';
 import { createScheduleManager } from './schedule';
 import { createTenantManager } from './tenant';
@@ -46,27 +61,51 @@ import type {
   Application,
   ApplicationManager,
   AppRollout,
+  AuditAction,
+  AuditLog,
   AuditManager,
   AuthorizationManager,
   Command,
+  CommandArtifact,
+  CommandArtifactDownload,
+  CommandArtifactUpload,
+  CommandCampaign,
+  CommandCampaignFilter,
+  CommandCampaignProgress,
+  CommandCancellationOutcome,
   CommandFilter,
   CommandManager,
+  CommandPayloadSchema,
   CommandResult,
   CommandRetryResult,
+  CommandStatus,
+  CommandType,
+  CommandWorkflow,
+  CommandWorkflowFailureAction,
+  CommandWorkflowFilter,
+  CommandWorkflowStep,
+  ComplianceRuleSet,
+  ComplianceViolation,
   CreateApplicationInput,
+  CreateCommandArtifactUploadInput,
+  CreateCommandInput,
   CreateDeviceInput,
   CreateGroupInput,
+  CreatePolicyFromTemplateOptions,
   CreatePolicyInput,
   DashboardManager,
+  DatabaseAdapter,
   DeployTarget,
   Device,
   DeviceApp,
+  DeviceComplianceState,
   DeviceConvergence,
   DeviceFilter,
   DeviceListResult,
   DeviceManager,
   DevicePolicyCompliance,
   DeviceStatus,
+  EffectiveSettings,
   EnrollmentChallenge,
   EnrollmentRequest,
   EnrollmentResponse,
@@ -79,6 +118,7 @@ import type {
   GroupTreeNode,
   Heartbeat,
   InstalledApp,
+  JsonSchema,
   Logger,
   MDMConfig,
   MDMContext,
@@ -86,22 +126,42 @@ import type {
   MDMInstance,
   MDMPlugin,
   MessageQueueManager,
+  OpenShellSessionInput,
+  PluginCommandResult,
   PluginStorageAdapter,
   Policy,
   PolicyCompliance,
   PolicyComplianceStatus,
+  PolicyDiff,
+  PolicyImpact,
+  PolicyImpactDevice,
+  PolicyImpactInput,
+  PolicyLayer,
   PolicyManager,
+  PolicyRollout,
+  PolicySchedule,
+  PolicyScheduleResult,
   PolicySettings,
+  PolicyTemplate,
   PolicyVersion,
-  PushAdapter,
-  PushBatchResult,
-  PushMessage,
-  PushResult,
+  PushDelivery,
+  PushManager,
+  PushToken,
+  RegisterPushTokenInput,
   ScheduleManager,
   ScopedMDM,
+  SendBulkCommandInput,
   SendCommandInput,
+  ShellOutputChunk,
+  ShellSession,
+  ShellSessionFilter,
+  ShellSessionFrame,
+  ShellSessionListener,
+  ShellSessionManager,
+  StartCommandWorkflowInput,
   TenantManager,
   UpdateApplicationInput,
+  UpdateCommandWorkflowInput,
   UpdateDeviceInput,
   UpdateGroupInput,
   UpdateManager,
@@ -112,11 +172,17 @@ import type {
 } from './types';
 import {
   ApplicationNotFoundError,
+  CommandApprovalError,
+  CommandCampaignNotFoundError,
   CommandNotFoundError,
+  CommandWorkflowNotFoundError,
+  ConfigurationError,
   DEVICE_STATUS_TRANSITIONS,
   DeviceNotFoundError,
   EnrollmentError,
   PolicyNotFoundError,
+  PolicyTemplateNotFoundError,
+  ShellSessionNotFoundError,
   ValidationError,
 } from './types';
 import { createWebhookManager } from './webhooks';
@@ -124,6 +190,15 @@ import { createWebhookManager } from './webhooks';
 export * from './agent-protocol';
 export { createAuditManager } from './audit';
 export { createAuthorizationManager } from './authorization';
+export { BUILT_IN_COMMAND_PAYLOAD_SCHEMAS, validateCommandPayload } from './command-payloads';
+export type { ComplianceTelemetry } from './compliance';
+export { evaluateComplianceRules } from './compliance';
+export {
+  CONFIG_BUNDLE_API_VERSION,
+  exportConfigBundle,
+  importConfigBundle,
+  REDACTED_SECRET,
+} from './config-bundle';
 export { createScopedInstance } from './context';
 export { createDashboardManager } from './dashboard';
 // Device identity (Phase 2b)
@@ -144,6 +219,25 @@ export {
   createPluginStorageAdapter,
   parsePluginKey,
 } from './plugin-storage';
+export { diffPolicySettings } from './policy-diff';
+export { planAppChanges } from './policy-impact';
+export type { MergedPolicySettings } from './policy-overlay';
+export { mergePolicyLayers } from './policy-overlay';
+export { scheduledPolicyId, validatePolicySchedule } from './policy-schedule';
+export {
+  composePolicySchema,
+  POLICY_SETTINGS_SCHEMA,
+  validateJsonSchema,
+} from './policy-schema';
+export { BUILT_IN_POLICY_TEMPLATES } from './policy-templates';
+export type { FailoverPushAdapterOptions, FailoverPushChannel } from './push';
+export {
+  createFailoverPushAdapter,
+  getPushProviderConfig,
+  groupTopic,
+  isPushAdapter,
+  resolvePushAdapter,
+} from './push';
 export { createMessageQueueManager } from './queue';
 export { createScheduleManager } from './schedule';
 export * from './schema';
@@ -183,9 +277,41 @@ export function createMDM(config: MDMConfig): MDMInstance {
   const eventHandlers = new Map<EventType, Set<EventHandler<EventType>>>();
 
   // Create push adapter
-  const pushAdapter: PushAdapter = push
-    ? createPushAdapter(push, database, logger)
-    : createStubPushAdapter(logger);
+  const pushProvider = getPushProviderConfig(push);
+  const pushTransport = resolvePushAdapter(push, database, logger);
+  // A bare adapter carries no provider config; it names its own transport.
+  const pushProviderName = pushProvider?.provider ?? pushTransport.provider ?? 'polling';
+  const pushAdapter: PushManager = withGroupBroadcast(
+    withDeliveryLog(pushTransport, database, pushProviderName, logger),
+    database,
+    logger,
+  );
+
+  /**
+   * Keep a device's subscription to a group's push topic in step with its
+   * membership, so `push.broadcast` reaches it. Best effort: membership is
+   * the source of truth, and a transport hiccup must not fail the change —
+   * the device just misses topic broadcasts until it is re-added.
+   */
+  const syncGroupTopic = async (
+    deviceId: string,
+    groupId: string,
+    member: boolean,
+  ): Promise<void> => {
+    const operation = member ? pushAdapter.subscribe : pushAdapter.unsubscribe;
+    if (!operation) return;
+
+    try {
+      await operation.call(pushAdapter, deviceId, groupTopic(groupId));
+    } catch (error) {
+      logger.warn(
+        { deviceId, groupId, err: errorMessage(error) },
+        member
+          ? 'Failed to subscribe device to group topic'
+          : 'Failed to unsubscribe device from group topic',
+      );
+    }
+  };
 
   // Create webhook manager if configured
   const webhookManager: WebhookManager | undefined = webhooksConfig
@@ -308,13 +434,38 @@ export function createMDM(config: MDMConfig): MDMInstance {
 
   const policyLog = logger.child({ component: 'policies' });
 
+  /** `PolicySettings` as JSON Schema, with every plugin's `custom` keys. */
+  const policySchema = composePolicySchema(plugins);
+
+  /** Policy templates by id: the built-ins, then plugins'. The first under an id keeps it. */
+  const policyTemplates = new Map<string, PolicyTemplate>();
+  for (const template of [
+    ...BUILT_IN_POLICY_TEMPLATES,
+    ...plugins.flatMap((plugin) => plugin.policyTemplates ?? []),
+  ]) {
+    if (policyTemplates.has(template.id)) {
+      policyLog.warn({ templateId: template.id }, 'Duplicate policy template id ignored');
+      continue;
+    }
+    policyTemplates.set(template.id, template);
+  }
+
   /**
-   * Run the plugin `validatePolicy` hooks.
+   * Check settings against the policy schema, then run the plugin
+   * `validatePolicy` hooks.
    *
    * The hook has been part of the plugin interface all along and core never
    * called it, so a plugin could declare a policy invalid and be ignored.
    */
   const validatePolicySettings = async (settings: PolicySettings): Promise<void> => {
+    const issues = validateJsonSchema(settings, policySchema);
+    if (issues.length > 0) {
+      throw new ValidationError(
+        `Invalid policy settings: ${issues.map((issue) => `${issue.path} ${issue.message}`).join('; ')}`,
+        { issues },
+      );
+    }
+
     for (const plugin of plugins) {
       if (!plugin.validatePolicy) continue;
 
@@ -330,6 +481,26 @@ export function createMDM(config: MDMConfig): MDMInstance {
     }
   };
 
+  /** Reject malformed compliance rules, or a quarantine policy that does not exist. */
+  const assertValidComplianceRules = async (
+    ruleSet: ComplianceRuleSet,
+    policyId?: string,
+  ): Promise<void> => {
+    const errors = validateComplianceRuleSet(ruleSet);
+    for (const step of errors.length === 0 ? (ruleSet.remediation ?? []) : []) {
+      if (step.action !== 'quarantine') continue;
+      if (step.policyId === policyId) {
+        errors.push('A policy cannot quarantine devices to itself');
+      } else if (!(await database.findPolicy(step.policyId))) {
+        errors.push(`Quarantine policy ${step.policyId} does not exist`);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError(`Invalid compliance rules: ${errors.join('; ')}`, { errors });
+    }
+  };
+
   /** Write an immutable snapshot of a policy's settings at its current version. */
   const snapshotPolicy = async (policy: Policy, createdBy?: string): Promise<void> => {
     if (!database.createPolicyVersion) {
@@ -360,6 +531,353 @@ export function createMDM(config: MDMConfig): MDMInstance {
     }
   };
 
+  // ============================================
+  // Policy Rollouts
+  // ============================================
+
+  const isRolloutInProgress = (rollout?: PolicyRollout | null): rollout is PolicyRollout =>
+    rollout?.status === 'active' || rollout?.status === 'paused';
+
+  const assertRolloutPercentage = (percentage: number): void => {
+    if (typeof percentage !== 'number' || !(percentage >= 0 && percentage <= 100)) {
+      throw new ValidationError(`Rollout percentage must be between 0 and 100, got ${percentage}`);
+    }
+  };
+
+  /**
+   * Whether a device gets the version being rolled out. One that has already
+   * applied it keeps it: serving it the previous version again would not
+   * make it revert, it would only look ahead of the server forever.
+   *
+   * `applied` is the version of `policy` the device is known to run, from
+   * `appliedVersionOf`.
+   */
+  const receivesRollout = (
+    policy: Policy,
+    rollout: PolicyRollout,
+    device: Device,
+    applied: number | null,
+  ): boolean => {
+    if ((applied ?? 0) >= rollout.version) return true;
+    if (rollout.status !== 'active') return false;
+    return rolloutBucket(device.id, `${policy.id}:${rollout.version}`) < rollout.percentage;
+  };
+
+  /** The version of `policy` that `device` should be running. */
+  const targetPolicyVersion = (policy: Policy, device: Device, applied: number | null): number => {
+    const rollout = policy.rollout;
+    if (!isRolloutInProgress(rollout) || rollout.version !== policy.version) {
+      return policy.version ?? 1;
+    }
+    return receivesRollout(policy, rollout, device, applied)
+      ? rollout.version
+      : rollout.previousVersion;
+  };
+
+  /** `policy` as `device` should receive it — its previous version if a rollout passes it by. */
+  const policyForDevice = async (
+    policy: Policy,
+    device: Device,
+    applied: number | null,
+  ): Promise<Policy> => {
+    const version = targetPolicyVersion(policy, device, applied);
+    if (version === policy.version) return policy;
+
+    const snapshot = await database.findPolicyVersion?.(policy.id, version);
+    if (!snapshot) {
+      policyLog.warn(
+        { policyId: policy.id, version, deviceId: device.id },
+        'Previous policy version missing from history — serving the version being rolled out',
+      );
+      return policy;
+    }
+    return { ...policy, settings: snapshot.settings, version };
+  };
+
+  /** Record a rollout transition, wake whoever it now selects, and announce it. */
+  const updateRollout = async (
+    existing: Policy,
+    changes: Partial<Pick<PolicyRollout, 'percentage' | 'status'>>,
+  ): Promise<Policy> => {
+    const rollout = { ...(existing.rollout as PolicyRollout), ...changes, updatedAt: new Date() };
+    const policy = await database.updatePolicy(existing.id, { rollout });
+    const notified = await notifyRolloutDevices(policy);
+    await emit('policy.rolloutChanged', { policy, rollout });
+
+    policyLog.info(
+      { policyId: policy.id, status: rollout.status, percentage: rollout.percentage, notified },
+      'Policy rollout updated',
+    );
+    return policy;
+  };
+
+  /**
+   * Wake the devices that should now be on the policy's current version and
+   * are not, wherever in their layers the policy sits.
+   */
+  const notifyRolloutDevices = async (policy: Policy): Promise<number> => {
+    const reached = await devicesReachedBy(policy);
+    const deviceIds = reached
+      .filter(({ device, layers }) => {
+        const applied = appliedVersionOf(policy, device, layers);
+        return (
+          targetPolicyVersion(policy, device, applied) === policy.version &&
+          (applied ?? 0) < policy.version
+        );
+      })
+      .map(({ device }) => device.id);
+
+    if (deviceIds.length > 0) {
+      await pushAdapter.sendBatch(deviceIds, {
+        type: 'policy.updated',
+        payload: { policyId: policy.id, version: policy.version },
+        priority: 'high',
+      });
+    }
+    return deviceIds.length;
+  };
+
+  // ============================================
+  // Policy Layering
+  // ============================================
+
+  /**
+   * The policies that apply to `device`, least specific first: the tenant's
+   * default, its groups from the root of the hierarchy down, then its own.
+   * Each as the device should receive it, mid-rollout included.
+   */
+  const resolvePolicyLayers = async (
+    device: Device,
+  ): Promise<Array<{ layer: PolicyLayer; settings: PolicySettings; policy: Policy }>> => {
+    const tenantId = device.tenantId ?? null;
+    const assigned: Array<{
+      policy: Policy;
+      layer: Omit<PolicyLayer, 'policyId' | 'policyName' | 'policyVersion'>;
+    }> = [];
+    const addLayer = (
+      policy: Policy,
+      layer: Omit<PolicyLayer, 'policyId' | 'policyName' | 'policyVersion'>,
+    ) => {
+      assigned.push({ policy, layer });
+    };
+
+    // The tenant's own default wins over a global one; another tenant's
+    // default never applies.
+    const defaults = (await database.listPolicies()).filter((policy) => policy.isDefault);
+    const defaultPolicy =
+      defaults.find((policy) => (policy.tenantId ?? null) === tenantId) ??
+      defaults.find((policy) => !policy.tenantId);
+    if (defaultPolicy) {
+      addLayer(defaultPolicy, { kind: 'default' });
+    }
+
+    // Every group the device is in, with its ancestors, from the root of
+    // the hierarchy down. Groups at the same depth apply in name order so
+    // the result does not depend on the adapter's row order.
+    const byId = new Map<string, { group: Group; depth: number }>();
+    for (const group of await database.getDeviceGroups(device.id)) {
+      const ancestors = await groups.getAncestors(group.id);
+      byId.set(group.id, { group, depth: ancestors.length });
+      ancestors.forEach((ancestor, index) => {
+        byId.set(ancestor.id, { group: ancestor, depth: ancestors.length - index - 1 });
+      });
+    }
+    const groupChain = Array.from(byId.values()).sort(
+      (a, b) => a.depth - b.depth || a.group.name.localeCompare(b.group.name),
+    );
+    for (const { group } of groupChain) {
+      if (!group.policyId) continue;
+      const policy = await database.findPolicy(group.policyId);
+      if (policy) {
+        addLayer(policy, { kind: 'group', groupId: group.id, groupName: group.name });
+      }
+    }
+
+    if (device.policyId) {
+      const policy = await database.findPolicy(device.policyId);
+      if (policy) {
+        addLayer(policy, { kind: 'device' });
+      }
+    }
+
+    const layers: Array<{ layer: PolicyLayer; settings: PolicySettings; policy: Policy }> = [];
+    for (const [index, entry] of assigned.entries()) {
+      // A rollout that passes this device by leaves it on the previous
+      // version. What the device has applied is known for its last layer only.
+      const applied = index === assigned.length - 1 ? (device.appliedPolicyVersion ?? null) : null;
+      const policy = await policyForDevice(entry.policy, device, applied);
+      layers.push({
+        layer: {
+          ...entry.layer,
+          policyId: policy.id,
+          policyName: policy.name,
+          policyVersion: policy.version,
+        },
+        settings: policy.settings,
+        policy,
+      });
+    }
+    return layers;
+  };
+
+  /**
+   * The version of `policy` a device is known to have applied. Heartbeats
+   * record it for the device's most specific layer only, so for a policy
+   * further down its layers it is unknown.
+   */
+  const appliedVersionOf = (
+    policy: Policy,
+    device: Device,
+    layers: Array<{ layer: PolicyLayer }>,
+  ): number | null =>
+    layers[layers.length - 1]?.layer.policyId === policy.id
+      ? (device.appliedPolicyVersion ?? null)
+      : null;
+
+  /**
+   * Every device `policy` is a layer of, with its layers. A default reaches
+   * the whole fleet; otherwise the devices assigned it and the members of
+   * the groups that carry it, or descend from one that does. Layering has
+   * the last word: a device in another tenant's default is not reached.
+   */
+  const devicesReachedBy = async (
+    policy: Policy,
+  ): Promise<
+    Array<{ device: Device; layers: Awaited<ReturnType<typeof resolvePolicyLayers>> }>
+  > => {
+    const candidates = new Map<string, Device>();
+    const inTenant = (device: Device) => !policy.tenantId || device.tenantId === policy.tenantId;
+    const addCandidates = (found: Device[]) => {
+      for (const device of found) {
+        if (device.status === 'unenrolled' || device.status === 'unenrolling') continue;
+        if (inTenant(device)) candidates.set(device.id, device);
+      }
+    };
+
+    if (policy.isDefault) {
+      addCandidates(await listAllDevices(policy.tenantId ? { tenantId: policy.tenantId } : {}));
+    } else {
+      addCandidates(await listAllDevices({ policyId: policy.id }));
+      for (const group of await database.listGroups()) {
+        if (group.policyId !== policy.id) continue;
+        for (const reached of [group, ...(await groups.getDescendants(group.id))]) {
+          addCandidates(await database.listDevicesInGroup(reached.id));
+        }
+      }
+    }
+
+    const reached: Array<{
+      device: Device;
+      layers: Awaited<ReturnType<typeof resolvePolicyLayers>>;
+    }> = [];
+    for (const device of candidates.values()) {
+      const layers = await resolvePolicyLayers(device);
+      if (layers.some(({ layer }) => layer.policyId === policy.id)) {
+        reached.push({ device, layers });
+      }
+    }
+    return reached;
+  };
+
+  /**
+   * The policy `device` is served: its most specific layer, carrying the
+   * settings of every layer merged. A device with one layer gets that
+   * policy as it is. With more, the version is derived from every layer's
+   * policy and version, so editing, adding or swapping any of them gives
+   * the device a new version to apply. Null when no layer applies.
+   */
+  const servePolicy = async (
+    device: Device,
+  ): Promise<{ policy: Policy; layers: PolicyLayer[] } | null> => {
+    const resolved = await resolvePolicyLayers(device);
+    if (resolved.length === 0) return null;
+
+    const layers = resolved.map(({ layer }) => layer);
+    const { policy } = resolved[resolved.length - 1];
+    if (resolved.length === 1) return { policy, layers };
+
+    const { settings } = mergePolicyLayers(resolved);
+    const fingerprint = layers
+      .map(
+        (layer) => `${layer.kind}:${layer.groupId ?? ''}:${layer.policyId}@${layer.policyVersion}`,
+      )
+      .join('|');
+    // 31 bits, so it stays a positive integer wherever the agent parses it.
+    const version = createHash('sha256').update(fingerprint).digest().readUInt32BE(0) >>> 1;
+    return { policy: { ...policy, settings, version }, layers };
+  };
+
+  // ============================================
+  // Policy Schedules
+  // ============================================
+
+  /**
+   * Put a device on `policyId` and tell it, for the switches core makes
+   * itself. Unlike `devices.assignPolicy`, the device's schedule stays.
+   */
+  const switchDevicePolicy = async (
+    deviceId: string,
+    policyId: string | null,
+    data: UpdateDeviceInput = {},
+  ): Promise<Device> => {
+    const device = await devices.update(deviceId, { ...data, policyId });
+    await pushAdapter.send(deviceId, {
+      type: 'policy.updated',
+      payload: { policyId },
+      priority: 'high',
+    });
+    return device;
+  };
+
+  /** Reject a malformed schedule, or one naming a policy that does not exist. */
+  const assertValidPolicySchedule = async (schedule: PolicySchedule): Promise<void> => {
+    const errors = validatePolicySchedule(schedule);
+    if (errors.length === 0) {
+      const policyIds = new Set([
+        schedule.defaultPolicyId,
+        ...schedule.windows.map((window) => window.policyId),
+      ]);
+      for (const policyId of policyIds) {
+        if (!(await database.findPolicy(policyId))) {
+          errors.push(`Policy ${policyId} does not exist`);
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError(`Invalid policy schedule: ${errors.join('; ')}`, { errors });
+    }
+  };
+
+  /**
+   * Move `device` onto the policy its schedule names for `now`, unless it is
+   * there already. A quarantined device is left where it is: compliance owns
+   * its policy until it is released.
+   */
+  const followPolicySchedule = async (device: Device, now: Date): Promise<Device> => {
+    if (!device.policySchedule || device.quarantinedFromPolicyId) return device;
+
+    const policyId = scheduledPolicyId(device.policySchedule, now);
+    if (device.policyId === policyId) return device;
+
+    // `policies.delete` refuses a policy a schedule names, but a row removed
+    // behind core's back must not be assigned.
+    if (!(await database.findPolicy(policyId))) {
+      policyLog.warn(
+        { deviceId: device.id, policyId },
+        'Scheduled policy no longer exists; leaving the device where it is',
+      );
+      return device;
+    }
+
+    await switchDevicePolicy(device.id, policyId);
+    policyLog.info(
+      { deviceId: device.id, fromPolicyId: device.policyId ?? null, toPolicyId: policyId },
+      'Scheduled policy applied',
+    );
+    return (await database.findDevice(device.id)) ?? device;
+  };
+
   // ============================================
   // Command Durability
   // ============================================
@@ -376,8 +894,68 @@ export function createMDM(config: MDMConfig): MDMInstance {
     maxAttempts: config.commands?.defaultMaxAttempts ?? DEFAULT_COMMAND_MAX_ATTEMPTS,
     backoffSeconds: config.commands?.retryBackoffSeconds ?? DEFAULT_RETRY_BACKOFF_SECONDS,
     ackTimeoutSeconds: config.commands?.ackTimeoutSeconds ?? DEFAULT_ACK_TIMEOUT_SECONDS,
+    requireApproval: new Set(config.commands?.requireApproval ?? []),
+  };
+
+  /**
+   * Payload schemas by command type: the built-ins, overlaid with whatever
+   * plugins contribute for the types they own.
+   */
+  const commandPayloadSchemas: Partial<Record<CommandType, CommandPayloadSchema>> = {
+    ...BUILT_IN_COMMAND_PAYLOAD_SCHEMAS,
+  };
+  for (const plugin of plugins) {
+    Object.assign(commandPayloadSchemas, plugin.commandPayloadSchemas);
+  }
+
+  /** Reject a payload that does not match its type's schema, naming every bad field. */
+  const assertValidPayload = (type: CommandType, payload: unknown): void => {
+    const schema = commandPayloadSchemas[type];
+    if (!schema) return;
+
+    const issues = validateCommandPayload(payload, schema);
+    if (issues.length > 0) {
+      throw new ValidationError(
+        `Invalid ${type} payload: ${issues.map((issue) => `${issue.path} ${issue.message}`).join('; ')}`,
+        { type, issues },
+      );
+    }
+  };
+
+  /** Reject a priority or `notBefore` the delivery queue cannot honour. */
+  const assertValidDeliveryOptions = (input: {
+    priority?: number;
+    notBefore?: Date;
+    expiresAt?: Date;
+  }): void => {
+    if (input.priority !== undefined && !Number.isInteger(input.priority)) {
+      throw new ValidationError('Command priority must be an integer', {
+        priority: input.priority,
+      });
+    }
+    for (const field of ['notBefore', 'expiresAt'] as const) {
+      const value = input[field];
+      if (value !== undefined && (!(value instanceof Date) || Number.isNaN(value.getTime()))) {
+        throw new ValidationError(`Command ${field} must be a valid date`, { [field]: value });
+      }
+    }
+    if (input.notBefore === undefined) return;
+    if (input.expiresAt && input.expiresAt.getTime() <= input.notBefore.getTime()) {
+      throw new ValidationError('Command would expire before it could be delivered', {
+        notBefore: input.notBefore,
+        expiresAt: input.expiresAt,
+      });
+    }
   };
 
+  /** Whether a command is being held back by its `notBefore`. */
+  const isNotYetDue = (command: Command, now = Date.now()): boolean =>
+    command.notBefore != null && command.notBefore.getTime() > now;
+
+  /** Delivery order: highest priority first, then oldest first. */
+  const byDeliveryOrder = (a: Command, b: Command): number =>
+    (b.priority ?? 0) - (a.priority ?? 0) || a.createdAt.getTime() - b.createdAt.getTime();
+
   /**
    * Apply durability defaults (expiry, max attempts) and insert the command.
    *
@@ -396,14 +974,18 @@ export function createMDM(config: MDMConfig): MDMInstance {
     if (!expiresAt) {
       const ttlSeconds = input.ttlSeconds ?? commandDefaults.ttlSeconds;
       if (ttlSeconds > 0) {
-        expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+        // A deferred command's TTL runs from when it becomes deliverable, or
+        // an overnight install would use up its TTL before it was due.
+        const from = Math.max(Date.now(), input.notBefore?.getTime() ?? 0);
+        expiresAt = new Date(from + ttlSeconds * 1000);
       }
     }
 
-    const enriched: SendCommandInput = {
+    const enriched: CreateCommandInput = {
       ...input,
       expiresAt,
       maxAttempts: input.maxAttempts ?? commandDefaults.maxAttempts,
+      status: commandDefaults.requireApproval.has(input.type) ? 'awaiting_approval' : 'pending',
     };
 
     if (!enriched.idempotencyKey) {
@@ -441,6 +1023,10 @@ export function createMDM(config: MDMConfig): MDMInstance {
    * Success → `sent`. Failure → the command stays `pending` with an
    * incremented `attemptCount`, so `retryPending()` picks it up later; when
    * attempts are exhausted it is dead-lettered instead of retrying forever.
+   * Deferred (the transport leaves delivery to the device's next poll) → the
+   * command stays `pending` and no attempt is spent, since nothing failed.
+   * `lastAttemptAt` is still stamped, so the retry sweep backs off instead of
+   * re-pushing it on every run.
    * Before this existed, a failed push left the command `pending` with no
    * record of the attempt and nothing to retry it — it sat there silently
    * until the device happened to poll, or forever.
@@ -448,6 +1034,7 @@ export function createMDM(config: MDMConfig): MDMInstance {
   const attemptDelivery = async (command: Command): Promise<Command> => {
     const attemptCount = (command.attemptCount ?? 0) + 1;
     let pushed = false;
+    let deferred = false;
 
     try {
       const pushResult = await pushAdapter.send(command.deviceId, {
@@ -460,6 +1047,7 @@ export function createMDM(config: MDMConfig): MDMInstance {
         priority: 'high',
       });
       pushed = pushResult.success;
+      deferred = !pushResult.success && pushResult.deferred === true;
     } catch (error) {
       commandLog.warn(
         { commandId: command.id, deviceId: command.deviceId, err: errorMessage(error) },
@@ -476,6 +1064,15 @@ export function createMDM(config: MDMConfig): MDMInstance {
       return updated ?? command;
     }
 
+    if (deferred) {
+      commandLog.debug(
+        { commandId: command.id, deviceId: command.deviceId },
+        'Command delivery deferred to device poll',
+      );
+      const updated = await database.updateCommand(command.id, { lastAttemptAt: new Date() });
+      return updated ?? command;
+    }
+
     const maxAttempts = command.maxAttempts ?? commandDefaults.maxAttempts;
     const exhausted = attemptCount >= maxAttempts;
 
@@ -513,6 +1110,163 @@ export function createMDM(config: MDMConfig): MDMInstance {
     return updated ?? command;
   };
 
+  /**
+   * Plugins that execute their own command types server-side, by type.
+   *
+   * `commandTypes` and `executeCommand` were part of the plugin interface
+   * long before anything called them, so a kiosk `enterKiosk` sat in the
+   * queue waiting for an agent that did not know what to do with it.
+   */
+  const commandExecutors = new Map<CommandType, MDMPlugin>();
+  for (const plugin of plugins) {
+    if (!plugin.executeCommand) continue;
+    for (const type of plugin.commandTypes ?? []) {
+      const owner = commandExecutors.get(type);
+      if (owner) {
+        commandLog.warn(
+          { type, plugin: plugin.name, owner: owner.name },
+          'Command type already claimed by another plugin; keeping the first',
+        );
+        continue;
+      }
+      commandExecutors.set(type, plugin);
+    }
+  }
+
+  /**
+   * Run a command through the plugin that owns its type and record the
+   * outcome: `completed` with the plugin's result, or `failed` when the
+   * plugin reports failure or throws. A plugin that asks for the command to
+   * be delivered as well hands it on to `attemptDelivery` instead, and the
+   * device's own result completes it.
+   */
+  const executeWithPlugin = async (command: Command, plugin: MDMPlugin): Promise<Command> => {
+    const device = await database.findDevice(command.deviceId);
+
+    let result: PluginCommandResult;
+    if (!device) {
+      result = { success: false, message: 'Device not found' };
+    } else {
+      try {
+        result = await plugin.executeCommand!(device, command);
+      } catch (error) {
+        commandLog.error(
+          { commandId: command.id, plugin: plugin.name, err: errorMessage(error) },
+          'Plugin threw while executing command',
+        );
+        result = { success: false, message: errorMessage(error) };
+      }
+    }
+
+    if (result.success && result.deliver) {
+      commandLog.debug(
+        { commandId: command.id, type: command.type, plugin: plugin.name },
+        'Command prepared by plugin; delivering to device',
+      );
+      const prepared = result.payload
+        ? ((await database.updateCommand(command.id, { payload: result.payload })) ?? command)
+        : command;
+      return attemptDelivery(prepared);
+    }
+
+    const error = result.success ? undefined : (result.message ?? 'Plugin reported failure');
+    const updated =
+      (await database.updateCommand(command.id, {
+        status: result.success ? 'completed' : 'failed',
+        result,
+        error,
+        attemptCount: (command.attemptCount ?? 0) + 1,
+        completedAt: new Date(),
+      })) ?? command;
+
+    commandLog.info(
+      { commandId: command.id, type: command.type, plugin: plugin.name, success: result.success },
+      'Command executed by plugin',
+    );
+
+    if (device) {
+      if (error === undefined) {
+        await emit('command.completed', { device, command: updated, result });
+      } else {
+        await emit('command.failed', { device, command: updated, error });
+      }
+    }
+
+    return updated;
+  };
+
+  /**
+   * Hand a command to the plugin that owns its type, or push it to the
+   * device. One that is not due yet stays `pending` for `retryPending()`.
+   */
+  const dispatchCommand = async (command: Command): Promise<Command> => {
+    if (isNotYetDue(command)) {
+      commandLog.debug(
+        { commandId: command.id, deviceId: command.deviceId, notBefore: command.notBefore },
+        'Command deferred until notBefore',
+      );
+      return command;
+    }
+    const plugin = awaitsPlugin(command) ? commandExecutors.get(command.type) : undefined;
+    return plugin ? executeWithPlugin(command, plugin) : attemptDelivery(command);
+  };
+
+  /**
+   * Whether the plugin that owns the command's type has yet to run it. A
+   * command its plugin already handed on to the device is only retried; the
+   * plugin's part is not run twice.
+   */
+  const awaitsPlugin = (command: Command): boolean =>
+    commandExecutors.has(command.type) &&
+    (command.attemptCount ?? 0) === 0 &&
+    !command.lastAttemptAt;
+
+  // ============================================
+  // Targeting
+  // ============================================
+
+  /** Every device matching `filter`, paging past the adapter's default limit. */
+  const listAllDevices = async (filter: DeviceFilter): Promise<Device[]> => {
+    const pageSize = 500;
+    const all: Device[] = [];
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await database.listDevices({ ...filter, limit: pageSize, offset });
+      all.push(...page.devices);
+      if (page.devices.length < pageSize) return all;
+    }
+  };
+
+  /**
+   * The device ids a deploy target and/or device filter names, deduplicated.
+   * With a `tenantId`, group members of other tenants are dropped: group
+   * membership is not a tenant boundary, so it is checked per device.
+   */
+  const resolveTargetDeviceIds = async (
+    target: DeployTarget | undefined,
+    filter?: DeviceFilter,
+    tenantId?: string,
+  ): Promise<string[]> => {
+    const deviceIds: string[] = [...(target?.devices ?? [])];
+    const inTenant = (device: Device) => !tenantId || device.tenantId === tenantId;
+
+    for (const groupId of target?.groups ?? []) {
+      const members = await database.listDevicesInGroup(groupId);
+      deviceIds.push(...members.filter(inTenant).map((d) => d.id));
+    }
+
+    for (const policyId of target?.policies ?? []) {
+      const matched = await listAllDevices({ policyId, tenantId });
+      deviceIds.push(...matched.map((d) => d.id));
+    }
+
+    if (filter) {
+      const matched = await listAllDevices({ ...filter, tenantId: tenantId ?? filter.tenantId });
+      deviceIds.push(...matched.map((d) => d.id));
+    }
+
+    return [...new Set(deviceIds)];
+  };
+
   // ============================================
   // Device Lifecycle
   // ============================================
@@ -566,28 +1320,39 @@ export function createMDM(config: MDMConfig): MDMInstance {
   };
 
   /**
-   * Compare dotted numeric versions. Returns <0, 0, >0.
-   *
-   * An unparseable part makes the comparison *fail closed* — we report the
-   * device as NOT up to date rather than silently equal. Treating `1.2.0-rc` as
-   * "equal to target" means the device is never updated and nobody finds out.
+   * Create a command without delivering it. `deliver` is false for a
+   * duplicate `idempotencyKey` — the command that already exists is returned
+   * rather than queueing the operation twice, and re-pushing it is pointless
+   * (and, for a completed command, wrong) — and for a command held for a
+   * second user, which nothing pushes until `commands.approve()`.
    */
-  const compareVersions = (a: string, b: string): number => {
-    const parse = (v: string) => v.split('.').map((part) => Number.parseInt(part, 10));
-    const av = parse(a);
-    const bv = parse(b);
-    const len = Math.max(av.length, bv.length);
+  const queueCommand = async (
+    deviceId: string,
+    input: Omit<SendCommandInput, 'deviceId'>,
+  ): Promise<{ command: Command; deliver: boolean }> => {
+    const { command, created } = await createCommandWithDurability({ ...input, deviceId });
+
+    if (!created) {
+      commandLog.debug(
+        { commandId: command.id, deviceId, idempotencyKey: input.idempotencyKey },
+        'Duplicate idempotency key — returning the existing command',
+      );
+      return { command, deliver: false };
+    }
 
-    for (let i = 0; i < len; i++) {
-      const x = av[i] ?? 0;
-      const y = bv[i] ?? 0;
-      if (Number.isNaN(x) || Number.isNaN(y)) {
-        // Not comparable — assume out of date so the update is attempted.
-        return -1;
+    if (command.status === 'awaiting_approval') {
+      commandLog.info(
+        { commandId: command.id, deviceId, type: command.type, requestedBy: command.requestedBy },
+        'Command held for approval',
+      );
+      const device = await database.findDevice(deviceId);
+      if (device) {
+        await emit('command.approvalRequested', { device, command });
       }
-      if (x !== y) return x < y ? -1 : 1;
+      return { command, deliver: false };
     }
-    return 0;
+
+    return { command, deliver: true };
   };
 
   const devices: DeviceManager = {
@@ -607,8 +1372,10 @@ export function createMDM(config: MDMConfig): MDMInstance {
         return { deviceId, policyId: device.policyId, status: 'unassigned' };
       }
 
-      const currentVersion = policy.version ?? 1;
+      // The device's own policy is its most specific layer, so what it
+      // reports applying is a version of this one.
       const appliedVersion = device.appliedPolicyVersion ?? null;
+      const currentVersion = targetPolicyVersion(policy, device, appliedVersion);
 
       let status: PolicyComplianceStatus;
       if (appliedVersion === null) {
@@ -670,7 +1437,17 @@ export function createMDM(config: MDMConfig): MDMInstance {
         assertTransition(oldDevice.status, data.status);
       }
 
-      const device = await database.updateDevice(id, data);
+      // Moving a quarantined device to another policy ends its quarantine:
+      // releasing it later would undo the move. Quarantine and release say
+      // what they set.
+      const changes =
+        data.policyId !== undefined &&
+        data.quarantinedFromPolicyId === undefined &&
+        oldDevice.quarantinedFromPolicyId
+          ? { ...data, quarantinedFromPolicyId: null }
+          : data;
+
+      const device = await database.updateDevice(id, changes);
 
       // Emit status change event if status changed
       if (data.status && data.status !== oldDevice.status) {
@@ -908,6 +1685,48 @@ export function createMDM(config: MDMConfig): MDMInstance {
       return updated;
     },
 
+    async setPresence(
+      id: string,
+      online: boolean,
+      options?: { at?: Date; transport?: PushToken['provider'] },
+    ): Promise<Device> {
+      const device = await database.findDevice(id);
+      if (!device) throw new DeviceNotFoundError(id);
+
+      const at = options?.at ?? new Date();
+      // Brokers redeliver, and a last-will "offline" can arrive after the
+      // reconnect it predates. Neither may flip the recorded state.
+      const stale = device.presenceChangedAt && device.presenceChangedAt > at;
+      if (device.online === online || stale) {
+        return device;
+      }
+
+      const updated = await database.updateDevice(id, { online, presenceChangedAt: at });
+      deviceLog.debug({ deviceId: id, online, transport: options?.transport }, 'Presence changed');
+      await emit(online ? 'device.online' : 'device.offline', {
+        device: updated,
+        transport: options?.transport,
+      });
+      return updated;
+    },
+
+    async resetPresence(options?: { silentSince?: Date }): Promise<number> {
+      const since = options?.silentSince;
+      const lastHeard = (device: Device) =>
+        Math.max(device.lastHeartbeat?.getTime() ?? 0, device.presenceChangedAt?.getTime() ?? 0);
+      const stranded = (await listAllDevices({ online: true })).filter(
+        (device) => !since || lastHeard(device) < since.getTime(),
+      );
+
+      for (const device of stranded) {
+        await devices.setPresence(device.id, false);
+      }
+      if (stranded.length > 0) {
+        deviceLog.info({ count: stranded.length }, 'Presence reset');
+      }
+      return stranded.length;
+    },
+
     async getConvergence(id: string): Promise<DeviceConvergence> {
       const device = await database.findDevice(id);
       if (!device) throw new DeviceNotFoundError(id);
@@ -941,51 +1760,72 @@ export function createMDM(config: MDMConfig): MDMInstance {
     },
 
     async assignPolicy(deviceId: string, policyId: string | null): Promise<Device> {
-      const device = await this.update(deviceId, { policyId });
-
-      // Notify device of policy change
-      await pushAdapter.send(deviceId, {
-        type: 'policy.updated',
-        payload: { policyId },
-        priority: 'high',
-      });
-
-      return device;
+      const current = await database.findDevice(deviceId);
+      // An admin's choice replaces the schedule; left in place, the next
+      // poll would switch the device straight back.
+      return switchDevicePolicy(
+        deviceId,
+        policyId,
+        current?.policySchedule ? { policySchedule: null } : {},
+      );
     },
 
     async addToGroup(deviceId: string, groupId: string): Promise<void> {
       await database.addDeviceToGroup(deviceId, groupId);
+      await syncGroupTopic(deviceId, groupId, true);
     },
 
     async removeFromGroup(deviceId: string, groupId: string): Promise<void> {
       await database.removeDeviceFromGroup(deviceId, groupId);
+      await syncGroupTopic(deviceId, groupId, false);
     },
 
     async getGroups(deviceId: string): Promise<Group[]> {
       return database.getDeviceGroups(deviceId);
     },
 
-    async sendCommand(
+    async registerPushToken(
       deviceId: string,
-      input: Omit<SendCommandInput, 'deviceId'>,
-    ): Promise<Command> {
-      const { command, created } = await createCommandWithDurability({
-        ...input,
-        deviceId,
-      });
+      input: Omit<RegisterPushTokenInput, 'deviceId'>,
+    ): Promise<PushToken> {
+      const token = await database.upsertPushToken({ ...input, deviceId });
+      for (const group of await database.getDeviceGroups(deviceId)) {
+        await syncGroupTopic(deviceId, group.id, true);
+      }
+      return token;
+    },
 
-      // A duplicate `idempotencyKey` returns the command that already
-      // exists rather than queueing the operation twice. Re-pushing is
-      // pointless (and, for a completed command, wrong).
-      if (!created) {
-        commandLog.debug(
-          { commandId: command.id, deviceId, idempotencyKey: input.idempotencyKey },
-          'Duplicate idempotency key — returning the existing command',
-        );
-        return command;
+    async getEffectiveSettings(deviceId: string): Promise<EffectiveSettings> {
+      const device = await database.findDevice(deviceId);
+      if (!device) {
+        throw new DeviceNotFoundError(deviceId);
       }
 
-      const delivered = await attemptDelivery(command);
+      const layers = await resolvePolicyLayers(device);
+      const { settings, sources } = mergePolicyLayers(layers);
+      return { deviceId, settings, layers: layers.map(({ layer }) => layer), sources };
+    },
+
+    async setPolicySchedule(deviceId: string, schedule: PolicySchedule | null): Promise<Device> {
+      if (schedule) {
+        await assertValidPolicySchedule(schedule);
+      }
+
+      const device = await this.update(deviceId, { policySchedule: schedule });
+      return followPolicySchedule(device, new Date());
+    },
+
+    async sendCommand(
+      deviceId: string,
+      input: Omit<SendCommandInput, 'deviceId'>,
+    ): Promise<Command> {
+      assertValidPayload(input.type, input.payload);
+      assertValidDeliveryOptions(input);
+
+      const { command, deliver } = await queueCommand(deviceId, input);
+      if (!deliver) return command;
+
+      const delivered = await dispatchCommand(command);
 
       if (config.onCommand) {
         await config.onCommand(delivered);
@@ -1036,6 +1876,9 @@ export function createMDM(config: MDMConfig): MDMInstance {
 
     async create(data: CreatePolicyInput): Promise<Policy> {
       await validatePolicySettings(data.settings);
+      if (data.complianceRules) {
+        await assertValidComplianceRules(data.complianceRules);
+      }
 
       // If this is being set as default, clear other defaults first
       if (data.isDefault) {
@@ -1061,6 +1904,9 @@ export function createMDM(config: MDMConfig): MDMInstance {
       if (data.settings) {
         await validatePolicySettings(data.settings);
       }
+      if (data.complianceRules) {
+        await assertValidComplianceRules(data.complianceRules, id);
+      }
 
       // If setting as default, clear other defaults first
       if (data.isDefault) {
@@ -1081,9 +1927,15 @@ export function createMDM(config: MDMConfig): MDMInstance {
       const previousVersion = existing.version ?? 1;
       const nextVersion = settingsChanged ? previousVersion + 1 : previousVersion;
 
+      // New settings replace whatever was being rolled out, for every device.
+      const supersedesRollout = settingsChanged && isRolloutInProgress(existing.rollout);
+
       const policy = await database.updatePolicy(id, {
         ...data,
         ...(settingsChanged ? { version: nextVersion } : {}),
+        ...(supersedesRollout && existing.rollout
+          ? { rollout: { ...existing.rollout, status: 'superseded', updatedAt: new Date() } }
+          : {}),
       });
 
       if (settingsChanged) {
@@ -1175,42 +2027,395 @@ export function createMDM(config: MDMConfig): MDMInstance {
       return policy;
     },
 
+    getSchema(): JsonSchema {
+      return policySchema;
+    },
+
+    listTemplates(): PolicyTemplate[] {
+      return Array.from(policyTemplates.values());
+    },
+
+    getTemplate(templateId: string): PolicyTemplate | null {
+      return policyTemplates.get(templateId) ?? null;
+    },
+
+    async createFromTemplate(
+      templateId: string,
+      params: Record<string, unknown>,
+      options: CreatePolicyFromTemplateOptions = {},
+    ): Promise<Policy> {
+      const template = policyTemplates.get(templateId);
+      if (!template) {
+        throw new PolicyTemplateNotFoundError(templateId);
+      }
+
+      const resolved = withParameterDefaults(template.parameters, params ?? {});
+      const issues = validateJsonSchema(resolved, template.parameters, 'params');
+      if (issues.length > 0) {
+        throw new ValidationError(
+          `Invalid parameters for template ${templateId}: ${issues
+            .map((issue) => `${issue.path} ${issue.message}`)
+            .join('; ')}`,
+          { template: templateId, issues },
+        );
+      }
+
+      const { name, ...rest } = options;
+      return this.create({
+        ...rest,
+        name: name ?? template.name,
+        settings: template.build(resolved),
+      });
+    },
+
+    async diff(policyId: string, fromVersion: number, toVersion: number): Promise<PolicyDiff> {
+      for (const version of [fromVersion, toVersion]) {
+        if (!Number.isInteger(version) || version < 1) {
+          throw new ValidationError(`Policy version must be a positive integer, got ${version}`);
+        }
+      }
+
+      const current = await database.findPolicy(policyId);
+      if (!current) {
+        throw new PolicyNotFoundError(policyId);
+      }
+
+      // The current version is on the policy row itself; only older ones
+      // need history.
+      const settingsAt = async (version: number): Promise<PolicySettings> => {
+        if (version === current.version) return current.settings;
+        const snapshot = await this.getVersion(policyId, version);
+        if (!snapshot) {
+          throw new ValidationError(`Policy ${policyId} has no version ${version}`);
+        }
+        return snapshot.settings;
+      };
+
+      const before = await settingsAt(fromVersion);
+      const after = await settingsAt(toVersion);
+      return {
+        policyId,
+        fromVersion,
+        toVersion,
+        changes: diffPolicySettings(before, after),
+      };
+    },
+
+    async simulate(policyId: string, proposed: PolicyImpactInput): Promise<PolicyImpact> {
+      const policy = await database.findPolicy(policyId);
+      if (!policy) {
+        throw new PolicyNotFoundError(policyId);
+      }
+
+      if (proposed.settings) {
+        await validatePolicySettings(proposed.settings);
+      }
+      if (proposed.complianceRules) {
+        await assertValidComplianceRules(proposed.complianceRules, policyId);
+      }
+
+      const settings = proposed.settings ?? policy.settings;
+      const ruleSet =
+        proposed.complianceRules === undefined ? policy.complianceRules : proposed.complianceRules;
+      const currentVersion = policy.version ?? 1;
+      const settingsChanged = JSON.stringify(settings) !== JSON.stringify(policy.settings);
+
+      const impacted: PolicyImpactDevice[] = [];
+      for (const { device, layers } of await devicesReachedBy(policy)) {
+        const own = layers.filter(({ layer }) => layer.policyId === policyId);
+        const via = own[own.length - 1]!.layer;
+
+        const before = mergePolicyLayers(layers).settings;
+        const after = mergePolicyLayers(
+          layers.map((entry) =>
+            entry.layer.policyId === policyId ? { ...entry, settings } : entry,
+          ),
+        ).settings;
+
+        const installed = new Map<string, string | null>();
+        if (database.listDeviceApps) {
+          for (const app of await database.listDeviceApps(device.id)) {
+            installed.set(app.packageName, app.observedVersion ?? null);
+          }
+        } else {
+          for (const app of device.installedApps ?? []) {
+            installed.set(app.packageName, app.version);
+          }
+        }
+
+        // Heartbeats check the rules of the policy the device is served, its
+        // most specific layer, or of the one it was quarantined from.
+        const checked = device.quarantinedFromPolicyId
+          ? device.quarantinedFromPolicyId === policyId
+          : layers[layers.length - 1]!.layer.policyId === policyId;
+        const violations = checked
+          ? evaluateComplianceRules(ruleSet?.rules ?? [], {
+              ...device.securityTelemetry,
+              osVersion: device.osVersion,
+              agentVersion: device.agentVersion,
+            })
+          : [];
+
+        impacted.push({
+          deviceId: device.id,
+          via: via.kind,
+          ...(via.groupId ? { groupId: via.groupId } : {}),
+          settingsChanged: JSON.stringify(before) !== JSON.stringify(after),
+          apps: planAppChanges(before.applications ?? [], after.applications ?? [], installed),
+          complianceViolations: violations,
+          becomesNonCompliant: violations.length > 0 && device.complianceState !== 'nonCompliant',
+        });
+      }
+
+      const count = (predicate: (device: PolicyImpactDevice) => boolean) =>
+        impacted.filter(predicate).length;
+      const total = (field: keyof PolicyImpactDevice['apps']) =>
+        impacted.reduce((sum, device) => sum + device.apps[field].length, 0);
+
+      return {
+        policyId,
+        currentVersion,
+        nextVersion: settingsChanged ? currentVersion + 1 : currentVersion,
+        changes: diffPolicySettings(policy.settings, settings),
+        devices: impacted,
+        summary: {
+          devices: impacted.length,
+          settingsChanged: count((device) => device.settingsChanged),
+          appInstalls: total('install'),
+          appUpdates: total('update'),
+          appRemovals: total('remove'),
+          becomeNonCompliant: count((device) => device.becomesNonCompliant),
+        },
+        push: {
+          immediate: count((device) => device.via === 'device'),
+          onNextSync: count((device) => device.via !== 'device'),
+        },
+      };
+    },
+
     async getCompliance(policyId: string): Promise<PolicyCompliance> {
       const policy = await database.findPolicy(policyId);
       if (!policy) {
         throw new PolicyNotFoundError(policyId);
       }
 
-      const { devices: assigned } = await database.listDevices({ policyId });
+      const reached = await devicesReachedBy(policy);
       const currentVersion = policy.version ?? 1;
 
       const compliance: PolicyCompliance = {
         policyId,
         version: currentVersion,
-        total: assigned.length,
+        total: reached.length,
         compliant: 0,
         pending: 0,
         unknown: 0,
         laggingDeviceIds: [],
       };
 
-      for (const device of assigned) {
-        const applied = device.appliedPolicyVersion ?? null;
+      const rollout =
+        isRolloutInProgress(policy.rollout) && policy.rollout.version === currentVersion
+          ? policy.rollout
+          : null;
+      if (rollout) {
+        compliance.rollout = {
+          status: rollout.status,
+          percentage: rollout.percentage,
+          targeted: 0,
+          applied: 0,
+        };
+      }
+
+      for (const { device, layers } of reached) {
+        const applied = appliedVersionOf(policy, device, layers);
         if (applied === null) {
           compliance.unknown += 1;
           compliance.laggingDeviceIds.push(device.id);
-        } else if (applied >= currentVersion) {
+        } else if (applied >= targetPolicyVersion(policy, device, applied)) {
           compliance.compliant += 1;
         } else {
           compliance.pending += 1;
           compliance.laggingDeviceIds.push(device.id);
         }
+
+        if (rollout && compliance.rollout) {
+          if (receivesRollout(policy, rollout, device, applied)) compliance.rollout.targeted += 1;
+          if (applied !== null && applied >= rollout.version) compliance.rollout.applied += 1;
+        }
       }
 
       return compliance;
     },
 
+    async startRollout(
+      policyId: string,
+      settings: PolicySettings,
+      options: { percentage: number },
+    ): Promise<Policy> {
+      assertRolloutPercentage(options.percentage);
+      if (!database.findPolicyVersion) {
+        throw new Error(
+          'Database adapter does not support policy history. Upgrade to an adapter ' +
+            'that implements findPolicyVersion.',
+        );
+      }
+
+      const existing = await database.findPolicy(policyId);
+      if (!existing) {
+        throw new PolicyNotFoundError(policyId);
+      }
+      if (isRolloutInProgress(existing.rollout)) {
+        throw new ValidationError(`Policy ${policyId} already has a rollout in progress`);
+      }
+      if (JSON.stringify(settings) === JSON.stringify(existing.settings)) {
+        throw new ValidationError('Settings are unchanged; there is nothing to roll out');
+      }
+      await validatePolicySettings(settings);
+
+      // Devices outside the rollout are served the previous version from
+      // history, so it has to be there — policies created before history was
+      // kept have no snapshot yet.
+      const previousVersion = existing.version ?? 1;
+      if (!(await database.findPolicyVersion(policyId, previousVersion))) {
+        await snapshotPolicy(existing);
+      }
+
+      const now = new Date();
+      const rollout: PolicyRollout = {
+        version: previousVersion + 1,
+        previousVersion,
+        percentage: options.percentage,
+        status: options.percentage >= 100 ? 'completed' : 'active',
+        startedAt: now,
+        updatedAt: now,
+      };
+      const policy = await database.updatePolicy(policyId, {
+        settings,
+        version: rollout.version,
+        rollout,
+      });
+      await snapshotPolicy(policy);
+
+      const notified = await notifyRolloutDevices(policy);
+      await emit('policy.updated', { policy, previousVersion, affectedDeviceCount: notified });
+      await emit('policy.rolloutChanged', { policy, rollout });
+
+      policyLog.info(
+        { policyId, version: rollout.version, percentage: rollout.percentage, notified },
+        'Policy rollout started',
+      );
+      return policy;
+    },
+
+    async setRolloutPercentage(policyId: string, percentage: number): Promise<Policy> {
+      assertRolloutPercentage(percentage);
+      const existing = await database.findPolicy(policyId);
+      if (!existing) {
+        throw new PolicyNotFoundError(policyId);
+      }
+      const current = existing.rollout;
+      if (!isRolloutInProgress(current)) {
+        throw new ValidationError(`Policy ${policyId} has no rollout in progress`);
+      }
+      if (percentage < current.percentage) {
+        // Devices already on the new version would keep it anyway.
+        throw new ValidationError('A rollout cannot be narrowed; pause or roll it back instead');
+      }
+
+      return updateRollout(existing, {
+        percentage,
+        status: percentage >= 100 ? 'completed' : current.status,
+      });
+    },
+
+    async pauseRollout(policyId: string): Promise<Policy> {
+      const existing = await database.findPolicy(policyId);
+      if (!existing) {
+        throw new PolicyNotFoundError(policyId);
+      }
+      if (existing.rollout?.status !== 'active') {
+        throw new ValidationError(`Policy ${policyId} has no active rollout to pause`);
+      }
+      return updateRollout(existing, { status: 'paused' });
+    },
+
+    async resumeRollout(policyId: string): Promise<Policy> {
+      const existing = await database.findPolicy(policyId);
+      if (!existing) {
+        throw new PolicyNotFoundError(policyId);
+      }
+      if (existing.rollout?.status !== 'paused') {
+        throw new ValidationError(`Policy ${policyId} has no paused rollout to resume`);
+      }
+      return updateRollout(existing, { status: 'active' });
+    },
+
+    async rollbackRollout(policyId: string, options?: { note?: string }): Promise<Policy> {
+      const existing = await database.findPolicy(policyId);
+      if (!existing) {
+        throw new PolicyNotFoundError(policyId);
+      }
+      const rollout = existing.rollout;
+      if (!isRolloutInProgress(rollout)) {
+        throw new ValidationError(`Policy ${policyId} has no rollout in progress`);
+      }
+
+      // Devices that took the new version only move off it when they see a
+      // higher one, so the old settings go out as version n+1 to everyone.
+      const restored = await this.rollback(policyId, rollout.previousVersion, options);
+      const rolledBack: PolicyRollout = { ...rollout, status: 'rolledBack', updatedAt: new Date() };
+      const policy = await database.updatePolicy(policyId, { rollout: rolledBack });
+      await emit('policy.rolloutChanged', { policy, rollout: rolledBack });
+
+      policyLog.info(
+        { policyId, version: rollout.version, newVersion: restored.version },
+        'Policy rollout rolled back',
+      );
+      return policy;
+    },
+
+    async getForDevice(deviceId: string): Promise<Policy | null> {
+      const found = await database.findDevice(deviceId);
+      if (!found) {
+        throw new DeviceNotFoundError(deviceId);
+      }
+      // A device that was offline, or polled between sweeps, when its
+      // schedule moved on is switched now rather than served the old policy.
+      const device = await followPolicySchedule(found, new Date());
+      const served = await servePolicy(device);
+      return served?.policy ?? null;
+    },
+
     async delete(id: string): Promise<void> {
+      // A schedule, quarantine rule or quarantined device naming the policy
+      // would assign it again once it is gone.
+      const references: string[] = [];
+      for (const device of await listAllDevices({})) {
+        const schedule = device.policySchedule;
+        if (
+          schedule &&
+          (schedule.defaultPolicyId === id ||
+            schedule.windows.some((window) => window.policyId === id))
+        ) {
+          references.push(`policy schedule of device ${device.id}`);
+        }
+        if (device.quarantinedFromPolicyId === id) {
+          references.push(`device ${device.id}, quarantined from it`);
+        }
+      }
+      for (const policy of await database.listPolicies()) {
+        const quarantines = policy.complianceRules?.remediation?.some(
+          (step) => step.action === 'quarantine' && step.policyId === id,
+        );
+        if (quarantines) {
+          references.push(`quarantine rule of policy ${policy.id}`);
+        }
+      }
+      if (references.length > 0) {
+        throw new ValidationError(`Policy ${id} is still referenced: ${references.join('; ')}`, {
+          references,
+        });
+      }
+
       // Check if any devices use this policy
       const devicesResult = await database.listDevices({ policyId: id });
       if (devicesResult.devices.length > 0) {
@@ -1235,6 +2440,41 @@ export function createMDM(config: MDMConfig): MDMInstance {
     async applyToDevice(policyId: string, deviceId: string): Promise<void> {
       await devices.assignPolicy(deviceId, policyId);
     },
+
+    async applySchedules(now: Date = new Date()): Promise<PolicyScheduleResult> {
+      const result: PolicyScheduleResult = { checked: 0, switched: [] };
+
+      const scheduled = (await listAllDevices({ status: 'enrolled' })).filter(
+        (device) => device.policySchedule,
+      );
+      for (const device of scheduled) {
+        result.checked += 1;
+        try {
+          const followed = await followPolicySchedule(device, now);
+          if (followed.policyId !== device.policyId) {
+            result.switched.push({
+              deviceId: device.id,
+              fromPolicyId: device.policyId ?? null,
+              toPolicyId: followed.policyId as string,
+            });
+          }
+        } catch (error) {
+          // One device failing must not hold up the rest.
+          policyLog.error(
+            { deviceId: device.id, err: errorMessage(error) },
+            'Failed to apply scheduled policy',
+          );
+        }
+      }
+
+      if (result.switched.length > 0) {
+        policyLog.info(
+          { checked: result.checked, switched: result.switched.length },
+          'Policy schedule sweep complete',
+        );
+      }
+      return result;
+    },
   };
 
   // ============================================
@@ -1280,29 +2520,7 @@ export function createMDM(config: MDMConfig): MDMInstance {
         throw new ApplicationNotFoundError(packageName);
       }
 
-      const deviceIds: string[] = [];
-
-      // Collect target devices
-      if (target.devices) {
-        deviceIds.push(...target.devices);
-      }
-
-      if (target.groups) {
-        for (const groupId of target.groups) {
-          const groupDevices = await database.listDevicesInGroup(groupId);
-          deviceIds.push(...groupDevices.map((d) => d.id));
-        }
-      }
-
-      if (target.policies) {
-        for (const policyId of target.policies) {
-          const result = await database.listDevices({ policyId });
-          deviceIds.push(...result.devices.map((d) => d.id));
-        }
-      }
-
-      // Deduplicate
-      const uniqueDeviceIds = [...new Set(deviceIds)];
+      const uniqueDeviceIds = await resolveTargetDeviceIds(target);
 
       // Send install command to all devices
       if (uniqueDeviceIds.length > 0) {
@@ -1363,10 +2581,407 @@ export function createMDM(config: MDMConfig): MDMInstance {
     },
   };
 
+  // ============================================
+  // Command Campaigns
+  // ============================================
+
+  const COMMAND_STATUSES: CommandStatus[] = [
+    'awaiting_approval',
+    'pending',
+    'sent',
+    'acknowledged',
+    'completed',
+    'failed',
+    'cancelled',
+    'expired',
+  ];
+
+  const requireCampaignSupport = (method: keyof DatabaseAdapter): void => {
+    if (!database[method]) {
+      throw new Error(`Database adapter does not support command campaigns (${method}).`);
+    }
+  };
+
+  const loadCampaign = async (id: string): Promise<CommandCampaign> => {
+    requireCampaignSupport('findCommandCampaign');
+    const campaign = await database.findCommandCampaign!(id);
+    if (!campaign) throw new CommandCampaignNotFoundError(id);
+    return campaign;
+  };
+
+  const countCampaignCommands = async (
+    campaignId: string,
+  ): Promise<Partial<Record<CommandStatus, number>>> => {
+    if (database.countCommandsByStatus) {
+      return database.countCommandsByStatus({ campaignId });
+    }
+
+    const counts: Partial<Record<CommandStatus, number>> = {};
+    const pageSize = 500;
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await database.listCommands({ campaignId, limit: pageSize, offset });
+      for (const command of page) {
+        counts[command.status] = (counts[command.status] ?? 0) + 1;
+      }
+      if (page.length < pageSize) return counts;
+    }
+  };
+
+  // ============================================
+  // Command Workflows
+  // ============================================
+
+  const DEFAULT_WORKFLOW_STEP_RETRIES = 1;
+
+  /** Statuses a command does not leave. A workflow step settles on any of them. */
+  const SETTLED_COMMAND_STATUSES = new Set<CommandStatus>([
+    'completed',
+    'failed',
+    'expired',
+    'cancelled',
+  ]);
+
+  const requireWorkflowSupport = (method: keyof DatabaseAdapter): void => {
+    if (!database[method]) {
+      throw new Error(`Database adapter does not support command workflows (${method}).`);
+    }
+  };
+
+  const loadWorkflow = async (id: string): Promise<CommandWorkflow> => {
+    requireWorkflowSupport('findCommandWorkflow');
+    const workflow = await database.findCommandWorkflow!(id);
+    if (!workflow) throw new CommandWorkflowNotFoundError(id);
+    return workflow;
+  };
+
+  const withStep = (
+    steps: CommandWorkflowStep[],
+    index: number,
+    changes: Partial<CommandWorkflowStep>,
+  ): CommandWorkflowStep[] =>
+    steps.map((step, i) => (i === index ? { ...step, ...changes } : step));
+
+  /** Close a workflow and announce how it ended. */
+  const finishWorkflow = async (
+    workflow: CommandWorkflow,
+    data: UpdateCommandWorkflowInput & { status: 'completed' | 'failed' | 'cancelled' },
+  ): Promise<CommandWorkflow> => {
+    const finished = await database.updateCommandWorkflow!(workflow.id, {
+      ...data,
+      completedAt: new Date(),
+    });
+
+    commandLog.info(
+      { workflowId: workflow.id, deviceId: workflow.deviceId, status: data.status },
+      'Command workflow finished',
+    );
+
+    const device = await database.findDevice(workflow.deviceId);
+    if (device) {
+      if (data.status === 'completed') {
+        await emit('workflow.completed', { device, workflow: finished });
+      } else if (data.status === 'failed') {
+        await emit('workflow.failed', {
+          device,
+          workflow: finished,
+          error: data.error ?? 'Workflow step failed',
+        });
+      } else {
+        await emit('workflow.cancelled', { device, workflow: finished });
+      }
+    }
+    return finished;
+  };
+
+  /**
+   * Send a step's command and record it on the step. A command that settles
+   * during the send — a plugin-owned type, or a push dead-lettered on its
+   * only attempt — moves the workflow on straight away.
+   */
+  const releaseWorkflowStep = async (
+    workflow: CommandWorkflow,
+    index: number,
+  ): Promise<CommandWorkflow> => {
+    const step = workflow.steps[index]!;
+    const attempts = step.attempts + 1;
+
+    let command: Command;
+    try {
+      command = await devices.sendCommand(workflow.deviceId, {
+        tenantId: workflow.tenantId ?? undefined,
+        type: step.type,
+        payload: step.payload ?? undefined,
+        workflowId: workflow.id,
+        idempotencyKey: `workflow:${workflow.id}:${index}:${attempts}`,
+        requestedBy: workflow.requestedBy ?? undefined,
+      });
+    } catch (error) {
+      commandLog.error(
+        { workflowId: workflow.id, step: index, err: errorMessage(error) },
+        'Failed to send workflow step',
+      );
+      return finishWorkflow(workflow, {
+        status: 'failed',
+        steps: withStep(workflow.steps, index, {
+          status: 'failed',
+          attempts,
+          error: errorMessage(error),
+        }),
+        currentStep: index,
+        error: errorMessage(error),
+      });
+    }
+
+    const updated = await database.updateCommandWorkflow!(workflow.id, {
+      steps: withStep(workflow.steps, index, {
+        status: 'running',
+        commandId: command.id,
+        attempts,
+      }),
+      currentStep: index,
+    });
+
+    if (SETTLED_COMMAND_STATUSES.has(command.status)) {
+      return settleWorkflowStep(updated, command);
+    }
+    return updated;
+  };
+
+  /** Release the step at `next`, or complete the workflow when there is none. */
+  const continueWorkflow = async (
+    workflow: CommandWorkflow,
+    next: number,
+  ): Promise<CommandWorkflow> => {
+    if (next >= workflow.steps.length) {
+      return finishWorkflow(workflow, { status: 'completed' });
+    }
+    return releaseWorkflowStep(workflow, next);
+  };
+
+  /** Act on the settled command of the workflow's current step. */
+  const settleWorkflowStep = async (
+    workflow: CommandWorkflow,
+    command: Command,
+  ): Promise<CommandWorkflow> => {
+    const index = workflow.currentStep;
+    const step = workflow.steps[index]!;
+    const device = await database.findDevice(workflow.deviceId);
+
+    if (command.status === 'completed') {
+      const updated = await database.updateCommandWorkflow!(workflow.id, {
+        steps: withStep(workflow.steps, index, { status: 'completed', error: null }),
+      });
+      if (device) {
+        await emit('workflow.stepCompleted', { device, workflow: updated, step: index, command });
+      }
+      return continueWorkflow(updated, index + 1);
+    }
+
+    const error = command.error ?? `Step ${index} ${command.status}`;
+
+    // A cancelled step was stopped by a person — cancelled outright or
+    // rejected by an approver — so it is neither retried nor skipped.
+    let action: CommandWorkflowFailureAction =
+      command.status === 'cancelled' ? 'abort' : step.onFailure;
+    if (action === 'retry' && step.attempts > step.maxRetries) {
+      action = 'abort';
+    }
+
+    if (device) {
+      await emit('workflow.stepFailed', { device, workflow, step: index, command, action });
+    }
+
+    if (action === 'retry') {
+      commandLog.info(
+        { workflowId: workflow.id, step: index, attempts: step.attempts },
+        'Retrying failed workflow step',
+      );
+      return releaseWorkflowStep(
+        { ...workflow, steps: withStep(workflow.steps, index, { error }) },
+        index,
+      );
+    }
+
+    if (action === 'skip') {
+      const updated = await database.updateCommandWorkflow!(workflow.id, {
+        steps: withStep(workflow.steps, index, { status: 'skipped', error }),
+      });
+      return continueWorkflow(updated, index + 1);
+    }
+
+    const cancelled = command.status === 'cancelled';
+    return finishWorkflow(workflow, {
+      status: cancelled ? 'cancelled' : 'failed',
+      steps: withStep(workflow.steps, index, {
+        status: cancelled ? 'cancelled' : 'failed',
+        error,
+      }),
+      error,
+    });
+  };
+
+  /**
+   * Move a workflow on after one of its commands settles. Called from every
+   * path that completes, fails, expires or cancels a command; a command that
+   * is not the current step's latest attempt is ignored. Errors are logged
+   * rather than thrown — the command's own transition has already happened.
+   */
+  const advanceWorkflow = async (command: Command): Promise<void> => {
+    if (!command.workflowId || !database.findCommandWorkflow) return;
+    if (!SETTLED_COMMAND_STATUSES.has(command.status)) return;
+
+    try {
+      const workflow = await database.findCommandWorkflow(command.workflowId);
+      if (!workflow || workflow.status !== 'running') return;
+      if (workflow.steps[workflow.currentStep]?.commandId !== command.id) return;
+      await settleWorkflowStep(workflow, command);
+    } catch (error) {
+      commandLog.error(
+        { workflowId: command.workflowId, commandId: command.id, err: errorMessage(error) },
+        'Failed to advance command workflow',
+      );
+    }
+  };
+
+  /**
+   * A device that reports a result for a command it was told to cancel ran
+   * it anyway: record the cancellation as `too_late` so it drops off the
+   * cancellation list, and say so.
+   */
+  const settleLateCancellation = async (command: Command): Promise<Command> => {
+    if (command.cancellation !== 'requested') return command;
+
+    const updated = (await database.updateCommand(command.id, { cancellation: 'too_late' })) ?? {
+      ...command,
+      cancellation: 'too_late' as const,
+    };
+    const device = await database.findDevice(command.deviceId);
+    if (device) {
+      await emit('command.cancellationConfirmed', {
+        device,
+        command: updated,
+        outcome: 'too_late',
+      });
+    }
+    return updated;
+  };
+
+  /**
+   * `expireCommands` reaps in bulk without saying which commands it touched,
+   * so look at the current step of every running workflow instead.
+   */
+  const advanceExpiredWorkflows = async (): Promise<void> => {
+    if (!database.listCommandWorkflows) return;
+
+    const running: CommandWorkflow[] = [];
+    const pageSize = 500;
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await database.listCommandWorkflows({
+        status: 'running',
+        limit: pageSize,
+        offset,
+      });
+      running.push(...page);
+      if (page.length < pageSize) break;
+    }
+
+    for (const workflow of running) {
+      const commandId = workflow.steps[workflow.currentStep]?.commandId;
+      const command = commandId ? await database.findCommand(commandId) : null;
+      if (command?.status === 'expired') {
+        await advanceWorkflow(command);
+      }
+    }
+  };
+
+  // ============================================
+  // Command Artifacts
+  // ============================================
+
+  const DEFAULT_ARTIFACT_UPLOAD_EXPIRY_SECONDS = 15 * 60;
+  const DEFAULT_ARTIFACT_DOWNLOAD_EXPIRY_SECONDS = 5 * 60;
+
+  /** Statuses in which the device may still be producing a command's result. */
+  const ARTIFACT_UPLOAD_STATUSES = new Set<CommandStatus>(['pending', 'sent', 'acknowledged']);
+
+  const artifactStorage = () => {
+    const artifacts = config.commands?.artifacts;
+    if (!artifacts) {
+      throw new ConfigurationError(
+        'Command artifacts need config.commands.artifacts.storage (for example @openmdm/storage-s3)',
+      );
+    }
+    return artifacts;
+  };
+
+  /**
+   * Every artifact key for a command contains this. Storage adapters may add
+   * their own prefix in front, so keys are matched on it rather than on an
+   * exact value.
+   */
+  const artifactKeyPrefix = (command: Command): string =>
+    `commands/${command.deviceId}/${command.id}/`;
+
+  const assertArtifactsBelongTo = (command: Command, artifacts: CommandArtifact[]): void => {
+    const prefix = artifactKeyPrefix(command);
+    for (const artifact of artifacts) {
+      if (typeof artifact?.key !== 'string' || !artifact.key.includes(prefix)) {
+        throw new ValidationError(`Artifact was not uploaded for command ${command.id}`, {
+          key: artifact?.key,
+        });
+      }
+    }
+  };
+
   // ============================================
   // Command Manager
   // ============================================
 
+  /** Load a command that must still be waiting for a reviewer. */
+  const loadAwaitingApproval = async (id: string, reviewer: string): Promise<Command> => {
+    const command = await database.findCommand(id);
+    if (!command) throw new CommandNotFoundError(id);
+    if (command.status !== 'awaiting_approval') {
+      throw new CommandApprovalError(`Command ${id} is not awaiting approval`, {
+        status: command.status,
+      });
+    }
+    if (!reviewer) {
+      throw new CommandApprovalError(`Command ${id} cannot be reviewed anonymously`);
+    }
+    if (command.requestedBy === reviewer) {
+      throw new CommandApprovalError(
+        `Command ${id} must be reviewed by someone other than its requester`,
+        { requestedBy: command.requestedBy },
+      );
+    }
+    return command;
+  };
+
+  /**
+   * Push a campaign's queued commands one device at a time. Each command is
+   * re-read first: one cancelled since it was queued — with the rest of its
+   * campaign, or on its own — must not be pushed.
+   */
+  const deliverCampaign = async (campaignId: string, queued: Command[]): Promise<void> => {
+    for (const command of queued) {
+      const current = await database.findCommand(command.id);
+      if (current?.status !== 'pending') continue;
+
+      try {
+        const delivered = await dispatchCommand(current);
+        if (config.onCommand) {
+          await config.onCommand(delivered);
+        }
+      } catch (error) {
+        commandLog.error(
+          { campaignId, commandId: command.id, err: errorMessage(error) },
+          'Failed to deliver campaign command',
+        );
+      }
+    }
+  };
+
   const commands: CommandManager = {
     async get(id: string): Promise<Command | null> {
       return database.findCommand(id);
@@ -1382,10 +2997,45 @@ export function createMDM(config: MDMConfig): MDMInstance {
     },
 
     async cancel(id: string): Promise<Command> {
-      const command = await database.updateCommand(id, { status: 'cancelled' });
+      const existing = await database.findCommand(id);
+      if (!existing) {
+        throw new CommandNotFoundError(id);
+      }
+      // Its outcome is recorded; cancelling now would overwrite it.
+      if (SETTLED_COMMAND_STATUSES.has(existing.status)) {
+        return existing;
+      }
+
+      // A command still `pending` never left the server; one that is `sent`
+      // (pushed, or handed to a polling device) or `acknowledged` may already
+      // be on the device and must be called back there too.
+      const onDevice = existing.status === 'sent' || existing.status === 'acknowledged';
+      const command = await database.updateCommand(id, {
+        status: 'cancelled',
+        ...(onDevice ? { cancellation: 'requested' as const } : {}),
+      });
       if (!command) {
         throw new CommandNotFoundError(id);
       }
+
+      if (onDevice) {
+        try {
+          await pushAdapter.send(command.deviceId, {
+            type: 'command.cancel',
+            payload: { commandId: command.id },
+            priority: 'high',
+          });
+        } catch (error) {
+          // The id is also handed out on the next heartbeat, so a failed
+          // push only delays the cancellation.
+          commandLog.warn(
+            { commandId: command.id, deviceId: command.deviceId, err: errorMessage(error) },
+            'Push threw while sending command cancellation',
+          );
+        }
+      }
+
+      await advanceWorkflow(command);
       return command;
     },
 
@@ -1408,40 +3058,50 @@ export function createMDM(config: MDMConfig): MDMInstance {
     },
 
     async complete(id: string, result: CommandResult): Promise<Command> {
-      const command = await database.updateCommand(id, {
+      if (result.artifacts?.length) {
+        const existing = await database.findCommand(id);
+        if (!existing) throw new CommandNotFoundError(id);
+        assertArtifactsBelongTo(existing, result.artifacts);
+      }
+
+      const updated = await database.updateCommand(id, {
         status: 'completed',
         result,
         completedAt: new Date(),
       });
 
-      if (!command) {
+      if (!updated) {
         throw new CommandNotFoundError(id);
       }
+      const command = await settleLateCancellation(updated);
 
       const device = await database.findDevice(command.deviceId);
       if (device) {
         await emit('command.completed', { device, command, result });
       }
 
+      await advanceWorkflow(command);
       return command;
     },
 
     async fail(id: string, error: string): Promise<Command> {
-      const command = await database.updateCommand(id, {
+      const updated = await database.updateCommand(id, {
         status: 'failed',
         error,
         completedAt: new Date(),
       });
 
-      if (!command) {
+      if (!updated) {
         throw new CommandNotFoundError(id);
       }
+      const command = await settleLateCancellation(updated);
 
       const device = await database.findDevice(command.deviceId);
       if (device) {
         await emit('command.failed', { device, command, error });
       }
 
+      await advanceWorkflow(command);
       return command;
     },
 
@@ -1458,7 +3118,7 @@ export function createMDM(config: MDMConfig): MDMInstance {
       for (const command of pending) {
         if (command.expiresAt && command.expiresAt.getTime() <= now) {
           expired.push(command);
-        } else {
+        } else if (!isNotYetDue(command, now)) {
           live.push(command);
         }
       }
@@ -1472,6 +3132,7 @@ export function createMDM(config: MDMConfig): MDMInstance {
           expired.map((command) =>
             database
               .updateCommand(command.id, { status: 'expired', completedAt: new Date() })
+              .then((updated) => updated && advanceWorkflow(updated))
               .catch((error) =>
                 commandLog.error(
                   { commandId: command.id, err: errorMessage(error) },
@@ -1482,12 +3143,372 @@ export function createMDM(config: MDMConfig): MDMInstance {
         );
       }
 
-      return live;
+      // Handing a command to a polling device is its delivery: mark it `sent`
+      // so a later cancel is called back on the device, as a pushed one is.
+      // One whose plugin has not run yet, because it was deferred until
+      // `notBefore`, goes through its plugin first and is only handed out if
+      // the plugin passed it on.
+      const handedOut = await Promise.all(
+        live.map(async (command): Promise<Command | null> => {
+          if (command.status !== 'pending') return command;
+          const dispatched = awaitsPlugin(command) ? await dispatchCommand(command) : command;
+          if (SETTLED_COMMAND_STATUSES.has(dispatched.status)) return null;
+          if (dispatched.status !== 'pending') return dispatched;
+          const sent = await database.updateCommand(command.id, {
+            status: 'sent',
+            sentAt: new Date(),
+          });
+          return sent ?? dispatched;
+        }),
+      );
+
+      // Adapters are asked to order by priority, but the device must see
+      // urgent commands first whatever the adapter did.
+      return handedOut
+        .filter((command): command is Command => command !== null)
+        .sort(byDeliveryOrder);
+    },
+
+    async getCancellations(deviceId: string): Promise<string[]> {
+      const cancelled = await database.listCommands({
+        deviceId,
+        status: 'cancelled',
+        cancellation: 'requested',
+        limit: 100,
+      });
+      // Adapters that ignore the `cancellation` filter would otherwise hand
+      // out every command this device ever had cancelled.
+      return cancelled
+        .filter(
+          (command) =>
+            command.deviceId === deviceId &&
+            command.status === 'cancelled' &&
+            command.cancellation === 'requested',
+        )
+        .map((command) => command.id);
+    },
+
+    async confirmCancellation(
+      id: string,
+      outcome: CommandCancellationOutcome,
+      options: { deviceId?: string } = {},
+    ): Promise<Command> {
+      if (outcome !== 'aborted' && outcome !== 'too_late') {
+        throw new ValidationError("Cancellation outcome must be 'aborted' or 'too_late'");
+      }
+
+      const existing = await database.findCommand(id);
+      if (!existing || (options.deviceId && existing.deviceId !== options.deviceId)) {
+        throw new CommandNotFoundError(id);
+      }
+      if (!existing.cancellation) {
+        throw new ValidationError(`Command ${id} was not cancelled on the device`);
+      }
+      // Retried confirmations, or one racing a late result, are no-ops.
+      if (existing.cancellation !== 'requested') {
+        return existing;
+      }
+
+      const command = await database.updateCommand(id, { cancellation: outcome });
+      if (!command) {
+        throw new CommandNotFoundError(id);
+      }
+
+      const device = await database.findDevice(command.deviceId);
+      if (device) {
+        await emit('command.cancellationConfirmed', { device, command, outcome });
+      }
+
+      return command;
+    },
+
+    async getDeliveries(commandId: string): Promise<PushDelivery[]> {
+      if (!database.listPushDeliveries) {
+        throw new Error(
+          'Database adapter does not support the push delivery log (listPushDeliveries).',
+        );
+      }
+      return database.listPushDeliveries({ commandId });
+    },
+
+    async sendBulk(input: SendBulkCommandInput): Promise<CommandCampaign> {
+      requireCampaignSupport('createCommandCampaign');
+      if (!input.target && !input.filter) {
+        throw new ValidationError('A bulk command needs a target or a device filter');
+      }
+      // Checked once up front: per device, a bad payload would only be logged
+      // and skipped, leaving an empty campaign behind.
+      assertValidPayload(input.type, input.payload);
+      assertValidDeliveryOptions(input);
+
+      const deviceIds = await resolveTargetDeviceIds(input.target, input.filter, input.tenantId);
+      const campaign = await database.createCommandCampaign!({
+        tenantId: input.tenantId,
+        name: input.name,
+        type: input.type,
+        payload: input.payload,
+        target: input.target,
+        filter: input.filter,
+        deviceCount: deviceIds.length,
+      });
+
+      commandLog.info(
+        { campaignId: campaign.id, type: input.type, deviceCount: deviceIds.length },
+        'Sending command campaign',
+      );
+
+      const queued: Command[] = [];
+      for (const [index, deviceId] of deviceIds.entries()) {
+        // A fan-out over thousands of devices can be cancelled while it is
+        // still running; stop queueing once it has been.
+        if (index > 0 && index % 100 === 0) {
+          const current = await database.findCommandCampaign?.(campaign.id);
+          if (current?.status === 'cancelled') {
+            commandLog.info(
+              { campaignId: campaign.id, queued: index },
+              'Campaign cancelled during fan-out',
+            );
+            break;
+          }
+        }
+
+        try {
+          const { command, deliver } = await queueCommand(deviceId, {
+            tenantId: input.tenantId,
+            type: input.type,
+            payload: input.payload,
+            campaignId: campaign.id,
+            idempotencyKey: `campaign:${campaign.id}:${deviceId}`,
+            ttlSeconds: input.ttlSeconds,
+            expiresAt: input.expiresAt,
+            maxAttempts: input.maxAttempts,
+            priority: input.priority,
+            notBefore: input.notBefore,
+            requestedBy: input.requestedBy,
+          });
+          if (deliver) queued.push(command);
+        } catch (error) {
+          // One device that cannot be queued must not strand the rest of the
+          // fleet; it shows up as the gap between deviceCount and progress.
+          commandLog.error(
+            { campaignId: campaign.id, deviceId, err: errorMessage(error) },
+            'Failed to queue campaign command',
+          );
+        }
+      }
+
+      // A push can take up to the transport's ack timeout per device, so the
+      // caller gets the campaign back once every command is queued. Anything
+      // this pass does not reach stays `pending` for `retryPending`.
+      deliverCampaign(campaign.id, queued).catch((error) => {
+        commandLog.error(
+          { campaignId: campaign.id, err: errorMessage(error) },
+          'Campaign delivery failed',
+        );
+      });
+
+      return campaign;
+    },
+
+    async getCampaign(id: string): Promise<CommandCampaign | null> {
+      requireCampaignSupport('findCommandCampaign');
+      return database.findCommandCampaign!(id);
+    },
+
+    async listCampaigns(filter?: CommandCampaignFilter): Promise<CommandCampaign[]> {
+      requireCampaignSupport('listCommandCampaigns');
+      return database.listCommandCampaigns!(filter);
+    },
+
+    async getCampaignProgress(id: string): Promise<CommandCampaignProgress> {
+      const campaign = await loadCampaign(id);
+      const counts = await countCampaignCommands(id);
+
+      const progress = {
+        campaignId: id,
+        status: campaign.status,
+        total: 0,
+      } as CommandCampaignProgress;
+      for (const status of COMMAND_STATUSES) {
+        progress[status] = counts[status] ?? 0;
+        progress.total += progress[status];
+      }
+      return progress;
+    },
+
+    async cancelCampaign(id: string): Promise<CommandCampaignProgress> {
+      const campaign = await loadCampaign(id);
+      requireCampaignSupport('updateCommandCampaign');
+
+      // Marked first, so a fan-out still in progress stops queueing.
+      if (campaign.status !== 'cancelled') {
+        await database.updateCommandCampaign!(id, {
+          status: 'cancelled',
+          cancelledAt: new Date(),
+        });
+      }
+
+      // Cancelled commands drop out of the filter, so each round re-reads
+      // the first page until nothing cancellable is left.
+      const seen = new Set<string>();
+      for (;;) {
+        const page = await database.listCommands({
+          campaignId: id,
+          status: ['awaiting_approval', 'pending', 'sent', 'acknowledged'],
+          limit: 500,
+        });
+        const fresh = page.filter((command) => !seen.has(command.id));
+        if (fresh.length === 0) break;
+
+        for (const command of fresh) {
+          seen.add(command.id);
+          // Through `cancel`, so commands already on a device are called back.
+          await commands.cancel(command.id);
+        }
+      }
+
+      commandLog.info({ campaignId: id, cancelled: seen.size }, 'Command campaign cancelled');
+      return this.getCampaignProgress(id);
+    },
+
+    async startWorkflow(input: StartCommandWorkflowInput): Promise<CommandWorkflow> {
+      requireWorkflowSupport('createCommandWorkflow');
+      requireWorkflowSupport('updateCommandWorkflow');
+      if (input.steps.length === 0) {
+        throw new ValidationError('A workflow needs at least one step');
+      }
+      // Checked up front: a bad payload on step four should not surface after
+      // steps one to three have already run on the device.
+      for (const step of input.steps) {
+        assertValidPayload(step.type, step.payload);
+      }
+
+      const device = await database.findDevice(input.deviceId);
+      if (!device) throw new DeviceNotFoundError(input.deviceId);
+
+      const workflow = await database.createCommandWorkflow!({
+        tenantId: input.tenantId,
+        deviceId: input.deviceId,
+        name: input.name,
+        requestedBy: input.requestedBy,
+        steps: input.steps.map((step) => ({
+          type: step.type,
+          payload: step.payload ?? null,
+          onFailure: step.onFailure ?? 'abort',
+          maxRetries: step.maxRetries ?? DEFAULT_WORKFLOW_STEP_RETRIES,
+          status: 'waiting',
+          commandId: null,
+          attempts: 0,
+          error: null,
+        })),
+      });
+
+      commandLog.info(
+        { workflowId: workflow.id, deviceId: input.deviceId, steps: input.steps.length },
+        'Starting command workflow',
+      );
+      await emit('workflow.started', { device, workflow });
+
+      return releaseWorkflowStep(workflow, 0);
+    },
+
+    async getWorkflow(id: string): Promise<CommandWorkflow | null> {
+      requireWorkflowSupport('findCommandWorkflow');
+      return database.findCommandWorkflow!(id);
+    },
+
+    async listWorkflows(filter?: CommandWorkflowFilter): Promise<CommandWorkflow[]> {
+      requireWorkflowSupport('listCommandWorkflows');
+      return database.listCommandWorkflows!(filter);
+    },
+
+    async cancelWorkflow(id: string): Promise<CommandWorkflow> {
+      const workflow = await loadWorkflow(id);
+      requireWorkflowSupport('updateCommandWorkflow');
+      if (workflow.status !== 'running') return workflow;
+
+      // Marked first, so the current command settling below — or a device
+      // completing it concurrently — does not release another step.
+      const cancelled = await finishWorkflow(workflow, {
+        status: 'cancelled',
+        steps: withStep(workflow.steps, workflow.currentStep, { status: 'cancelled' }),
+      });
+
+      const commandId = workflow.steps[workflow.currentStep]?.commandId;
+      const command = commandId ? await database.findCommand(commandId) : null;
+      if (command && !SETTLED_COMMAND_STATUSES.has(command.status)) {
+        // Through `cancel`, so a step already on the device is called back.
+        await commands.cancel(command.id);
+      }
+
+      return cancelled;
+    },
+
+    async createArtifactUpload(
+      commandId: string,
+      input: CreateCommandArtifactUploadInput,
+    ): Promise<CommandArtifactUpload> {
+      const artifacts = artifactStorage();
+      const command = await database.findCommand(commandId);
+      // Another device's command is reported as missing, not forbidden.
+      if (!command || (input.deviceId && command.deviceId !== input.deviceId)) {
+        throw new CommandNotFoundError(commandId);
+      }
+      if (!ARTIFACT_UPLOAD_STATUSES.has(command.status)) {
+        throw new ValidationError(
+          `Command ${commandId} is ${command.status}; artifacts can only be uploaded while it runs`,
+          { status: command.status },
+        );
+      }
+
+      const filename = input.filename.replace(/[^a-zA-Z0-9.-]/g, '_').slice(-100);
+      const upload = await artifacts.storage.getUploadUrl({
+        filename,
+        contentType: input.contentType,
+        customKey: `${artifactKeyPrefix(command)}${Date.now()}-${filename}`,
+        expiresIn: artifacts.uploadUrlExpirySeconds ?? DEFAULT_ARTIFACT_UPLOAD_EXPIRY_SECONDS,
+        metadata: { 'command-id': command.id, 'device-id': command.deviceId },
+      });
+
+      commandLog.debug(
+        { commandId, deviceId: command.deviceId, key: upload.key },
+        'Issued command artifact upload URL',
+      );
+
+      return {
+        key: upload.key,
+        uploadUrl: upload.uploadUrl,
+        method: upload.method,
+        headers: upload.headers,
+        expiresAt: upload.expiresAt,
+      };
+    },
+
+    async getArtifactDownloadUrl(commandId: string, key: string): Promise<CommandArtifactDownload> {
+      const artifacts = artifactStorage();
+      const command = await database.findCommand(commandId);
+      if (!command) throw new CommandNotFoundError(commandId);
+
+      // Only keys the device reported on the result, so the route cannot be
+      // used to sign arbitrary objects in the bucket.
+      if (!command.result?.artifacts?.some((artifact) => artifact.key === key)) {
+        throw new ValidationError(`Command ${commandId} has no artifact ${key}`, { key });
+      }
+
+      const expiresIn =
+        artifacts.downloadUrlExpirySeconds ?? DEFAULT_ARTIFACT_DOWNLOAD_EXPIRY_SECONDS;
+      const url = await artifacts.storage.getDownloadUrl(key, expiresIn);
+      return { url, expiresAt: new Date(Date.now() + expiresIn * 1000) };
     },
 
     async retryPending(options?: { limit?: number }): Promise<CommandRetryResult> {
       const limit = options?.limit ?? 100;
-      const result: CommandRetryResult = { delivered: 0, retried: 0, deadLettered: 0 };
+      const result: CommandRetryResult = {
+        delivered: 0,
+        retried: 0,
+        deadLettered: 0,
+        deferred: 0,
+      };
 
       if (!database.listRetryableCommands) {
         commandLog.warn(
@@ -1497,18 +3518,30 @@ export function createMDM(config: MDMConfig): MDMInstance {
         return result;
       }
 
-      const retryable = await database.listRetryableCommands({
-        now: new Date(),
-        backoffSeconds: commandDefaults.backoffSeconds,
-        limit,
-      });
+      const now = new Date();
+      const retryable = (
+        await database.listRetryableCommands({
+          now,
+          backoffSeconds: commandDefaults.backoffSeconds,
+          limit,
+        })
+      )
+        .filter((command) => !isNotYetDue(command, now.getTime()))
+        .sort(byDeliveryOrder);
 
       for (const command of retryable) {
-        const updated = await attemptDelivery(command);
-        if (updated.status === 'sent') {
+        // A plugin-owned command left pending (say, by a restart mid-send)
+        // is executed here rather than pushed.
+        const updated = await dispatchCommand(command);
+        await advanceWorkflow(updated);
+        if (updated.status === 'sent' || updated.status === 'completed') {
           result.delivered += 1;
         } else if (updated.status === 'failed') {
           result.deadLettered += 1;
+        } else if (updated.attemptCount === command.attemptCount) {
+          // attemptDelivery only leaves the count alone when the transport
+          // deferred the command to the device's next poll.
+          result.deferred += 1;
         } else {
           result.retried += 1;
         }
@@ -1535,6 +3568,7 @@ export function createMDM(config: MDMConfig): MDMInstance {
       if (count > 0) {
         commandLog.info({ count }, 'Reaped expired commands');
       }
+      await advanceExpiredWorkflows();
       return count;
     },
 
@@ -1568,11 +3602,12 @@ export function createMDM(config: MDMConfig): MDMInstance {
         // Out of attempts: don't spin forever on a device that keeps acking and
         // dying. Dead-letter it so an operator sees it.
         if ((command.attemptCount ?? 0) >= maxAttempts) {
-          await database.updateCommand(command.id, {
+          const deadLettered = await database.updateCommand(command.id, {
             status: 'failed',
             error: 'ACK_TIMEOUT_EXHAUSTED',
             completedAt: new Date(),
           });
+          if (deadLettered) await advanceWorkflow(deadLettered);
           result.deadLettered += 1;
           commandLog.error(
             { commandId: command.id, deviceId: command.deviceId },
@@ -1609,6 +3644,70 @@ export function createMDM(config: MDMConfig): MDMInstance {
 
       return result;
     },
+
+    async approve(id: string, approvedBy: string): Promise<Command> {
+      const held = await loadAwaitingApproval(id, approvedBy);
+      // Without a recorded requester there is no telling whether the
+      // approver is a second person, so nobody can release the command.
+      if (!held.requestedBy) {
+        throw new CommandApprovalError(
+          `Command ${id} has no recorded requester and cannot be approved`,
+        );
+      }
+      if (held.expiresAt && held.expiresAt.getTime() <= Date.now()) {
+        throw new CommandApprovalError(`Command ${id} expired before it was approved`, {
+          expiresAt: held.expiresAt,
+        });
+      }
+
+      const approved = await database.updateCommand(id, {
+        status: 'pending',
+        reviewedBy: approvedBy,
+        reviewedAt: new Date(),
+      });
+      if (!approved) throw new CommandNotFoundError(id);
+
+      commandLog.info(
+        { commandId: id, requestedBy: held.requestedBy, approvedBy },
+        'Command approved',
+      );
+
+      const delivered = await dispatchCommand(approved);
+      if (config.onCommand) {
+        await config.onCommand(delivered);
+      }
+
+      const device = await database.findDevice(delivered.deviceId);
+      if (device) {
+        await emit('command.approved', { device, command: delivered, approvedBy });
+      }
+      await advanceWorkflow(delivered);
+      return delivered;
+    },
+
+    async reject(id: string, rejectedBy: string, reason?: string): Promise<Command> {
+      const held = await loadAwaitingApproval(id, rejectedBy);
+
+      const rejected = await database.updateCommand(id, {
+        status: 'cancelled',
+        reviewedBy: rejectedBy,
+        reviewedAt: new Date(),
+        error: reason ? `Rejected: ${reason}` : 'Rejected',
+      });
+      if (!rejected) throw new CommandNotFoundError(id);
+
+      commandLog.info(
+        { commandId: id, requestedBy: held.requestedBy, rejectedBy, reason },
+        'Command rejected',
+      );
+
+      const device = await database.findDevice(rejected.deviceId);
+      if (device) {
+        await emit('command.rejected', { device, command: rejected, rejectedBy, reason });
+      }
+      await advanceWorkflow(rejected);
+      return rejected;
+    },
   };
 
   // ============================================
@@ -1633,7 +3732,11 @@ export function createMDM(config: MDMConfig): MDMInstance {
     },
 
     async delete(id: string): Promise<void> {
+      const members = await database.listDevicesInGroup(id);
       await database.deleteGroup(id);
+      for (const device of members) {
+        await syncGroupTopic(device.id, id, false);
+      }
     },
 
     async getDevices(groupId: string): Promise<Device[]> {
@@ -1642,10 +3745,12 @@ export function createMDM(config: MDMConfig): MDMInstance {
 
     async addDevice(groupId: string, deviceId: string): Promise<void> {
       await database.addDeviceToGroup(deviceId, groupId);
+      await syncGroupTopic(deviceId, groupId, true);
     },
 
     async removeDevice(groupId: string, deviceId: string): Promise<void> {
       await database.removeDeviceFromGroup(deviceId, groupId);
+      await syncGroupTopic(deviceId, groupId, false);
     },
 
     async getChildren(groupId: string): Promise<Group[]> {
@@ -2004,6 +4109,7 @@ export function createMDM(config: MDMConfig): MDMInstance {
       // Add to default group if configured
       if (enrollment.defaultGroupId) {
         await database.addDeviceToGroup(device.id, enrollment.defaultGroupId);
+        await syncGroupTopic(device.id, enrollment.defaultGroupId, true);
       }
     } else if (enrollment?.requireApproval) {
       // Create pending device
@@ -2070,19 +4176,164 @@ export function createMDM(config: MDMConfig): MDMInstance {
       policy: policy || undefined,
       serverUrl: config.serverUrl || '',
       pushConfig: {
-        provider: push?.provider || 'polling',
-        fcmSenderId: (push?.fcmCredentials as any)?.project_id,
-        mqttUrl: push?.mqttUrl,
-        mqttTopic: push?.mqttTopicPrefix
-          ? `${push.mqttTopicPrefix}/${device.id}`
+        provider: pushProviderName,
+        fcmSenderId: (pushProvider?.fcmCredentials as any)?.project_id,
+        mqttUrl: pushProvider?.mqttUrl,
+        mqttTopic: pushProvider?.mqttTopicPrefix
+          ? `${pushProvider.mqttTopicPrefix}/${device.id}`
           : `openmdm/devices/${device.id}`,
-        pollingInterval: push?.pollingInterval || 60,
+        pollingInterval: pushProvider?.pollingInterval || 60,
       },
       token,
       tokenExpiresAt: new Date(Date.now() + tokenExpiration * 1000),
     };
   };
 
+  // ============================================
+  // Push Receipts
+  // ============================================
+
+  const pushLog = logger.child({ component: 'push-delivery' });
+
+  const recordPushReceipt = async (
+    deviceId: string,
+    messageId: string,
+  ): Promise<PushDelivery | null> => {
+    if (!database.markPushDelivered) {
+      pushLog.warn(
+        { deviceId, messageId },
+        'Database adapter does not implement markPushDelivered — push receipts are dropped.',
+      );
+      return null;
+    }
+
+    const delivery = await database.markPushDelivered(deviceId, messageId, new Date());
+    if (!delivery) {
+      pushLog.debug({ deviceId, messageId }, 'Receipt for an unknown push message');
+    }
+    return delivery;
+  };
+
+  // ============================================
+  // Compliance
+  // ============================================
+
+  const complianceLog = logger.child({ component: 'compliance' });
+
+  /** Run a policy's remediation steps, in order. One failing does not stop the rest. */
+  const remediate = async (
+    device: Device,
+    policy: Policy,
+    violations: ComplianceViolation[],
+  ): Promise<void> => {
+    for (const step of policy.complianceRules?.remediation ?? []) {
+      try {
+        switch (step.action) {
+          case 'notify':
+            await commands.send({
+              deviceId: device.id,
+              type: 'sendNotification',
+              payload: {
+                title: step.title ?? 'Device out of compliance',
+                body:
+                  step.body ??
+                  violations
+                    .map((violation) => violation.description ?? violation.ruleId)
+                    .join('; '),
+              },
+            });
+            break;
+          case 'quarantine':
+            if (device.policyId === step.policyId) break;
+            // The policy whose rules it broke: it is checked against them,
+            // and released once it meets them.
+            await switchDevicePolicy(device.id, step.policyId, {
+              quarantinedFromPolicyId: device.quarantinedFromPolicyId ?? policy.id,
+            });
+            break;
+          case 'block':
+            await devices.block(
+              device.id,
+              `Non-compliant: ${violations.map((violation) => violation.ruleId).join(', ')}`,
+            );
+            break;
+        }
+      } catch (error) {
+        complianceLog.error(
+          { deviceId: device.id, action: step.action, err: errorMessage(error) },
+          'Compliance remediation failed',
+        );
+      }
+    }
+  };
+
+  /**
+   * Put a device that meets its rules again back where quarantine found it.
+   * One that had no policy of its own, only one through a group or the
+   * default, goes back to none.
+   */
+  const releaseFromQuarantine = async (device: Device, from: Policy): Promise<Device> => {
+    const inherited = await servePolicy({ ...device, policyId: null });
+    const policyId = inherited?.policy.id === from.id ? null : from.id;
+    return switchDevicePolicy(device.id, policyId, { quarantinedFromPolicyId: null });
+  };
+
+  /**
+   * Check a heartbeat against the compliance rules of the policy the device
+   * is served — the one it was quarantined from, if it was — and act on a
+   * change of state. Events and remediation fire on the transition, not on
+   * every heartbeat: a quarantined device must not be re-quarantined, or
+   * re-notified, every few minutes.
+   */
+  const checkCompliance = async (
+    device: Device,
+    heartbeat: Heartbeat,
+    served: Policy | null,
+  ): Promise<Device> => {
+    const policy = device.quarantinedFromPolicyId
+      ? await database.findPolicy(device.quarantinedFromPolicyId)
+      : served;
+    const rules = policy?.complianceRules?.rules ?? [];
+    if (!policy || (rules.length === 0 && !device.complianceState)) {
+      return device;
+    }
+
+    // `device` already holds this heartbeat merged over what was reported
+    // before, so a flag left out of one heartbeat is not read as missing.
+    const violations = evaluateComplianceRules(rules, {
+      ...device.securityTelemetry,
+      osVersion: device.osVersion,
+      agentVersion: device.agentVersion,
+    });
+    const state: DeviceComplianceState = violations.length > 0 ? 'nonCompliant' : 'compliant';
+
+    let checked = await database.updateDevice(device.id, {
+      complianceState: state,
+      complianceViolations: violations,
+      complianceCheckedAt: heartbeat.timestamp ?? new Date(),
+    });
+
+    if (state === 'nonCompliant' && device.complianceState !== 'nonCompliant') {
+      complianceLog.warn(
+        { deviceId: device.id, policyId: policy.id, violations: violations.map((v) => v.ruleId) },
+        'Device is not compliant',
+      );
+      await emit('device.nonCompliant', { device: checked, policy, violations });
+      await remediate(checked, policy, violations);
+      return (await database.findDevice(device.id)) ?? checked;
+    }
+
+    if (state === 'compliant' && device.complianceState === 'nonCompliant') {
+      if (device.quarantinedFromPolicyId) {
+        checked = await releaseFromQuarantine(checked, policy);
+      }
+      complianceLog.info({ deviceId: device.id, policyId: policy.id }, 'Device is compliant again');
+      await emit('device.compliant', { device: checked, policy });
+    }
+
+    return checked;
+  };
+
   // ============================================
   // Heartbeat Processing
   // ============================================
@@ -2105,26 +4356,62 @@ export function createMDM(config: MDMConfig): MDMInstance {
     if (heartbeat.location) {
       updateData.location = heartbeat.location;
     }
+    if (heartbeat.osVersion) {
+      updateData.osVersion = heartbeat.osVersion;
+    }
+    if (heartbeat.agentVersion) {
+      updateData.agentVersion = heartbeat.agentVersion;
+    }
+    // A heartbeat may carry only some of the flags; the others keep what the
+    // device reported last, as `osVersion` and `agentVersion` do.
+    const reportedFlags = (['isRooted', 'isEncrypted', 'screenLockEnabled'] as const).filter(
+      (flag) => heartbeat[flag] !== undefined,
+    );
+    if (reportedFlags.length > 0) {
+      updateData.securityTelemetry = {
+        ...device.securityTelemetry,
+        ...Object.fromEntries(reportedFlags.map((flag) => [flag, heartbeat[flag]])),
+      };
+    }
 
     // Record the policy version the device says it is running. Devices have
     // always reported this; core has never read it, so "is this device on the
     // current policy?" had no answer. Accept a number or a numeric string —
     // agents in the field send both.
     const reportedVersion = parsePolicyVersion(heartbeat.policyVersion);
+    const served = await servePolicy(device);
+    const layered = (served?.layers.length ?? 0) > 1;
     if (reportedVersion !== null) {
-      updateData.appliedPolicyVersion = reportedVersion;
-      updateData.policyAppliedAt = heartbeat.timestamp ?? new Date();
+      // A device served several layers reports the version derived from all
+      // of them. Rollouts and compliance count versions of one policy, so it
+      // is recorded as its most specific policy's version once it matches
+      // what the device is served; short of that, what it runs is unknown.
+      const appliedVersion = !layered
+        ? reportedVersion
+        : reportedVersion === served?.policy.version
+          ? served.layers[served.layers.length - 1].policyVersion
+          : null;
+      if (appliedVersion !== null) {
+        updateData.appliedPolicyVersion = appliedVersion;
+        updateData.policyAppliedAt = heartbeat.timestamp ?? new Date();
+      }
     }
 
-    const updatedDevice = await database.updateDevice(deviceId, updateData);
+    let updatedDevice = await database.updateDevice(deviceId, updateData);
 
-    // Drift: the device is on an older version than the one assigned to it.
+    // Drift: the device is on an older version than the one it is served.
     // Emitted every heartbeat, not once — a device that never converges should
     // keep announcing itself rather than going quiet after one alert.
-    if (reportedVersion !== null && updatedDevice.policyId) {
-      const policy = await database.findPolicy(updatedDevice.policyId);
-      const currentVersion = policy?.version ?? null;
-      if (policy && currentVersion !== null && reportedVersion < currentVersion) {
+    // During a rollout that passes the device by, "current" is the previous
+    // version it is being served. A layered version is not ordered, so any
+    // other version is drift.
+    if (served) {
+      const { policy } = served;
+      const currentVersion = policy.version;
+      if (
+        reportedVersion !== null &&
+        (layered ? reportedVersion !== currentVersion : reportedVersion < currentVersion)
+      ) {
         await emit('device.policyDrifted', {
           device: updatedDevice,
           policy,
@@ -2132,8 +4419,19 @@ export function createMDM(config: MDMConfig): MDMInstance {
           currentVersion,
         });
       }
+
+      // What a staged rollout watches for: the device could not apply it.
+      if (heartbeat.policyError) {
+        await emit('policy.failed', {
+          device: updatedDevice,
+          policy,
+          error: heartbeat.policyError,
+        });
+      }
     }
 
+    updatedDevice = await checkCompliance(updatedDevice, heartbeat, served?.policy ?? null);
+
     // Emit heartbeat event
     await emit('device.heartbeat', { device: updatedDevice, heartbeat });
 
@@ -2403,7 +4701,9 @@ export function createMDM(config: MDMConfig): MDMInstance {
         // devices without the app they were provisioned for.
         const observed = app.observedVersion ?? '0.0.0';
 
-        if (compareVersions(observed, app.desiredVersion) >= 0) {
+        // A version that does not parse counts as out of date, so the update
+        // is attempted rather than the device silently treated as current.
+        if ((compareVersions(observed, app.desiredVersion) ?? -1) >= 0) {
           result.converged += 1;
           continue;
         }
@@ -2495,6 +4795,353 @@ export function createMDM(config: MDMConfig): MDMInstance {
     },
   };
 
+  // ============================================
+  // Shell Sessions
+  // ============================================
+
+  const DEFAULT_SHELL_IDLE_TIMEOUT_SECONDS = 10 * 60;
+  const DEFAULT_SHELL_MAX_DURATION_SECONDS = 60 * 60;
+  /** How often open sessions are checked for their idle and lifetime limits. */
+  const SHELL_EXPIRY_SWEEP_MS = 30_000;
+
+  const shellLog = logger.child({ component: 'shell' });
+
+  interface ShellSessionState {
+    session: ShellSession;
+    listeners: Set<ShellSessionListener>;
+    /** `shell` commands sent in this session; output for any other is refused. */
+    commandIds: Set<string>;
+  }
+
+  const shellSessions = new Map<string, ShellSessionState>();
+
+  /**
+   * Runs `expireIdle` while any session is open, so an abandoned one closes
+   * even if nobody touches it again. Unref'd: it never keeps a process alive.
+   */
+  let shellExpirySweep: ReturnType<typeof setInterval> | undefined;
+
+  const startShellExpirySweep = (): void => {
+    if (shellExpirySweep) return;
+    shellExpirySweep = setInterval(() => {
+      shell.expireIdle().catch((error) => {
+        shellLog.error({ err: errorMessage(error) }, 'Shell session expiry sweep failed');
+      });
+    }, SHELL_EXPIRY_SWEEP_MS);
+    shellExpirySweep.unref?.();
+  };
+
+  const stopShellExpirySweepWhenIdle = (): void => {
+    if (shellExpirySweep && shellSessions.size === 0) {
+      clearInterval(shellExpirySweep);
+      shellExpirySweep = undefined;
+    }
+  };
+
+  /**
+   * Record a shell action. Read off the instance at call time, like the
+   * scoped wrapper does, so a host that replaces `mdm.audit` is honoured.
+   */
+  const auditShell = (
+    session: ShellSession,
+    action: AuditAction,
+    userId: string | null | undefined,
+    details: Record<string, unknown> = {},
+  ): Promise<AuditLog> => {
+    if (!instance.audit) {
+      throw new ConfigurationError(
+        'Shell sessions need audit logging (config.audit.enabled): every line run is recorded',
+      );
+    }
+    return instance.audit.log({
+      tenantId: session.tenantId ?? undefined,
+      userId: userId ?? undefined,
+      action,
+      resource: 'shell',
+      resourceId: session.id,
+      details: { deviceId: session.deviceId, ...details },
+    });
+  };
+
+  const publishShellFrame = (state: ShellSessionState, frame: ShellSessionFrame): void => {
+    for (const listener of state.listeners) {
+      try {
+        listener(frame);
+      } catch (error) {
+        shellLog.error(
+          { sessionId: state.session.id, err: errorMessage(error) },
+          'Shell session listener threw',
+        );
+      }
+    }
+  };
+
+  const touchShellSession = (state: ShellSessionState): void => {
+    state.session = { ...state.session, lastActivityAt: new Date() };
+  };
+
+  const isShellSessionStale = (session: ShellSession, now = Date.now()): boolean =>
+    now >= session.expiresAt.getTime() ||
+    now >= session.lastActivityAt.getTime() + session.idleTimeoutSeconds * 1000;
+
+  const endShellSession = async (
+    state: ShellSessionState,
+    status: 'closed' | 'expired',
+    by?: string,
+  ): Promise<ShellSession> => {
+    // Removed first, so a second close racing this one finds nothing.
+    shellSessions.delete(state.session.id);
+    stopShellExpirySweepWhenIdle();
+    const closedAt = new Date();
+    const session: ShellSession = { ...state.session, status, closedAt, closedBy: by ?? null };
+
+    // A line still queued for an offline device must not run after the
+    // person who typed it has gone.
+    // Through `cancel`, so one the agent already holds is called back.
+    for (const commandId of state.commandIds) {
+      const command = await database.findCommand(commandId);
+      if (command && !SETTLED_COMMAND_STATUSES.has(command.status)) {
+        await commands.cancel(commandId);
+      }
+    }
+
+    publishShellFrame(state, { type: 'closed', status, at: closedAt });
+    state.listeners.clear();
+
+    try {
+      await auditShell(session, 'update', by, { status });
+    } catch (error) {
+      shellLog.error(
+        { sessionId: session.id, err: errorMessage(error) },
+        'Failed to audit shell close',
+      );
+    }
+
+    const device = await database.findDevice(session.deviceId);
+    if (device) {
+      await emit('shell.closed', { device, session });
+    }
+    shellLog.info(
+      { sessionId: session.id, deviceId: session.deviceId, status },
+      'Shell session ended',
+    );
+    return session;
+  };
+
+  /** The session's state, or null once it has closed or timed out. */
+  const liveShellSession = async (id: string): Promise<ShellSessionState | null> => {
+    const state = shellSessions.get(id);
+    if (!state) return null;
+    if (isShellSessionStale(state.session)) {
+      await endShellSession(state, 'expired');
+      return null;
+    }
+    return state;
+  };
+
+  const relayShellExit = (
+    command: Command,
+    outcome: { success: boolean; result?: CommandResult; error?: string },
+  ): void => {
+    const sessionId = (command.payload as { sessionId?: unknown } | null)?.sessionId;
+    if (command.type !== 'shell' || typeof sessionId !== 'string') return;
+    const state = shellSessions.get(sessionId);
+    if (!state) return;
+
+    touchShellSession(state);
+    const exitCode = (outcome.result?.data as { exitCode?: unknown } | undefined)?.exitCode;
+    publishShellFrame(state, {
+      type: 'exit',
+      commandId: command.id,
+      success: outcome.success,
+      exitCode: typeof exitCode === 'number' ? exitCode : undefined,
+      error: outcome.error,
+      at: new Date(),
+    });
+  };
+
+  on('command.completed', ({ payload }) =>
+    relayShellExit(payload.command, { success: payload.result.success, result: payload.result }),
+  );
+  on('command.failed', ({ payload }) =>
+    relayShellExit(payload.command, { success: false, error: payload.error }),
+  );
+
+  const shell: ShellSessionManager = {
+    async open(input: OpenShellSessionInput): Promise<ShellSession> {
+      const device = await database.findDevice(input.deviceId);
+      if (!device) {
+        throw new DeviceNotFoundError(input.deviceId);
+      }
+
+      const now = new Date();
+      const maxDurationSeconds =
+        input.maxDurationSeconds ??
+        config.shell?.maxDurationSeconds ??
+        DEFAULT_SHELL_MAX_DURATION_SECONDS;
+      const session: ShellSession = {
+        id: randomUUID(),
+        tenantId: input.tenantId ?? device.tenantId ?? null,
+        deviceId: device.id,
+        openedBy: input.openedBy ?? null,
+        status: 'open',
+        idleTimeoutSeconds:
+          input.idleTimeoutSeconds ??
+          config.shell?.idleTimeoutSeconds ??
+          DEFAULT_SHELL_IDLE_TIMEOUT_SECONDS,
+        expiresAt: new Date(now.getTime() + maxDurationSeconds * 1000),
+        lastActivityAt: now,
+        createdAt: now,
+        closedAt: null,
+        closedBy: null,
+      };
+
+      // No audit trail, no session.
+      await auditShell(session, 'create', input.openedBy);
+      shellSessions.set(session.id, {
+        session,
+        listeners: new Set(),
+        commandIds: new Set(),
+      });
+      startShellExpirySweep();
+
+      await emit('shell.opened', { device, session });
+      shellLog.info(
+        { sessionId: session.id, deviceId: device.id, openedBy: session.openedBy },
+        'Shell session opened',
+      );
+      return { ...session };
+    },
+
+    async get(id: string): Promise<ShellSession | null> {
+      const state = await liveShellSession(id);
+      return state ? { ...state.session } : null;
+    },
+
+    async list(filter: ShellSessionFilter = {}): Promise<ShellSession[]> {
+      const sessions: ShellSession[] = [];
+      for (const id of Array.from(shellSessions.keys())) {
+        const state = await liveShellSession(id);
+        if (!state) continue;
+        if (filter.deviceId && state.session.deviceId !== filter.deviceId) continue;
+        if (filter.tenantId && state.session.tenantId !== filter.tenantId) continue;
+        sessions.push({ ...state.session });
+      }
+      return sessions;
+    },
+
+    async exec(sessionId: string, line: string, options: { by?: string } = {}): Promise<Command> {
+      const state = await liveShellSession(sessionId);
+      if (!state) {
+        throw new ShellSessionNotFoundError(sessionId);
+      }
+      if (typeof line !== 'string' || !line.trim()) {
+        throw new ValidationError('Shell line must be a non-empty string');
+      }
+
+      const { session } = state;
+      const by = options.by ?? session.openedBy ?? undefined;
+      // Audited before it is sent: a line that cannot be recorded is not run.
+      await auditShell(session, 'command', by, { line });
+
+      const command = await commands.send({
+        tenantId: session.tenantId ?? undefined,
+        deviceId: session.deviceId,
+        type: 'shell',
+        payload: { command: line, sessionId },
+        requestedBy: by,
+        expiresAt: session.expiresAt,
+      });
+
+      state.commandIds.add(command.id);
+      touchShellSession(state);
+      publishShellFrame(state, {
+        type: 'input',
+        commandId: command.id,
+        line,
+        by: by ?? null,
+        at: new Date(),
+      });
+      return command;
+    },
+
+    async appendOutput(
+      sessionId: string,
+      deviceId: string,
+      chunk: ShellOutputChunk,
+    ): Promise<void> {
+      const state = await liveShellSession(sessionId);
+      // Another device's session is reported as missing, not forbidden.
+      if (!state || state.session.deviceId !== deviceId) {
+        throw new ShellSessionNotFoundError(sessionId);
+      }
+      if (!state.commandIds.has(chunk.commandId)) {
+        throw new ValidationError(
+          `Command ${chunk.commandId} was not run in shell session ${sessionId}`,
+          { commandId: chunk.commandId },
+        );
+      }
+      if (chunk.stream !== 'stdout' && chunk.stream !== 'stderr') {
+        throw new ValidationError('Shell output stream must be stdout or stderr', {
+          stream: chunk.stream,
+        });
+      }
+      if (typeof chunk.data !== 'string') {
+        throw new ValidationError('Shell output data must be a string');
+      }
+
+      touchShellSession(state);
+      publishShellFrame(state, {
+        type: 'output',
+        commandId: chunk.commandId,
+        stream: chunk.stream,
+        data: chunk.data,
+        at: new Date(),
+      });
+    },
+
+    subscribe(sessionId: string, listener: ShellSessionListener): () => void {
+      const state = shellSessions.get(sessionId);
+      if (!state || isShellSessionStale(state.session)) {
+        // A stale session is over; `liveShellSession` ends it, in the background
+        // since this cannot wait.
+        if (state) {
+          liveShellSession(sessionId).catch((error) =>
+            shellLog.error(
+              { sessionId, err: errorMessage(error) },
+              'Failed to expire shell session',
+            ),
+          );
+        }
+        throw new ShellSessionNotFoundError(sessionId);
+      }
+      state.listeners.add(listener);
+      return () => {
+        state.listeners.delete(listener);
+      };
+    },
+
+    async close(sessionId: string, options: { by?: string } = {}): Promise<ShellSession> {
+      const state = shellSessions.get(sessionId);
+      if (!state) {
+        throw new ShellSessionNotFoundError(sessionId);
+      }
+      return endShellSession(state, 'closed', options.by);
+    },
+
+    async expireIdle(): Promise<number> {
+      let expired = 0;
+      const now = Date.now();
+      for (const state of Array.from(shellSessions.values())) {
+        if (shellSessions.has(state.session.id) && isShellSessionStale(state.session, now)) {
+          await endShellSession(state, 'expired');
+          expired++;
+        }
+      }
+      return expired;
+    },
+  };
+
   // ============================================
   // Create Instance
   // ============================================
@@ -2516,7 +5163,8 @@ export function createMDM(config: MDMConfig): MDMInstance {
       return createScopedInstance(context, {
         database,
         logger,
-        managers: { devices, policies, apps, commands, groups },
+        managers: { devices, policies, apps, commands, groups, shell, schedules: scheduleManager },
+        peekShellSession: (id) => shellSessions.get(id)?.session ?? null,
         // Read the managers off the instance at call time rather than closing
         // over them: a host that replaces `mdm.authorization` (or a test that
         // stubs it) must be honoured, not silently ignored.
@@ -2527,8 +5175,10 @@ export function createMDM(config: MDMConfig): MDMInstance {
       });
     },
     updates,
+    shell,
     enroll,
     processHeartbeat,
+    recordPushReceipt,
     verifyDeviceToken,
     issueDeviceToken,
     getPlugins,
@@ -2563,90 +5213,6 @@ export function createMDM(config: MDMConfig): MDMInstance {
   return instance;
 }
 
-// ============================================
-// Push Adapter Factory
-// ============================================
-
-function createPushAdapter(
-  config: MDMConfig['push'],
-  database: MDMConfig['database'],
-  logger: Logger,
-): PushAdapter {
-  if (!config) {
-    return createStubPushAdapter(logger);
-  }
-
-  const pushLogger = logger.child({ component: 'push' });
-
-  // The actual implementations will be provided by separate packages
-  // This is a base implementation that logs and stores tokens
-  return {
-    async send(deviceId: string, message: PushMessage): Promise<PushResult> {
-      pushLogger.debug({ deviceId, type: message.type, payload: message.payload }, 'send');
-
-      // In production, this would be replaced by FCM/MQTT adapter
-      return { success: true, messageId: randomUUID() };
-    },
-
-    async sendBatch(deviceIds: string[], message: PushMessage): Promise<PushBatchResult> {
-      pushLogger.debug({ count: deviceIds.length, type: message.type }, 'sendBatch');
-
-      const results = deviceIds.map((deviceId) => ({
-        deviceId,
-        result: { success: true, messageId: randomUUID() },
-      }));
-
-      return {
-        successCount: deviceIds.length,
-        failureCount: 0,
-        results,
-      };
-    },
-
-    async registerToken(deviceId: string, token: string): Promise<void> {
-      // Polling doesn't use push tokens
-      if (config.provider === 'polling') {
-        return;
-      }
-      await database.upsertPushToken({
-        deviceId,
-        provider: config.provider,
-        token,
-      });
-    },
-
-    async unregisterToken(deviceId: string): Promise<void> {
-      // Polling doesn't use push tokens
-      if (config.provider === 'polling') {
-        return;
-      }
-      await database.deletePushToken(deviceId, config.provider);
-    },
-  };
-}
-
-function createStubPushAdapter(logger: Logger): PushAdapter {
-  const stubLogger = logger.child({ component: 'push-stub' });
-  return {
-    async send(deviceId: string, message: PushMessage): Promise<PushResult> {
-      stubLogger.debug({ deviceId, type: message.type }, 'send (stub)');
-      return { success: true, messageId: 'stub' };
-    },
-
-    async sendBatch(deviceIds: string[], message: PushMessage): Promise<PushBatchResult> {
-      stubLogger.debug({ count: deviceIds.length, type: message.type }, 'sendBatch (stub)');
-      return {
-        successCount: deviceIds.length,
-        failureCount: 0,
-        results: deviceIds.map((deviceId) => ({
-          deviceId,
-          result: { success: true, messageId: 'stub' },
-        })),
-      };
-    },
-  };
-}
-
 // ============================================
 // Utility Functions
 // ============================================
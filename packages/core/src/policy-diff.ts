@@ -0,0 +1,114 @@
+/**
+ * Field-level diff between two sets of policy settings.
+ *
+ * History hands back whole `PolicySettings` snapshots, and reviewing what
+ * changed between two of them meant comparing JSON by eye. Entries of
+ * `applications` and `wifiConfigs` are matched by `packageName` and `ssid`,
+ * so reordering the list is not a change and editing one app's version is
+ * reported against that app, not as "the array changed".
+ */
+
+import { isKeyedArrayField, KEYED_ARRAY_FIELDS } from './policy-overlay';
+import type { PolicySettingChange, PolicySettings } from './types';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every((key) => isEqual(a[key], b[key]));
+  }
+  return false;
+};
+
+function diffValues(
+  path: string,
+  before: unknown,
+  after: unknown,
+  changes: PolicySettingChange[],
+): void {
+  if (before === undefined && after === undefined) return;
+  if (before === undefined) {
+    changes.push({ path, kind: 'added', after });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({ path, kind: 'removed', before });
+    return;
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    diffObjects(path, before, after, changes);
+    return;
+  }
+  if (!isEqual(before, after)) {
+    changes.push({ path, kind: 'changed', before, after });
+  }
+}
+
+function diffObjects(
+  prefix: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  changes: PolicySettingChange[],
+): void {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of Array.from(keys).sort()) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const a = before[key];
+    const b = after[key];
+
+    if (!prefix && isKeyedArrayField(key) && (Array.isArray(a) || Array.isArray(b))) {
+      diffKeyedArray(key, KEYED_ARRAY_FIELDS[key], a, b, changes);
+    } else {
+      diffValues(path, a, b, changes);
+    }
+  }
+}
+
+function diffKeyedArray(
+  field: string,
+  key: string,
+  before: unknown,
+  after: unknown,
+  changes: PolicySettingChange[],
+): void {
+  const index = (value: unknown) =>
+    new Map(
+      (Array.isArray(value) ? (value as Array<Record<string, unknown>>) : []).map((entry) => [
+        String(entry[key]),
+        entry,
+      ]),
+    );
+  const a = index(before);
+  const b = index(after);
+
+  for (const id of new Set([...a.keys(), ...b.keys()])) {
+    diffValues(`${field}[${id}]`, a.get(id), b.get(id), changes);
+  }
+}
+
+/**
+ * What changed from `before` to `after`. Paths are dotted field names, with
+ * keyed array entries written as `applications[com.example.pos]` and their
+ * fields as `applications[com.example.pos].version`. Other arrays, such as
+ * `allowedApps`, are compared whole. Changes are sorted by path, so keyed
+ * entries are listed by key rather than by where they sat in either list.
+ */
+export function diffPolicySettings(
+  before: PolicySettings,
+  after: PolicySettings,
+): PolicySettingChange[] {
+  const changes: PolicySettingChange[] = [];
+  diffObjects(
+    '',
+    (before ?? {}) as Record<string, unknown>,
+    (after ?? {}) as Record<string, unknown>,
+    changes,
+  );
+  return changes.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+}
@@ -0,0 +1,62 @@
+/**
+ * What a settings change would do to the apps on one device.
+ *
+ * `policies.simulate` works out which devices a change reaches and what
+ * their effective `applications` would be before and after it. This turns
+ * that pair into the installs, updates and removals the change itself would
+ * cause on a device, given what the device last reported installed. Work the
+ * current settings already ask for, and have not got done, is not the
+ * change's doing and is left out.
+ */
+
+import type { AppChangePlan, PolicyApplication } from './types';
+
+interface PendingAction {
+  action: keyof AppChangePlan;
+  version?: string;
+}
+
+/** What `applications` would have the device do about each package. */
+function pending(
+  applications: readonly PolicyApplication[],
+  installed: ReadonlyMap<string, string | null>,
+): Map<string, PendingAction> {
+  const actions = new Map<string, PendingAction>();
+
+  for (const app of applications) {
+    const version = installed.get(app.packageName) ?? null;
+
+    if (app.action === 'uninstall') {
+      if (version !== null) actions.set(app.packageName, { action: 'remove' });
+    } else if (version === null) {
+      actions.set(app.packageName, { action: 'install', version: app.version });
+    } else if (app.version && app.version !== version) {
+      actions.set(app.packageName, { action: 'update', version: app.version });
+    }
+  }
+
+  return actions;
+}
+
+/**
+ * `installed` maps package name to the version the device reports, or
+ * `null` for a package it knows of but does not have installed.
+ */
+export function planAppChanges(
+  before: readonly PolicyApplication[],
+  after: readonly PolicyApplication[],
+  installed: ReadonlyMap<string, string | null>,
+): AppChangePlan {
+  const already = pending(before, installed);
+  const plan: AppChangePlan = { install: [], update: [], remove: [] };
+
+  // Moving the target version of a pending install or update is a change too.
+  for (const [packageName, next] of pending(after, installed)) {
+    const current = already.get(packageName);
+    if (current?.action !== next.action || current.version !== next.version) {
+      plan[next.action].push(packageName);
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,96 @@
+/**
+ * Policy overlays.
+ *
+ * A device used to get exactly one policy: its own, or the first one found
+ * walking up its groups. "Corporate baseline + the store's wifi + this
+ * device's kiosk app" meant copying the baseline into every store policy
+ * and keeping the copies in step by hand. Overlays let each layer say only
+ * what it changes; `mergePolicyLayers` folds them, least specific first, and
+ * records which layer each setting came from.
+ *
+ * Merge strategy, per field:
+ * - `wifiConfigs` and `applications` are merged by key (`ssid`,
+ *   `packageName`). A later entry with the same key replaces the earlier one
+ *   in place; new keys are appended.
+ * - `custom` is merged per top-level key, so plugins layer independently.
+ * - Everything else, including plain lists such as `allowedApps` and objects
+ *   such as `passwordPolicy`, is replaced whole by the most specific layer
+ *   that sets it. Half of one layer's password policy mixed with half of
+ *   another's is not something anyone wrote down.
+ */
+
+import type { PolicyLayer, PolicySettings } from './types';
+
+/** Array settings whose entries are matched by a key rather than position. */
+export const KEYED_ARRAY_FIELDS = {
+  wifiConfigs: 'ssid',
+  applications: 'packageName',
+} as const;
+
+export type KeyedArrayField = keyof typeof KEYED_ARRAY_FIELDS;
+
+export const isKeyedArrayField = (field: string): field is KeyedArrayField =>
+  Object.hasOwn(KEYED_ARRAY_FIELDS, field);
+
+export interface MergedPolicySettings {
+  settings: PolicySettings;
+  /**
+   * The layer each setting came from. Keys are field names, or
+   * `field.key` for entries of `wifiConfigs`, `applications` and `custom`
+   * (e.g. `wifiConfigs.Store-5G`, `applications.com.example.pos`).
+   */
+  sources: Record<string, PolicyLayer>;
+}
+
+/**
+ * Fold policy layers into one set of settings. `layers` must be ordered
+ * least specific first; each pairs the layer's description with the
+ * settings it contributes.
+ */
+export function mergePolicyLayers(
+  layers: Array<{ layer: PolicyLayer; settings: PolicySettings }>,
+): MergedPolicySettings {
+  const merged: Record<string, unknown> = {};
+  const sources: Record<string, PolicyLayer> = {};
+  const keyed = new Map<KeyedArrayField, Map<string, unknown>>();
+  const custom: Record<string, unknown> = {};
+
+  for (const { layer, settings } of layers) {
+    for (const [field, value] of Object.entries(settings ?? {})) {
+      if (value === undefined) continue;
+
+      if (isKeyedArrayField(field) && Array.isArray(value)) {
+        const key = KEYED_ARRAY_FIELDS[field];
+        const entries = keyed.get(field) ?? new Map<string, unknown>();
+        for (const entry of value as Array<Record<string, unknown>>) {
+          const id = String(entry[key]);
+          entries.set(id, entry);
+          sources[`${field}.${id}`] = layer;
+        }
+        keyed.set(field, entries);
+        continue;
+      }
+
+      if (field === 'custom' && value !== null && typeof value === 'object') {
+        for (const [key, customValue] of Object.entries(value)) {
+          if (customValue === undefined) continue;
+          custom[key] = customValue;
+          sources[`custom.${key}`] = layer;
+        }
+        continue;
+      }
+
+      merged[field] = value;
+      sources[field] = layer;
+    }
+  }
+
+  for (const [field, entries] of keyed) {
+    merged[field] = Array.from(entries.values());
+  }
+  if (Object.keys(custom).length > 0) {
+    merged.custom = custom;
+  }
+
+  return { settings: merged as PolicySettings, sources };
+}
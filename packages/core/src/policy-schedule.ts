@@ -0,0 +1,114 @@
+/**
+ * Scheduled policy assignments.
+ *
+ * Schools and shops want one policy during opening hours and another
+ * outside them. A `PolicySchedule` on a device names a policy per weekly
+ * window, in a timezone, and a policy for the rest of the week;
+ * `scheduledPolicyId` says which one applies at a given instant. The
+ * schedule task runner could not do this: `policy_update` tasks have never
+ * had an executor, and maintenance windows ignore their timezone.
+ */
+
+import type { PolicySchedule, PolicyScheduleWindow } from './types';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TIME = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const minutes = (time: string): number => {
+  const [hours, mins] = time.split(':').map(Number);
+  return hours * 60 + mins;
+};
+
+/** Day of week (0 = Sunday) and minutes past midnight at `now`, in `timezone`. */
+function localTime(timezone: string, now: Date): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+
+  return {
+    day: WEEKDAYS.indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+/**
+ * Whether `window` contains the local `day` and `time`. A window that ends
+ * before it starts runs overnight: its days are the days it starts on, so
+ * Friday 22:00–06:00 covers early Saturday and not early Friday.
+ */
+function inWindow(window: PolicyScheduleWindow, day: number, time: number): boolean {
+  const start = minutes(window.startTime);
+  const end = minutes(window.endTime);
+
+  if (start < end) {
+    return window.daysOfWeek.includes(day) && time >= start && time < end;
+  }
+  return (
+    (window.daysOfWeek.includes(day) && time >= start) ||
+    (window.daysOfWeek.includes((day + 6) % 7) && time < end)
+  );
+}
+
+/**
+ * The policy `schedule` puts a device on at `now`: that of the first window
+ * containing it, or `defaultPolicyId` outside all of them.
+ */
+export function scheduledPolicyId(schedule: PolicySchedule, now: Date = new Date()): string {
+  const { day, minutes: time } = localTime(schedule.timezone, now);
+  const window = schedule.windows.find((candidate) => inWindow(candidate, day, time));
+  return window?.policyId ?? schedule.defaultPolicyId;
+}
+
+/**
+ * Every way `schedule` is malformed, as `path message` strings, or an empty
+ * array when it is usable. Whether its policies exist is for the caller to
+ * check.
+ */
+export function validatePolicySchedule(schedule: PolicySchedule): string[] {
+  const errors: string[] = [];
+
+  if (typeof schedule?.timezone !== 'string' || !schedule.timezone) {
+    errors.push('timezone is required');
+  } else {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: schedule.timezone });
+    } catch {
+      errors.push(`timezone is not a known IANA timezone: ${schedule.timezone}`);
+    }
+  }
+  if (typeof schedule?.defaultPolicyId !== 'string' || !schedule.defaultPolicyId) {
+    errors.push('defaultPolicyId is required');
+  }
+  if (!Array.isArray(schedule?.windows) || schedule.windows.length === 0) {
+    errors.push('windows must be a non-empty array');
+    return errors;
+  }
+
+  schedule.windows.forEach((window, index) => {
+    const path = `windows[${index}]`;
+    if (typeof window.policyId !== 'string' || !window.policyId) {
+      errors.push(`${path}.policyId is required`);
+    }
+    if (
+      !Array.isArray(window.daysOfWeek) ||
+      window.daysOfWeek.length === 0 ||
+      !window.daysOfWeek.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+    ) {
+      errors.push(`${path}.daysOfWeek must list days from 0 (Sunday) to 6 (Saturday)`);
+    }
+    const startValid = TIME.test(window.startTime ?? '');
+    const endValid = TIME.test(window.endTime ?? '');
+    if (!startValid) errors.push(`${path}.startTime must be HH:mm`);
+    if (!endValid) errors.push(`${path}.endTime must be HH:mm`);
+    if (startValid && endValid && window.startTime === window.endTime) {
+      errors.push(`${path} must not start and end at the same time`);
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,310 @@
+/**
+ * JSON Schema for policy settings.
+ *
+ * `PolicySettings` only existed as a TypeScript type, so an admin UI had to
+ * hand-copy it to render a policy form, and a policy posted as JSON was
+ * stored with whatever it contained. `MDMPlugin.policySchema` was declared
+ * for plugins to describe their `custom` keys and never read. The schema
+ * here mirrors the type; `composePolicySchema` adds each plugin's keys under
+ * `custom`, and `validateJsonSchema` checks settings against the result
+ * before any plugin `validatePolicy` hook runs.
+ */
+
+import type { JsonSchema, JsonSchemaIssue, MDMPlugin } from './types';
+
+const hardwareControl: JsonSchema = { type: 'string', enum: ['on', 'off', 'user'] };
+
+const timeOfDay: JsonSchema = { type: 'string', pattern: '^([01]\\d|2[0-3]):[0-5]\\d$' };
+
+/**
+ * Schema for the built-in `PolicySettings` fields. Keep in step with the
+ * type. Unknown top-level fields are rejected — plugin settings go under
+ * `custom`, which accepts any key.
+ */
+export const POLICY_SETTINGS_SCHEMA: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'PolicySettings',
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    kioskMode: { type: 'boolean', description: 'Lock the device to the main app' },
+    mainApp: { type: 'string', description: 'Package name of the kiosk app' },
+    allowedApps: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Package names allowed to run in kiosk mode',
+    },
+    kioskExitPassword: { type: 'string', description: 'Password to leave kiosk mode' },
+
+    lockStatusBar: { type: 'boolean' },
+    lockNavigationBar: { type: 'boolean' },
+    lockSettings: { type: 'boolean' },
+    lockPowerButton: { type: 'boolean' },
+    blockInstall: { type: 'boolean' },
+    blockUninstall: { type: 'boolean' },
+
+    bluetooth: hardwareControl,
+    wifi: hardwareControl,
+    gps: hardwareControl,
+    mobileData: hardwareControl,
+    camera: hardwareControl,
+    microphone: hardwareControl,
+    usb: hardwareControl,
+    nfc: hardwareControl,
+
+    systemUpdatePolicy: { type: 'string', enum: ['auto', 'windowed', 'postpone', 'manual'] },
+    updateWindow: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['start', 'end'],
+      properties: { start: timeOfDay, end: timeOfDay },
+      description: 'Window for system updates, as HH:MM in device local time',
+    },
+
+    passwordPolicy: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['required'],
+      properties: {
+        required: { type: 'boolean' },
+        minLength: { type: 'integer', minimum: 0 },
+        complexity: { type: 'string', enum: ['none', 'numeric', 'alphanumeric', 'complex'] },
+        maxFailedAttempts: { type: 'integer', minimum: 0 },
+        expirationDays: { type: 'integer', minimum: 0 },
+        historyLength: { type: 'integer', minimum: 0 },
+      },
+    },
+    encryptionRequired: { type: 'boolean' },
+    factoryResetProtection: { type: 'boolean' },
+    safeBootDisabled: { type: 'boolean' },
+
+    heartbeatInterval: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Seconds between heartbeats',
+    },
+    locationReportInterval: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Seconds between location reports',
+    },
+    locationEnabled: { type: 'boolean' },
+
+    wifiConfigs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['ssid', 'securityType'],
+        properties: {
+          ssid: { type: 'string', minLength: 1 },
+          securityType: { type: 'string', enum: ['none', 'wep', 'wpa', 'wpa2', 'wpa3'] },
+          password: { type: 'string' },
+          hidden: { type: 'boolean' },
+          autoConnect: { type: 'boolean' },
+        },
+      },
+    },
+    vpnConfig: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['type', 'server'],
+      properties: {
+        type: { type: 'string', enum: ['pptp', 'l2tp', 'ipsec', 'openvpn', 'wireguard'] },
+        server: { type: 'string', minLength: 1 },
+        username: { type: 'string' },
+        password: { type: 'string' },
+        certificate: { type: 'string' },
+        config: { type: 'object' },
+      },
+    },
+
+    applications: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['packageName', 'action'],
+        properties: {
+          packageName: { type: 'string', minLength: 1 },
+          action: { type: 'string', enum: ['install', 'update', 'uninstall'] },
+          version: { type: 'string' },
+          required: { type: 'boolean' },
+          autoUpdate: { type: 'boolean' },
+        },
+      },
+    },
+
+    custom: {
+      type: 'object',
+      description: 'Plugin settings, keyed by the names each plugin declares',
+    },
+  },
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * `POLICY_SETTINGS_SCHEMA` with each plugin's `policySchema` merged into
+ * `custom.properties`. A plugin schema may be an object schema with
+ * `properties` (and optionally `required`), or the properties map on its
+ * own. When two plugins declare the same key, the first one keeps it.
+ */
+export function composePolicySchema(plugins: readonly MDMPlugin[]): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const plugin of plugins) {
+    const schema = plugin.policySchema;
+    if (!schema) continue;
+
+    const pluginProperties = isPlainObject(schema.properties)
+      ? (schema.properties as Record<string, JsonSchema>)
+      : (schema as Record<string, JsonSchema>);
+    for (const [key, property] of Object.entries(pluginProperties)) {
+      if (key in properties) continue;
+      properties[key] = property;
+      if (Array.isArray(schema.required) && schema.required.includes(key)) {
+        required.push(key);
+      }
+    }
+  }
+
+  const custom: JsonSchema = {
+    ...(POLICY_SETTINGS_SCHEMA.properties?.custom as JsonSchema),
+    properties,
+  };
+  if (required.length > 0) {
+    custom.required = required;
+  }
+
+  return {
+    ...POLICY_SETTINGS_SCHEMA,
+    properties: { ...POLICY_SETTINGS_SCHEMA.properties, custom },
+  };
+}
+
+/**
+ * Every way `value` fails `schema`, or an empty array when it passes.
+ *
+ * Covers the keywords the policy schema uses — `type`, `enum`, `properties`,
+ * `required`, `additionalProperties`, `items`, `minimum`, `maximum`,
+ * `minLength`, `maxLength` and `pattern`. Other keywords, including any a
+ * plugin schema brings along, are ignored rather than rejected.
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = 'settings',
+): JsonSchemaIssue[] {
+  const issues: JsonSchemaIssue[] = [];
+  check(value, schema, path, issues);
+  return issues;
+}
+
+const matchesType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case 'string':
+    case 'boolean':
+      return typeof value === type;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+};
+
+function check(value: unknown, schema: JsonSchema, path: string, issues: JsonSchemaIssue[]): void {
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      issues.push({ path, message: `must be ${types.map(article).join(' or ')}` });
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ path, message: `must be one of: ${schema.enum.join(', ')}` });
+    return;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({
+        path,
+        message:
+          schema.minLength === 1
+            ? 'must not be empty'
+            : `must be at least ${schema.minLength} characters`,
+      });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      issues.push({ path, message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    value.forEach((item, index) => {
+      check(item, items, `${path}[${index}]`, issues);
+    });
+  }
+
+  if (isPlainObject(value)) {
+    checkProperties(value, schema, path, issues);
+  }
+}
+
+function checkProperties(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  path: string,
+  issues: JsonSchemaIssue[],
+): void {
+  const properties = schema.properties ?? {};
+
+  for (const name of schema.required ?? []) {
+    if (value[name] === undefined) {
+      issues.push({ path: `${path}.${name}`, message: 'is required' });
+    }
+  }
+
+  for (const [name, fieldValue] of Object.entries(value)) {
+    if (fieldValue === undefined) continue;
+
+    const property = properties[name];
+    if (property) {
+      check(fieldValue, property, `${path}.${name}`, issues);
+    } else if (schema.additionalProperties === false) {
+      issues.push({ path: `${path}.${name}`, message: 'is not a known field' });
+    } else if (typeof schema.additionalProperties === 'object') {
+      check(fieldValue, schema.additionalProperties, `${path}.${name}`, issues);
+    }
+  }
+}
+
+function article(type: string): string {
+  if (type === 'null') return 'null';
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
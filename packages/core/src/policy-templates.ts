@@ -0,0 +1,171 @@
+/**
+ * Policy templates.
+ *
+ * Every deployment started by hand-writing the same `PolicySettings` for a
+ * kiosk, a dedicated device or a corporate-owned phone, and got a different
+ * subset of the lock-down flags each time. A template is that JSON written
+ * once, with the few things that differ per customer — the main app, the
+ * wifi network, how strong the password must be — declared as parameters.
+ */
+
+import type { JsonSchema, PolicySettings, PolicyTemplate } from './types';
+
+const PASSWORD_STRENGTHS: Record<string, PolicySettings['passwordPolicy']> = {
+  none: { required: false },
+  low: { required: true, minLength: 4, complexity: 'numeric' },
+  medium: { required: true, minLength: 6, complexity: 'alphanumeric', maxFailedAttempts: 10 },
+  high: {
+    required: true,
+    minLength: 8,
+    complexity: 'complex',
+    maxFailedAttempts: 5,
+    expirationDays: 90,
+    historyLength: 5,
+  },
+};
+
+const mainApp: JsonSchema = {
+  type: 'string',
+  minLength: 1,
+  description: 'Package name of the app the device exists to run',
+};
+
+const wifiParameters: Record<string, JsonSchema> = {
+  wifiSsid: { type: 'string', minLength: 1, description: 'Wifi network to join' },
+  wifiPassword: { type: 'string', description: 'Password for the wifi network' },
+  wifiSecurity: {
+    type: 'string',
+    enum: ['none', 'wep', 'wpa', 'wpa2', 'wpa3'],
+    default: 'wpa2',
+    description: 'Security of the wifi network',
+  },
+};
+
+const passwordStrength = (fallback: string): JsonSchema => ({
+  type: 'string',
+  enum: Object.keys(PASSWORD_STRENGTHS),
+  default: fallback,
+  description: 'How strong the screen lock password must be',
+});
+
+const wifiConfigs = (params: Record<string, unknown>): PolicySettings => {
+  if (typeof params.wifiSsid !== 'string') return {};
+  return {
+    wifiConfigs: [
+      {
+        ssid: params.wifiSsid,
+        securityType: params.wifiSecurity as 'none' | 'wep' | 'wpa' | 'wpa2' | 'wpa3',
+        ...(typeof params.wifiPassword === 'string' ? { password: params.wifiPassword } : {}),
+        autoConnect: true,
+      },
+    ],
+  };
+};
+
+/** Templates every instance starts with. Plugins add their own with `policyTemplates`. */
+export const BUILT_IN_POLICY_TEMPLATES: PolicyTemplate[] = [
+  {
+    id: 'kiosk',
+    name: 'Kiosk',
+    description:
+      'Locked to one app: status bar, navigation, settings and power button locked, no installs.',
+    parameters: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['mainApp'],
+      properties: {
+        mainApp,
+        allowedApps: {
+          type: 'array',
+          items: { type: 'string' },
+          default: [],
+          description: 'Other packages the kiosk may open',
+        },
+        exitPassword: { type: 'string', description: 'Password to leave kiosk mode' },
+        ...wifiParameters,
+      },
+    },
+    build: (params) => ({
+      kioskMode: true,
+      mainApp: params.mainApp as string,
+      allowedApps: [params.mainApp as string, ...(params.allowedApps as string[])],
+      ...(typeof params.exitPassword === 'string'
+        ? { kioskExitPassword: params.exitPassword }
+        : {}),
+      lockStatusBar: true,
+      lockNavigationBar: true,
+      lockSettings: true,
+      lockPowerButton: true,
+      blockInstall: true,
+      blockUninstall: true,
+      safeBootDisabled: true,
+      ...wifiConfigs(params),
+    }),
+  },
+  {
+    id: 'dedicated-device',
+    name: 'Dedicated device',
+    description:
+      'Single-purpose device the user can still navigate: required main app, settings locked, updates overnight.',
+    parameters: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['mainApp'],
+      properties: {
+        mainApp,
+        passwordStrength: passwordStrength('none'),
+        ...wifiParameters,
+      },
+    },
+    build: (params) => ({
+      applications: [{ packageName: params.mainApp as string, action: 'install', required: true }],
+      lockSettings: true,
+      blockInstall: true,
+      blockUninstall: true,
+      systemUpdatePolicy: 'windowed',
+      updateWindow: { start: '02:00', end: '04:00' },
+      passwordPolicy: PASSWORD_STRENGTHS[params.passwordStrength as string],
+      ...wifiConfigs(params),
+    }),
+  },
+  {
+    id: 'corporate-owned',
+    name: 'Corporate owned',
+    description:
+      'General-use company phone: screen lock, encryption, reset protection and safe boot disabled.',
+    parameters: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        passwordStrength: passwordStrength('medium'),
+        ...wifiParameters,
+      },
+    },
+    build: (params) => ({
+      passwordPolicy: PASSWORD_STRENGTHS[params.passwordStrength as string],
+      encryptionRequired: true,
+      factoryResetProtection: true,
+      safeBootDisabled: true,
+      systemUpdatePolicy: 'auto',
+      ...wifiConfigs(params),
+    }),
+  },
+];
+
+/**
+ * `params` with each missing top-level parameter set to its schema's
+ * `default`. Defaults are copied, so a template cannot be handed a shared
+ * array to mutate.
+ */
+export function withParameterDefaults(
+  parameters: JsonSchema,
+  params: Record<string, unknown>,
+): Record<string, unknown> {
+  const resolved: Record<string, unknown> = { ...params };
+  for (const [name, schema] of Object.entries(parameters.properties ?? {})) {
+    if (resolved[name] === undefined && schema.default !== undefined) {
+      resolved[name] = structuredClone(schema.default);
+    }
+  }
+  return resolved;
+}
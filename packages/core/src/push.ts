@@ -0,0 +1,600 @@
+/**
+ * OpenMDM Push Transport Resolution
+ *
+ * Turns `MDMConfig.push` into the `PushAdapter` the rest of core sends
+ * through. Core does not speak FCM, MQTT or WebSocket itself — those live in
+ * `@openmdm/push-*` packages — so this module's job is to pick the configured
+ * transport and to be honest when there is none.
+ */
+
+import { createSilentLogger } from './logger';
+import type {
+  CreatePushDeliveryInput,
+  DatabaseAdapter,
+  Logger,
+  MDMConfig,
+  PushAdapter,
+  PushBatchResult,
+  PushBroadcastResult,
+  PushDeliveryStatus,
+  PushManager,
+  PushMessage,
+  PushProviderConfig,
+  PushResult,
+  PushToken,
+} from './types';
+import { ConfigurationError, GroupNotFoundError } from './types';
+
+/**
+ * Whether `value` is a ready-made transport rather than a provider config.
+ */
+export function isPushAdapter(value: unknown): value is PushAdapter {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as PushAdapter).send === 'function' &&
+    typeof (value as PushAdapter).sendBatch === 'function'
+  );
+}
+
+/**
+ * The provider config half of `MDMConfig.push`, or `undefined` when a bare
+ * adapter (or nothing) was configured. Used to describe the push channel to
+ * agents at enrollment.
+ */
+export function getPushProviderConfig(push: MDMConfig['push']): PushProviderConfig | undefined {
+  return push && !isPushAdapter(push) ? push : undefined;
+}
+
+/**
+ * The push topic a group's members are subscribed to. Group ids are UUIDs,
+ * which stay inside FCM's topic alphabet (`[a-zA-Z0-9-_.~%]`) and are valid
+ * MQTT topic levels.
+ */
+export function groupTopic(groupId: string): string {
+  return `mdm-group-${groupId}`;
+}
+
+/**
+ * Resolve `MDMConfig.push` to the adapter core delivers through.
+ *
+ * This used to return a placeholder that logged each message and answered
+ * `{ success: true }` without sending anything. Command durability trusted
+ * that answer, so every command was marked `sent` on the first attempt and
+ * `retryPending()` never had anything to retry — while no device had been
+ * told a thing. Now:
+ *
+ * - a `PushAdapter` (or `PushProviderConfig.adapter`) is used as-is;
+ * - `polling`, or no push config at all, answers every send with
+ *   `deferred: true`, because the device will collect the message itself;
+ * - any other provider without an adapter is a configuration error, raised
+ *   at startup rather than discovered when a wipe never arrives.
+ */
+export function resolvePushAdapter(
+  push: MDMConfig['push'],
+  database: DatabaseAdapter,
+  logger: Logger,
+): PushAdapter {
+  if (!push) {
+    return createPollingPushAdapter(logger);
+  }
+
+  if (isPushAdapter(push)) {
+    return push;
+  }
+
+  if (push.adapter) {
+    return withTokenStorage(push.adapter, push.provider, database);
+  }
+
+  if (push.provider === 'polling') {
+    return createPollingPushAdapter(logger);
+  }
+
+  const packageName = `@openmdm/push-${push.provider}`;
+  throw new ConfigurationError(
+    `push.provider is '${push.provider}' but no push.adapter was given. Core cannot ` +
+      `deliver ${push.provider} messages by itself — pass the adapter from ${packageName} ` +
+      `as push.adapter (or as push), or set provider to 'polling'.`,
+    { provider: push.provider },
+  );
+}
+
+/**
+ * Fill in token registration for adapters that leave it to the host.
+ *
+ * Devices register push tokens through `mdm.push.registerToken`; an adapter
+ * without its own implementation still needs those tokens persisted, so they
+ * go to the database under the configured provider.
+ */
+function withTokenStorage(
+  adapter: PushAdapter,
+  provider: PushProviderConfig['provider'],
+  database: DatabaseAdapter,
+): PushAdapter {
+  if (provider === 'polling' || (adapter.registerToken && adapter.unregisterToken)) {
+    return adapter;
+  }
+
+  return {
+    ...adapter,
+    registerToken:
+      adapter.registerToken ??
+      (async (deviceId: string, token: string) => {
+        await database.upsertPushToken({ deviceId, provider, token });
+      }),
+    unregisterToken:
+      adapter.unregisterToken ??
+      (async (deviceId: string) => {
+        await database.deletePushToken(deviceId, provider);
+      }),
+  };
+}
+
+/**
+ * The transport for fleets without push: nothing is sent, and every result
+ * says so. Commands stay `pending` until the device polls for them.
+ */
+function createPollingPushAdapter(logger: Logger): PushAdapter {
+  const pushLogger = logger.child({ component: 'push-polling' });
+
+  const deferred = (): PushResult => ({
+    success: false,
+    deferred: true,
+    error:
+      'DEFERRED_TO_POLL: no push transport configured; the device collects this on its next poll',
+  });
+
+  return {
+    provider: 'polling',
+
+    async send(deviceId: string, message: PushMessage): Promise<PushResult> {
+      pushLogger.debug({ deviceId, type: message.type }, 'Deferred to device poll');
+      return deferred();
+    },
+
+    async sendBatch(deviceIds: string[], message: PushMessage): Promise<PushBatchResult> {
+      pushLogger.debug({ count: deviceIds.length, type: message.type }, 'Deferred to device poll');
+      // Nothing was delivered, so every entry counts as a failure; callers
+      // that care can tell "deferred" from "broken" per result.
+      return {
+        successCount: 0,
+        failureCount: deviceIds.length,
+        results: deviceIds.map((deviceId) => ({ deviceId, result: deferred() })),
+      };
+    },
+
+    // Polling has no push tokens to keep.
+    async registerToken(): Promise<void> {},
+    async unregisterToken(): Promise<void> {},
+  };
+}
+
+// ============================================
+// Failover
+// ============================================
+
+export interface FailoverPushChannel {
+  /** The `PushToken.provider` this channel delivers for. */
+  provider: PushToken['provider'];
+  /** The transport, e.g. `fcmPushAdapter(...)` or `mqttPushAdapter(...)`. */
+  adapter: PushAdapter;
+}
+
+export interface FailoverPushAdapterOptions {
+  /**
+   * Channels in order of preference. Each device is tried on the channels it
+   * has an active push token for, in this order; a device with no token for
+   * any channel is tried on all of them, because MQTT and WebSocket agents
+   * often never register one.
+   */
+  channels: FailoverPushChannel[];
+
+  /** Used to look up which providers each device has registered. */
+  database: DatabaseAdapter;
+
+  /**
+   * Whether a failed result should move on to the next channel. Defaults to
+   * failing over on anything that is not `retryable` or `deferred`: a
+   * transient error is the command retry sweep's job, and switching channels
+   * on every FCM blip would split one device's traffic across transports.
+   */
+  shouldFailover?: (result: PushResult, channel: FailoverPushChannel) => boolean;
+
+  /** Structured logger. Defaults to a silent logger. */
+  logger?: Logger;
+}
+
+const defaultShouldFailover = (result: PushResult): boolean =>
+  !result.success && !result.retryable && !result.deferred;
+
+/**
+ * A `PushAdapter` that routes each device across several transports.
+ *
+ * Fleets that mix devices with and without Google Play Services need FCM for
+ * some and MQTT for others, and the two adapters know nothing about each
+ * other. This adapter owns the routing: it picks channels from the device's
+ * registered `PushToken.provider`s, falls back to the next channel when one
+ * fails permanently, and tags every result with the channel that produced it.
+ */
+export function createFailoverPushAdapter(options: FailoverPushAdapterOptions): PushAdapter {
+  const { channels, database } = options;
+  const shouldFailover = options.shouldFailover ?? defaultShouldFailover;
+  const log = (options.logger ?? createSilentLogger()).child({ component: 'push-failover' });
+
+  if (channels.length === 0) {
+    throw new ConfigurationError('createFailoverPushAdapter needs at least one channel.');
+  }
+
+  /** The channels to try for a device, in order. */
+  const route = async (deviceId: string): Promise<FailoverPushChannel[]> => {
+    const registered: FailoverPushChannel[] = [];
+    for (const channel of channels) {
+      const token = await database.findPushToken(deviceId, channel.provider);
+      if (token && token.isActive !== false) {
+        registered.push(channel);
+      }
+    }
+    return registered.length > 0 ? registered : channels;
+  };
+
+  const sendOn = async (
+    channel: FailoverPushChannel,
+    deviceId: string,
+    message: PushMessage,
+  ): Promise<PushResult> => {
+    try {
+      return { ...(await channel.adapter.send(deviceId, message)), provider: channel.provider };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        provider: channel.provider,
+      };
+    }
+  };
+
+  return {
+    // Agents enrolled through failover are pointed at the preferred channel.
+    provider: channels[0].provider,
+
+    async send(deviceId: string, message: PushMessage): Promise<PushResult> {
+      const candidates = await route(deviceId);
+      let result: PushResult | undefined;
+
+      for (const [index, channel] of candidates.entries()) {
+        result = await sendOn(channel, deviceId, message);
+        if (result.success || !shouldFailover(result, channel)) {
+          return result;
+        }
+        const next = candidates[index + 1];
+        if (next) {
+          log.warn(
+            { deviceId, from: channel.provider, to: next.provider, err: result.error },
+            'Push channel failed; failing over',
+          );
+        }
+      }
+
+      return result!;
+    },
+
+    async sendBatch(deviceIds: string[], message: PushMessage): Promise<PushBatchResult> {
+      const byProvider: NonNullable<PushBatchResult['byProvider']> = {};
+      const final = new Map<string, PushResult>();
+
+      // Each device walks its own candidate list, but devices sitting on the
+      // same channel are sent together so FCM still gets one multicast call
+      // per round rather than one request per device.
+      const remaining = new Map<string, FailoverPushChannel[]>();
+      for (const deviceId of deviceIds) {
+        remaining.set(deviceId, await route(deviceId));
+      }
+
+      while (remaining.size > 0) {
+        const round = new Map<FailoverPushChannel, string[]>();
+        for (const [deviceId, candidates] of remaining) {
+          const channel = candidates[0];
+          round.set(channel, [...(round.get(channel) ?? []), deviceId]);
+        }
+
+        for (const [channel, ids] of round) {
+          const counts = byProvider[channel.provider] ?? { successCount: 0, failureCount: 0 };
+          byProvider[channel.provider] = counts;
+          let batch: PushBatchResult;
+          try {
+            batch = await channel.adapter.sendBatch(ids, message);
+          } catch (error) {
+            const err = error instanceof Error ? error.message : String(error);
+            batch = {
+              successCount: 0,
+              failureCount: ids.length,
+              results: ids.map((deviceId) => ({
+                deviceId,
+                result: { success: false, error: err },
+              })),
+            };
+          }
+
+          const answered = new Map(batch.results.map((r) => [r.deviceId, r.result]));
+          for (const deviceId of ids) {
+            const result: PushResult = {
+              ...(answered.get(deviceId) ?? {
+                success: false,
+                error: 'Push channel returned no result for this device',
+              }),
+              provider: channel.provider,
+            };
+            const candidates = remaining.get(deviceId)!.slice(1);
+
+            if (result.success) counts.successCount += 1;
+            else counts.failureCount += 1;
+
+            final.set(deviceId, result);
+            if (!result.success && candidates.length > 0 && shouldFailover(result, channel)) {
+              remaining.set(deviceId, candidates);
+            } else {
+              remaining.delete(deviceId);
+            }
+          }
+        }
+      }
+
+      const results = deviceIds.map((deviceId) => ({ deviceId, result: final.get(deviceId)! }));
+      const successCount = results.filter(({ result }) => result.success).length;
+
+      return {
+        successCount,
+        failureCount: results.length - successCount,
+        results,
+        byProvider,
+      };
+    },
+
+    async unregisterToken(deviceId: string): Promise<void> {
+      for (const channel of channels) {
+        await channel.adapter.unregisterToken?.(deviceId);
+      }
+    },
+
+    async subscribe(deviceId: string, topic: string): Promise<void> {
+      await forEachRouted(deviceId, (adapter) => adapter.subscribe?.(deviceId, topic));
+    },
+
+    async unsubscribe(deviceId: string, topic: string): Promise<void> {
+      await forEachRouted(deviceId, (adapter) => adapter.unsubscribe?.(deviceId, topic));
+    },
+
+    // Each channel's topic only reaches the devices subscribed through that
+    // channel, so a broadcast goes out on all of them. With one channel that
+    // cannot, its devices would be silently left out — better to have no
+    // topic support and let core send device by device.
+    ...(channels.every((channel) => channel.adapter.sendToTopic)
+      ? {
+          async sendToTopic(topic: string, message: PushMessage): Promise<PushResult> {
+            const results: PushResult[] = [];
+            for (const channel of channels) {
+              try {
+                const result = await channel.adapter.sendToTopic!(topic, message);
+                results.push({ ...result, provider: channel.provider });
+              } catch (error) {
+                results.push({
+                  success: false,
+                  error: error instanceof Error ? error.message : String(error),
+                  provider: channel.provider,
+                });
+              }
+            }
+
+            const failed = results.filter((result) => !result.success);
+            if (failed.length > 0) {
+              log.warn(
+                { topic, failed: failed.map((result) => result.provider) },
+                'Topic broadcast failed on some channels',
+              );
+            }
+
+            return {
+              success: failed.length === 0,
+              messageId: results.find((result) => result.success)?.messageId,
+              error:
+                failed.length > 0
+                  ? failed.map((result) => `${result.provider}: ${result.error}`).join('; ')
+                  : undefined,
+            };
+          },
+        }
+      : {}),
+
+    async disconnect(): Promise<void> {
+      for (const channel of channels) {
+        await channel.adapter.disconnect?.();
+      }
+    },
+  };
+
+  /**
+   * Apply a topic operation on every channel the device is routed to. One
+   * channel refusing (FCM has no token for an MQTT-only device) is expected;
+   * only a device no channel could handle is an error.
+   */
+  async function forEachRouted(
+    deviceId: string,
+    operation: (adapter: PushAdapter) => Promise<void> | undefined,
+  ): Promise<void> {
+    let firstError: unknown;
+    let handled = false;
+
+    for (const channel of await route(deviceId)) {
+      try {
+        const pending = operation(channel.adapter);
+        if (pending) {
+          await pending;
+          handled = true;
+        }
+      } catch (error) {
+        firstError ??= error;
+      }
+    }
+
+    if (!handled && firstError) {
+      throw firstError;
+    }
+  }
+}
+
+// ============================================
+// Delivery Log
+// ============================================
+
+function deliveryStatus(result: PushResult): PushDeliveryStatus {
+  if (result.success) return result.acknowledged ? 'delivered' : 'sent';
+  return result.deferred ? 'deferred' : 'failed';
+}
+
+/**
+ * Record every result `adapter` returns in the push delivery log.
+ *
+ * The transport's message id used to be dropped as soon as `send` returned,
+ * so nothing could tie a later receipt from the device back to the command it
+ * carried. Wrapping the resolved adapter here means every transport — FCM,
+ * MQTT, WebSocket, failover, polling, or a host's own — is logged the same
+ * way without knowing about the log. Recording is best effort: a failed write
+ * is logged and never turns a delivered push into a failed one.
+ */
+export function withDeliveryLog(
+  adapter: PushAdapter,
+  database: DatabaseAdapter,
+  provider: PushProviderConfig['provider'] | undefined,
+  logger: Logger,
+): PushAdapter {
+  if (!database.createPushDelivery) {
+    return adapter;
+  }
+
+  const log = logger.child({ component: 'push-delivery' });
+  const defaultProvider = provider && provider !== 'polling' ? provider : null;
+
+  /**
+   * Whether the last row for this command already says it was deferred. A
+   * device that stays offline has its command deferred on every retry
+   * sweep, and one row says as much as a thousand.
+   */
+  const alreadyDeferred = async (commandId: string): Promise<boolean> => {
+    if (!database.listPushDeliveries) return false;
+    try {
+      const [latest] = await database.listPushDeliveries({ commandId, limit: 1 });
+      return latest?.status === 'deferred';
+    } catch {
+      return false;
+    }
+  };
+
+  const record = async (
+    deviceId: string,
+    message: PushMessage,
+    result: PushResult,
+  ): Promise<void> => {
+    const commandId = message.payload?.commandId;
+    if (result.deferred && typeof commandId === 'string' && (await alreadyDeferred(commandId))) {
+      return;
+    }
+    const entry: CreatePushDeliveryInput = {
+      messageId: result.messageId ?? null,
+      deviceId,
+      provider: result.provider ?? defaultProvider,
+      commandId: typeof commandId === 'string' ? commandId : null,
+      messageType: message.type,
+      status: deliveryStatus(result),
+      error: result.success ? null : (result.error ?? null),
+      deliveredAt: result.success && result.acknowledged ? new Date() : null,
+    };
+
+    try {
+      await database.createPushDelivery!(entry);
+    } catch (error) {
+      log.warn(
+        {
+          deviceId,
+          messageId: entry.messageId,
+          err: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to record push delivery',
+      );
+    }
+  };
+
+  return {
+    ...adapter,
+
+    async send(deviceId: string, message: PushMessage): Promise<PushResult> {
+      const result = await adapter.send(deviceId, message);
+      await record(deviceId, message, result);
+      return result;
+    },
+
+    async sendBatch(deviceIds: string[], message: PushMessage): Promise<PushBatchResult> {
+      const batch = await adapter.sendBatch(deviceIds, message);
+      for (const { deviceId, result } of batch.results) {
+        await record(deviceId, message, result);
+      }
+      return batch;
+    },
+  };
+}
+
+// ============================================
+// Group Broadcast
+// ============================================
+
+/**
+ * Add `broadcast` to the resolved adapter.
+ *
+ * Reaching a group used to take one `sendBatch` entry per member — 20k FCM
+ * messages for a 20k-device group. Members are kept subscribed to
+ * `groupTopic(groupId)` by the group managers, so a transport with topics
+ * reaches all of them in one call; one without them still gets the batch.
+ */
+export function withGroupBroadcast(
+  adapter: PushAdapter,
+  database: DatabaseAdapter,
+  logger: Logger,
+): PushManager {
+  const log = logger.child({ component: 'push-broadcast' });
+
+  const manager: PushManager = {
+    ...adapter,
+
+    async broadcast(groupId: string, message: PushMessage): Promise<PushBroadcastResult> {
+      const group = await database.findGroup(groupId);
+      if (!group) throw new GroupNotFoundError(groupId);
+
+      if (manager.sendToTopic) {
+        const result = await manager.sendToTopic(groupTopic(groupId), message);
+        log.info(
+          { groupId, type: message.type, success: result.success },
+          'Broadcast to group topic',
+        );
+        return { groupId, via: 'topic', success: result.success, result };
+      }
+
+      const members = await database.listDevicesInGroup(groupId);
+      const batch = await manager.sendBatch(
+        members.map((device) => device.id),
+        message,
+      );
+      log.info(
+        {
+          groupId,
+          type: message.type,
+          successCount: batch.successCount,
+          failureCount: batch.failureCount,
+        },
+        'Broadcast to group members',
+      );
+      return { groupId, via: 'devices', success: batch.failureCount === 0, batch };
+    },
+  };
+
+  return manager;
+}
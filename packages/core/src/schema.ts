@@ -8,11 +8,14 @@
  * - mdm_devices: Enrolled devices and their state
  * - mdm_policies: Device policies and configurations
  * - mdm_applications: Registered applications for deployment
+ * - mdm_command_campaigns: Bulk commands fanned out to many devices
+ * - mdm_command_workflows: Ordered multi-step command sequences per device
  * - mdm_commands: Command queue for device operations
  * - mdm_events: Event log for device activities
  * - mdm_groups: Device grouping for bulk operations
  * - mdm_device_groups: Many-to-many device-group relationships
  * - mdm_push_tokens: FCM/MQTT push notification tokens
+ * - mdm_push_deliveries: Push delivery log and device receipts
  * - mdm_app_deployments: App-to-policy/group deployment mappings
  * - mdm_app_versions: App version history for rollback support
  * - mdm_rollbacks: Rollback operation history and status
@@ -124,6 +127,22 @@ export const mdmSchema: SchemaDefinition = {
         enrollment_method: { type: 'string', nullable: true },
         last_heartbeat: { type: 'datetime', nullable: true },
         last_sync: { type: 'datetime', nullable: true },
+        online: { type: 'boolean', nullable: true },
+        presence_changed_at: { type: 'datetime', nullable: true },
+        // Result of the last heartbeat's compliance check.
+        compliance_state: {
+          type: 'enum',
+          enumValues: ['compliant', 'nonCompliant'],
+          nullable: true,
+        },
+        compliance_violations: { type: 'json', nullable: true },
+        compliance_checked_at: { type: 'datetime', nullable: true },
+        // The policy a quarantine remediation moved the device off.
+        quarantined_from_policy_id: { type: 'string', nullable: true },
+        // Security flags from the last heartbeat. See DeviceSecurityTelemetry.
+        security_telemetry: { type: 'json', nullable: true },
+        // Policy by time of week. See PolicySchedule.
+        policy_schedule: { type: 'json', nullable: true },
 
         // Telemetry (denormalized for quick access)
         battery_level: { type: 'integer', nullable: true },
@@ -148,6 +167,8 @@ export const mdmSchema: SchemaDefinition = {
         { columns: ['status'] },
         { columns: ['policy_id'] },
         { columns: ['last_heartbeat'] },
+        { columns: ['online'] },
+        { columns: ['compliance_state'] },
         { columns: ['mac_address'] },
         { columns: ['serial_number'] },
       ],
@@ -166,6 +187,10 @@ export const mdmSchema: SchemaDefinition = {
         settings: { type: 'json' },
         // Monotonic; bumped only when `settings` change.
         version: { type: 'integer', default: 1 },
+        // Staged rollout of the current version. See PolicyRollout.
+        rollout: { type: 'json', nullable: true },
+        // Heartbeat compliance rules and remediation. See ComplianceRuleSet.
+        compliance_rules: { type: 'json', nullable: true },
         created_at: { type: 'datetime', default: 'now' },
         updated_at: { type: 'datetime', default: 'now' },
       },
@@ -209,6 +234,65 @@ export const mdmSchema: SchemaDefinition = {
       ],
     },
 
+    // ----------------------------------------
+    // Command Campaigns Table
+    // ----------------------------------------
+    mdm_command_campaigns: {
+      columns: {
+        id: { type: 'string', primaryKey: true },
+        tenant_id: { type: 'string', nullable: true },
+        name: { type: 'string', nullable: true },
+        type: { type: 'string' },
+        payload: { type: 'json', nullable: true },
+        target: { type: 'json', nullable: true },
+        filter: { type: 'json', nullable: true },
+        device_count: { type: 'integer', default: 0 },
+        status: {
+          type: 'enum',
+          enumValues: ['active', 'cancelled'],
+          default: 'active',
+        },
+        created_at: { type: 'datetime', default: 'now' },
+        updated_at: { type: 'datetime', default: 'now' },
+        cancelled_at: { type: 'datetime', nullable: true },
+      },
+      indexes: [{ columns: ['tenant_id'] }, { columns: ['status'] }, { columns: ['created_at'] }],
+    },
+
+    // ----------------------------------------
+    // Command Workflows Table
+    // ----------------------------------------
+    mdm_command_workflows: {
+      columns: {
+        id: { type: 'string', primaryKey: true },
+        tenant_id: { type: 'string', nullable: true },
+        device_id: {
+          type: 'string',
+          references: { table: 'mdm_devices', column: 'id', onDelete: 'cascade' },
+        },
+        name: { type: 'string', nullable: true },
+        status: {
+          type: 'enum',
+          enumValues: ['running', 'completed', 'failed', 'cancelled'],
+          default: 'running',
+        },
+        // Step definitions and their progress, in order.
+        steps: { type: 'json' },
+        current_step: { type: 'integer', default: 0 },
+        requested_by: { type: 'string', nullable: true },
+        error: { type: 'text', nullable: true },
+        created_at: { type: 'datetime', default: 'now' },
+        updated_at: { type: 'datetime', default: 'now' },
+        completed_at: { type: 'datetime', nullable: true },
+      },
+      indexes: [
+        { columns: ['tenant_id'] },
+        { columns: ['device_id'] },
+        { columns: ['status'] },
+        { columns: ['created_at'] },
+      ],
+    },
+
     // ----------------------------------------
     // Commands Table
     // ----------------------------------------
@@ -231,6 +315,7 @@ export const mdmSchema: SchemaDefinition = {
             'completed',
             'failed',
             'cancelled',
+            'awaiting_approval',
             'expired',
           ],
           default: 'pending',
@@ -248,10 +333,39 @@ export const mdmSchema: SchemaDefinition = {
         attempt_count: { type: 'integer', default: 0 },
         max_attempts: { type: 'integer', default: 5 },
         last_attempt_at: { type: 'datetime', nullable: true },
+
+        // Delivery order and deferral. See the Command type in @openmdm/core.
+        priority: { type: 'integer', default: 0 },
+        not_before: { type: 'datetime', nullable: true },
+
+        campaign_id: {
+          type: 'string',
+          nullable: true,
+          references: { table: 'mdm_command_campaigns', column: 'id', onDelete: 'set null' },
+        },
+        workflow_id: {
+          type: 'string',
+          nullable: true,
+          references: { table: 'mdm_command_workflows', column: 'id', onDelete: 'set null' },
+        },
+
+        // Two-person approval. See the Command type in @openmdm/core.
+        requested_by: { type: 'string', nullable: true },
+        reviewed_by: { type: 'string', nullable: true },
+        reviewed_at: { type: 'datetime', nullable: true },
+
+        // Cancellation of a command the device may already hold.
+        cancellation: {
+          type: 'enum',
+          enumValues: ['requested', 'aborted', 'too_late'],
+          nullable: true,
+        },
       },
       indexes: [
         { columns: ['device_id'] },
         { columns: ['tenant_id'] },
+        { columns: ['campaign_id', 'status'] },
+        { columns: ['workflow_id'] },
         { columns: ['status'] },
         { columns: ['device_id', 'status'] },
         { columns: ['created_at'] },
@@ -360,6 +474,48 @@ export const mdmSchema: SchemaDefinition = {
       ],
     },
 
+    // ----------------------------------------
+    // Push Deliveries (one row per push sent to a device)
+    // ----------------------------------------
+    // Written by core for every push result, whatever the transport. The
+    // message id is what a device receipt is matched on, and command_id is
+    // what answers "did the wipe actually reach the phone".
+    mdm_push_deliveries: {
+      columns: {
+        id: { type: 'string', primaryKey: true },
+        message_id: { type: 'string', nullable: true },
+        device_id: {
+          type: 'string',
+          references: { table: 'mdm_devices', column: 'id', onDelete: 'cascade' },
+        },
+        provider: {
+          type: 'enum',
+          enumValues: ['fcm', 'mqtt', 'websocket'],
+          nullable: true,
+        },
+        command_id: {
+          type: 'string',
+          nullable: true,
+          references: { table: 'mdm_commands', column: 'id', onDelete: 'cascade' },
+        },
+        message_type: { type: 'string' },
+        status: {
+          type: 'enum',
+          enumValues: ['sent', 'delivered', 'failed', 'deferred'],
+        },
+        error: { type: 'text', nullable: true },
+        delivered_at: { type: 'datetime', nullable: true },
+        created_at: { type: 'datetime', default: 'now' },
+        updated_at: { type: 'datetime', default: 'now' },
+      },
+      indexes: [
+        { columns: ['device_id', 'message_id'] },
+        { columns: ['command_id'] },
+        { columns: ['status'] },
+        { columns: ['created_at'] },
+      ],
+    },
+
     // ----------------------------------------
     // Application Deployments (Which apps go to which policies/groups)
     // ----------------------------------------
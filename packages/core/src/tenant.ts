@@ -204,6 +204,7 @@ export const DEFAULT_SYSTEM_ROLES = {
       { action: 'manage' as const, resource: 'applications' as const },
       { action: 'manage' as const, resource: 'commands' as const },
       { action: 'manage' as const, resource: 'groups' as const },
+      { action: 'manage' as const, resource: 'schedules' as const },
       { action: 'manage' as const, resource: 'users' as const },
       { action: 'read' as const, resource: 'audit' as const },
     ],
@@ -229,6 +230,7 @@ export const DEFAULT_SYSTEM_ROLES = {
       { action: 'read' as const, resource: 'applications' as const },
       { action: 'read' as const, resource: 'commands' as const },
       { action: 'read' as const, resource: 'groups' as const },
+      { action: 'read' as const, resource: 'schedules' as const },
     ],
     isSystem: true,
   },
@@ -113,6 +113,42 @@ export interface Device {
   lastHeartbeat?: Date | null;
   lastSync?: Date | null;
 
+  /**
+   * Whether a connected push transport (MQTT, WebSocket) currently holds a
+   * live connection to the device. `null` when none has ever reported on it —
+   * FCM-only and polling devices have no presence. Written through
+   * `devices.setPresence`, so it survives a server restart.
+   */
+  online?: boolean | null;
+  /** When `online` last changed. */
+  presenceChangedAt?: Date | null;
+
+  /**
+   * Whether the device's last heartbeat met its policy's `complianceRules`.
+   * `null` until a heartbeat is checked against rules.
+   */
+  complianceState?: DeviceComplianceState | null;
+  /** The rules the last heartbeat broke. Empty when compliant. */
+  complianceViolations?: ComplianceViolation[] | null;
+  complianceCheckedAt?: Date | null;
+  /**
+   * The policy a `quarantine` remediation moved the device off. It is
+   * restored, and this cleared, once the device meets that policy's rules
+   * again.
+   */
+  quarantinedFromPolicyId?: string | null;
+  /**
+   * The security flags the device last reported, kept so compliance rules
+   * can be checked without waiting for its next heartbeat.
+   */
+  securityTelemetry?: DeviceSecurityTelemetry | null;
+  /**
+   * When set, the device's policy follows this schedule: `policyId` is
+   * switched at each window boundary, and a device that missed a switch
+   * is moved when it next fetches its policy.
+   */
+  policySchedule?: PolicySchedule | null;
+
   // Device identity (Phase 2b — device-pinned ECDSA P-256 key)
   /**
    * Base64-encoded SPKI public key the device registered on first
@@ -260,6 +296,14 @@ export interface UpdateDeviceInput {
   storageTotal?: number | null;
   lastHeartbeat?: Date;
   lastSync?: Date;
+  online?: boolean | null;
+  presenceChangedAt?: Date | null;
+  complianceState?: DeviceComplianceState | null;
+  complianceViolations?: ComplianceViolation[] | null;
+  complianceCheckedAt?: Date | null;
+  quarantinedFromPolicyId?: string | null;
+  securityTelemetry?: DeviceSecurityTelemetry | null;
+  policySchedule?: PolicySchedule | null;
   installedApps?: InstalledApp[];
   location?: DeviceLocation;
   tags?: Record<string, string>;
@@ -288,6 +332,12 @@ export interface DeviceFilter {
   groupId?: string;
   search?: string;
   tags?: Record<string, string>;
+  /**
+   * Filter by live connectivity. `false` includes devices whose presence has
+   * never been reported.
+   */
+  online?: boolean;
+  complianceState?: DeviceComplianceState;
   limit?: number;
   offset?: number;
 }
@@ -321,10 +371,51 @@ export interface Policy {
    * their heartbeat; core compares the two (see {@link PolicyCompliance}).
    */
   version: number;
+  /**
+   * The staged rollout of this policy's current version, if it was published
+   * with `startRollout`. Kept after it ends, for the record.
+   */
+  rollout?: PolicyRollout | null;
+  /**
+   * What devices on this policy must report on their heartbeats, and what
+   * happens when they do not. Checked server-side, so changing it does not
+   * bump `version`.
+   */
+  complianceRules?: ComplianceRuleSet | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * - `active` — devices in the first `percentage` buckets get the new version.
+ * - `paused` — no device that has not already applied it gets it.
+ * - `completed` — widened to 100%; every device gets the new version.
+ * - `rolledBack` — the previous settings were republished to every device.
+ * - `superseded` — a later settings change replaced the version being rolled
+ *   out.
+ */
+export type PolicyRolloutStatus = 'active' | 'paused' | 'completed' | 'rolledBack' | 'superseded';
+
+/**
+ * A policy version published to part of the fleet.
+ *
+ * Devices are selected like an {@link AppRollout}: deterministically, by
+ * `hash(deviceId) % 100`, salted with the policy and version so each rollout
+ * draws its own canaries. While the rollout is `active` or `paused`, every
+ * other device is served `previousVersion` from the policy's history. A
+ * device that has applied the new version keeps it, whatever happens to the
+ * percentage.
+ */
+export interface PolicyRollout {
+  version: number;
+  previousVersion: number;
+  /** 0–100. */
+  percentage: number;
+  status: PolicyRolloutStatus;
+  startedAt: Date;
+  updatedAt: Date;
+}
+
 /**
  * An immutable snapshot of a policy's settings at one version. Written on
  * every settings change, so a policy's history is replayable and any prior
@@ -374,8 +465,196 @@ export interface PolicyCompliance {
   compliant: number;
   pending: number;
   unknown: number;
-  /** Devices that have not applied the current version, for follow-up. */
+  /**
+   * Devices that have not applied the version they should be on, for
+   * follow-up. During a rollout, a device outside it only needs the
+   * previous version.
+   */
   laggingDeviceIds: string[];
+  /** Present while the current version is being rolled out. */
+  rollout?: PolicyRolloutProgress;
+}
+
+export interface PolicyRolloutProgress {
+  status: PolicyRolloutStatus;
+  percentage: number;
+  /** Devices the policy reaches that the rollout currently selects. */
+  targeted: number;
+  /** Devices the policy reaches that have applied the version being rolled out. */
+  applied: number;
+}
+
+/** One field that differs between two versions of a policy. */
+export interface PolicySettingChange {
+  /**
+   * Dotted field path, e.g. `kioskMode` or `passwordPolicy.minLength`.
+   * Entries of `applications` and `wifiConfigs` are addressed by key:
+   * `applications[com.example.pos].version`.
+   */
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  /** Absent for `added`. */
+  before?: unknown;
+  /** Absent for `removed`. */
+  after?: unknown;
+}
+
+export interface PolicyDiff {
+  policyId: string;
+  fromVersion: number;
+  toVersion: number;
+  /** Sorted by path. Empty when the two versions have the same settings. */
+  changes: PolicySettingChange[];
+}
+
+/** A proposed change to a policy. Fields left out keep their current value. */
+export interface PolicyImpactInput {
+  settings?: PolicySettings;
+  complianceRules?: ComplianceRuleSet | null;
+}
+
+/** Packages a settings change would act on, on one device. */
+export interface AppChangePlan {
+  install: string[];
+  update: string[];
+  remove: string[];
+}
+
+export interface PolicyImpactDevice {
+  deviceId: string;
+  /** The most specific layer through which the policy reaches the device. */
+  via: PolicyLayer['kind'];
+  /** Set when `via` is `group`. */
+  groupId?: string;
+  /**
+   * Whether the settings the device is served, every layer merged as in
+   * `policies.getForDevice`, would change at all.
+   */
+  settingsChanged: boolean;
+  apps: AppChangePlan;
+  /**
+   * The proposed rules the device's last-reported telemetry breaks. As on
+   * heartbeat, rules are only checked for devices served the policy as
+   * their most specific layer, or quarantined from it.
+   */
+  complianceViolations: ComplianceViolation[];
+  /** Breaks the proposed rules and is not already non-compliant. */
+  becomesNonCompliant: boolean;
+}
+
+export interface PolicyImpact {
+  policyId: string;
+  currentVersion: number;
+  /** The version `update` would publish: unchanged when the settings are. */
+  nextVersion: number;
+  /** Current settings to proposed, sorted by path as `policies.diff` reports them. */
+  changes: PolicySettingChange[];
+  devices: PolicyImpactDevice[];
+  summary: {
+    devices: number;
+    settingsChanged: number;
+    appInstalls: number;
+    appUpdates: number;
+    appRemovals: number;
+    becomeNonCompliant: number;
+  };
+  /**
+   * `immediate`: push messages `update` sends, one per device assigned the
+   * policy. `onNextSync`: devices reached through a group or the default,
+   * which are not pushed to and pick the change up when they next sync.
+   */
+  push: { immediate: number; onNextSync: number };
+}
+
+/** Part of the week during which a {@link PolicySchedule} applies `policyId`. */
+export interface PolicyScheduleWindow {
+  policyId: string;
+  /** 0 (Sunday) to 6. An overnight window belongs to the day it starts on. */
+  daysOfWeek: number[];
+  /** `HH:mm` in the schedule's timezone. Ending before it starts runs overnight. */
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * A device's policy by time of week: the first window containing the
+ * current time, in `timezone`, decides, and `defaultPolicyId` applies
+ * outside all of them.
+ */
+export interface PolicySchedule {
+  /** IANA name, such as `Europe/London`. */
+  timezone: string;
+  windows: PolicyScheduleWindow[];
+  defaultPolicyId: string;
+}
+
+/** Result of `policies.applySchedules()`. */
+export interface PolicyScheduleResult {
+  /** Devices with a schedule that were looked at. */
+  checked: number;
+  switched: Array<{ deviceId: string; fromPolicyId: string | null; toPolicyId: string }>;
+}
+
+/**
+ * Ready-made `PolicySettings` for a kind of deployment, with the parts that
+ * differ per deployment declared as parameters.
+ */
+export interface PolicyTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  /**
+   * JSON Schema for the parameters object. Missing parameters take their
+   * `default`, then the object is validated before `build` sees it.
+   */
+  parameters: JsonSchema;
+  /** The settings for a set of validated parameters. */
+  build(params: Record<string, unknown>): PolicySettings;
+}
+
+/** The policy fields `createFromTemplate` does not take from the template. */
+export interface CreatePolicyFromTemplateOptions {
+  /** Owning tenant. Injected automatically by a tenant-scoped instance. */
+  tenantId?: string;
+  /** Defaults to the template's name. */
+  name?: string;
+  description?: string;
+  isDefault?: boolean;
+  complianceRules?: ComplianceRuleSet | null;
+}
+
+/**
+ * One policy contributing to a device's effective settings.
+ *
+ * - `default` — the default policy of the device's tenant.
+ * - `group` — a policy assigned to one of the device's groups or their
+ *   ancestors. `groupId`/`groupName` say which.
+ * - `device` — the policy assigned to the device itself.
+ */
+export interface PolicyLayer {
+  kind: 'default' | 'group' | 'device';
+  policyId: string;
+  policyName: string;
+  policyVersion: number;
+  groupId?: string;
+  groupName?: string;
+}
+
+/**
+ * A device's settings after every policy layer is applied, tenant default
+ * first, then groups from the root of the hierarchy down, then the device.
+ * See `mergePolicyLayers` for how each field is merged.
+ */
+export interface EffectiveSettings {
+  deviceId: string;
+  settings: PolicySettings;
+  /** Layers in the order they were applied. */
+  layers: PolicyLayer[];
+  /**
+   * The layer each setting came from, keyed by field name, or `field.key`
+   * for entries of `wifiConfigs`, `applications` and `custom`.
+   */
+  sources: Record<string, PolicyLayer>;
 }
 
 export interface PolicySettings {
@@ -429,6 +708,43 @@ export interface PolicySettings {
   custom?: Record<string, unknown>;
 }
 
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+/**
+ * A JSON Schema document. Typed for the keywords core validates (see
+ * `validateJsonSchema`); any other keyword passes through untouched.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: readonly unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  [keyword: string]: unknown;
+}
+
+/** One way a value fails a schema, addressed by its path (`settings.wifiConfigs[0].ssid`). */
+export interface JsonSchemaIssue {
+  path: string;
+  message: string;
+}
+
 export type HardwareControl = 'on' | 'off' | 'user';
 export type SystemUpdatePolicy = 'auto' | 'windowed' | 'postpone' | 'manual';
 
@@ -471,6 +787,74 @@ export interface PolicyApplication {
   autoUpdate?: boolean;
 }
 
+// ============================================
+// Compliance Types
+// ============================================
+
+/** Heartbeat telemetry a compliance rule can test. */
+export type ComplianceField =
+  | 'isRooted'
+  | 'isEncrypted'
+  | 'screenLockEnabled'
+  | 'osVersion'
+  | 'agentVersion';
+
+export type ComplianceOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+/**
+ * One thing a device must report, e.g. `{ field: 'osVersion', operator:
+ * 'gte', value: '12' }`. Boolean fields take `eq` or `neq` and a boolean;
+ * `osVersion` and `agentVersion` compare as dotted numbers.
+ */
+export interface ComplianceRule {
+  /** Names the rule in violations. Defaults to `field operator value`. */
+  id?: string;
+  field: ComplianceField;
+  operator: ComplianceOperator;
+  value: boolean | string;
+  description?: string;
+}
+
+/**
+ * What to do when a device becomes non-compliant.
+ *
+ * - `notify` — send the device a `sendNotification` command.
+ * - `quarantine` — move the device to `policyId`. It moves back once it
+ *   meets the original policy's rules again.
+ * - `block` — `devices.block` the device. A blocked device cannot
+ *   heartbeat, so this is only undone by `devices.unblock`.
+ */
+export type ComplianceRemediation =
+  | { action: 'notify'; title?: string; body?: string }
+  | { action: 'quarantine'; policyId: string }
+  | { action: 'block' };
+
+export interface ComplianceRuleSet {
+  rules: ComplianceRule[];
+  /** Run in order when a device goes from compliant (or unchecked) to not. */
+  remediation?: ComplianceRemediation[];
+}
+
+export type DeviceComplianceState = 'compliant' | 'nonCompliant';
+
+/** The heartbeat's security flags, as last reported. */
+export interface DeviceSecurityTelemetry {
+  isRooted?: boolean;
+  isEncrypted?: boolean;
+  screenLockEnabled?: boolean;
+}
+
+/** A rule a device broke, with what it reported. */
+export interface ComplianceViolation {
+  ruleId: string;
+  field: ComplianceField;
+  operator: ComplianceOperator;
+  expected: boolean | string;
+  /** `null` when the device did not report the field. */
+  actual: boolean | string | null;
+  description?: string;
+}
+
 export interface CreatePolicyInput {
   /** Owning tenant. Injected automatically by a tenant-scoped instance. */
   tenantId?: string;
@@ -480,15 +864,19 @@ export interface CreatePolicyInput {
   description?: string;
   isDefault?: boolean;
   settings: PolicySettings;
+  complianceRules?: ComplianceRuleSet | null;
 }
 
 export interface UpdatePolicyInput {
   /** Set by core when settings change; callers do not pass this. */
   version?: number;
+  /** Set by core's rollout methods; callers do not pass this. */
+  rollout?: PolicyRollout | null;
   name?: string;
   description?: string | null;
   isDefault?: boolean;
   settings?: PolicySettings;
+  complianceRules?: ComplianceRuleSet | null;
 }
 
 // ============================================
@@ -642,6 +1030,98 @@ export type CommandType =
   | 'updateAgent' // Update MDM agent to a new version
   | 'custom';
 
+/**
+ * Payload shape per command type. `commands.send` and `devices.sendCommand`
+ * infer the payload type from `type`, so a typo'd field is a compile error
+ * rather than something the device discovers. Types not listed here take any
+ * object.
+ *
+ * Plugins that own command types can extend this with declaration merging:
+ *
+ * ```typescript
+ * declare module '@openmdm/core' {
+ *   interface CommandPayloadMap {
+ *     enterKiosk: { app?: string };
+ *   }
+ * }
+ * ```
+ *
+ * The compile-time map has a runtime counterpart — see
+ * {@link CommandPayloadSchema} — so payloads arriving over HTTP are checked
+ * too.
+ */
+export interface CommandPayloadMap {
+  lock: { message?: string };
+  wipe: { preserveData?: boolean };
+  factoryReset: { preserveData?: boolean };
+  installApp: {
+    packageName: string;
+    url?: string;
+    /** Older name for `url`, still accepted. */
+    downloadUrl?: string;
+    version?: string;
+    versionCode?: number;
+    hash?: string | null;
+    /** Verified by the agent before install. */
+    expectedSha256?: string;
+  };
+  updateApp: CommandPayloadMap['installApp'];
+  uninstallApp: { packageName: string };
+  runApp: { packageName: string };
+  clearAppData: { packageName: string };
+  clearAppCache: { packageName: string };
+  rollbackApp: { packageName: string; version?: string };
+  whitelistBattery: { packageName: string };
+  grantPermissions: { packageName: string; permissions: string[] };
+  setPolicy: { policyId: string; version?: number };
+  /** `sessionId` is set on lines run through `mdm.shell.exec`. */
+  shell: { command: string; sessionId?: string };
+  setWifi: { ssid: string; password?: string; security?: string; hidden?: boolean };
+  setVolume: { level: number; stream?: string };
+  sendNotification: { title: string; body?: string };
+  setTimeZone: { timeZone: string };
+  enableAdb: { enabled: boolean };
+}
+
+/** The payload a command of type `T` carries. */
+export type CommandPayload<T extends CommandType = CommandType> = T extends keyof CommandPayloadMap
+  ? CommandPayloadMap[T]
+  : Record<string, unknown>;
+
+/**
+ * Runtime description of a command payload, checked by `commands.send`
+ * before anything is stored. Deliberately small — field types, required
+ * fields, enums and numeric bounds — because it has to be writable by hand
+ * in a plugin and cheap to evaluate on every send.
+ */
+export interface CommandPayloadSchema {
+  fields: Record<string, CommandPayloadField>;
+  /**
+   * Accept fields not listed in `fields`. Off by default: rejecting unknown
+   * fields is what catches a misspelled one.
+   */
+  allowUnknownFields?: boolean;
+}
+
+export interface CommandPayloadField {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  required?: boolean;
+  enum?: readonly (string | number)[];
+  /** Inclusive bounds for numbers. */
+  min?: number;
+  max?: number;
+  /** Element shape for arrays. */
+  items?: CommandPayloadField;
+  /** Nested fields for objects. */
+  fields?: Record<string, CommandPayloadField>;
+}
+
+/** One problem with a payload, addressed by its path (`payload.ssid`). */
+export interface CommandPayloadIssue {
+  path: string;
+  message: string;
+}
+
 export type CommandStatus =
   | 'pending'
   | 'sent'
@@ -649,6 +1129,12 @@ export type CommandStatus =
   | 'completed'
   | 'failed'
   | 'cancelled'
+  /**
+   * The command's type is listed in `config.commands.requireApproval` and is
+   * held until a second user approves it. Nothing is pushed and the device is
+   * never handed it until then; a rejection moves it to `cancelled`.
+   */
+  | 'awaiting_approval'
   /**
    * The command passed its `expiresAt` before the device picked it up. A
    * `factoryReset` queued for a device that stayed offline for three months
@@ -687,37 +1173,176 @@ export interface Command {
    */
   expiresAt?: Date | null;
 
+  /**
+   * Delivery order among a device's pending commands: higher goes first,
+   * ties go oldest first. Defaults to 0; {@link COMMAND_PRIORITY} names a
+   * few levels.
+   */
+  priority?: number;
+
+  /**
+   * Not delivered before this instant. Until then the command is neither
+   * pushed nor handed out by `getPending`; `retryPending()` pushes it once
+   * it is due.
+   */
+  notBefore?: Date | null;
+
   /** Delivery attempts made so far (incremented per push attempt). */
   attemptCount: number;
 
+  /**
+   * When delivery was last tried, including a push the transport deferred to
+   * the device's poll. The retry sweep backs off from it.
+   */
+  lastAttemptAt?: Date | null;
+
   /**
    * Delivery attempts allowed before the command is dead-lettered (moved to
    * `failed` with a `DELIVERY_EXHAUSTED` error). This bounds *delivery*
    * attempts, not device-side execution retries.
    */
   maxAttempts: number;
+
+  /** The bulk campaign that created this command, if any. */
+  campaignId?: string | null;
+
+  /** The workflow this command is a step of, if any. */
+  workflowId?: string | null;
+
+  /** User who asked for the command. Stamped by a user-scoped instance. */
+  requestedBy?: string | null;
+  /** User who approved or rejected an `awaiting_approval` command. */
+  reviewedBy?: string | null;
+  reviewedAt?: Date | null;
+
+  /**
+   * Set when the command was cancelled after the device could have received
+   * it. See {@link CommandCancellationState}.
+   */
+  cancellation?: CommandCancellationState | null;
 }
 
+/**
+ * How a cancellation of an already-delivered command stands with the device.
+ *
+ * - `requested` — the device has been told and has not answered yet.
+ * - `aborted` — the device confirmed it stopped, or never started, the command.
+ * - `too_late` — the device had already run it. If it reported a result,
+ *   the command's status is `completed` or `failed` rather than `cancelled`.
+ */
+export type CommandCancellationState = 'requested' | 'aborted' | 'too_late';
+
+/** What an agent can answer to a cancellation. */
+export type CommandCancellationOutcome = Exclude<CommandCancellationState, 'requested'>;
+
 export interface CommandResult {
   success: boolean;
   message?: string;
   data?: unknown;
+  /**
+   * Files the device uploaded for this command — a screenshot, a log bundle.
+   * Each key must come from `commands.createArtifactUpload()` for the same
+   * command; anything else is rejected when the result is reported.
+   */
+  artifacts?: CommandArtifact[];
+}
+
+/** What `MDMPlugin.executeCommand` returns. */
+export interface PluginCommandResult extends CommandResult {
+  /** Deliver the command to the device as well. Ignored when `success` is false. */
+  deliver?: boolean;
+  /** With `deliver`, the payload the device gets instead of the one sent. */
+  payload?: Record<string, unknown>;
+}
+
+/** A file attached to a command result, stored in `config.commands.artifacts.storage`. */
+export interface CommandArtifact {
+  /** Object key, as returned by `commands.createArtifactUpload()`. */
+  key: string;
+  name?: string;
+  contentType?: string;
+  size?: number;
+}
+
+export interface CreateCommandArtifactUploadInput {
+  filename: string;
+  contentType: string;
+  /**
+   * The device asking. When given, the command must be addressed to it —
+   * agent routes pass the authenticated device so one device cannot upload
+   * against another's command.
+   */
+  deviceId?: string;
 }
 
-export interface SendCommandInput {
+/** Where and how the device should PUT an artifact. */
+export interface CommandArtifactUpload {
+  key: string;
+  uploadUrl: string;
+  method: 'PUT';
+  headers: Record<string, string>;
+  expiresAt: Date;
+}
+
+export interface CommandArtifactDownload {
+  url: string;
+  expiresAt: Date;
+}
+
+/**
+ * Object storage for command artifacts. The `StorageAdapter` returned by
+ * `@openmdm/storage-s3`'s `s3StorageAdapter()` satisfies this as-is.
+ */
+export interface CommandArtifactStorage {
+  getUploadUrl(options: {
+    filename: string;
+    contentType: string;
+    customKey?: string;
+    expiresIn?: number;
+    metadata?: Record<string, string>;
+  }): Promise<{
+    uploadUrl: string;
+    key: string;
+    method: 'PUT';
+    headers: Record<string, string>;
+    expiresAt: Date;
+  }>;
+  getDownloadUrl(key: string, expiresIn?: number): Promise<string>;
+}
+
+export interface SendCommandInput<T extends CommandType = CommandType> {
   /** Owning tenant. Injected automatically by a tenant-scoped instance. */
   tenantId?: string;
   deviceId: string;
-  type: CommandType;
-  payload?: Record<string, unknown>;
+  type: T;
+  /** Checked against the type's payload schema — see {@link CommandPayloadMap}. */
+  payload?: CommandPayload<T>;
 
   /** Deduplication key — see {@link Command.idempotencyKey}. */
   idempotencyKey?: string;
 
+  /** The bulk campaign this command belongs to. Set by `commands.sendBulk`. */
+  campaignId?: string;
+
+  /** The workflow this command is a step of. Set by `commands.startWorkflow`. */
+  workflowId?: string;
+
+  /**
+   * User asking for the command. A user-scoped instance stamps this from its
+   * context; it is what stops the same user approving their own request.
+   */
+  requestedBy?: string;
+
+  /** See {@link Command.priority}. An integer; defaults to 0. */
+  priority?: number;
+
+  /** See {@link Command.notBefore}. Must be before `expiresAt`. */
+  notBefore?: Date;
+
   /**
-   * Time-to-live in seconds. Sets `expiresAt` to now + ttl. Ignored when
-   * `expiresAt` is passed explicitly. Falls back to
-   * `config.commands.defaultTtlSeconds`.
+   * Time-to-live in seconds. Sets `expiresAt` to now + ttl, or to
+   * `notBefore` + ttl for a deferred command. Ignored when `expiresAt` is
+   * passed explicitly. Falls back to `config.commands.defaultTtlSeconds`.
    */
   ttlSeconds?: number;
 
@@ -728,6 +1353,26 @@ export interface SendCommandInput {
   maxAttempts?: number;
 }
 
+/**
+ * Named {@link Command.priority} levels. Any integer works; these leave room
+ * in between.
+ */
+export const COMMAND_PRIORITY = {
+  low: -100,
+  normal: 0,
+  high: 100,
+  /** Security commands — lock, wipe — that must not wait behind app installs. */
+  urgent: 1000,
+} as const;
+
+/**
+ * What core hands the adapter to insert. `status` is decided by core — it is
+ * `awaiting_approval` for types that need a second user — never by callers.
+ */
+export interface CreateCommandInput extends SendCommandInput {
+  status?: Extract<CommandStatus, 'pending' | 'awaiting_approval'>;
+}
+
 /**
  * Result of a delivery sweep. Returned by `commands.retryPending()`.
  */
@@ -738,18 +1383,281 @@ export interface CommandRetryResult {
   retried: number;
   /** Commands that exhausted `maxAttempts` and were dead-lettered. */
   deadLettered: number;
+  /**
+   * Commands the push transport deferred to the device's next poll. They
+   * stay `pending` and no attempt is recorded.
+   */
+  deferred: number;
 }
 
 export interface CommandFilter {
   /** Restrict results to one tenant. See {@link DeviceFilter.tenantId}. */
   tenantId?: string;
   deviceId?: string;
+  campaignId?: string;
+  workflowId?: string;
   status?: CommandStatus | CommandStatus[];
   type?: CommandType | CommandType[];
+  cancellation?: CommandCancellationState;
   limit?: number;
   offset?: number;
 }
 
+// ============================================
+// Command Campaign Types
+// ============================================
+
+export type CommandCampaignStatus = 'active' | 'cancelled';
+
+/**
+ * One command sent to many devices. The campaign is the handle for the
+ * fan-out: each device gets its own `Command` carrying the campaign's id, and
+ * progress is the count of those commands by status.
+ */
+export interface CommandCampaign {
+  id: string;
+  tenantId?: string | null;
+  name?: string | null;
+  type: CommandType;
+  payload?: Record<string, unknown> | null;
+  /** The devices, groups and policies targeted, as given. */
+  target?: DeployTarget | null;
+  /** The device filter targeted, as given. */
+  filter?: DeviceFilter | null;
+  /** Devices the campaign resolved to when it was sent. */
+  deviceCount: number;
+  status: CommandCampaignStatus;
+  createdAt: Date;
+  updatedAt: Date;
+  cancelledAt?: Date | null;
+}
+
+export interface SendBulkCommandInput<T extends CommandType = CommandType> {
+  /** Owning tenant. Injected automatically by a tenant-scoped instance. */
+  tenantId?: string;
+  name?: string;
+  type: T;
+  payload?: CommandPayload<T>;
+  /** Devices, groups and/or policies to send to. */
+  target?: DeployTarget;
+  /** Send to every device matching this filter. Combined with `target` when both are given. */
+  filter?: DeviceFilter;
+  /** Per-command TTL — see {@link SendCommandInput.ttlSeconds}. */
+  ttlSeconds?: number;
+  expiresAt?: Date;
+  maxAttempts?: number;
+  /** See {@link Command.priority}. */
+  priority?: number;
+  /** Defer every command to, say, off-hours — see {@link Command.notBefore}. */
+  notBefore?: Date;
+  /** See {@link SendCommandInput.requestedBy}. Carried onto every command. */
+  requestedBy?: string;
+}
+
+export interface CreateCommandCampaignInput {
+  tenantId?: string;
+  name?: string;
+  type: CommandType;
+  payload?: Record<string, unknown>;
+  target?: DeployTarget;
+  filter?: DeviceFilter;
+  deviceCount: number;
+}
+
+export interface UpdateCommandCampaignInput {
+  status?: CommandCampaignStatus;
+  cancelledAt?: Date | null;
+}
+
+export interface CommandCampaignFilter {
+  tenantId?: string;
+  status?: CommandCampaignStatus;
+  limit?: number;
+  offset?: number;
+}
+
+/** Commands in a campaign, counted by status. Every status is present. */
+export interface CommandCampaignProgress extends Record<CommandStatus, number> {
+  campaignId: string;
+  status: CommandCampaignStatus;
+  /** Commands created for the campaign. */
+  total: number;
+}
+
+// ============================================
+// Command Workflow Types
+// ============================================
+
+export type CommandWorkflowStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type CommandWorkflowStepStatus =
+  | 'waiting'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'skipped'
+  | 'cancelled';
+
+/**
+ * What a workflow does when a step's command fails or expires:
+ * - `abort` — stop; the workflow is `failed` (the default).
+ * - `skip` — mark the step `skipped` and release the next one.
+ * - `retry` — send the step again, up to `maxRetries` times, then abort.
+ */
+export type CommandWorkflowFailureAction = 'abort' | 'skip' | 'retry';
+
+export interface CommandWorkflowStepInput<T extends CommandType = CommandType> {
+  type: T;
+  payload?: CommandPayload<T>;
+  onFailure?: CommandWorkflowFailureAction;
+  /** Re-sends allowed when `onFailure` is `retry`. Defaults to 1. */
+  maxRetries?: number;
+}
+
+export interface CommandWorkflowStep {
+  type: CommandType;
+  payload?: Record<string, unknown> | null;
+  onFailure: CommandWorkflowFailureAction;
+  maxRetries: number;
+  status: CommandWorkflowStepStatus;
+  /** The command for the step's latest attempt, once released. */
+  commandId?: string | null;
+  /** Commands sent for this step so far. */
+  attempts: number;
+  error?: string | null;
+}
+
+/**
+ * An ordered sequence of commands for one device. Only the current step has
+ * a command; the next is created when it completes, so a device never sees
+ * step N+1 in `getPending` before step N is done.
+ */
+export interface CommandWorkflow {
+  id: string;
+  tenantId?: string | null;
+  deviceId: string;
+  name?: string | null;
+  status: CommandWorkflowStatus;
+  steps: CommandWorkflowStep[];
+  /** Index of the step being run, or the last one run once finished. */
+  currentStep: number;
+  requestedBy?: string | null;
+  /** Why the workflow failed, taken from the step that aborted it. */
+  error?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date | null;
+}
+
+export interface StartCommandWorkflowInput {
+  /** Owning tenant. Injected automatically by a tenant-scoped instance. */
+  tenantId?: string;
+  deviceId: string;
+  name?: string;
+  steps: CommandWorkflowStepInput[];
+  /** See {@link SendCommandInput.requestedBy}. Carried onto every step's command. */
+  requestedBy?: string;
+}
+
+export interface CreateCommandWorkflowInput {
+  tenantId?: string;
+  deviceId: string;
+  name?: string;
+  steps: CommandWorkflowStep[];
+  requestedBy?: string;
+}
+
+export interface UpdateCommandWorkflowInput {
+  status?: CommandWorkflowStatus;
+  steps?: CommandWorkflowStep[];
+  currentStep?: number;
+  error?: string | null;
+  completedAt?: Date | null;
+}
+
+export interface CommandWorkflowFilter {
+  tenantId?: string;
+  deviceId?: string;
+  status?: CommandWorkflowStatus | CommandWorkflowStatus[];
+  limit?: number;
+  offset?: number;
+}
+
+// ============================================
+// Shell Session Types
+// ============================================
+
+export type ShellSessionStatus = 'open' | 'closed' | 'expired';
+
+/**
+ * An interactive shell on one device. Each line an admin runs is a `shell`
+ * command carrying the session id; the agent posts stdout/stderr back in
+ * chunks while the line runs, then completes the command as usual.
+ *
+ * Sessions and their output stream live in the memory of the instance that
+ * opened them. With several instances, route a device's shell traffic and
+ * the admin's stream to the same one.
+ */
+export interface ShellSession {
+  id: string;
+  /** Owning tenant — see {@link Device.tenantId}. */
+  tenantId?: string | null;
+  deviceId: string;
+  /** User who opened the session. */
+  openedBy?: string | null;
+  status: ShellSessionStatus;
+  /** Closed after this long with no line run and no output received. */
+  idleTimeoutSeconds: number;
+  /** Closed at this time however active it is. */
+  expiresAt: Date;
+  lastActivityAt: Date;
+  createdAt: Date;
+  closedAt?: Date | null;
+  closedBy?: string | null;
+}
+
+export interface OpenShellSessionInput {
+  tenantId?: string;
+  deviceId: string;
+  openedBy?: string;
+  /** Defaults to `config.shell.idleTimeoutSeconds`. */
+  idleTimeoutSeconds?: number;
+  /** Defaults to `config.shell.maxDurationSeconds`. */
+  maxDurationSeconds?: number;
+}
+
+export interface ShellSessionFilter {
+  tenantId?: string;
+  deviceId?: string;
+}
+
+export type ShellOutputStream = 'stdout' | 'stderr';
+
+/** A piece of output the agent posts while a line runs. */
+export interface ShellOutputChunk {
+  /** The `shell` command the output belongs to. */
+  commandId: string;
+  stream: ShellOutputStream;
+  data: string;
+}
+
+/** What a session subscriber receives, in the order it happened. */
+export type ShellSessionFrame =
+  | { type: 'input'; commandId: string; line: string; by?: string | null; at: Date }
+  | { type: 'output'; commandId: string; stream: ShellOutputStream; data: string; at: Date }
+  | {
+      type: 'exit';
+      commandId: string;
+      success: boolean;
+      /** `result.data.exitCode`, when the agent reports one. */
+      exitCode?: number;
+      error?: string;
+      at: Date;
+    }
+  | { type: 'closed'; status: 'closed' | 'expired'; at: Date };
+
+export type ShellSessionListener = (frame: ShellSessionFrame) => void;
+
 // ============================================
 // Event Types
 // ============================================
@@ -772,15 +1680,32 @@ export type EventType =
   | 'policy.failed'
   | 'policy.updated'
   | 'policy.rolledBack'
+  | 'policy.rolloutChanged'
   | 'device.policyDrifted'
   | 'device.converged'
+  | 'device.compliant'
+  | 'device.nonCompliant'
   | 'device.appVersionChanged'
   | 'device.updateEscalated'
+  | 'device.online'
+  | 'device.offline'
   | 'command.received'
   | 'command.acknowledged'
   | 'command.requeued'
   | 'command.completed'
   | 'command.failed'
+  | 'command.approvalRequested'
+  | 'command.approved'
+  | 'command.rejected'
+  | 'command.cancellationConfirmed'
+  | 'workflow.started'
+  | 'workflow.stepCompleted'
+  | 'workflow.stepFailed'
+  | 'workflow.completed'
+  | 'workflow.failed'
+  | 'workflow.cancelled'
+  | 'shell.opened'
+  | 'shell.closed'
   | 'security.tamper'
   | 'security.rootDetected'
   | 'security.screenLocked'
@@ -1009,9 +1934,15 @@ export interface Heartbeat {
   screenLockEnabled?: boolean;
 
   // Agent status
+  osVersion?: string;
   agentVersion?: string;
   policyVersion?: string;
   lastPolicySync?: Date;
+  /**
+   * Why the device could not apply the policy it was last sent. Reported on
+   * every heartbeat until it succeeds; each one emits `policy.failed`.
+   */
+  policyError?: string;
   /**
    * The desired-state version the device has applied. Echoed back so the server
    * can tell convergence from "has not got there yet".
@@ -1039,6 +1970,62 @@ export interface RegisterPushTokenInput {
   token: string;
 }
 
+// ============================================
+// Push Delivery Types
+// ============================================
+
+/**
+ * - `sent`: the transport accepted the message; the device has not confirmed it.
+ * - `delivered`: the device confirmed receipt (transport ack or agent receipt).
+ * - `failed`: the transport could not deliver it.
+ * - `deferred`: nothing was sent; the device collects it on its next poll.
+ */
+export type PushDeliveryStatus = 'sent' | 'delivered' | 'failed' | 'deferred';
+
+/**
+ * One push message sent to one device, as recorded by core.
+ *
+ * `sentAt` on a command only says a transport accepted the push. This row is
+ * what answers "did the phone actually get it": it carries the transport's
+ * message id, so a later receipt from the device can be matched back to it.
+ */
+export interface PushDelivery {
+  id: string;
+  /** The transport's message id. Null when the transport returned none. */
+  messageId: string | null;
+  deviceId: string;
+  provider: PushToken['provider'] | null;
+  /** Set when the message carried a command (`payload.commandId`). */
+  commandId: string | null;
+  /** The `PushMessage.type`, e.g. `command.wipe`. */
+  messageType: string;
+  status: PushDeliveryStatus;
+  error: string | null;
+  createdAt: Date;
+  deliveredAt: Date | null;
+  updatedAt: Date;
+}
+
+export interface CreatePushDeliveryInput {
+  messageId?: string | null;
+  deviceId: string;
+  provider?: PushToken['provider'] | null;
+  commandId?: string | null;
+  messageType: string;
+  status: PushDeliveryStatus;
+  error?: string | null;
+  deliveredAt?: Date | null;
+}
+
+export interface PushDeliveryFilter {
+  deviceId?: string;
+  commandId?: string;
+  messageId?: string;
+  status?: PushDeliveryStatus | PushDeliveryStatus[];
+  limit?: number;
+  offset?: number;
+}
+
 // ============================================
 // Configuration Types
 // ============================================
@@ -1050,8 +2037,12 @@ export interface MDMConfig {
   /** Authentication/authorization configuration */
   auth?: AuthConfig;
 
-  /** Push notification provider configuration */
-  push?: PushProviderConfig;
+  /**
+   * Push transport. Either a `PushAdapter` (e.g. `fcmPushAdapter(...)` from
+   * `@openmdm/push-fcm`) or a provider config. Omit it and devices receive
+   * commands only when they poll.
+   */
+  push?: PushProviderConfig | PushAdapter;
 
   /** Device enrollment configuration */
   enrollment?: EnrollmentConfig;
@@ -1165,6 +2156,43 @@ export interface MDMConfig {
      * agents cannot deduplicate.
      */
     ackTimeoutSeconds?: number;
+
+    /**
+     * Command types that need a second user's sign-off before they run —
+     * typically `['wipe', 'factoryReset', 'shell', 'unenroll']`. Such
+     * commands are created `awaiting_approval` and only pushed once
+     * `commands.approve()` is called by someone other than the requester.
+     * Defaults to none.
+     */
+    requireApproval?: CommandType[];
+
+    /**
+     * Where devices upload binary command results — `screenshot` images, log
+     * bundles — that do not fit in `CommandResult` JSON. Without it,
+     * `commands.createArtifactUpload()` throws a `ConfigurationError`.
+     */
+    artifacts?: {
+      storage: CommandArtifactStorage;
+      /** Lifetime of a device's upload URL. Defaults to 900 (15 minutes). */
+      uploadUrlExpirySeconds?: number;
+      /** Lifetime of an admin's download URL. Defaults to 300 (5 minutes). */
+      downloadUrlExpirySeconds?: number;
+    };
+  };
+
+  /** Interactive shell session limits. */
+  shell?: {
+    /**
+     * Close a session after this long with no line run and no output.
+     * Defaults to 600 (10 minutes).
+     */
+    idleTimeoutSeconds?: number;
+
+    /**
+     * Close a session this long after it opened, however active it is.
+     * Defaults to 3600 (1 hour).
+     */
+    maxDurationSeconds?: number;
   };
 
   /**
@@ -1320,6 +2348,9 @@ export interface ScopedMDM {
   apps: ApplicationManager;
   commands: CommandManager;
   groups: GroupManager;
+  shell: ShellSessionManager;
+  /** Scheduled tasks, when scheduling is enabled on the root instance. */
+  schedules?: ScheduleManager;
 }
 
 export interface AuthConfig {
@@ -1355,6 +2386,14 @@ export interface VerifyDeviceTokenOptions {
 export interface PushProviderConfig {
   provider: 'fcm' | 'mqtt' | 'websocket' | 'polling';
 
+  /**
+   * The transport that actually delivers messages for `provider`. Required
+   * for every provider except `polling` — core does not speak FCM, MQTT or
+   * WebSocket by itself. The rest of this config still describes the channel
+   * to agents in the enrollment response.
+   */
+  adapter?: PushAdapter;
+
   // FCM configuration
   fcmCredentials?: string | Record<string, unknown>;
   fcmProjectId?: string;
@@ -1462,8 +2501,12 @@ export interface DatabaseAdapter {
   // Commands
   findCommand(id: string): Promise<Command | null>;
   listCommands(filter?: CommandFilter): Promise<Command[]>;
-  createCommand(data: SendCommandInput): Promise<Command>;
+  createCommand(data: CreateCommandInput): Promise<Command>;
   updateCommand(id: string, data: Partial<Command>): Promise<Command | null>;
+  /**
+   * The device's `pending` and `sent` commands whose `notBefore` has passed,
+   * highest `priority` first, then oldest first.
+   */
   getPendingCommands(deviceId: string): Promise<Command[]>;
 
   /**
@@ -1534,7 +2577,9 @@ export interface DatabaseAdapter {
   /** One version of a policy. */
   findPolicyVersion?(policyId: string, version: number): Promise<PolicyVersion | null>;
 
-  createCommandIdempotent?(data: SendCommandInput): Promise<{ command: Command; created: boolean }>;
+  createCommandIdempotent?(
+    data: CreateCommandInput,
+  ): Promise<{ command: Command; created: boolean }>;
 
   /** Look up a command by its per-device idempotency key. */
   findCommandByIdempotencyKey?(deviceId: string, idempotencyKey: string): Promise<Command | null>;
@@ -1556,8 +2601,9 @@ export interface DatabaseAdapter {
   }): Promise<Command[]>;
 
   /**
-   * Commands still awaiting a successful push: `pending`, not expired, with
-   * `attemptCount < maxAttempts`, whose backoff window has elapsed.
+   * Commands still awaiting a successful push: `pending`, not expired, due
+   * (`notBefore` passed), with `attemptCount < maxAttempts`, whose backoff
+   * window has elapsed. Highest `priority` first, then oldest first.
    */
   listRetryableCommands?(options: {
     now: Date;
@@ -1585,6 +2631,41 @@ export interface DatabaseAdapter {
   upsertPushToken(data: RegisterPushTokenInput): Promise<PushToken>;
   deletePushToken(deviceId: string, provider?: string): Promise<void>;
 
+  // Push Deliveries (optional)
+  /**
+   * Record one push send. Core writes a row for every result its push adapter
+   * returns; adapters without this method keep no delivery log, and
+   * `commands.getDeliveries` reports that rather than an empty history.
+   */
+  createPushDelivery?(data: CreatePushDeliveryInput): Promise<PushDelivery>;
+
+  /**
+   * Mark the delivery with this message id as `delivered`. Scoped to the
+   * device so one device cannot confirm another's messages. Returns null when
+   * no such delivery exists; a repeated receipt keeps the first `deliveredAt`.
+   */
+  markPushDelivered?(deviceId: string, messageId: string, at: Date): Promise<PushDelivery | null>;
+
+  /** Deliveries matching the filter, newest first. */
+  listPushDeliveries?(filter?: PushDeliveryFilter): Promise<PushDelivery[]>;
+
+  // Command Campaigns (optional - required by commands.sendBulk)
+  createCommandCampaign?(data: CreateCommandCampaignInput): Promise<CommandCampaign>;
+  findCommandCampaign?(id: string): Promise<CommandCampaign | null>;
+  listCommandCampaigns?(filter?: CommandCampaignFilter): Promise<CommandCampaign[]>;
+  updateCommandCampaign?(id: string, data: UpdateCommandCampaignInput): Promise<CommandCampaign>;
+
+  // Command Workflows (optional - required by commands.startWorkflow)
+  createCommandWorkflow?(data: CreateCommandWorkflowInput): Promise<CommandWorkflow>;
+  findCommandWorkflow?(id: string): Promise<CommandWorkflow | null>;
+  listCommandWorkflows?(filter?: CommandWorkflowFilter): Promise<CommandWorkflow[]>;
+  updateCommandWorkflow?(id: string, data: UpdateCommandWorkflowInput): Promise<CommandWorkflow>;
+  /**
+   * Commands matching the filter, counted by status. Lets campaign progress
+   * be one aggregate query; without it core pages through `listCommands`.
+   */
+  countCommandsByStatus?(filter: CommandFilter): Promise<Partial<Record<CommandStatus, number>>>;
+
   // App Versions (optional - for version tracking)
   listAppVersions?(packageName: string): Promise<AppVersion[]>;
   createAppVersion?(data: Omit<AppVersion, 'id' | 'createdAt'>): Promise<AppVersion>;
@@ -1707,6 +2788,12 @@ export interface DatabaseAdapter {
 }
 
 export interface PushAdapter {
+  /**
+   * The transport this adapter delivers over. Agents are told it at
+   * enrollment when `MDMConfig.push` is the bare adapter rather than a
+   * provider config; without it they are told to poll.
+   */
+  readonly provider?: PushProviderConfig['provider'];
   /** Send push message to a device */
   send(deviceId: string, message: PushMessage): Promise<PushResult>;
   /** Send push message to multiple devices */
@@ -1719,6 +2806,12 @@ export interface PushAdapter {
   subscribe?(deviceId: string, topic: string): Promise<void>;
   /** Unsubscribe device from topic */
   unsubscribe?(deviceId: string, topic: string): Promise<void>;
+  /**
+   * Send one message to every device subscribed to `topic`, in a single
+   * provider call. Adapters without it can still be broadcast through:
+   * `mdm.push.broadcast` falls back to `sendBatch` over the group's members.
+   */
+  sendToTopic?(topic: string, message: PushMessage): Promise<PushResult>;
   /**
    * Release the adapter's resources (sockets, timers, in-flight waiters).
    *
@@ -1740,12 +2833,74 @@ export interface PushResult {
   success: boolean;
   messageId?: string;
   error?: string;
+  /**
+   * Nothing was sent, and that is expected: the device collects the message
+   * on its next poll or heartbeat instead. Always paired with
+   * `success: false` — the message was not delivered — but it is not a
+   * failure either, so command durability neither counts it as a delivery
+   * attempt nor marks the command `sent`.
+   */
+  deferred?: boolean;
+  /**
+   * The failure is transient and the same channel may succeed on a later
+   * attempt. Adapters that can classify their errors (FCM does) set this so
+   * a failover adapter can tell "try again later" from "this channel will
+   * never reach the device". Left unset, a failure is treated as permanent.
+   */
+  retryable?: boolean;
+  /**
+   * The device itself confirmed receipt before `send` resolved (an MQTT or
+   * WebSocket ack), as opposed to a transport merely accepting the message.
+   * Recorded as `delivered` in the push delivery log.
+   */
+  acknowledged?: boolean;
+  /**
+   * The channel that produced this result. Set by adapters that route across
+   * several transports, e.g. `createFailoverPushAdapter`.
+   */
+  provider?: PushToken['provider'];
 }
 
 export interface PushBatchResult {
   successCount: number;
   failureCount: number;
   results: Array<{ deviceId: string; result: PushResult }>;
+  /**
+   * Outcomes per channel, for adapters that route across several transports.
+   * A device that failed on one channel and was then delivered by another
+   * counts once under each.
+   */
+  byProvider?: Partial<
+    Record<PushToken['provider'], { successCount: number; failureCount: number }>
+  >;
+}
+
+/**
+ * The push service on `MDMInstance`: the configured transport, plus
+ * broadcasts to a whole group.
+ */
+export interface PushManager extends PushAdapter {
+  /**
+   * Send `message` to every member of a group. Uses the group's push topic
+   * (one provider call) when the transport supports topics, otherwise one
+   * send per member. Members of child groups are not included.
+   */
+  broadcast(groupId: string, message: PushMessage): Promise<PushBroadcastResult>;
+}
+
+export interface PushBroadcastResult {
+  groupId: string;
+  /** `topic`: one send to the group's topic. `devices`: one send per member. */
+  via: 'topic' | 'devices';
+  /**
+   * For `topic`, whether the provider accepted the message. For `devices`,
+   * whether every member's send succeeded.
+   */
+  success: boolean;
+  /** The provider's answer, when sent via the topic. */
+  result?: PushResult;
+  /** The per-member results, when sent device by device. */
+  batch?: PushBatchResult;
 }
 
 // ============================================
@@ -1779,13 +2934,43 @@ export interface MDMPlugin {
   onHeartbeat?(device: Device, heartbeat: Heartbeat): Promise<void>;
 
   /** Extend policy processing */
+  /**
+   * JSON Schema for the keys this plugin reads from `settings.custom`:
+   * either an object schema with `properties`, or the properties map on its
+   * own. Merged into `policies.getSchema()` and checked on every policy
+   * write, before `validatePolicy`.
+   */
   policySchema?: Record<string, unknown>;
   validatePolicy?(settings: PolicySettings): Promise<{ valid: boolean; errors?: string[] }>;
   applyPolicy?(device: Device, policy: Policy): Promise<void>;
 
-  /** Extend command processing */
+  /**
+   * Command types this plugin owns. With `executeCommand`, sends of these
+   * types run server-side through the plugin instead of being pushed to the
+   * device; the first plugin to claim a type keeps it.
+   */
   commandTypes?: CommandType[];
-  executeCommand?(device: Device, command: Command): Promise<CommandResult>;
+  /**
+   * Payload schemas for the plugin's command types, checked on every send
+   * alongside the built-in ones. A schema here replaces the built-in one for
+   * the same type.
+   */
+  commandPayloadSchemas?: Partial<Record<CommandType, CommandPayloadSchema>>;
+  /**
+   * Execute one of `commandTypes`. The result is stored on the command, which
+   * moves to `completed` or — when `success` is false or this throws —
+   * `failed`, with the matching `command.*` event. A successful result with
+   * `deliver: true` means the plugin only did the server's part: the command
+   * is then pushed to the device like any other, and completes when the
+   * device reports back.
+   */
+  executeCommand?(device: Device, command: Command): Promise<PluginCommandResult>;
+
+  /**
+   * Templates to offer alongside the built-in ones. The first template
+   * registered under an id keeps it, so a plugin cannot replace a built-in.
+   */
+  policyTemplates?: PolicyTemplate[];
 }
 
 export interface PluginRoute {
@@ -1854,7 +3039,7 @@ export interface MDMInstance {
   pluginStorage?: PluginStorageAdapter;
 
   /** Push notification service */
-  push: PushAdapter;
+  push: PushManager;
 
   /** Webhook delivery (if configured) */
   webhooks?: WebhookManager;
@@ -1877,6 +3062,13 @@ export interface MDMInstance {
   enroll(request: EnrollmentRequest): Promise<EnrollmentResponse>;
   /** Process device heartbeat */
   processHeartbeat(deviceId: string, heartbeat: Heartbeat): Promise<void>;
+  /**
+   * Record that a device received a push message. Called from the agent
+   * receipt route and from transports that see acks after `send` returned.
+   * Returns the updated delivery, or null when no delivery with that message
+   * id was recorded for the device.
+   */
+  recordPushReceipt(deviceId: string, messageId: string): Promise<PushDelivery | null>;
   /**
    * Return a tenant- and actor-scoped view of this instance.
    *
@@ -1911,6 +3103,9 @@ export interface MDMInstance {
   /** App update enforcement (observed-vs-desired reconcile). */
   updates: UpdateManager;
 
+  /** Interactive remote shell sessions. */
+  shell: ShellSessionManager;
+
   /** Get loaded plugins */
   getPlugins(): MDMPlugin[];
   /** Get plugin by name */
@@ -1991,6 +3186,36 @@ export interface DeviceManager {
   /** Where the device stands relative to its desired state. */
   getConvergence(id: string): Promise<DeviceConvergence>;
 
+  // ----- Presence -----
+
+  /**
+   * Record a connectivity change reported by a push transport.
+   *
+   * Transports that hold a connection (MQTT, WebSocket) used to keep presence
+   * in process memory: it vanished on restart and core never saw it. Wire a
+   * transport's presence hook to this instead. Only transitions are written
+   * and emitted as `device.online` / `device.offline`; a repeated report, or
+   * one older than the last recorded change, returns the device unchanged.
+   */
+  setPresence(
+    id: string,
+    online: boolean,
+    options?: { at?: Date; transport?: PushToken['provider'] },
+  ): Promise<Device>;
+
+  /**
+   * Mark devices a transport still shows as online offline, emitting
+   * `device.offline` for each; returns how many were reset.
+   *
+   * Presence is only as good as the transport hooks feeding it: a server that
+   * crashes never reports its connections closing. Call this on startup,
+   * before the transport accepts connections (agents re-announce when they
+   * reconnect), and pass `silentSince` from a periodic sweep to reset only
+   * devices neither a heartbeat nor a presence change has been heard from
+   * since then.
+   */
+  resetPresence(options?: { silentSince?: Date }): Promise<number>;
+
   // ----- App inventory -----
 
   /** Canonical, queryable app inventory for one device. */
@@ -2002,11 +3227,38 @@ export interface DeviceManager {
   create(data: CreateDeviceInput): Promise<Device>;
   update(id: string, data: UpdateDeviceInput): Promise<Device>;
   delete(id: string): Promise<void>;
+  /**
+   * Put the device on a policy and tell it. Removes the device's
+   * `policySchedule`, which would otherwise switch it back.
+   */
   assignPolicy(deviceId: string, policyId: string | null): Promise<Device>;
   addToGroup(deviceId: string, groupId: string): Promise<void>;
   removeFromGroup(deviceId: string, groupId: string): Promise<void>;
   getGroups(deviceId: string): Promise<Group[]>;
-  sendCommand(deviceId: string, input: Omit<SendCommandInput, 'deviceId'>): Promise<Command>;
+  /**
+   * Store the push token an agent reports and subscribe the device to its
+   * groups' topics. Enrollment subscribes before the agent has a token, so
+   * for FCM this is the first time the subscription can succeed.
+   */
+  registerPushToken(
+    deviceId: string,
+    input: Omit<RegisterPushTokenInput, 'deviceId'>,
+  ): Promise<PushToken>;
+  /**
+   * The settings this device ends up with once its tenant's default policy,
+   * its groups' policies and its own policy are layered, and which layer
+   * each setting came from.
+   */
+  getEffectiveSettings(deviceId: string): Promise<EffectiveSettings>;
+  /**
+   * Put the device's policy on a schedule, and onto the policy it names
+   * now. `null` removes the schedule and leaves the current policy in place.
+   */
+  setPolicySchedule(deviceId: string, schedule: PolicySchedule | null): Promise<Device>;
+  sendCommand<T extends CommandType>(
+    deviceId: string,
+    input: Omit<SendCommandInput<T>, 'deviceId'>,
+  ): Promise<Command>;
   sync(deviceId: string): Promise<Command>;
   reboot(deviceId: string): Promise<Command>;
   lock(deviceId: string, message?: string): Promise<Command>;
@@ -2019,11 +3271,24 @@ export interface PolicyManager {
   list(): Promise<Policy[]>;
   create(data: CreatePolicyInput): Promise<Policy>;
   update(id: string, data: UpdatePolicyInput): Promise<Policy>;
+  /**
+   * Delete the policy and unassign it from its devices. Throws a
+   * `ValidationError` while a device's `policySchedule`, another policy's
+   * quarantine rule, or a device quarantined from it still names it.
+   */
   delete(id: string): Promise<void>;
   setDefault(id: string): Promise<Policy>;
   getDevices(policyId: string): Promise<Device[]>;
   applyToDevice(policyId: string, deviceId: string): Promise<void>;
 
+  /**
+   * Move every device with a `policySchedule` onto the policy its schedule
+   * names for `now`. Call it from a job every minute or so; devices that
+   * miss a switch still converge, because `getForDevice` applies the
+   * schedule too. A quarantined device is left alone until it is released.
+   */
+  applySchedules(now?: Date): Promise<PolicyScheduleResult>;
+
   /** Every version of this policy, newest first. */
   history(policyId: string): Promise<PolicyVersion[]>;
 
@@ -2041,8 +3306,84 @@ export interface PolicyManager {
    */
   rollback(policyId: string, toVersion: number, options?: { note?: string }): Promise<Policy>;
 
-  /** Rollout state for this policy across the fleet. */
+  /**
+   * What changed in this policy's settings between two versions. Either
+   * version can be the older one; the diff reads from `fromVersion` to
+   * `toVersion`.
+   */
+  diff(policyId: string, fromVersion: number, toVersion: number): Promise<PolicyDiff>;
+
+  /**
+   * What `update` with these settings and rules would do, without doing it:
+   * the devices it reaches, directly or through groups and the default, the
+   * apps it would install, update or remove on each, and the devices that
+   * would stop meeting the rules. Nothing is written and nothing is sent.
+   */
+  simulate(policyId: string, proposed: PolicyImpactInput): Promise<PolicyImpact>;
+
+  /**
+   * JSON Schema for `PolicySettings`, with each plugin's `policySchema`
+   * under `custom`. Every policy write is checked against it.
+   */
+  getSchema(): JsonSchema;
+
+  /** The built-in templates, then those contributed by plugins. */
+  listTemplates(): PolicyTemplate[];
+
+  getTemplate(templateId: string): PolicyTemplate | null;
+
+  /**
+   * Create a policy from a template. `params` are checked against the
+   * template's parameter schema, and the settings it builds against the
+   * policy schema, like any other policy.
+   */
+  createFromTemplate(
+    templateId: string,
+    params: Record<string, unknown>,
+    options?: CreatePolicyFromTemplateOptions,
+  ): Promise<Policy>;
+
+  /**
+   * Rollout state for this policy across every device it is a layer of:
+   * assigned directly, through a group, or as the default.
+   */
   getCompliance(policyId: string): Promise<PolicyCompliance>;
+
+  /**
+   * Publish new settings as the next version, to `percentage` percent of
+   * the policy's devices. The rest keep the previous version until the
+   * rollout is widened. Needs an adapter that keeps policy history.
+   */
+  startRollout(
+    policyId: string,
+    settings: PolicySettings,
+    options: { percentage: number },
+  ): Promise<Policy>;
+
+  /** Widen a rollout. It cannot shrink; 100 completes it. */
+  setRolloutPercentage(policyId: string, percentage: number): Promise<Policy>;
+
+  /** Stop handing the new version to devices that have not applied it. */
+  pauseRollout(policyId: string): Promise<Policy>;
+
+  resumeRollout(policyId: string): Promise<Policy>;
+
+  /**
+   * Republish the previous settings to every device, as a new version (see
+   * `rollback`), and mark the rollout `rolledBack`.
+   */
+  rollbackRollout(policyId: string, options?: { note?: string }): Promise<Policy>;
+
+  /**
+   * The policy this device should receive: its most specific policy layer,
+   * with the settings of every layer merged as `devices.getEffectiveSettings`
+   * reports them. During a rollout the device is not part of, a layer is its
+   * previous version. With more than one layer, `version` is derived from
+   * every layer's policy and version rather than counted, so it changes
+   * whenever any layer does. A device whose `policySchedule` has moved on is
+   * switched first. Null when no policy applies.
+   */
+  getForDevice(deviceId: string): Promise<Policy | null>;
 }
 
 export interface ApplicationManager {
@@ -2062,17 +3403,107 @@ export interface ApplicationManager {
 export interface CommandManager {
   get(id: string): Promise<Command | null>;
   list(filter?: CommandFilter): Promise<Command[]>;
-  send(input: SendCommandInput): Promise<Command>;
+  send<T extends CommandType>(input: SendCommandInput<T>): Promise<Command>;
+  /**
+   * Cancel a command. One the device may already hold (`sent` or
+   * `acknowledged`) is cancelled on the device too: a `command.cancel` push
+   * goes out, and its id rides on every pending/heartbeat response until the
+   * agent answers through `confirmCancellation`. A command that has already
+   * settled (completed, failed, expired or cancelled) is returned unchanged.
+   */
   cancel(id: string): Promise<Command>;
   acknowledge(id: string): Promise<Command>;
+  /**
+   * Record the device's result. For a command whose cancellation is still
+   * `requested`, the device ran it anyway: the cancellation becomes
+   * `too_late` and the status follows the result.
+   */
   complete(id: string, result: CommandResult): Promise<Command>;
   fail(id: string, error: string): Promise<Command>;
   /**
    * Commands awaiting delivery to this device. Expired commands are never
-   * returned, and are transitioned to `expired` on the way out.
+   * returned, and are transitioned to `expired` on the way out. Returned
+   * `pending` commands are marked `sent`: the device now has them.
    */
   getPending(deviceId: string): Promise<Command[]>;
 
+  /** Ids of this device's cancelled commands it has not yet confirmed. */
+  getCancellations(deviceId: string): Promise<string[]>;
+
+  /**
+   * The agent's answer to a cancellation. `deviceId` is the authenticated
+   * caller; another device's command is reported as not found. Answering
+   * twice returns the command unchanged.
+   */
+  confirmCancellation(
+    id: string,
+    outcome: CommandCancellationOutcome,
+    options?: { deviceId?: string },
+  ): Promise<Command>;
+
+  /**
+   * Every push sent for this command, newest first, with its transport
+   * message id and whether the device confirmed receipt. `sentAt` only says a
+   * transport accepted the push; this says whether the phone got it.
+   */
+  getDeliveries(commandId: string): Promise<PushDelivery[]>;
+
+  // ----- Campaigns -----
+
+  /**
+   * Send one command to every device a `DeployTarget` and/or `DeviceFilter`
+   * names. Records a campaign and creates one `Command` per device, keyed
+   * `campaign:{campaignId}:{deviceId}` so the fan-out never queues a device
+   * twice. Resolves once the commands are queued; they are pushed after it
+   * returns, and any left `pending` are picked up by `retryPending`.
+   * Requires the database adapter's campaign methods.
+   */
+  sendBulk<T extends CommandType>(input: SendBulkCommandInput<T>): Promise<CommandCampaign>;
+  getCampaign(id: string): Promise<CommandCampaign | null>;
+  listCampaigns(filter?: CommandCampaignFilter): Promise<CommandCampaign[]>;
+  /** How many of the campaign's commands are in each status. */
+  getCampaignProgress(id: string): Promise<CommandCampaignProgress>;
+  /**
+   * Cancel every campaign command a device has not acknowledged yet
+   * (`awaiting_approval`, `pending` or `sent`) and mark the campaign
+   * `cancelled`. Commands already running or finished are left alone.
+   */
+  cancelCampaign(id: string): Promise<CommandCampaignProgress>;
+
+  // ----- Workflows -----
+
+  /**
+   * Run commands on one device in order. Step N+1's command is created only
+   * once step N's completes; a failed step aborts, is skipped or is retried
+   * according to its `onFailure`. Every step payload is validated up front.
+   * Requires the database adapter's workflow methods.
+   */
+  startWorkflow(input: StartCommandWorkflowInput): Promise<CommandWorkflow>;
+  getWorkflow(id: string): Promise<CommandWorkflow | null>;
+  listWorkflows(filter?: CommandWorkflowFilter): Promise<CommandWorkflow[]>;
+  /**
+   * Stop a running workflow. The current step's command is cancelled if the
+   * device has not acknowledged it; later steps are never sent.
+   */
+  cancelWorkflow(id: string): Promise<CommandWorkflow>;
+
+  // ----- Artifacts -----
+
+  /**
+   * Presign an upload for a file the device will attach to this command's
+   * result. Only while the command is still running — pending, sent or
+   * acknowledged. Requires `config.commands.artifacts`.
+   */
+  createArtifactUpload(
+    commandId: string,
+    input: CreateCommandArtifactUploadInput,
+  ): Promise<CommandArtifactUpload>;
+  /**
+   * A short-lived download URL for one of the artifacts on the command's
+   * result. Throws when `key` is not among them.
+   */
+  getArtifactDownloadUrl(commandId: string, key: string): Promise<CommandArtifactDownload>;
+
   /**
    * Re-push commands that are still `pending` because their original push
    * failed. Commands that exhaust `maxAttempts` are dead-lettered (moved to
@@ -2105,6 +3536,19 @@ export interface CommandManager {
    * `config.commands.ackTimeoutSeconds`.
    */
   sweepStuck(options?: { limit?: number }): Promise<{ requeued: number; deadLettered: number }>;
+
+  // ----- Approval -----
+
+  /**
+   * Release an `awaiting_approval` command for delivery. `approvedBy` must
+   * differ from the command's `requestedBy` — the point is a second person.
+   * Throws `CommandApprovalError` otherwise, if either identity is missing
+   * (a command sent without `requestedBy` can only be rejected), or if the
+   * command is not awaiting approval.
+   */
+  approve(id: string, approvedBy: string): Promise<Command>;
+  /** Turn down an `awaiting_approval` command. It is moved to `cancelled`. */
+  reject(id: string, rejectedBy: string, reason?: string): Promise<Command>;
 }
 
 /**
@@ -2119,6 +3563,54 @@ export interface CommandManager {
  * installed against what it should have, re-issues the install with bounded
  * backoff, and escalates when a device keeps taking the command and not moving.
  */
+/**
+ * Interactive remote shell sessions.
+ *
+ * A `shell` command is fire-and-forget with one result at the end, which is
+ * no way to look around a misbehaving device. A session keeps a line-by-line
+ * conversation open: `exec` sends each line as a `shell` command, the agent
+ * streams output back through `appendOutput`, and `subscribe` hands all of
+ * it to whoever is watching. Every line is written to the audit log before
+ * it is sent, so sessions need `config.audit.enabled`.
+ */
+export interface ShellSessionManager {
+  /** Open a session. Throws `ConfigurationError` when audit logging is off. */
+  open(input: OpenShellSessionInput): Promise<ShellSession>;
+
+  /** An open session, or null once it has closed or timed out. */
+  get(id: string): Promise<ShellSession | null>;
+
+  /** Open sessions. */
+  list(filter?: ShellSessionFilter): Promise<ShellSession[]>;
+
+  /** Audit `line`, then send it to the device as a `shell` command. */
+  exec(sessionId: string, line: string, options?: { by?: string }): Promise<Command>;
+
+  /**
+   * Relay a chunk of output from the device. `deviceId` is the authenticated
+   * caller; a session on another device is reported as not found.
+   */
+  appendOutput(sessionId: string, deviceId: string, chunk: ShellOutputChunk): Promise<void>;
+
+  /**
+   * Receive the session's frames as they happen. Returns an unsubscribe
+   * function. The last frame is always `closed`. On a `withContext` instance
+   * with a user, `get` the session first: that is where the read permission
+   * is checked.
+   */
+  subscribe(sessionId: string, listener: ShellSessionListener): () => void;
+
+  /** Close a session and cancel any line the device has not picked up. */
+  close(sessionId: string, options?: { by?: string }): Promise<ShellSession>;
+
+  /**
+   * Close every session past its idle timeout or maximum lifetime. Sessions
+   * are also checked whenever they are used, and this runs every 30 seconds
+   * while any session is open. Returns how many expired.
+   */
+  expireIdle(): Promise<number>;
+}
+
 export interface UpdateManager {
   /**
    * Declare the version an app should be on, optionally to a fraction of the
@@ -2267,6 +3759,7 @@ export type PermissionResource =
   | 'apps'
   | 'groups'
   | 'commands'
+  | 'schedules'
   | 'users'
   | 'roles'
   | 'tenants'
@@ -2519,6 +4012,142 @@ export interface TaskExecution {
   details?: Record<string, unknown> | null;
 }
 
+// ============================================
+// Configuration Bundle Types
+// ============================================
+
+/**
+ * An instance's configuration — policies, the group tree, application
+ * registrations and scheduled tasks — as one document that can be kept in
+ * version control and imported into another instance.
+ *
+ * Resources refer to each other by name, never by id, so a bundle exported
+ * from staging means the same thing in production: a policy by its `name`,
+ * a group by its path from the root (`Region A/Store 5`), a scheduled task
+ * by its `name`. Device ids in task targets are the exception; they are
+ * exported as they are.
+ */
+export interface ConfigBundle {
+  /** `openmdm/v1`. */
+  apiVersion: string;
+  policies: BundledPolicy[];
+  groups: BundledGroup[];
+  applications: BundledApplication[];
+  scheduledTasks: BundledScheduledTask[];
+}
+
+export interface BundledPolicy {
+  name: string;
+  description?: string;
+  isDefault?: boolean;
+  /**
+   * The version on the instance it was exported from. For reference only:
+   * versions are per instance, and importing changed settings publishes the
+   * next version of the target's policy.
+   */
+  version?: number;
+  settings: PolicySettings;
+  /** Quarantine remediation steps name their policy by `name`. */
+  complianceRules?: ComplianceRuleSet;
+}
+
+export interface BundledGroup {
+  /** Path from the root of the hierarchy, `/`-separated. Identifies the group. */
+  path: string;
+  description?: string;
+  /** Name of the group's policy. */
+  policy?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** Identified by `packageName@version`. */
+export interface BundledApplication {
+  packageName: string;
+  version: string;
+  versionCode: number;
+  name: string;
+  url: string;
+  hash?: string;
+  size?: number;
+  minSdkVersion?: number;
+  showIcon?: boolean;
+  runAfterInstall?: boolean;
+  runAtBoot?: boolean;
+  isSystem?: boolean;
+  isActive?: boolean;
+  metadata?: Record<string, unknown>;
+}
+
+export interface BundledScheduledTask {
+  name: string;
+  description?: string;
+  taskType: TaskType;
+  /** `executeAt` as an ISO 8601 string. */
+  schedule: Omit<TaskSchedule, 'executeAt'> & { executeAt?: string };
+  /** `policies` by name and `groups` by path; `devices` by id. */
+  target?: DeployTarget;
+  payload?: Record<string, unknown>;
+  maxRetries?: number;
+  status?: ScheduledTaskStatus;
+}
+
+export type ConfigBundleResource = 'policy' | 'group' | 'application' | 'scheduledTask';
+
+/** One step of an import. */
+export interface ConfigBundleChange {
+  resource: ConfigBundleResource;
+  action: 'create' | 'update' | 'delete';
+  /** The resource's name, path, or `packageName@version`. */
+  key: string;
+  /** Id of the resource on the target, for updates and deletes. */
+  id?: string;
+  /**
+   * For updates, the fields that differ. Policy settings are listed by the
+   * paths `policies.diff` uses, under `settings.`.
+   */
+  fields?: string[];
+}
+
+export interface ConfigBundlePlan {
+  /** In the order they are applied: creates and updates, then deletes. */
+  changes: ConfigBundleChange[];
+  summary: { create: number; update: number; delete: number };
+  /** False for a dry run. */
+  applied: boolean;
+}
+
+export interface ExportConfigBundleOptions {
+  /**
+   * Write wifi, VPN and kiosk exit passwords as they are. Off by default: a
+   * bundle is meant for version control, and an import keeps the target's
+   * own passwords where the bundle has them redacted.
+   */
+  includeSecrets?: boolean;
+}
+
+export interface ImportConfigBundleOptions {
+  /** Work out the plan and stop. */
+  dryRun?: boolean;
+  /**
+   * Delete resources the bundle does not mention. Off by default: a bundle
+   * that covers only some of an instance must not wipe the rest.
+   */
+  prune?: boolean;
+}
+
+/**
+ * What `exportConfigBundle` and `importConfigBundle` work through. Both an
+ * `MDMInstance` and a `withContext` instance fit; with the latter, every
+ * write of an import is authorized and audited like any other, scheduled
+ * tasks included.
+ */
+export interface ConfigBundleTarget {
+  policies: PolicyManager;
+  groups: GroupManager;
+  apps: ApplicationManager;
+  schedules?: ScheduleManager;
+}
+
 // ============================================
 // Message Queue Types
 // ============================================
@@ -2774,6 +4403,10 @@ export type EventHandler<T extends EventType> = (
 
 export interface EventPayloadMap {
   'device.enrolled': { device: Device };
+  /** A push transport reported the device connected. */
+  'device.online': { device: Device; transport?: PushToken['provider'] };
+  /** A push transport reported the device disconnected. */
+  'device.offline': { device: Device; transport?: PushToken['provider'] };
   'device.unenrolled': { device: Device; reason?: string };
   'device.blocked': { device: Device; reason?: string };
   'device.heartbeat': { device: Device; heartbeat: Heartbeat };
@@ -2790,8 +4423,18 @@ export interface EventPayloadMap {
   'policy.failed': { device: Device; policy: Policy; error: string };
   'policy.updated': { policy: Policy; previousVersion: number; affectedDeviceCount: number };
   'policy.rolledBack': { policy: Policy; fromVersion: number; restoredVersion: number };
+  /** A rollout was started, widened, paused, resumed, completed or rolled back. */
+  'policy.rolloutChanged': { policy: Policy; rollout: PolicyRollout };
   /** The device reported that it has applied the current desired state. */
   'device.converged': { device: Device; stateVersion: number };
+  /** A device that broke its policy's compliance rules meets them again. */
+  'device.compliant': { device: Device; policy: Policy };
+  /**
+   * A heartbeat broke the compliance rules of the device's policy. Fired when
+   * the device goes from compliant or unchecked to non-compliant, before
+   * remediation runs.
+   */
+  'device.nonCompliant': { device: Device; policy: Policy; violations: ComplianceViolation[] };
   /**
    * A device reported a different version of an app than we last saw. The diff
    * used to happen nowhere: versions were overwritten inside a JSON blob with no
@@ -2835,6 +4478,40 @@ export interface EventPayloadMap {
   'command.requeued': { device: Device; command: Command; reason: 'ACK_TIMEOUT' };
   'command.completed': { device: Device; command: Command; result: CommandResult };
   'command.failed': { device: Device; command: Command; error: string };
+  /** A command was held for a second user's approval. Hook approver notifications here. */
+  'command.approvalRequested': { device: Device; command: Command };
+  'command.approved': { device: Device; command: Command; approvedBy: string };
+  'command.rejected': { device: Device; command: Command; rejectedBy: string; reason?: string };
+  /** The device answered a cancellation, or completed the command before it could. */
+  'command.cancellationConfirmed': {
+    device: Device;
+    command: Command;
+    outcome: CommandCancellationOutcome;
+  };
+  'workflow.started': { device: Device; workflow: CommandWorkflow };
+  'workflow.stepCompleted': {
+    device: Device;
+    workflow: CommandWorkflow;
+    step: number;
+    command: Command;
+  };
+  /**
+   * A step's command failed, expired or was cancelled. `action` is what the
+   * workflow did about it.
+   */
+  'workflow.stepFailed': {
+    device: Device;
+    workflow: CommandWorkflow;
+    step: number;
+    command: Command;
+    action: CommandWorkflowFailureAction;
+  };
+  'workflow.completed': { device: Device; workflow: CommandWorkflow };
+  'workflow.failed': { device: Device; workflow: CommandWorkflow; error: string };
+  'workflow.cancelled': { device: Device; workflow: CommandWorkflow };
+  'shell.opened': { device: Device; session: ShellSession };
+  /** Closed by a user, or `expired` by its idle or maximum lifetime. */
+  'shell.closed': { device: Device; session: ShellSession };
   'security.tamper': { device: Device; type: string; details?: unknown };
   'security.rootDetected': { device: Device };
   'security.screenLocked': { device: Device };
@@ -2870,6 +4547,12 @@ export class PolicyNotFoundError extends MDMError {
   }
 }
 
+export class PolicyTemplateNotFoundError extends MDMError {
+  constructor(templateId: string) {
+    super(`Policy template not found: ${templateId}`, 'POLICY_TEMPLATE_NOT_FOUND', 404);
+  }
+}
+
 export class ApplicationNotFoundError extends MDMError {
   constructor(identifier: string) {
     super(`Application not found: ${identifier}`, 'APPLICATION_NOT_FOUND', 404);
@@ -2882,6 +4565,34 @@ export class CommandNotFoundError extends MDMError {
   }
 }
 
+export class CommandCampaignNotFoundError extends MDMError {
+  constructor(campaignId: string) {
+    super(`Command campaign not found: ${campaignId}`, 'COMMAND_CAMPAIGN_NOT_FOUND', 404);
+  }
+}
+
+export class CommandWorkflowNotFoundError extends MDMError {
+  constructor(workflowId: string) {
+    super(`Command workflow not found: ${workflowId}`, 'COMMAND_WORKFLOW_NOT_FOUND', 404);
+  }
+}
+
+export class ShellSessionNotFoundError extends MDMError {
+  constructor(sessionId: string) {
+    super(`Shell session not found: ${sessionId}`, 'SHELL_SESSION_NOT_FOUND', 404);
+  }
+}
+
+/**
+ * An approval decision that cannot be taken: the command is not awaiting
+ * approval, or the reviewer is the user who requested it.
+ */
+export class CommandApprovalError extends MDMError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'COMMAND_APPROVAL_ERROR', 409, details);
+  }
+}
+
 export class TenantNotFoundError extends MDMError {
   constructor(identifier: string) {
     super(`Tenant not found: ${identifier}`, 'TENANT_NOT_FOUND', 404);
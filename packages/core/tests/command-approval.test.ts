@@ -0,0 +1,235 @@
+/**
+ * Two-person approval for destructive commands.
+ *
+ * `wipe`, `factoryReset`, `shell` and `unenroll` used to go out the moment
+ * any admin called `commands.send` — one mis-click away from wiping a store.
+ * Types listed in `config.commands.requireApproval` are now held in
+ * `awaiting_approval`: nothing is pushed, the device is never handed them,
+ * and only a second user can release or turn them down.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  CommandApprovalError,
+  createMDM,
+  createSilentLogger,
+  type PushAdapter,
+} from '../src/index';
+
+function createMemoryAdapter() {
+  const devices = new Map<string, any>([['d1', { id: 'd1', status: 'enrolled' }]]);
+  const commands = new Map<string, any>();
+  const auditLogs: any[] = [];
+  let counter = 0;
+
+  return {
+    _commands: commands,
+    _auditLogs: auditLogs,
+
+    async findDevice(id: string) {
+      return devices.get(id) || null;
+    },
+    async findCommand(id: string) {
+      return commands.get(id) || null;
+    },
+    async listCommands() {
+      return Array.from(commands.values());
+    },
+    async createCommand(data: any) {
+      const command = {
+        id: `command-${++counter}`,
+        status: 'pending',
+        attemptCount: 0,
+        ...data,
+        createdAt: new Date(),
+      };
+      commands.set(command.id, command);
+      return command;
+    },
+    async updateCommand(id: string, data: any) {
+      if (!commands.has(id)) return null;
+      const updated = { ...commands.get(id), ...data };
+      commands.set(id, updated);
+      return updated;
+    },
+    async getPendingCommands(deviceId: string) {
+      return Array.from(commands.values()).filter(
+        (c) => c.deviceId === deviceId && (c.status === 'pending' || c.status === 'sent'),
+      );
+    },
+    async createAuditLog(entry: any) {
+      const log = { id: `audit-${++counter}`, ...entry, createdAt: new Date() };
+      auditLogs.push(log);
+      return log;
+    },
+    async createEvent(data: any) {
+      return { id: `event-${++counter}`, ...data, createdAt: new Date() };
+    },
+  } as any;
+}
+
+function buildMDM() {
+  const db = createMemoryAdapter();
+  const push: PushAdapter = {
+    send: vi.fn(async () => ({ success: true })),
+    sendBatch: vi.fn(async () => ({ successCount: 0, failureCount: 0, results: [] })),
+  };
+  const mdm = createMDM({
+    database: db,
+    push,
+    audit: { enabled: true },
+    commands: { requireApproval: ['wipe', 'factoryReset', 'shell', 'unenroll'] },
+    logger: createSilentLogger(),
+  });
+  return { mdm, db, push };
+}
+
+describe('requireApproval', () => {
+  it('holds a listed command without pushing it', async () => {
+    const { mdm, push } = buildMDM();
+    const requested = vi.fn();
+    mdm.on('command.approvalRequested', requested);
+
+    const command = await mdm.commands.send({
+      deviceId: 'd1',
+      type: 'factoryReset',
+      requestedBy: 'alice',
+    });
+
+    expect(command).toMatchObject({ status: 'awaiting_approval', requestedBy: 'alice' });
+    expect(push.send).not.toHaveBeenCalled();
+    expect(await mdm.commands.getPending('d1')).toEqual([]);
+    expect(requested).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends unlisted commands straight away', async () => {
+    const { mdm, push } = buildMDM();
+
+    const command = await mdm.commands.send({ deviceId: 'd1', type: 'reboot' });
+
+    expect(command.status).toBe('sent');
+    expect(push.send).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('approve and reject', () => {
+  it('delivers the command once a second user approves it', async () => {
+    const { mdm, push } = buildMDM();
+    const held = await mdm.commands.send({ deviceId: 'd1', type: 'wipe', requestedBy: 'alice' });
+
+    const approved = await mdm.commands.approve(held.id, 'bob');
+
+    expect(approved).toMatchObject({ status: 'sent', reviewedBy: 'bob' });
+    expect(approved.reviewedAt).toBeInstanceOf(Date);
+    expect(push.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses to let the requester approve their own command', async () => {
+    const { mdm, push } = buildMDM();
+    const held = await mdm.commands.send({ deviceId: 'd1', type: 'wipe', requestedBy: 'alice' });
+
+    await expect(mdm.commands.approve(held.id, 'alice')).rejects.toBeInstanceOf(
+      CommandApprovalError,
+    );
+    expect(push.send).not.toHaveBeenCalled();
+  });
+
+  it('refuses to approve when either identity is unknown', async () => {
+    const { mdm, push } = buildMDM();
+    const anonymous = await mdm.commands.send({ deviceId: 'd1', type: 'wipe' });
+    const held = await mdm.commands.send({ deviceId: 'd1', type: 'wipe', requestedBy: 'alice' });
+
+    await expect(mdm.commands.approve(anonymous.id, 'bob')).rejects.toBeInstanceOf(
+      CommandApprovalError,
+    );
+    await expect(mdm.commands.approve(held.id, '')).rejects.toBeInstanceOf(CommandApprovalError);
+    expect(push.send).not.toHaveBeenCalled();
+
+    // An unattributed request can still be turned down.
+    await expect(mdm.commands.reject(anonymous.id, 'bob')).resolves.toMatchObject({
+      status: 'cancelled',
+    });
+  });
+
+  it('cancels a rejected command and records why', async () => {
+    const { mdm, push } = buildMDM();
+    const held = await mdm.commands.send({
+      deviceId: 'd1',
+      type: 'shell',
+      payload: { command: 'pm list packages' },
+      requestedBy: 'alice',
+    });
+
+    const rejected = await mdm.commands.reject(held.id, 'bob', 'wrong store');
+
+    expect(rejected).toMatchObject({
+      status: 'cancelled',
+      reviewedBy: 'bob',
+      error: 'Rejected: wrong store',
+    });
+    expect(push.send).not.toHaveBeenCalled();
+  });
+
+  it('only decides commands that are still awaiting approval', async () => {
+    const { mdm } = buildMDM();
+    const held = await mdm.commands.send({ deviceId: 'd1', type: 'wipe', requestedBy: 'alice' });
+    await mdm.commands.approve(held.id, 'bob');
+
+    await expect(mdm.commands.reject(held.id, 'carol')).rejects.toBeInstanceOf(
+      CommandApprovalError,
+    );
+  });
+
+  it('will not release a command that expired while it waited', async () => {
+    const { mdm } = buildMDM();
+    const held = await mdm.commands.send({
+      deviceId: 'd1',
+      type: 'wipe',
+      requestedBy: 'alice',
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    await expect(mdm.commands.approve(held.id, 'bob')).rejects.toBeInstanceOf(CommandApprovalError);
+  });
+});
+
+describe('scoped instances', () => {
+  it('stamp the requester from the context, whatever the input says', async () => {
+    const { mdm } = buildMDM();
+
+    const held = await mdm
+      .withContext({ userId: 'alice' })
+      .commands.send({ deviceId: 'd1', type: 'wipe', requestedBy: 'mallory' });
+
+    expect(held.requestedBy).toBe('alice');
+    await expect(
+      mdm.withContext({ userId: 'alice' }).commands.approve(held.id, 'bob'),
+    ).rejects.toBeInstanceOf(CommandApprovalError);
+  });
+
+  it('audit the decision with both actors', async () => {
+    const { mdm, db } = buildMDM();
+    const held = await mdm
+      .withContext({ userId: 'alice' })
+      .commands.send({ deviceId: 'd1', type: 'wipe' });
+
+    await mdm.withContext({ userId: 'bob' }).commands.approve(held.id, 'bob');
+
+    expect(db._auditLogs).toContainEqual(
+      expect.objectContaining({ userId: 'alice', action: 'command', status: 'success' }),
+    );
+    expect(db._auditLogs).toContainEqual(
+      expect.objectContaining({
+        userId: 'bob',
+        resource: 'commands',
+        resourceId: held.id,
+        status: 'success',
+        details: expect.objectContaining({
+          decision: 'approved',
+          requestedBy: 'alice',
+          reviewedBy: 'bob',
+        }),
+      }),
+    );
+  });
+});
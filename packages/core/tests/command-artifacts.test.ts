@@ -0,0 +1,154 @@
+/**
+ * Command artifacts.
+ *
+ * A `screenshot` or a log dump has nowhere to go in `CommandResult.data`.
+ * The device asks for a presigned upload URL scoped to the command, uploads
+ * straight to object storage, and reports the key on the result; an admin
+ * gets a short-lived download URL for keys the result actually lists.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  type CommandArtifactStorage,
+  CommandNotFoundError,
+  ConfigurationError,
+  createMDM,
+  createSilentLogger,
+  ValidationError,
+} from '../src/index';
+
+function createMemoryAdapter() {
+  const commands = new Map<string, any>([
+    ['c1', { id: 'c1', deviceId: 'd1', type: 'screenshot', status: 'sent' }],
+  ]);
+
+  return {
+    _commands: commands,
+    async findDevice(id: string) {
+      return { id, status: 'enrolled' };
+    },
+    async findCommand(id: string) {
+      return commands.get(id) || null;
+    },
+    async updateCommand(id: string, data: any) {
+      const updated = { ...commands.get(id), ...data };
+      commands.set(id, updated);
+      return updated;
+    },
+    async createEvent(data: any) {
+      return { id: 'event', ...data, createdAt: new Date() };
+    },
+  } as any;
+}
+
+function createStorage(): CommandArtifactStorage {
+  return {
+    getUploadUrl: vi.fn(async (options) => ({
+      key: `artifacts/${options.customKey}`,
+      uploadUrl: `https://bucket.example/artifacts/${options.customKey}?signed`,
+      method: 'PUT' as const,
+      headers: { 'Content-Type': options.contentType },
+      expiresAt: new Date(Date.now() + (options.expiresIn ?? 0) * 1000),
+    })),
+    getDownloadUrl: vi.fn(async (key: string) => `https://bucket.example/${key}?signed`),
+  };
+}
+
+function buildMDM(storage: CommandArtifactStorage | null = createStorage()) {
+  const db = createMemoryAdapter();
+  const mdm = createMDM({
+    database: db,
+    push: {
+      send: vi.fn(async () => ({ success: true })),
+      sendBatch: vi.fn(async () => ({ successCount: 0, failureCount: 0, results: [] })),
+    },
+    commands: storage ? { artifacts: { storage } } : undefined,
+    logger: createSilentLogger(),
+  });
+  return { mdm, db, storage };
+}
+
+describe('createArtifactUpload', () => {
+  it('issues an upload URL under the command prefix', async () => {
+    const { mdm, storage } = buildMDM();
+
+    const upload = await mdm.commands.createArtifactUpload('c1', {
+      filename: 'screen shot.png',
+      contentType: 'image/png',
+      deviceId: 'd1',
+    });
+
+    expect(upload.key).toMatch(/^artifacts\/commands\/d1\/c1\/\d+-screen_shot\.png$/);
+    expect(upload.method).toBe('PUT');
+    expect(storage!.getUploadUrl).toHaveBeenCalledWith(
+      expect.objectContaining({ contentType: 'image/png', expiresIn: 900 }),
+    );
+  });
+
+  it("reports another device's command as missing", async () => {
+    const { mdm } = buildMDM();
+
+    await expect(
+      mdm.commands.createArtifactUpload('c1', {
+        filename: 'log.txt',
+        contentType: 'text/plain',
+        deviceId: 'd2',
+      }),
+    ).rejects.toBeInstanceOf(CommandNotFoundError);
+  });
+
+  it('refuses once the command has finished', async () => {
+    const { mdm, db } = buildMDM();
+    db._commands.set('c1', { ...db._commands.get('c1'), status: 'completed' });
+
+    await expect(
+      mdm.commands.createArtifactUpload('c1', { filename: 'log.txt', contentType: 'text/plain' }),
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('needs storage to be configured', async () => {
+    const { mdm } = buildMDM(null);
+
+    await expect(
+      mdm.commands.createArtifactUpload('c1', { filename: 'log.txt', contentType: 'text/plain' }),
+    ).rejects.toBeInstanceOf(ConfigurationError);
+  });
+});
+
+describe('artifacts on the result', () => {
+  it('are stored when the keys belong to the command, and can be downloaded', async () => {
+    const { mdm, storage } = buildMDM();
+    const { key } = await mdm.commands.createArtifactUpload('c1', {
+      filename: 'screen.png',
+      contentType: 'image/png',
+    });
+
+    const command = await mdm.commands.complete('c1', { success: true, artifacts: [{ key }] });
+    const download = await mdm.commands.getArtifactDownloadUrl('c1', key);
+
+    expect(command.result?.artifacts).toEqual([{ key }]);
+    expect(download.url).toBe(`https://bucket.example/${key}?signed`);
+    expect(storage!.getDownloadUrl).toHaveBeenCalledWith(key, 300);
+  });
+
+  it('are rejected when a key was issued for a different command', async () => {
+    const { mdm, db } = buildMDM();
+
+    await expect(
+      mdm.commands.complete('c1', {
+        success: true,
+        artifacts: [{ key: 'artifacts/commands/d1/c2/1-screen.png' }],
+      }),
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(db._commands.get('c1').status).toBe('sent');
+  });
+
+  it('are the only keys that can be signed for download', async () => {
+    const { mdm, storage } = buildMDM();
+
+    await expect(
+      mdm.commands.getArtifactDownloadUrl('c1', 'apks/com.pos/1.0.0.apk'),
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(storage!.getDownloadUrl).not.toHaveBeenCalled();
+  });
+});
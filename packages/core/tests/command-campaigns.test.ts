@@ -0,0 +1,286 @@
+/**
+ * Command campaigns.
+ *
+ * `commands.send` targets exactly one device, so "reboot every device in the
+ * store chain" used to be a shell loop over `openmdm device sync` with no
+ * record of what was sent and no way to stop it halfway. A campaign resolves
+ * a deploy target or device filter once, fans out one command per device
+ * under a shared idempotency prefix, and can be tracked and cancelled as a
+ * unit.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  CommandCampaignNotFoundError,
+  createMDM,
+  createSilentLogger,
+  type PushAdapter,
+  ValidationError,
+} from '../src/index';
+
+function createMemoryAdapter() {
+  const devices = new Map<string, any>([
+    ['d1', { id: 'd1', status: 'enrolled', policyId: 'p1' }],
+    ['d2', { id: 'd2', status: 'enrolled', policyId: 'p1' }],
+    ['d3', { id: 'd3', status: 'enrolled', policyId: null }],
+    ['d4', { id: 'd4', status: 'blocked', policyId: null }],
+  ]);
+  const groupMembers = new Map<string, string[]>([['g1', ['d2', 'd3']]]);
+  const commands = new Map<string, any>();
+  const campaigns = new Map<string, any>();
+  let counter = 0;
+
+  const adapter: any = {
+    _commands: commands,
+
+    async findDevice(id: string) {
+      return devices.get(id) || null;
+    },
+    async listDevices(filter?: any) {
+      const all = Array.from(devices.values()).filter((d) => {
+        if (filter?.status && d.status !== filter.status) return false;
+        if (filter?.policyId && d.policyId !== filter.policyId) return false;
+        return true;
+      });
+      const offset = filter?.offset ?? 0;
+      const page = all.slice(offset, offset + (filter?.limit ?? all.length));
+      return { devices: page, total: all.length, limit: page.length, offset };
+    },
+    async listDevicesInGroup(groupId: string) {
+      return (groupMembers.get(groupId) ?? []).map((id) => devices.get(id));
+    },
+
+    async findCommand(id: string) {
+      return commands.get(id) || null;
+    },
+    async listCommands(filter?: any) {
+      const matched = Array.from(commands.values()).filter((c) => {
+        if (filter?.campaignId && c.campaignId !== filter.campaignId) return false;
+        if (filter?.status) {
+          const statuses = Array.isArray(filter.status) ? filter.status : [filter.status];
+          if (!statuses.includes(c.status)) return false;
+        }
+        return true;
+      });
+      const offset = filter?.offset ?? 0;
+      return matched.slice(offset, offset + (filter?.limit ?? matched.length));
+    },
+    async createCommand(data: any) {
+      const command = {
+        id: `command-${++counter}`,
+        status: 'pending',
+        attemptCount: 0,
+        ...data,
+        createdAt: new Date(),
+      };
+      commands.set(command.id, command);
+      return command;
+    },
+    async createCommandIdempotent(data: any) {
+      const existing = Array.from(commands.values()).find(
+        (c) => c.deviceId === data.deviceId && c.idempotencyKey === data.idempotencyKey,
+      );
+      if (existing) return { command: existing, created: false };
+      return { command: await adapter.createCommand(data), created: true };
+    },
+    async updateCommand(id: string, data: any) {
+      const updated = { ...commands.get(id), ...data };
+      commands.set(id, updated);
+      return updated;
+    },
+
+    async createCommandCampaign(data: any) {
+      const campaign = {
+        id: `campaign-${++counter}`,
+        status: 'active',
+        ...data,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      campaigns.set(campaign.id, campaign);
+      return campaign;
+    },
+    async findCommandCampaign(id: string) {
+      return campaigns.get(id) || null;
+    },
+    async listCommandCampaigns() {
+      return Array.from(campaigns.values());
+    },
+    async updateCommandCampaign(id: string, data: any) {
+      const updated = { ...campaigns.get(id), ...data, updatedAt: new Date() };
+      campaigns.set(id, updated);
+      return updated;
+    },
+
+    async createEvent(data: any) {
+      return { id: 'event', ...data, createdAt: new Date() };
+    },
+  };
+
+  return adapter;
+}
+
+function buildMDM() {
+  const db = createMemoryAdapter();
+  const push: PushAdapter = {
+    send: vi.fn(async () => ({ success: true })),
+    sendBatch: vi.fn(async () => ({ successCount: 0, failureCount: 0, results: [] })),
+  };
+  const mdm = createMDM({ database: db, push, logger: createSilentLogger() });
+  return { mdm, db, push };
+}
+
+/** sendBulk returns once its commands are queued; wait for their pushes. */
+async function delivered(push: PushAdapter, count: number) {
+  await vi.waitFor(() => expect(push.send).toHaveBeenCalledTimes(count));
+}
+
+describe('commands.sendBulk', () => {
+  it('queues one command per device across groups, policies and explicit ids', async () => {
+    const { mdm, db } = buildMDM();
+
+    const campaign = await mdm.commands.sendBulk({
+      name: 'Overnight reboot',
+      type: 'reboot',
+      target: { devices: ['d1'], groups: ['g1'], policies: ['p1'] },
+    });
+
+    expect(campaign).toMatchObject({ status: 'active', type: 'reboot', deviceCount: 3 });
+    const queued = Array.from(db._commands.values()) as any[];
+    expect(queued.map((c) => c.deviceId).sort()).toEqual(['d1', 'd2', 'd3']);
+    for (const command of queued) {
+      expect(command.campaignId).toBe(campaign.id);
+      expect(command.idempotencyKey).toBe(`campaign:${campaign.id}:${command.deviceId}`);
+    }
+  });
+
+  it('targets every device matching a filter', async () => {
+    const { mdm, db } = buildMDM();
+
+    const campaign = await mdm.commands.sendBulk({
+      type: 'sync',
+      filter: { status: 'blocked' },
+    });
+
+    expect(campaign.deviceCount).toBe(1);
+    expect(Array.from(db._commands.values()).map((c: any) => c.deviceId)).toEqual(['d4']);
+  });
+
+  it('refuses a campaign with neither a target nor a filter', async () => {
+    const { mdm } = buildMDM();
+
+    await expect(mdm.commands.sendBulk({ type: 'reboot' })).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('keeps queueing when one device fails', async () => {
+    const { mdm, db } = buildMDM();
+    const createCommandIdempotent = db.createCommandIdempotent;
+    db.createCommandIdempotent = vi.fn(async (data: any) => {
+      if (data.deviceId === 'd1') throw new Error('connection reset');
+      return createCommandIdempotent(data);
+    });
+
+    await mdm.commands.sendBulk({ type: 'reboot', target: { devices: ['d1', 'd2'] } });
+
+    expect(Array.from(db._commands.values()).map((c: any) => c.deviceId)).toEqual(['d2']);
+  });
+
+  it('returns before the pushes finish, and stops pushing once cancelled', async () => {
+    const { mdm, db, push } = buildMDM();
+    let release = () => {};
+    vi.mocked(push.send).mockImplementationOnce(
+      () => new Promise((resolve) => (release = () => resolve({ success: true }))),
+    );
+
+    const campaign = await mdm.commands.sendBulk({
+      type: 'reboot',
+      target: { devices: ['d1', 'd2', 'd3'] },
+    });
+    expect(Array.from(db._commands.values()).map((c: any) => c.status)).toEqual([
+      'pending',
+      'pending',
+      'pending',
+    ]);
+
+    await mdm.commands.cancelCampaign(campaign.id);
+    release();
+    await delivered(push, 1);
+
+    // The first push was already on its way; the other two never leave.
+    const statuses = Array.from(db._commands.values()).map((c: any) => c.status);
+    expect(statuses.slice(1)).toEqual(['cancelled', 'cancelled']);
+  });
+});
+
+describe('campaign progress and cancel', () => {
+  it('counts commands by status', async () => {
+    const { mdm, db, push } = buildMDM();
+    const campaign = await mdm.commands.sendBulk({
+      type: 'reboot',
+      target: { devices: ['d1', 'd2', 'd3'] },
+    });
+    await delivered(push, 3);
+    const [first, second] = Array.from(db._commands.values()) as any[];
+    await db.updateCommand(first.id, { status: 'completed' });
+    await db.updateCommand(second.id, { status: 'failed' });
+
+    const progress = await mdm.commands.getCampaignProgress(campaign.id);
+
+    expect(progress).toMatchObject({
+      campaignId: campaign.id,
+      status: 'active',
+      total: 3,
+      sent: 1,
+      completed: 1,
+      failed: 1,
+      pending: 0,
+      expired: 0,
+    });
+  });
+
+  it('cancels only the commands not yet picked up', async () => {
+    const { mdm, db, push } = buildMDM();
+    const campaign = await mdm.commands.sendBulk({
+      type: 'reboot',
+      target: { devices: ['d1', 'd2', 'd3'] },
+    });
+    await delivered(push, 3);
+    const [first] = Array.from(db._commands.values()) as any[];
+    await db.updateCommand(first.id, { status: 'completed' });
+
+    const progress = await mdm.commands.cancelCampaign(campaign.id);
+
+    expect(progress).toMatchObject({ status: 'cancelled', completed: 1, cancelled: 2, sent: 0 });
+    expect((await mdm.commands.getCampaign(campaign.id))?.cancelledAt).toBeInstanceOf(Date);
+  });
+
+  it('calls back commands already delivered', async () => {
+    const { mdm, db, push } = buildMDM();
+    const campaign = await mdm.commands.sendBulk({ type: 'reboot', target: { devices: ['d1'] } });
+    await delivered(push, 1);
+    const [command] = Array.from(db._commands.values()) as any[];
+    expect(command.status).toBe('sent');
+
+    await mdm.commands.cancelCampaign(campaign.id);
+
+    expect(db._commands.get(command.id)).toMatchObject({
+      status: 'cancelled',
+      cancellation: 'requested',
+    });
+    expect(push.send).toHaveBeenCalledWith(
+      'd1',
+      expect.objectContaining({ type: 'command.cancel', payload: { commandId: command.id } }),
+    );
+  });
+
+  it('rejects an unknown campaign', async () => {
+    const { mdm } = buildMDM();
+
+    await expect(mdm.commands.getCampaignProgress('missing')).rejects.toBeInstanceOf(
+      CommandCampaignNotFoundError,
+    );
+    await expect(mdm.commands.cancelCampaign('missing')).rejects.toBeInstanceOf(
+      CommandCampaignNotFoundError,
+    );
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Cancelling a command the device already holds.
+ *
+ * `cancel` used to flip the row to `cancelled` and stop there, so a `sent`
+ * wipe still ran. Cancelling a delivered command now pushes a
+ * `command.cancel`, keeps the id on the cancellation list until the agent
+ * answers, and records whether the device aborted or was too late.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  CommandNotFoundError,
+  createMDM,
+  createSilentLogger,
+  type PushAdapter,
+  ValidationError,
+} from '../src/index';
+
+function createMemoryAdapter() {
+  const commands = new Map<string, any>([
+    [
+      'queued',
+      { id: 'queued', deviceId: 'd1', type: 'reboot', status: 'pending', createdAt: new Date() },
+    ],
+    ['sent', { id: 'sent', deviceId: 'd1', type: 'wipe', status: 'sent', createdAt: new Date() }],
+    [
+      'done',
+      {
+        id: 'done',
+        deviceId: 'd1',
+        type: 'reboot',
+        status: 'completed',
+        result: { success: true },
+        createdAt: new Date(),
+      },
+    ],
+  ]);
+
+  return {
+    _commands: commands,
+    async findDevice(id: string) {
+      return { id, status: 'enrolled' };
+    },
+    async findCommand(id: string) {
+      return commands.get(id) || null;
+    },
+    async updateCommand(id: string, data: any) {
+      if (!commands.has(id)) return null;
+      const updated = { ...commands.get(id), ...data };
+      commands.set(id, updated);
+      return updated;
+    },
+    async getPendingCommands(deviceId: string) {
+      return Array.from(commands.values()).filter(
+        (c) => c.deviceId === deviceId && ['pending', 'sent'].includes(c.status),
+      );
+    },
+    // Ignores the cancellation filter: core must not rely on the adapter.
+    async listCommands(filter: any) {
+      return Array.from(commands.values()).filter((c) => c.deviceId === filter.deviceId);
+    },
+    async createEvent(data: any) {
+      return { id: 'event', ...data, createdAt: new Date() };
+    },
+  } as any;
+}
+
+function buildMDM() {
+  const db = createMemoryAdapter();
+  const push: PushAdapter = {
+    send: vi.fn(async () => ({ success: true })),
+    sendBatch: vi.fn(async () => ({ successCount: 0, failureCount: 0, results: [] })),
+  };
+  const mdm = createMDM({ database: db, push, logger: createSilentLogger() });
+  return { mdm, db, push };
+}
+
+describe('cancel', () => {
+  it('only changes the status of a command that was never delivered', async () => {
+    const { mdm, push } = buildMDM();
+
+    const command = await mdm.commands.cancel('queued');
+
+    expect(command.status).toBe('cancelled');
+    expect(command.cancellation).toBeUndefined();
+    expect(push.send).not.toHaveBeenCalled();
+    expect(await mdm.commands.getCancellations('d1')).toEqual([]);
+  });
+
+  it('tells the device about a delivered command until it answers', async () => {
+    const { mdm, push } = buildMDM();
+
+    const command = await mdm.commands.cancel('sent');
+
+    expect(command).toMatchObject({ status: 'cancelled', cancellation: 'requested' });
+    expect(push.send).toHaveBeenCalledWith('d1', {
+      type: 'command.cancel',
+      payload: { commandId: 'sent' },
+      priority: 'high',
+    });
+    expect(await mdm.commands.getCancellations('d1')).toEqual(['sent']);
+
+    await mdm.commands.confirmCancellation('sent', 'aborted', { deviceId: 'd1' });
+    expect(await mdm.commands.getCancellations('d1')).toEqual([]);
+  });
+
+  it('calls back a command a polling device has already collected', async () => {
+    const { mdm } = buildMDM();
+
+    const collected = await mdm.commands.getPending('d1');
+    expect(collected.find((c) => c.id === 'queued')?.status).toBe('sent');
+
+    const command = await mdm.commands.cancel('queued');
+
+    expect(command.cancellation).toBe('requested');
+    expect(await mdm.commands.getCancellations('d1')).toEqual(['queued']);
+  });
+
+  it('leaves a command that already has an outcome as it is', async () => {
+    const { mdm, db, push } = buildMDM();
+
+    const command = await mdm.commands.cancel('done');
+
+    expect(command).toMatchObject({ status: 'completed', result: { success: true } });
+    expect(db._commands.get('done').status).toBe('completed');
+    expect(push.send).not.toHaveBeenCalled();
+  });
+
+  it('still succeeds when the push throws', async () => {
+    const { mdm, push } = buildMDM();
+    vi.mocked(push.send).mockRejectedValueOnce(new Error('FCM down'));
+
+    const command = await mdm.commands.cancel('sent');
+
+    expect(command.cancellation).toBe('requested');
+  });
+});
+
+describe('confirmCancellation', () => {
+  it('records the outcome and emits it', async () => {
+    const { mdm } = buildMDM();
+    const confirmed = vi.fn();
+    mdm.on('command.cancellationConfirmed', confirmed);
+    await mdm.commands.cancel('sent');
+
+    const command = await mdm.commands.confirmCancellation('sent', 'too_late');
+
+    expect(command.cancellation).toBe('too_late');
+    expect(confirmed).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: expect.objectContaining({ outcome: 'too_late' }) }),
+    );
+  });
+
+  it("reports another device's command as missing", async () => {
+    const { mdm } = buildMDM();
+    await mdm.commands.cancel('sent');
+
+    await expect(
+      mdm.commands.confirmCancellation('sent', 'aborted', { deviceId: 'd2' }),
+    ).rejects.toBeInstanceOf(CommandNotFoundError);
+  });
+
+  it('refuses a command that was not cancelled on the device', async () => {
+    const { mdm } = buildMDM();
+
+    await expect(mdm.commands.confirmCancellation('sent', 'aborted')).rejects.toBeInstanceOf(
+      ValidationError,
+    );
+  });
+});
+
+describe('a result after cancellation', () => {
+  it('means the cancellation lost the race', async () => {
+    const { mdm } = buildMDM();
+    const confirmed = vi.fn();
+    mdm.on('command.cancellationConfirmed', confirmed);
+    await mdm.commands.cancel('sent');
+
+    const command = await mdm.commands.complete('sent', { success: true });
+
+    expect(command).toMatchObject({ status: 'completed', cancellation: 'too_late' });
+    expect(confirmed).toHaveBeenCalledTimes(1);
+    expect(await mdm.commands.getCancellations('d1')).toEqual([]);
+  });
+});
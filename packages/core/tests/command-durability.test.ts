@@ -464,7 +464,7 @@ describe('delivery retry and dead-lettering', () => {
 
     const after = await stack.mdm.commands.retryPending();
 
-    expect(after).toEqual({ delivered: 0, retried: 0, deadLettered: 0 });
+    expect(after).toEqual({ delivered: 0, retried: 0, deadLettered: 0, deferred: 0 });
   });
 
   it('does not retry an expired command', async () => {
@@ -508,7 +508,10 @@ describe('acknowledged-command watchdog', () => {
   }
 
   it('requeues a command the device acked and never finished', async () => {
-    const command = await stack.mdm.devices.sendCommand(deviceId, { type: 'installApp' });
+    const command = await stack.mdm.devices.sendCommand(deviceId, {
+      type: 'installApp',
+      payload: { packageName: 'com.example.app' },
+    });
     await ackAndAge(command.id, 120); // acked 2 minutes ago, timeout is 60s
 
     // Before the sweep, the command is invisible to the device: getPending only
@@ -545,7 +548,10 @@ describe('acknowledged-command watchdog', () => {
   });
 
   it('a requeued command is re-delivered by the next retry sweep', async () => {
-    const command = await stack.mdm.devices.sendCommand(deviceId, { type: 'installApp' });
+    const command = await stack.mdm.devices.sendCommand(deviceId, {
+      type: 'installApp',
+      payload: { packageName: 'com.example.app' },
+    });
     await ackAndAge(command.id, 120);
 
     await stack.mdm.commands.sweepStuck();
@@ -0,0 +1,159 @@
+/**
+ * Command payload validation.
+ *
+ * Every `CommandType` used to accept any `Record<string, unknown>`, so a
+ * `setWifi` with a typo'd field was stored, pushed, and failed on the device.
+ * Payloads are now checked against a per-type schema before anything is
+ * queued, and plugins supply schemas for the command types they own.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  BUILT_IN_COMMAND_PAYLOAD_SCHEMAS,
+  createMDM,
+  createSilentLogger,
+  type MDMPlugin,
+  ValidationError,
+  validateCommandPayload,
+} from '../src/index';
+
+function createMemoryAdapter() {
+  const commands: any[] = [];
+  return {
+    _commands: commands,
+    async findDevice(id: string) {
+      return { id, status: 'enrolled' };
+    },
+    async createCommand(data: any) {
+      const command = { id: `command-${commands.length + 1}`, status: 'pending', ...data };
+      commands.push(command);
+      return command;
+    },
+    async updateCommand(id: string, data: any) {
+      return { ...commands.find((c) => c.id === id), ...data };
+    },
+    async createCommandCampaign(data: any) {
+      return { id: 'campaign-1', status: 'active', ...data };
+    },
+    async createEvent(data: any) {
+      return { id: 'event', ...data, createdAt: new Date() };
+    },
+  } as any;
+}
+
+function buildMDM(plugins: MDMPlugin[] = []) {
+  const db = createMemoryAdapter();
+  const mdm = createMDM({
+    database: db,
+    push: {
+      send: vi.fn(async () => ({ success: true })),
+      sendBatch: vi.fn(async () => ({ successCount: 0, failureCount: 0, results: [] })),
+    },
+    plugins,
+    logger: createSilentLogger(),
+  });
+  return { mdm, db };
+}
+
+describe('validateCommandPayload', () => {
+  const setWifi = BUILT_IN_COMMAND_PAYLOAD_SCHEMAS.setWifi!;
+
+  it('accepts a payload that matches', () => {
+    expect(validateCommandPayload({ ssid: 'Store-5', hidden: false }, setWifi)).toEqual([]);
+  });
+
+  it('names a missing required field and an unknown one', () => {
+    expect(validateCommandPayload({ ssdi: 'Store-5' }, setWifi)).toEqual([
+      { path: 'payload.ssid', message: 'is required' },
+      { path: 'payload.ssdi', message: 'is not a known field' },
+    ]);
+  });
+
+  it('accepts downloadUrl, the documented name for an install url', () => {
+    const installApp = BUILT_IN_COMMAND_PAYLOAD_SCHEMAS.installApp!;
+    expect(
+      validateCommandPayload(
+        { packageName: 'com.example', downloadUrl: 'https://cdn.example.com/app.apk' },
+        installApp,
+      ),
+    ).toEqual([]);
+  });
+
+  it('treats null fields as absent', () => {
+    const installApp = BUILT_IN_COMMAND_PAYLOAD_SCHEMAS.installApp!;
+    expect(validateCommandPayload({ packageName: 'com.example', hash: null }, installApp)).toEqual(
+      [],
+    );
+  });
+
+  it('checks bounds and array items', () => {
+    expect(
+      validateCommandPayload({ level: 150 }, BUILT_IN_COMMAND_PAYLOAD_SCHEMAS.setVolume!),
+    ).toEqual([{ path: 'payload.level', message: 'must be at most 100' }]);
+    expect(
+      validateCommandPayload(
+        { packageName: 'com.example', permissions: ['CAMERA', 7] },
+        BUILT_IN_COMMAND_PAYLOAD_SCHEMAS.grantPermissions!,
+      ),
+    ).toEqual([{ path: 'payload.permissions[1]', message: 'must be a string' }]);
+  });
+
+  it('rejects a payload that is not an object', () => {
+    expect(validateCommandPayload(['ssid'], setWifi)).toEqual([
+      { path: 'payload', message: 'must be an object' },
+    ]);
+  });
+});
+
+describe('commands.send', () => {
+  it('throws a ValidationError carrying the issues, and queues nothing', async () => {
+    const { mdm, db } = buildMDM();
+
+    const error = await mdm.commands
+      .send({ deviceId: 'd1', type: 'setWifi', payload: { ssdi: 'Store-5' } as any })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.details.issues).toContainEqual({ path: 'payload.ssid', message: 'is required' });
+    expect(db._commands).toHaveLength(0);
+  });
+
+  it('leaves types without a schema alone', async () => {
+    const { mdm } = buildMDM();
+
+    await expect(
+      mdm.commands.send({ deviceId: 'd1', type: 'custom', payload: { anything: true } }),
+    ).resolves.toMatchObject({ type: 'custom' });
+  });
+
+  it('uses schemas contributed by plugins', async () => {
+    const plugin: MDMPlugin = {
+      name: 'kiosk',
+      version: '1.0.0',
+      commandTypes: ['enterKiosk'],
+      commandPayloadSchemas: { enterKiosk: { fields: { app: { type: 'string' } } } },
+    };
+    const { mdm } = buildMDM([plugin]);
+
+    await expect(
+      mdm.commands.send({ deviceId: 'd1', type: 'enterKiosk', payload: { ap: 'com.pos' } }),
+    ).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      mdm.commands.send({ deviceId: 'd1', type: 'enterKiosk', payload: { app: 'com.pos' } }),
+    ).resolves.toMatchObject({ type: 'enterKiosk' });
+  });
+
+  it('rejects a bad bulk payload before creating the campaign', async () => {
+    const { mdm, db } = buildMDM();
+    const createCampaign = vi.spyOn(db, 'createCommandCampaign');
+
+    await expect(
+      mdm.commands.sendBulk({
+        type: 'shell',
+        payload: { cmd: 'reboot' } as any,
+        target: { devices: ['d1'] },
+      }),
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(createCampaign).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Command priority and notBefore.
+ *
+ * `getPendingCommands` handed commands out in whatever order the adapter
+ * chose, so a `lock` could sit behind a queue of app installs, and nothing
+ * could say "not before 02:00". Commands now carry a `priority` and a
+ * `notBefore`, and both `getPending` and the retry sweep honour them.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  COMMAND_PRIORITY,
+  createMDM,
+  createSilentLogger,
+  type PushAdapter,
+  ValidationError,
+} from '../src/index';
+
+const HOUR = 60 * 60 * 1000;
+
+function createMemoryAdapter() {
+  const commands = new Map<string, any>();
+  let counter = 0;
+
+  return {
+    _commands: commands,
+    async findDevice(id: string) {
+      return { id, status: 'enrolled' };
+    },
+    async findCommand(id: string) {
+      return commands.get(id) || null;
+    },
+    async createCommand(data: any) {
+      const command = {
+        id: `command-${++counter}`,
+        attemptCount: 0,
+        ...data,
+        // Strictly increasing, so "oldest first" is observable.
+        createdAt: new Date(Date.now() + counter),
+      };
+      commands.set(command.id, command);
+      return command;
+    },
+    async updateCommand(id: string, data: any) {
+      const updated = { ...commands.get(id), ...data };
+      commands.set(id, updated);
+      return updated;
+    },
+    // Deliberately unordered and unfiltered: core must not rely on the adapter.
+    async getPendingCommands(deviceId: string) {
+      return Array.from(commands.values()).filter(
+        (c) => c.deviceId === deviceId && (c.status === 'pending' || c.status === 'sent'),
+      );
+    },
+    async listRetryableCommands() {
+      return Array.from(commands.values()).filter((c) => c.status === 'pending');
+    },
+    async createEvent(data: any) {
+      return { id: `event-${++counter}`, ...data, createdAt: new Date() };
+    },
+  } as any;
+}
+
+function buildMDM() {
+  const db = createMemoryAdapter();
+  const push: PushAdapter = {
+    send: vi.fn(async () => ({ success: true })),
+    sendBatch: vi.fn(async () => ({ successCount: 0, failureCount: 0, results: [] })),
+  };
+  const mdm = createMDM({ database: db, push, logger: createSilentLogger() });
+  return { mdm, db, push };
+}
+
+describe('priority', () => {
+  it('puts higher priority first, then oldest first', async () => {
+    const { mdm } = buildMDM();
+    await mdm.commands.send({ deviceId: 'd1', type: 'installApp', payload: { packageName: 'a' } });
+    await mdm.commands.send({ deviceId: 'd1', type: 'installApp', payload: { packageName: 'b' } });
+    await mdm.commands.send({ deviceId: 'd1', type: 'lock', priority: COMMAND_PRIORITY.urgent });
+    await mdm.commands.send({ deviceId: 'd1', type: 'sync', priority: COMMAND_PRIORITY.low });
+
+    const pending = await mdm.commands.getPending('d1');
+
+    expect(pending.map((c) => c.payload?.packageName ?? c.type)).toEqual([
+      'lock',
+      'a',
+      'b',
+      'sync',
+    ]);
+  });
+
+  it('must be an integer', async () => {
+    const { mdm } = buildMDM();
+
+    await expect(
+      mdm.commands.send({ deviceId: 'd1', type: 'lock', priority: 1.5 }),
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+});
+
+describe('notBefore', () => {
+  it('is neither pushed nor handed out until due', async () => {
+    const { mdm, push } = buildMDM();
+
+    const command = await mdm.commands.send({
+      deviceId: 'd1',
+      type: 'reboot',
+      notBefore: new Date(Date.now() + HOUR),
+    });
+
+    expect(command.status).toBe('pending');
+    expect(push.send).not.toHaveBeenCalled();
+    expect(await mdm.commands.getPending('d1')).toEqual([]);
+  });
+
+  it('is pushed by the retry sweep once due', async () => {
+    const { mdm, db, push } = buildMDM();
+    const command = await mdm.commands.send({
+      deviceId: 'd1',
+      type: 'reboot',
+      notBefore: new Date(Date.now() + HOUR),
+    });
+
+    expect(await mdm.commands.retryPending()).toMatchObject({ delivered: 0, deferred: 0 });
+
+    db._commands.get(command.id).notBefore = new Date(Date.now() - 1000);
+    expect(await mdm.commands.retryPending()).toMatchObject({ delivered: 1 });
+    expect(push.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts the TTL when the command becomes due', async () => {
+    const { mdm } = buildMDM();
+    const notBefore = new Date(Date.now() + 10 * HOUR);
+
+    const command = await mdm.commands.send({
+      deviceId: 'd1',
+      type: 'reboot',
+      notBefore,
+      ttlSeconds: 3600,
+    });
+
+    expect(command.expiresAt!.getTime()).toBe(notBefore.getTime() + HOUR);
+  });
+
+  it('rejects an expiry before it', async () => {
+    const { mdm } = buildMDM();
+
+    await expect(
+      mdm.commands.send({
+        deviceId: 'd1',
+        type: 'reboot',
+        notBefore: new Date(Date.now() + 2 * HOUR),
+        expiresAt: new Date(Date.now() + HOUR),
+      }),
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+});
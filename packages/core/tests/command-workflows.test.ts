@@ -0,0 +1,305 @@
+/**
+ * Command workflows.
+ *
+ * Provisioning a kiosk device is "install app → grant permissions →
+ * whitelistBattery → enterKiosk → reboot", and each of those used to be an
+ * independent command that `getPendingCommands` could hand out in any order.
+ * A workflow holds the sequence: only the current step has a command, the
+ * next one is created when it completes, and a failed step aborts, skips or
+ * retries according to its `onFailure`.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createMDM,
+  createSilentLogger,
+  type MDMPlugin,
+  type PushAdapter,
+  ValidationError,
+} from '../src/index';
+
+function createMemoryAdapter() {
+  const devices = new Map<string, any>([['d1', { id: 'd1', status: 'enrolled' }]]);
+  const commands = new Map<string, any>();
+  const workflows = new Map<string, any>();
+  let counter = 0;
+
+  return {
+    _commands: commands,
+
+    async findDevice(id: string) {
+      return devices.get(id) || null;
+    },
+    async findCommand(id: string) {
+      return commands.get(id) || null;
+    },
+    async listCommands(filter: any = {}) {
+      return Array.from(commands.values()).filter(
+        (c) => !filter.workflowId || c.workflowId === filter.workflowId,
+      );
+    },
+    async createCommand(data: any) {
+      const command = {
+        id: `command-${++counter}`,
+        attemptCount: 0,
+        ...data,
+        createdAt: new Date(),
+      };
+      commands.set(command.id, command);
+      return command;
+    },
+    async updateCommand(id: string, data: any) {
+      if (!commands.has(id)) return null;
+      const updated = { ...commands.get(id), ...data };
+      commands.set(id, updated);
+      return updated;
+    },
+    async getPendingCommands(deviceId: string) {
+      return Array.from(commands.values()).filter(
+        (c) => c.deviceId === deviceId && (c.status === 'pending' || c.status === 'sent'),
+      );
+    },
+    async createCommandWorkflow(data: any) {
+      const workflow = {
+        id: `workflow-${++counter}`,
+        status: 'running',
+        currentStep: 0,
+        ...data,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      workflows.set(workflow.id, workflow);
+      return workflow;
+    },
+    async findCommandWorkflow(id: string) {
+      return workflows.get(id) || null;
+    },
+    async listCommandWorkflows(filter: any = {}) {
+      return Array.from(workflows.values()).filter(
+        (w) => !filter.status || w.status === filter.status,
+      );
+    },
+    async updateCommandWorkflow(id: string, data: any) {
+      const updated = { ...workflows.get(id), ...data, updatedAt: new Date() };
+      workflows.set(id, updated);
+      return updated;
+    },
+    async createEvent(data: any) {
+      return { id: `event-${++counter}`, ...data, createdAt: new Date() };
+    },
+  } as any;
+}
+
+function buildMDM(plugins: MDMPlugin[] = []) {
+  const db = createMemoryAdapter();
+  const push: PushAdapter = {
+    send: vi.fn(async () => ({ success: true })),
+    sendBatch: vi.fn(async () => ({ successCount: 0, failureCount: 0, results: [] })),
+  };
+  const mdm = createMDM({ database: db, push, plugins, logger: createSilentLogger() });
+  return { mdm, db, push };
+}
+
+const provisionKiosk = [
+  { type: 'installApp' as const, payload: { packageName: 'com.pos' } },
+  { type: 'whitelistBattery' as const, payload: { packageName: 'com.pos' } },
+  { type: 'reboot' as const },
+];
+
+async function pendingTypes(mdm: ReturnType<typeof buildMDM>['mdm']) {
+  return (await mdm.commands.getPending('d1')).map((command) => command.type);
+}
+
+describe('startWorkflow', () => {
+  it('releases only the first step', async () => {
+    const { mdm } = buildMDM();
+
+    const workflow = await mdm.commands.startWorkflow({ deviceId: 'd1', steps: provisionKiosk });
+
+    expect(workflow.status).toBe('running');
+    expect(workflow.steps.map((step) => step.status)).toEqual(['running', 'waiting', 'waiting']);
+    expect(await pendingTypes(mdm)).toEqual(['installApp']);
+  });
+
+  it('releases each step once the one before completes, then completes', async () => {
+    const { mdm } = buildMDM();
+    const stepCompleted = vi.fn();
+    const completed = vi.fn();
+    mdm.on('workflow.stepCompleted', stepCompleted);
+    mdm.on('workflow.completed', completed);
+
+    const workflow = await mdm.commands.startWorkflow({ deviceId: 'd1', steps: provisionKiosk });
+
+    for (const expected of ['installApp', 'whitelistBattery', 'reboot']) {
+      const [pending] = await mdm.commands.getPending('d1');
+      expect(pending?.type).toBe(expected);
+      await mdm.commands.complete(pending!.id, { success: true });
+    }
+
+    const finished = await mdm.commands.getWorkflow(workflow.id);
+    expect(finished).toMatchObject({ status: 'completed', currentStep: 2 });
+    expect(finished!.steps.every((step) => step.status === 'completed')).toBe(true);
+    expect(stepCompleted).toHaveBeenCalledTimes(3);
+    expect(completed).toHaveBeenCalledTimes(1);
+  });
+
+  it('validates every step payload before sending anything', async () => {
+    const { mdm, db } = buildMDM();
+
+    await expect(
+      mdm.commands.startWorkflow({
+        deviceId: 'd1',
+        steps: [...provisionKiosk, { type: 'setWifi', payload: { ssdi: 'Store' } as any }],
+      }),
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(db._commands.size).toBe(0);
+  });
+});
+
+describe('on failure', () => {
+  it('aborts by default and never sends the later steps', async () => {
+    const { mdm } = buildMDM();
+    const failed = vi.fn();
+    mdm.on('workflow.failed', failed);
+
+    const workflow = await mdm.commands.startWorkflow({ deviceId: 'd1', steps: provisionKiosk });
+    const [install] = await mdm.commands.getPending('d1');
+    await mdm.commands.fail(install!.id, 'INSTALL_FAILED');
+
+    expect(await mdm.commands.getWorkflow(workflow.id)).toMatchObject({
+      status: 'failed',
+      error: 'INSTALL_FAILED',
+    });
+    expect(await pendingTypes(mdm)).toEqual([]);
+    expect(failed).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: expect.objectContaining({ error: 'INSTALL_FAILED' }) }),
+    );
+  });
+
+  it('skips the step and carries on', async () => {
+    const { mdm } = buildMDM();
+
+    const workflow = await mdm.commands.startWorkflow({
+      deviceId: 'd1',
+      steps: [
+        { type: 'whitelistBattery', payload: { packageName: 'com.pos' }, onFailure: 'skip' },
+        { type: 'reboot' },
+      ],
+    });
+    const [first] = await mdm.commands.getPending('d1');
+    await mdm.commands.fail(first!.id, 'NOT_SUPPORTED');
+
+    expect(await pendingTypes(mdm)).toEqual(['reboot']);
+    const current = await mdm.commands.getWorkflow(workflow.id);
+    expect(current!.steps[0]).toMatchObject({ status: 'skipped', error: 'NOT_SUPPORTED' });
+  });
+
+  it('retries the step up to maxRetries, then aborts', async () => {
+    const { mdm } = buildMDM();
+
+    const workflow = await mdm.commands.startWorkflow({
+      deviceId: 'd1',
+      steps: [
+        {
+          type: 'installApp',
+          payload: { packageName: 'com.pos' },
+          onFailure: 'retry',
+          maxRetries: 1,
+        },
+        { type: 'reboot' },
+      ],
+    });
+
+    const [first] = await mdm.commands.getPending('d1');
+    await mdm.commands.fail(first!.id, 'NETWORK');
+    const [retry] = await mdm.commands.getPending('d1');
+    expect(retry).toMatchObject({ type: 'installApp' });
+    expect(retry!.id).not.toBe(first!.id);
+
+    await mdm.commands.fail(retry!.id, 'NETWORK');
+
+    const current = await mdm.commands.getWorkflow(workflow.id);
+    expect(current).toMatchObject({ status: 'failed' });
+    expect(current!.steps[0]).toMatchObject({ status: 'failed', attempts: 2 });
+    expect(await pendingTypes(mdm)).toEqual([]);
+  });
+
+  it('ignores a superseded attempt settling late', async () => {
+    const { mdm } = buildMDM();
+
+    const workflow = await mdm.commands.startWorkflow({
+      deviceId: 'd1',
+      steps: [
+        { type: 'installApp', payload: { packageName: 'com.pos' }, onFailure: 'retry' },
+        { type: 'reboot' },
+      ],
+    });
+    const [first] = await mdm.commands.getPending('d1');
+    await mdm.commands.fail(first!.id, 'NETWORK');
+
+    await mdm.commands.complete(first!.id, { success: true });
+
+    expect(await mdm.commands.getWorkflow(workflow.id)).toMatchObject({ currentStep: 0 });
+    expect(await pendingTypes(mdm)).toEqual(['installApp']);
+  });
+});
+
+describe('cancelWorkflow', () => {
+  it('cancels the current command and stops', async () => {
+    const { mdm } = buildMDM();
+    const workflow = await mdm.commands.startWorkflow({ deviceId: 'd1', steps: provisionKiosk });
+
+    const cancelled = await mdm.commands.cancelWorkflow(workflow.id);
+
+    expect(cancelled.status).toBe('cancelled');
+    expect(await pendingTypes(mdm)).toEqual([]);
+  });
+
+  it('calls back a step already on the device', async () => {
+    const { mdm, push } = buildMDM();
+    const workflow = await mdm.commands.startWorkflow({ deviceId: 'd1', steps: provisionKiosk });
+    const [install] = await mdm.commands.getPending('d1');
+
+    await mdm.commands.cancelWorkflow(workflow.id);
+
+    expect(await mdm.commands.get(install!.id)).toMatchObject({
+      status: 'cancelled',
+      cancellation: 'requested',
+    });
+    expect(push.send).toHaveBeenCalledWith(
+      'd1',
+      expect.objectContaining({ type: 'command.cancel', payload: { commandId: install!.id } }),
+    );
+  });
+
+  it('stops the workflow when a step command is cancelled directly', async () => {
+    const { mdm } = buildMDM();
+    const workflow = await mdm.commands.startWorkflow({ deviceId: 'd1', steps: provisionKiosk });
+    const [install] = await mdm.commands.getPending('d1');
+
+    await mdm.commands.cancel(install!.id);
+
+    expect(await mdm.commands.getWorkflow(workflow.id)).toMatchObject({ status: 'cancelled' });
+  });
+});
+
+describe('plugin-owned steps', () => {
+  it('run inline and release the next step', async () => {
+    const plugin: MDMPlugin = {
+      name: 'kiosk',
+      version: '1.0.0',
+      commandTypes: ['enterKiosk'],
+      executeCommand: vi.fn(async () => ({ success: true })),
+    };
+    const { mdm } = buildMDM([plugin]);
+
+    const workflow = await mdm.commands.startWorkflow({
+      deviceId: 'd1',
+      steps: [{ type: 'enterKiosk', payload: { app: 'com.pos' } }, { type: 'reboot' }],
+    });
+
+    expect(plugin.executeCommand).toHaveBeenCalledTimes(1);
+    expect(workflow).toMatchObject({ currentStep: 1 });
+    expect(await pendingTypes(mdm)).toEqual(['reboot']);
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Compliance rules.
+ *
+ * Heartbeats carried `isRooted`, `isEncrypted` and the OS and agent
+ * versions, and nothing read them. A policy's `complianceRules` now say
+ * what its devices must report; each heartbeat is checked, the device's
+ * state is kept on its row, and the policy's remediation runs when the
+ * device falls out of compliance.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type ComplianceRule,
+  createMDM,
+  createSilentLogger,
+  evaluateComplianceRules,
+  type Heartbeat,
+  type MDMInstance,
+  ValidationError,
+} from '../src/index';
+
+const RULES: ComplianceRule[] = [
+  { field: 'isEncrypted', operator: 'eq', value: true },
+  { field: 'osVersion', operator: 'gte', value: '12' },
+  { id: 'agent', field: 'agentVersion', operator: 'gte', value: '3.2' },
+];
+
+describe('evaluateComplianceRules', () => {
+  it('compares versions as dotted numbers', () => {
+    expect(
+      evaluateComplianceRules(RULES, {
+        isEncrypted: true,
+        osVersion: '13',
+        agentVersion: '3.10.1',
+      }),
+    ).toEqual([]);
+
+    expect(
+      evaluateComplianceRules(RULES, { isEncrypted: true, osVersion: '11', agentVersion: '3.2' }),
+    ).toEqual([
+      {
+        ruleId: 'osVersion gte 12',
+        field: 'osVersion',
+        operator: 'gte',
+        expected: '12',
+        actual: '11',
+      },
+    ]);
+  });
+
+  it('counts a field the device did not report as a violation', () => {
+    const violations = evaluateComplianceRules(RULES, { osVersion: '14', agentVersion: 'beta' });
+
+    expect(violations.map((violation) => [violation.ruleId, violation.actual])).toEqual([
+      ['isEncrypted eq true', null],
+      ['agent', 'beta'],
+    ]);
+  });
+});
+
+function createMemoryAdapter() {
+  const devices = new Map<string, any>([
+    ['d1', { id: 'd1', status: 'enrolled', policyId: 'corp', osVersion: '13' }],
+    ['d2', { id: 'd2', status: 'enrolled', policyId: null, osVersion: '13' }],
+  ]);
+  const branch = { id: 'branch', name: 'Branch', parentId: null, policyId: 'corp' };
+  const policies = new Map<string, any>([
+    ['quarantine', { id: 'quarantine', name: 'Quarantine', settings: {}, version: 1 }],
+  ]);
+
+  return {
+    _devices: devices,
+    async findDevice(id: string) {
+      return devices.get(id) ?? null;
+    },
+    async updateDevice(id: string, data: any) {
+      const updated = { ...devices.get(id), ...data };
+      devices.set(id, updated);
+      return updated;
+    },
+    async findPolicy(id: string) {
+      return policies.get(id) ?? null;
+    },
+    async listPolicies() {
+      return Array.from(policies.values());
+    },
+    async listGroups() {
+      return [branch];
+    },
+    async getDeviceGroups(deviceId: string) {
+      return deviceId === 'd2' ? [branch] : [];
+    },
+    async createPolicy(data: any) {
+      const policy = { id: 'corp', isDefault: false, ...data };
+      policies.set(policy.id, policy);
+      return policy;
+    },
+    async createCommand(data: any) {
+      return { id: 'cmd_1', status: 'pending', ...data, createdAt: new Date() };
+    },
+    async createEvent(data: any) {
+      return { id: 'event', ...data, createdAt: new Date() };
+    },
+  } as any;
+}
+
+const heartbeat = (telemetry: Partial<Heartbeat>): Heartbeat => ({
+  deviceId: 'd1',
+  timestamp: new Date(),
+  batteryLevel: 80,
+  isCharging: false,
+  storageUsed: 0,
+  storageTotal: 0,
+  memoryUsed: 0,
+  memoryTotal: 0,
+  installedApps: [],
+  ...telemetry,
+});
+
+const HEALTHY = { isEncrypted: true, agentVersion: '3.2.0' };
+
+describe('heartbeat compliance', () => {
+  let db: ReturnType<typeof createMemoryAdapter>;
+  let mdm: MDMInstance;
+
+  beforeEach(() => {
+    db = createMemoryAdapter();
+    mdm = createMDM({ database: db, logger: createSilentLogger() });
+  });
+
+  it('quarantines a device that breaks the rules and restores it once it complies', async () => {
+    const nonCompliant = vi.fn();
+    const compliant = vi.fn();
+    mdm.on('device.nonCompliant', nonCompliant);
+    mdm.on('device.compliant', compliant);
+    await mdm.policies.create({
+      name: 'Corporate',
+      settings: {},
+      complianceRules: {
+        rules: RULES,
+        remediation: [{ action: 'quarantine', policyId: 'quarantine' }],
+      },
+    });
+
+    await mdm.processHeartbeat('d1', heartbeat({ ...HEALTHY, isEncrypted: false }));
+    await mdm.processHeartbeat('d1', heartbeat({ ...HEALTHY, isEncrypted: false }));
+
+    expect(db._devices.get('d1')).toMatchObject({
+      complianceState: 'nonCompliant',
+      policyId: 'quarantine',
+      quarantinedFromPolicyId: 'corp',
+    });
+    expect(nonCompliant).toHaveBeenCalledTimes(1);
+    expect(nonCompliant.mock.calls[0]![0].payload.violations).toEqual([
+      expect.objectContaining({ ruleId: 'isEncrypted eq true', actual: false }),
+    ]);
+
+    await mdm.processHeartbeat('d1', heartbeat(HEALTHY));
+
+    expect(db._devices.get('d1')).toMatchObject({
+      complianceState: 'compliant',
+      complianceViolations: [],
+      policyId: 'corp',
+      quarantinedFromPolicyId: null,
+    });
+    expect(compliant).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks a device that gets its policy through a group, and releases it to none', async () => {
+    await mdm.policies.create({
+      name: 'Corporate',
+      settings: {},
+      complianceRules: {
+        rules: RULES,
+        remediation: [{ action: 'quarantine', policyId: 'quarantine' }],
+      },
+    });
+
+    await mdm.processHeartbeat('d2', heartbeat({ ...HEALTHY, deviceId: 'd2', isEncrypted: false }));
+
+    expect(db._devices.get('d2')).toMatchObject({
+      complianceState: 'nonCompliant',
+      policyId: 'quarantine',
+      quarantinedFromPolicyId: 'corp',
+    });
+
+    await mdm.processHeartbeat('d2', heartbeat({ ...HEALTHY, deviceId: 'd2' }));
+
+    expect(db._devices.get('d2')).toMatchObject({
+      complianceState: 'compliant',
+      policyId: null,
+      quarantinedFromPolicyId: null,
+    });
+  });
+
+  it('leaves a quarantined device an admin has reassigned where they put it', async () => {
+    await mdm.policies.create({
+      name: 'Corporate',
+      settings: {},
+      complianceRules: {
+        rules: RULES,
+        remediation: [{ action: 'quarantine', policyId: 'quarantine' }],
+      },
+    });
+    await mdm.processHeartbeat('d1', heartbeat({ ...HEALTHY, isEncrypted: false }));
+
+    await mdm.devices.assignPolicy('d1', 'quarantine');
+    expect(db._devices.get('d1').quarantinedFromPolicyId).toBeNull();
+
+    await mdm.processHeartbeat('d1', heartbeat(HEALTHY));
+
+    expect(db._devices.get('d1')).toMatchObject({
+      complianceState: 'compliant',
+      policyId: 'quarantine',
+    });
+  });
+
+  it('notifies and blocks when the policy asks for it', async () => {
+    const blocked = vi.fn();
+    mdm.on('device.blocked', blocked);
+    const send = vi.spyOn(mdm.commands, 'send');
+    await mdm.policies.create({
+      name: 'Corporate',
+      settings: {},
+      complianceRules: {
+        rules: [{ field: 'isRooted', operator: 'eq', value: false }],
+        remediation: [{ action: 'notify', title: 'Unroot this device' }, { action: 'block' }],
+      },
+    });
+
+    await mdm.processHeartbeat('d1', heartbeat({ isRooted: true }));
+
+    expect(send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'sendNotification',
+        payload: { title: 'Unroot this device', body: 'isRooted eq false' },
+      }),
+    );
+    expect(db._devices.get('d1').status).toBe('blocked');
+    expect(blocked).toHaveBeenCalledTimes(1);
+  });
+
+  it('records nothing for a device whose policy has no rules', async () => {
+    await mdm.policies.create({ name: 'Corporate', settings: {} });
+
+    await mdm.processHeartbeat('d1', heartbeat({ isRooted: true }));
+
+    expect(db._devices.get('d1').complianceState).toBeUndefined();
+  });
+
+  it('keeps the security flags the heartbeat reported', async () => {
+    await mdm.policies.create({ name: 'Corporate', settings: {} });
+
+    await mdm.processHeartbeat('d1', heartbeat({ isRooted: false, isEncrypted: true }));
+
+    expect(db._devices.get('d1').securityTelemetry).toEqual({
+      isRooted: false,
+      isEncrypted: true,
+    });
+  });
+
+  it('keeps flags a heartbeat leaves out, and stays compliant on them', async () => {
+    const nonCompliant = vi.fn();
+    mdm.on('device.nonCompliant', nonCompliant);
+    await mdm.policies.create({
+      name: 'Corporate',
+      settings: {},
+      complianceRules: {
+        rules: RULES,
+        remediation: [{ action: 'quarantine', policyId: 'quarantine' }],
+      },
+    });
+    await mdm.processHeartbeat('d1', heartbeat(HEALTHY));
+
+    await mdm.processHeartbeat('d1', heartbeat({ agentVersion: '3.2.0', isRooted: false }));
+
+    expect(db._devices.get('d1')).toMatchObject({
+      complianceState: 'compliant',
+      policyId: 'corp',
+      securityTelemetry: { isEncrypted: true, isRooted: false },
+    });
+    expect(nonCompliant).not.toHaveBeenCalled();
+  });
+
+  it('rejects malformed rules and unknown quarantine policies', async () => {
+    await expect(
+      mdm.policies.create({
+        name: 'Corporate',
+        settings: {},
+        complianceRules: {
+          rules: [{ field: 'isRooted', operator: 'gte', value: 'yes' }],
+          remediation: [{ action: 'quarantine', policyId: 'nope' }],
+        },
+      }),
+    ).rejects.toBeInstanceOf(ValidationError);
+
+    await expect(
+      mdm.policies.create({
+        name: 'Corporate',
+        settings: {},
+        complianceRules: {
+          rules: RULES,
+          remediation: [{ action: 'quarantine', policyId: 'nope' }],
+        },
+      }),
+    ).rejects.toThrow('Quarantine policy nope does not exist');
+  });
+});
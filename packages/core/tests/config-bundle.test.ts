@@ -0,0 +1,315 @@
+/**
+ * Configuration bundles.
+ *
+ * Policies, groups, app registrations and scheduled tasks were copied
+ * between staging and production by hand. A bundle carries them as one
+ * document with references by name, and importing it plans — and, unless
+ * asked not to, applies — what makes the target match.
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  type ConfigBundle,
+  createMDM,
+  createSilentLogger,
+  exportConfigBundle,
+  importConfigBundle,
+  type MDMInstance,
+  REDACTED_SECRET,
+  ValidationError,
+} from '../src/index';
+
+function createMemoryAdapter() {
+  let nextId = 1;
+  const id = (prefix: string) => `${prefix}_${nextId++}`;
+  const policies = new Map<string, any>();
+  const groups = new Map<string, any>();
+  const apps = new Map<string, any>();
+
+  return {
+    _policies: policies,
+    _groups: groups,
+    async findPolicy(policyId: string) {
+      return policies.get(policyId) ?? null;
+    },
+    async listPolicies() {
+      return Array.from(policies.values());
+    },
+    async createPolicy(data: any) {
+      const policy = { id: id('pol'), isDefault: false, version: 1, ...data };
+      policies.set(policy.id, policy);
+      return policy;
+    },
+    async updatePolicy(policyId: string, data: any) {
+      const policy = { ...policies.get(policyId), ...data };
+      policies.set(policyId, policy);
+      return policy;
+    },
+    async deletePolicy(policyId: string) {
+      policies.delete(policyId);
+    },
+    async listDevices() {
+      return { devices: [], total: 0 };
+    },
+    async listGroups() {
+      return Array.from(groups.values());
+    },
+    async findGroup(groupId: string) {
+      return groups.get(groupId) ?? null;
+    },
+    async createGroup(data: any) {
+      const group = { id: id('grp'), parentId: null, policyId: null, ...data };
+      groups.set(group.id, group);
+      return group;
+    },
+    async updateGroup(groupId: string, data: any) {
+      const group = { ...groups.get(groupId), ...data };
+      groups.set(groupId, group);
+      return group;
+    },
+    async deleteGroup(groupId: string) {
+      groups.delete(groupId);
+    },
+    async listDevicesInGroup() {
+      return [];
+    },
+    async listApplications() {
+      return Array.from(apps.values());
+    },
+    async createApplication(data: any) {
+      const app = {
+        id: id('app'),
+        showIcon: true,
+        runAfterInstall: false,
+        runAtBoot: false,
+        isSystem: false,
+        isActive: true,
+        ...data,
+      };
+      apps.set(app.id, app);
+      return app;
+    },
+    async updateApplication(appId: string, data: any) {
+      const app = { ...apps.get(appId), ...data };
+      apps.set(appId, app);
+      return app;
+    },
+    async deleteApplication(appId: string) {
+      apps.delete(appId);
+    },
+    async createEvent(data: any) {
+      return { id: 'event', ...data, createdAt: new Date() };
+    },
+  } as any;
+}
+
+function createMemorySchedules() {
+  const tasks = new Map<string, any>();
+  let nextId = 1;
+  return {
+    _tasks: tasks,
+    async list() {
+      const all = Array.from(tasks.values());
+      return { tasks: all, total: all.length, limit: 500, offset: 0 };
+    },
+    async create(data: any) {
+      const task = { id: `task_${nextId++}`, status: 'active', maxRetries: 3, ...data };
+      tasks.set(task.id, task);
+      return task;
+    },
+    async update(taskId: string, data: any) {
+      const task = { ...tasks.get(taskId), ...data };
+      tasks.set(taskId, task);
+      return task;
+    },
+    async delete(taskId: string) {
+      tasks.delete(taskId);
+    },
+  } as any;
+}
+
+function createInstance() {
+  const db = createMemoryAdapter();
+  const mdm = createMDM({ database: db, logger: createSilentLogger() });
+  const schedules = createMemorySchedules();
+  return { db, target: { ...mdm, schedules } as MDMInstance, schedules };
+}
+
+async function seed(mdm: MDMInstance) {
+  const quarantine = await mdm.policies.create({
+    name: 'Quarantine',
+    settings: { kioskMode: true },
+  });
+  const store = await mdm.policies.create({
+    name: 'Store',
+    settings: { lockSettings: true },
+    complianceRules: {
+      rules: [{ field: 'isRooted', operator: 'eq', value: false }],
+      remediation: [{ action: 'quarantine', policyId: quarantine.id }],
+    },
+  });
+  const region = await mdm.groups.create({ name: 'Region A' });
+  const shop = await mdm.groups.create({
+    name: 'Store 5',
+    parentId: region.id,
+    policyId: store.id,
+  });
+  await mdm.apps.register({
+    name: 'POS',
+    packageName: 'com.example.pos',
+    version: '4.2.0',
+    versionCode: 420,
+    url: 'https://apps.example.com/pos-4.2.0.apk',
+  });
+  await mdm.schedules!.create({
+    name: 'Nightly reboot',
+    taskType: 'command',
+    schedule: { type: 'recurring', cron: '0 3 * * *' },
+    target: { groups: [shop.id], policies: [store.id] },
+    payload: { type: 'reboot' },
+  });
+}
+
+describe('config bundles', () => {
+  let staging: ReturnType<typeof createInstance>;
+  let production: ReturnType<typeof createInstance>;
+
+  beforeEach(async () => {
+    staging = createInstance();
+    production = createInstance();
+    await seed(staging.target);
+  });
+
+  it('exports references by name and path, not id', async () => {
+    const bundle = await exportConfigBundle(staging.target);
+
+    expect(bundle.apiVersion).toBe('openmdm/v1');
+    expect(bundle.policies.map((policy) => policy.name)).toEqual(['Quarantine', 'Store']);
+    expect(bundle.policies[1]!.complianceRules!.remediation).toEqual([
+      { action: 'quarantine', policyId: 'Quarantine' },
+    ]);
+    expect(bundle.groups).toEqual([
+      { path: 'Region A' },
+      { path: 'Region A/Store 5', policy: 'Store' },
+    ]);
+    expect(bundle.scheduledTasks[0]!.target).toEqual({
+      groups: ['Region A/Store 5'],
+      policies: ['Store'],
+    });
+  });
+
+  it('recreates the configuration on another instance, and then has nothing left to do', async () => {
+    const bundle = await exportConfigBundle(staging.target);
+
+    const plan = await importConfigBundle(production.target, bundle);
+
+    expect(plan.summary).toEqual({ create: 6, update: 0, delete: 0 });
+    expect(plan.applied).toBe(true);
+    const copied = await exportConfigBundle(production.target);
+    expect(copied).toEqual(bundle);
+
+    const again = await importConfigBundle(production.target, bundle);
+    expect(again.changes).toEqual([]);
+  });
+
+  it('plans updates without applying them on a dry run', async () => {
+    await importConfigBundle(production.target, await exportConfigBundle(staging.target));
+    const bundle = await exportConfigBundle(staging.target);
+    bundle.policies[1]!.settings = { lockSettings: false, blockInstall: true };
+    bundle.groups[1]!.policy = 'Quarantine';
+
+    const plan = await importConfigBundle(production.target, bundle, { dryRun: true });
+
+    expect(plan.applied).toBe(false);
+    expect(plan.changes).toEqual([
+      expect.objectContaining({
+        resource: 'policy',
+        action: 'update',
+        key: 'Store',
+        fields: ['settings.blockInstall', 'settings.lockSettings'],
+      }),
+      expect.objectContaining({
+        resource: 'group',
+        action: 'update',
+        key: 'Region A/Store 5',
+        fields: ['policy'],
+      }),
+    ]);
+    const store = Array.from(production.db._policies.values()).find(
+      (policy: any) => policy.name === 'Store',
+    ) as any;
+    expect(store.settings).toEqual({ lockSettings: true });
+  });
+
+  it('prunes only the kinds the bundle lists, children before parents', async () => {
+    await importConfigBundle(production.target, await exportConfigBundle(staging.target));
+    const bundle: ConfigBundle = {
+      apiVersion: 'openmdm/v1',
+      policies: [],
+      groups: [],
+    } as unknown as ConfigBundle;
+
+    const plan = await importConfigBundle(production.target, bundle, { prune: true });
+
+    expect(
+      plan.changes.map((change) => `${change.action} ${change.resource} ${change.key}`),
+    ).toEqual([
+      'delete group Region A/Store 5',
+      'delete group Region A',
+      'delete policy Store',
+      'delete policy Quarantine',
+    ]);
+    expect(production.db._groups.size).toBe(0);
+    expect(production.schedules._tasks.size).toBe(1);
+  });
+
+  it('rejects a bundle with dangling references before writing anything', async () => {
+    const bundle = await exportConfigBundle(staging.target);
+    bundle.groups[1]!.policy = 'Warehouse';
+    bundle.policies[0]!.settings = { kioskMode: 'yes' } as any;
+
+    const error = await importConfigBundle(production.target, bundle).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.details.issues).toEqual([
+      'policies[0].settings.kioskMode must be a boolean',
+      'groups[1].policy is unknown: Warehouse',
+    ]);
+    expect(production.db._policies.size).toBe(0);
+  });
+
+  it('leaves passwords out of an export unless asked, and keeps the target ones', async () => {
+    await staging.target.policies.create({
+      name: 'Kiosk',
+      settings: {
+        kioskExitPassword: '2468',
+        wifiConfigs: [{ ssid: 'Shop', securityType: 'wpa2', password: 'hunter2' }],
+      },
+    });
+
+    const bundle = await exportConfigBundle(staging.target);
+    const kiosk = bundle.policies.find((policy) => policy.name === 'Kiosk')!;
+    expect(kiosk.settings).toEqual({
+      kioskExitPassword: REDACTED_SECRET,
+      wifiConfigs: [{ ssid: 'Shop', securityType: 'wpa2', password: REDACTED_SECRET }],
+    });
+
+    const error = await importConfigBundle(production.target, bundle).catch((e) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.details.issues).toEqual([
+      'policies[0].settings.kioskExitPassword is redacted and the target has none',
+      'policies[0].settings.wifiConfigs[Shop].password is redacted and the target has none',
+    ]);
+
+    await importConfigBundle(
+      production.target,
+      await exportConfigBundle(staging.target, { includeSecrets: true }),
+    );
+    const again = await importConfigBundle(production.target, bundle);
+    expect(again.changes).toEqual([]);
+    const copied = Array.from(production.db._policies.values()).find(
+      (policy: any) => policy.name === 'Kiosk',
+    ) as any;
+    expect(copied.settings.wifiConfigs[0].password).toBe('hunter2');
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Device presence.
+ *
+ * The MQTT and WebSocket adapters kept presence in an in-memory map: it
+ * vanished on restart and core never saw it, so nothing could filter devices
+ * by connectivity or react to a device dropping off. `devices.setPresence`
+ * persists transitions on the device row and emits them as events.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { createMDM, createSilentLogger, DeviceNotFoundError } from '../src/index';
+
+function createMemoryAdapter() {
+  const devices = new Map<string, any>();
+  const events: any[] = [];
+  let counter = 0;
+
+  return {
+    supportsTenantScoping: true,
+    _events: events,
+    async findDevice(id: string) {
+      return devices.get(id) || null;
+    },
+    async createDevice(data: any) {
+      const device = { id: `device-${++counter}`, status: 'enrolled', online: null, ...data };
+      devices.set(device.id, device);
+      return device;
+    },
+    async updateDevice(id: string, data: any) {
+      const updated = { ...devices.get(id), ...data };
+      devices.set(id, updated);
+      return updated;
+    },
+    async listDevices(filter: any = {}) {
+      const matched = Array.from(devices.values()).filter(
+        (device) => filter.online === undefined || device.online === filter.online,
+      );
+      const page = matched.slice(filter.offset ?? 0, (filter.offset ?? 0) + (filter.limit ?? 100));
+      return { devices: page, total: matched.length };
+    },
+    async createEvent(data: any) {
+      events.push(data);
+      return { id: `event-${++counter}`, ...data, createdAt: new Date() };
+    },
+  } as any;
+}
+
+function buildMDM() {
+  const db = createMemoryAdapter();
+  const mdm = createMDM({ database: db, logger: createSilentLogger() });
+  return { mdm, db };
+}
+
+describe('devices.setPresence', () => {
+  it('persists a transition and emits device.online', async () => {
+    const { mdm, db } = buildMDM();
+    const device = await db.createDevice({ enrollmentId: 'e1' });
+    const handler = vi.fn();
+    mdm.on('device.online', handler);
+
+    const updated = await mdm.devices.setPresence(device.id, true, { transport: 'mqtt' });
+
+    expect(updated.online).toBe(true);
+    expect(updated.presenceChangedAt).toBeInstanceOf(Date);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0].payload).toMatchObject({ transport: 'mqtt' });
+    expect(db._events.map((e: any) => e.type)).toEqual(['device.online']);
+  });
+
+  it('emits device.offline when the device disconnects', async () => {
+    const { mdm, db } = buildMDM();
+    const device = await db.createDevice({ enrollmentId: 'e1' });
+    const handler = vi.fn();
+    mdm.on('device.offline', handler);
+
+    await mdm.devices.setPresence(device.id, true);
+    const updated = await mdm.devices.setPresence(device.id, false);
+
+    expect(updated.online).toBe(false);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores a repeated report', async () => {
+    const { mdm, db } = buildMDM();
+    const device = await db.createDevice({ enrollmentId: 'e1' });
+
+    await mdm.devices.setPresence(device.id, true);
+    await mdm.devices.setPresence(device.id, true);
+
+    expect(db._events).toHaveLength(1);
+  });
+
+  it('ignores a report older than the last recorded change', async () => {
+    const { mdm, db } = buildMDM();
+    const device = await db.createDevice({ enrollmentId: 'e1' });
+    const reconnectedAt = new Date('2026-03-01T10:00:05Z');
+
+    await mdm.devices.setPresence(device.id, true, { at: reconnectedAt });
+    // A last-will "offline" from the connection the reconnect replaced.
+    const result = await mdm.devices.setPresence(device.id, false, {
+      at: new Date('2026-03-01T10:00:00Z'),
+    });
+
+    expect(result.online).toBe(true);
+    expect(result.presenceChangedAt).toEqual(reconnectedAt);
+  });
+
+  it('throws for an unknown device', async () => {
+    const { mdm } = buildMDM();
+
+    await expect(mdm.devices.setPresence('missing', true)).rejects.toThrow(/missing/);
+  });
+
+  it('is confined to the tenant of a scoped instance', async () => {
+    const { mdm, db } = buildMDM();
+    const device = await db.createDevice({ enrollmentId: 'e1', tenantId: 'other' });
+
+    await expect(
+      mdm.withContext({ tenantId: 'mine' }).devices.setPresence(device.id, true),
+    ).rejects.toThrow(DeviceNotFoundError);
+    expect(db._events).toHaveLength(0);
+  });
+});
+
+describe('devices.resetPresence', () => {
+  it('marks every device still shown online offline, as after a crash', async () => {
+    const { mdm, db } = buildMDM();
+    const a = await db.createDevice({ enrollmentId: 'e1' });
+    const b = await db.createDevice({ enrollmentId: 'e2' });
+    await db.createDevice({ enrollmentId: 'e3' });
+    await mdm.devices.setPresence(a.id, true);
+    await mdm.devices.setPresence(b.id, true);
+    const handler = vi.fn();
+    mdm.on('device.offline', handler);
+
+    const reset = await mdm.devices.resetPresence();
+
+    expect(reset).toBe(2);
+    expect((await db.findDevice(a.id)).online).toBe(false);
+    expect((await db.findDevice(b.id)).online).toBe(false);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('spares devices heard from since the cutoff', async () => {
+    const { mdm, db } = buildMDM();
+    const quiet = await db.createDevice({ enrollmentId: 'e1' });
+    const chatty = await db.createDevice({
+      enrollmentId: 'e2',
+      lastHeartbeat: new Date('2026-03-01T10:04:00Z'),
+    });
+    await mdm.devices.setPresence(quiet.id, true, { at: new Date('2026-03-01T09:00:00Z') });
+    await mdm.devices.setPresence(chatty.id, true, { at: new Date('2026-03-01T09:00:00Z') });
+
+    const reset = await mdm.devices.resetPresence({
+      silentSince: new Date('2026-03-01T10:00:00Z'),
+    });
+
+    expect(reset).toBe(1);
+    expect((await db.findDevice(quiet.id)).online).toBe(false);
+    expect((await db.findDevice(chatty.id)).online).toBe(true);
+  });
+});
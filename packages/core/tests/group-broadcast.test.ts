@@ -0,0 +1,205 @@
+/**
+ * Group broadcast.
+ *
+ * Pushing to a group used to mean `sendBatch` over every member — one FCM
+ * message per device, which is slow and burns quota on a 20k-device group.
+ * Group membership now keeps each device subscribed to the group's push
+ * topic, and `push.broadcast` sends once to that topic when the transport
+ * supports it.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createFailoverPushAdapter,
+  createMDM,
+  createSilentLogger,
+  GroupNotFoundError,
+  groupTopic,
+  type PushAdapter,
+  type PushMessage,
+} from '../src/index';
+
+const message: PushMessage = { type: 'config.refresh', priority: 'high' };
+
+function createMemoryAdapter() {
+  const groups = new Map<string, any>([['g1', { id: 'g1', name: 'Warehouse' }]]);
+  const members = new Map<string, Set<string>>([['g1', new Set()]]);
+
+  return {
+    async findGroup(id: string) {
+      return groups.get(id) || null;
+    },
+    async deleteGroup(id: string) {
+      groups.delete(id);
+      members.delete(id);
+    },
+    async listDevicesInGroup(groupId: string) {
+      return [...(members.get(groupId) ?? [])].map((id) => ({ id }));
+    },
+    async addDeviceToGroup(deviceId: string, groupId: string) {
+      members.get(groupId)?.add(deviceId);
+    },
+    async removeDeviceFromGroup(deviceId: string, groupId: string) {
+      members.get(groupId)?.delete(deviceId);
+    },
+    async getDeviceGroups(deviceId: string) {
+      return [...members].filter(([, ids]) => ids.has(deviceId)).map(([id]) => groups.get(id));
+    },
+    async upsertPushToken(data: any) {
+      return { id: 'token', isActive: true, ...data };
+    },
+    async createEvent(data: any) {
+      return { id: 'event', ...data, createdAt: new Date() };
+    },
+  } as any;
+}
+
+function createPushAdapter(options: { topics: boolean }) {
+  const adapter = {
+    send: vi.fn(async () => ({ success: true })),
+    sendBatch: vi.fn(async (deviceIds: string[]) => ({
+      successCount: deviceIds.length,
+      failureCount: 0,
+      results: deviceIds.map((deviceId) => ({ deviceId, result: { success: true } })),
+    })),
+    subscribe: vi.fn(async () => {}),
+    unsubscribe: vi.fn(async () => {}),
+    ...(options.topics
+      ? { sendToTopic: vi.fn(async () => ({ success: true, messageId: 'topic-msg' })) }
+      : {}),
+  };
+  return adapter as PushAdapter & typeof adapter & { sendToTopic?: ReturnType<typeof vi.fn> };
+}
+
+function buildMDM(options: { topics: boolean }) {
+  const db = createMemoryAdapter();
+  const push = createPushAdapter(options);
+  const mdm = createMDM({ database: db, push, logger: createSilentLogger() });
+  return { mdm, push };
+}
+
+describe('group topic subscriptions', () => {
+  it('subscribes a device to the group topic when it joins', async () => {
+    const { mdm, push } = buildMDM({ topics: true });
+
+    await mdm.groups.addDevice('g1', 'd1');
+    await mdm.devices.addToGroup('d2', 'g1');
+
+    expect(push.subscribe).toHaveBeenCalledWith('d1', groupTopic('g1'));
+    expect(push.subscribe).toHaveBeenCalledWith('d2', groupTopic('g1'));
+  });
+
+  it('unsubscribes a device when it leaves or the group is deleted', async () => {
+    const { mdm, push } = buildMDM({ topics: true });
+    await mdm.groups.addDevice('g1', 'd1');
+    await mdm.groups.addDevice('g1', 'd2');
+
+    await mdm.groups.removeDevice('g1', 'd1');
+    await mdm.groups.delete('g1');
+
+    expect(push.unsubscribe).toHaveBeenCalledWith('d1', groupTopic('g1'));
+    expect(push.unsubscribe).toHaveBeenCalledWith('d2', groupTopic('g1'));
+  });
+
+  it('does not fail the membership change when the transport does', async () => {
+    const { mdm, push } = buildMDM({ topics: true });
+    push.subscribe.mockRejectedValueOnce(new Error('No FCM token for device d1'));
+
+    await expect(mdm.groups.addDevice('g1', 'd1')).resolves.toBeUndefined();
+    expect(await mdm.groups.getDevices('g1')).toEqual([{ id: 'd1' }]);
+  });
+
+  it('subscribes once the agent registers the token enrollment lacked', async () => {
+    const { mdm, push } = buildMDM({ topics: true });
+    push.subscribe.mockRejectedValueOnce(new Error('No FCM token for device d1'));
+    await mdm.groups.addDevice('g1', 'd1');
+
+    await mdm.devices.registerPushToken('d1', { provider: 'fcm', token: 'fcm-token' });
+
+    expect(push.subscribe).toHaveBeenCalledTimes(2);
+    expect(push.subscribe).toHaveBeenLastCalledWith('d1', groupTopic('g1'));
+  });
+});
+
+describe('push.broadcast', () => {
+  it('sends once to the group topic when the transport supports topics', async () => {
+    const { mdm, push } = buildMDM({ topics: true });
+    await mdm.groups.addDevice('g1', 'd1');
+    await mdm.groups.addDevice('g1', 'd2');
+
+    const result = await mdm.push.broadcast('g1', message);
+
+    expect(result).toMatchObject({ groupId: 'g1', via: 'topic', success: true });
+    expect(push.sendToTopic).toHaveBeenCalledWith(groupTopic('g1'), message);
+    expect(push.sendBatch).not.toHaveBeenCalled();
+  });
+
+  it('falls back to one send per member without topic support', async () => {
+    const { mdm, push } = buildMDM({ topics: false });
+    await mdm.groups.addDevice('g1', 'd1');
+    await mdm.groups.addDevice('g1', 'd2');
+
+    const result = await mdm.push.broadcast('g1', message);
+
+    expect(result).toMatchObject({ via: 'devices', success: true });
+    expect(result.batch?.successCount).toBe(2);
+    expect(push.sendBatch).toHaveBeenCalledWith(['d1', 'd2'], message);
+  });
+
+  it('rejects an unknown group', async () => {
+    const { mdm } = buildMDM({ topics: true });
+
+    await expect(mdm.push.broadcast('missing', message)).rejects.toBeInstanceOf(GroupNotFoundError);
+  });
+});
+
+describe('failover topic broadcast', () => {
+  const database = { findPushToken: async () => null } as any;
+
+  it('broadcasts on every channel', async () => {
+    const fcm = createPushAdapter({ topics: true });
+    const mqtt = createPushAdapter({ topics: true });
+    const push = createFailoverPushAdapter({
+      database,
+      channels: [
+        { provider: 'fcm', adapter: fcm },
+        { provider: 'mqtt', adapter: mqtt },
+      ],
+    });
+
+    const result = await push.sendToTopic!('news', message);
+
+    expect(result.success).toBe(true);
+    expect(fcm.sendToTopic).toHaveBeenCalledWith('news', message);
+    expect(mqtt.sendToTopic).toHaveBeenCalledWith('news', message);
+  });
+
+  it('reports a channel that failed', async () => {
+    const fcm = createPushAdapter({ topics: true });
+    const mqtt = createPushAdapter({ topics: true });
+    mqtt.sendToTopic!.mockResolvedValueOnce({ success: false, error: 'broker down' });
+    const push = createFailoverPushAdapter({
+      database,
+      channels: [
+        { provider: 'fcm', adapter: fcm },
+        { provider: 'mqtt', adapter: mqtt },
+      ],
+    });
+
+    const result = await push.sendToTopic!('news', message);
+
+    expect(result).toMatchObject({ success: false, error: 'mqtt: broker down' });
+  });
+
+  it('has no topic support when one channel lacks it', () => {
+    const push = createFailoverPushAdapter({
+      database,
+      channels: [
+        { provider: 'fcm', adapter: createPushAdapter({ topics: true }) },
+        { provider: 'websocket', adapter: createPushAdapter({ topics: false }) },
+      ],
+    });
+
+    expect(push.sendToTopic).toBeUndefined();
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Plugin-owned command types.
+ *
+ * `MDMPlugin.commandTypes` and `executeCommand` were declared but never
+ * called, so a kiosk `enterKiosk` was queued and pushed like any other
+ * command and then waited on an agent that had no idea what it meant. A
+ * claimed type now runs server-side through its plugin, and the plugin's
+ * result decides whether the command completes, fails, or goes on to the
+ * device.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createMDM,
+  createSilentLogger,
+  type MDMPlugin,
+  type PluginCommandResult,
+  type PushAdapter,
+} from '../src/index';
+
+function createMemoryAdapter() {
+  const devices = new Map<string, any>([['d1', { id: 'd1', status: 'enrolled' }]]);
+  const commands = new Map<string, any>();
+  let counter = 0;
+
+  return {
+    _commands: commands,
+
+    async findDevice(id: string) {
+      return devices.get(id) || null;
+    },
+    async findCommand(id: string) {
+      return commands.get(id) || null;
+    },
+    async createCommand(data: any) {
+      const command = {
+        id: `command-${++counter}`,
+        attemptCount: 0,
+        ...data,
+        createdAt: new Date(),
+      };
+      commands.set(command.id, command);
+      return command;
+    },
+    async updateCommand(id: string, data: any) {
+      if (!commands.has(id)) return null;
+      const updated = { ...commands.get(id), ...data };
+      commands.set(id, updated);
+      return updated;
+    },
+    async getPendingCommands(deviceId: string) {
+      return Array.from(commands.values()).filter(
+        (c) => c.deviceId === deviceId && ['pending', 'sent'].includes(c.status),
+      );
+    },
+    async listRetryableCommands() {
+      return Array.from(commands.values()).filter((c) => c.status === 'pending');
+    },
+    async createEvent(data: any) {
+      return { id: `event-${++counter}`, ...data, createdAt: new Date() };
+    },
+  } as any;
+}
+
+function kioskPlugin(execute: (command: any) => Promise<PluginCommandResult>): MDMPlugin {
+  return {
+    name: 'kiosk',
+    version: '1.0.0',
+    commandTypes: ['enterKiosk', 'exitKiosk'],
+    executeCommand: vi.fn(async (_device, command) => execute(command)),
+  };
+}
+
+function buildMDM(plugins: MDMPlugin[], options: { requireApproval?: any[] } = {}) {
+  const db = createMemoryAdapter();
+  const push: PushAdapter = {
+    send: vi.fn(async () => ({ success: true })),
+    sendBatch: vi.fn(async () => ({ successCount: 0, failureCount: 0, results: [] })),
+  };
+  const mdm = createMDM({
+    database: db,
+    push,
+    plugins,
+    commands: { requireApproval: options.requireApproval },
+    logger: createSilentLogger(),
+  });
+  return { mdm, db, push };
+}
+
+describe('plugin-owned command types', () => {
+  it('execute through the plugin instead of being pushed', async () => {
+    const plugin = kioskPlugin(async () => ({ success: true, data: { mainApp: 'com.pos' } }));
+    const { mdm, push } = buildMDM([plugin]);
+    const completed = vi.fn();
+    mdm.on('command.completed', completed);
+
+    const command = await mdm.commands.send({
+      deviceId: 'd1',
+      type: 'enterKiosk',
+      payload: { app: 'com.pos' },
+    });
+
+    expect(plugin.executeCommand).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'd1' }),
+      expect.objectContaining({ id: command.id, type: 'enterKiosk' }),
+    );
+    expect(push.send).not.toHaveBeenCalled();
+    expect(command).toMatchObject({
+      status: 'completed',
+      result: { success: true, data: { mainApp: 'com.pos' } },
+    });
+    expect(completed).toHaveBeenCalledTimes(1);
+  });
+
+  it('reach the device when the plugin asks for delivery', async () => {
+    const plugin = kioskPlugin(async () => ({ success: true, deliver: true }));
+    const { mdm, db, push } = buildMDM([plugin]);
+
+    const command = await mdm.commands.send({
+      deviceId: 'd1',
+      type: 'enterKiosk',
+      payload: { app: 'com.pos' },
+    });
+
+    expect(plugin.executeCommand).toHaveBeenCalledTimes(1);
+    expect(push.send).toHaveBeenCalledWith(
+      'd1',
+      expect.objectContaining({
+        type: 'command.enterKiosk',
+        payload: expect.objectContaining({ commandId: command.id, app: 'com.pos' }),
+      }),
+    );
+    expect(command.status).toBe('sent');
+
+    // A retry only re-pushes: the plugin's part has been done.
+    await db.updateCommand(command.id, { status: 'pending' });
+    await mdm.commands.retryPending();
+    expect(plugin.executeCommand).toHaveBeenCalledTimes(1);
+    expect(push.send).toHaveBeenCalledTimes(2);
+  });
+
+  it('fail with the plugin message when the plugin reports failure', async () => {
+    const { mdm } = buildMDM([
+      kioskPlugin(async () => ({ success: false, message: 'Remote kiosk exit is disabled' })),
+    ]);
+    const failed = vi.fn();
+    mdm.on('command.failed', failed);
+
+    const command = await mdm.commands.send({ deviceId: 'd1', type: 'exitKiosk' });
+
+    expect(command).toMatchObject({
+      status: 'failed',
+      error: 'Remote kiosk exit is disabled',
+      result: { success: false },
+    });
+    expect(failed).toHaveBeenCalledTimes(1);
+  });
+
+  it('fail rather than throw when the plugin throws', async () => {
+    const { mdm } = buildMDM([
+      kioskPlugin(async () => {
+        throw new Error('storage unavailable');
+      }),
+    ]);
+
+    const command = await mdm.commands.send({ deviceId: 'd1', type: 'enterKiosk' });
+
+    expect(command).toMatchObject({ status: 'failed', error: 'storage unavailable' });
+  });
+
+  it('leave unclaimed types to the device', async () => {
+    const plugin = kioskPlugin(async () => ({ success: true }));
+    const { mdm, push } = buildMDM([plugin]);
+
+    const command = await mdm.commands.send({ deviceId: 'd1', type: 'reboot' });
+
+    expect(command.status).toBe('sent');
+    expect(push.send).toHaveBeenCalledTimes(1);
+    expect(plugin.executeCommand).not.toHaveBeenCalled();
+  });
+
+  it('belong to the first plugin that claims them', async () => {
+    const first = kioskPlugin(async () => ({ success: true }));
+    const second = { ...kioskPlugin(async () => ({ success: true })), name: 'other-kiosk' };
+    const { mdm } = buildMDM([first, second]);
+
+    await mdm.commands.send({ deviceId: 'd1', type: 'enterKiosk' });
+
+    expect(first.executeCommand).toHaveBeenCalledTimes(1);
+    expect(second.executeCommand).not.toHaveBeenCalled();
+  });
+
+  it('wait for approval before the plugin runs them', async () => {
+    const plugin = kioskPlugin(async () => ({ success: true }));
+    const { mdm } = buildMDM([plugin], { requireApproval: ['exitKiosk'] });
+
+    const held = await mdm.commands.send({
+      deviceId: 'd1',
+      type: 'exitKiosk',
+      requestedBy: 'alice',
+    });
+    expect(plugin.executeCommand).not.toHaveBeenCalled();
+
+    const approved = await mdm.commands.approve(held.id, 'bob');
+
+    expect(approved.status).toBe('completed');
+    expect(plugin.executeCommand).toHaveBeenCalledTimes(1);
+  });
+
+  it('are executed, not pushed, by the retry sweep', async () => {
+    const plugin = kioskPlugin(async () => ({ success: true }));
+    const { mdm, db, push } = buildMDM([plugin]);
+    await db.createCommand({ deviceId: 'd1', type: 'enterKiosk', status: 'pending' });
+
+    const result = await mdm.commands.retryPending();
+
+    expect(result.delivered).toBe(1);
+    expect(plugin.executeCommand).toHaveBeenCalledTimes(1);
+    expect(push.send).not.toHaveBeenCalled();
+  });
+
+  it('run through the plugin before a polling device collects them once due', async () => {
+    const plugin = kioskPlugin(async () => ({
+      success: true,
+      deliver: true,
+      payload: { app: 'com.pos', prepared: true },
+    }));
+    const { mdm } = buildMDM([plugin]);
+    const command = await mdm.commands.send({
+      deviceId: 'd1',
+      type: 'enterKiosk',
+      payload: { app: 'com.pos' },
+      notBefore: new Date(Date.now() + 60_000),
+    });
+    expect(await mdm.commands.getPending('d1')).toEqual([]);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 120_000);
+    try {
+      const collected = await mdm.commands.getPending('d1');
+
+      expect(plugin.executeCommand).toHaveBeenCalledTimes(1);
+      expect(collected).toEqual([
+        expect.objectContaining({
+          id: command.id,
+          status: 'sent',
+          payload: { app: 'com.pos', prepared: true },
+        }),
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('are not handed to a polling device when the plugin settles them', async () => {
+    const plugin = kioskPlugin(async () => ({ success: true }));
+    const { mdm, db } = buildMDM([plugin]);
+    const command = await db.createCommand({
+      deviceId: 'd1',
+      type: 'enterKiosk',
+      status: 'pending',
+    });
+
+    expect(await mdm.commands.getPending('d1')).toEqual([]);
+    expect(db._commands.get(command.id).status).toBe('completed');
+  });
+});
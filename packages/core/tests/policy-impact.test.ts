@@ -0,0 +1,249 @@
+/**
+ * Policy impact simulation.
+ *
+ * `policies.update` pushes to every assigned device at once, and a group
+ * policy reaches devices nobody assigned it to by hand. `simulate` reports
+ * what an update would do — the devices it reaches, the apps it moves on
+ * each, the devices its rules would fail — without writing or sending
+ * anything.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createMDM,
+  createSilentLogger,
+  type MDMInstance,
+  PolicyNotFoundError,
+  type PushAdapter,
+  planAppChanges,
+  ValidationError,
+} from '../src/index';
+
+describe('planAppChanges', () => {
+  const installed = new Map<string, string | null>([
+    ['com.example.pos', '4.1.0'],
+    ['com.example.legacy', '1.0'],
+    ['com.example.maps', null],
+  ]);
+
+  it('lists only what the change itself causes', () => {
+    const before = [{ packageName: 'com.example.maps', action: 'install' as const }];
+    const after = [
+      ...before,
+      { packageName: 'com.example.pos', action: 'update' as const, version: '4.2.0' },
+      { packageName: 'com.example.legacy', action: 'uninstall' as const },
+      { packageName: 'com.example.pos-helper', action: 'install' as const },
+    ];
+
+    expect(planAppChanges(before, after, installed)).toEqual({
+      install: ['com.example.pos-helper'],
+      update: ['com.example.pos'],
+      remove: ['com.example.legacy'],
+    });
+  });
+
+  it('ignores entries the device already satisfies', () => {
+    const after = [
+      { packageName: 'com.example.pos', action: 'install' as const, version: '4.1.0' },
+      { packageName: 'com.example.gone', action: 'uninstall' as const },
+    ];
+
+    expect(planAppChanges([], after, installed)).toEqual({ install: [], update: [], remove: [] });
+  });
+});
+
+function createMemoryAdapter() {
+  const policies = new Map<string, any>([
+    ['base', { id: 'base', name: 'Base', isDefault: true, settings: {}, version: 1 }],
+    [
+      'store',
+      {
+        id: 'store',
+        name: 'Store',
+        isDefault: false,
+        version: 3,
+        settings: {
+          applications: [{ packageName: 'com.example.pos', action: 'install', version: '4.1.0' }],
+        },
+      },
+    ],
+    ['other', { id: 'other', name: 'Other', isDefault: false, settings: {}, version: 1 }],
+  ]);
+  const devices = new Map<string, any>([
+    [
+      'd1',
+      {
+        id: 'd1',
+        status: 'enrolled',
+        policyId: 'store',
+        osVersion: '13',
+        securityTelemetry: { isEncrypted: false },
+      },
+    ],
+    ['d2', { id: 'd2', status: 'enrolled', policyId: null }],
+    ['d3', { id: 'd3', status: 'enrolled', policyId: 'other' }],
+    ['d4', { id: 'd4', status: 'unenrolled', policyId: null }],
+  ]);
+  const groups = [
+    { id: 'stores', name: 'Stores', parentId: null, policyId: 'store' },
+    { id: 'store-5', name: 'Store 5', parentId: 'stores', policyId: null },
+  ];
+  const members: Record<string, string[]> = { stores: [], 'store-5': ['d2', 'd4'] };
+  const apps: Record<string, any[]> = {
+    d1: [
+      { deviceId: 'd1', packageName: 'com.example.pos', observedVersion: '4.1.0' },
+      { deviceId: 'd1', packageName: 'com.example.legacy', observedVersion: '1.0' },
+    ],
+  };
+
+  return {
+    _policies: policies,
+    async findDevice(id: string) {
+      return devices.get(id) ?? null;
+    },
+    async findPolicy(id: string) {
+      return policies.get(id) ?? null;
+    },
+    async listPolicies() {
+      return Array.from(policies.values());
+    },
+    async listDevices(filter: any = {}) {
+      const matched = Array.from(devices.values()).filter(
+        (device) => !filter.policyId || device.policyId === filter.policyId,
+      );
+      const page = matched.slice(filter.offset ?? 0, (filter.offset ?? 0) + (filter.limit ?? 100));
+      return { devices: page, total: matched.length };
+    },
+    async listGroups() {
+      return groups;
+    },
+    async listDevicesInGroup(groupId: string) {
+      return (members[groupId] ?? []).map((id) => devices.get(id));
+    },
+    async getDeviceGroups(deviceId: string) {
+      return groups.filter((group) => members[group.id]?.includes(deviceId));
+    },
+    async listDeviceApps(deviceId: string) {
+      return apps[deviceId] ?? [];
+    },
+    updatePolicy: vi.fn(),
+    updateDevice: vi.fn(),
+  } as any;
+}
+
+describe('policies.simulate', () => {
+  let db: ReturnType<typeof createMemoryAdapter>;
+  let push: PushAdapter;
+  let mdm: MDMInstance;
+
+  beforeEach(() => {
+    db = createMemoryAdapter();
+    push = {
+      send: vi.fn(async () => ({ success: true })),
+      sendBatch: vi.fn(async () => ({ successCount: 0, failureCount: 0, results: [] })),
+    };
+    mdm = createMDM({ database: db, push, logger: createSilentLogger() });
+  });
+
+  it('reports the devices reached directly and through groups, and what moves on each', async () => {
+    const impact = await mdm.policies.simulate('store', {
+      settings: {
+        applications: [
+          { packageName: 'com.example.pos', action: 'install', version: '4.2.0' },
+          { packageName: 'com.example.legacy', action: 'uninstall' },
+        ],
+      },
+      complianceRules: { rules: [{ field: 'isEncrypted', operator: 'eq', value: true }] },
+    });
+
+    expect(impact).toMatchObject({
+      policyId: 'store',
+      currentVersion: 3,
+      nextVersion: 4,
+      summary: {
+        devices: 2,
+        settingsChanged: 2,
+        appInstalls: 1,
+        appUpdates: 1,
+        appRemovals: 1,
+        becomeNonCompliant: 2,
+      },
+      push: { immediate: 1, onNextSync: 1 },
+    });
+    expect(impact.changes.map((change) => change.path)).toEqual([
+      'applications[com.example.legacy]',
+      'applications[com.example.pos].version',
+    ]);
+
+    const [d1, d2] = impact.devices;
+    expect(d1).toMatchObject({
+      deviceId: 'd1',
+      via: 'device',
+      apps: { install: [], update: ['com.example.pos'], remove: ['com.example.legacy'] },
+      becomesNonCompliant: true,
+    });
+    expect(d1!.complianceViolations.map((violation) => violation.ruleId)).toEqual([
+      'isEncrypted eq true',
+    ]);
+    // The group's policy is the one d2 is served, so its rules are checked.
+    expect(d2).toMatchObject({
+      deviceId: 'd2',
+      via: 'group',
+      groupId: 'stores',
+      apps: { install: ['com.example.pos'], update: [], remove: [] },
+      becomesNonCompliant: true,
+    });
+  });
+
+  it('reports for group devices what they are then served', async () => {
+    const settings = {
+      applications: [
+        { packageName: 'com.example.pos', action: 'install' as const, version: '4.2.0' },
+      ],
+    };
+    const served = async () => (await mdm.policies.getForDevice('d2'))?.settings.applications;
+
+    const impact = await mdm.policies.simulate('store', { settings });
+    expect(impact.devices.find((device) => device.deviceId === 'd2')).toMatchObject({
+      via: 'group',
+      settingsChanged: true,
+    });
+    expect(await served()).toEqual([expect.objectContaining({ version: '4.1.0' })]);
+
+    db._policies.set('store', { ...db._policies.get('store'), settings, version: 4 });
+
+    expect(await served()).toEqual(settings.applications);
+  });
+
+  it('writes and sends nothing', async () => {
+    await mdm.policies.simulate('store', { settings: {} });
+
+    expect(db.updatePolicy).not.toHaveBeenCalled();
+    expect(db.updateDevice).not.toHaveBeenCalled();
+    expect(push.sendBatch).not.toHaveBeenCalled();
+  });
+
+  it('keeps the version when the settings are unchanged', async () => {
+    const impact = await mdm.policies.simulate('other', {
+      complianceRules: { rules: [{ field: 'osVersion', operator: 'gte', value: '12' }] },
+    });
+
+    expect(impact).toMatchObject({ currentVersion: 1, nextVersion: 1, changes: [] });
+    expect(impact.devices).toEqual([
+      expect.objectContaining({
+        deviceId: 'd3',
+        settingsChanged: false,
+        becomesNonCompliant: true,
+      }),
+    ]);
+  });
+
+  it('rejects unknown policies and invalid settings', async () => {
+    await expect(mdm.policies.simulate('nope', { settings: {} })).rejects.toBeInstanceOf(
+      PolicyNotFoundError,
+    );
+    await expect(
+      mdm.policies.simulate('store', { settings: { kioskMode: 'yes' } as any }),
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+});
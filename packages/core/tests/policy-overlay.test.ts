@@ -0,0 +1,215 @@
+/**
+ * Policy overlays.
+ *
+ * `getEffectivePolicy` picks one inherited policy, so "corporate baseline +
+ * store wifi + this device's kiosk app" needed a hand-maintained copy per
+ * store. Layers now merge tenant default → group ancestry → device, and
+ * `getEffectiveSettings` says which layer each setting came from.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createMDM,
+  createSilentLogger,
+  DeviceNotFoundError,
+  mergePolicyLayers,
+  type PolicyLayer,
+} from '../src/index';
+
+const layer = (kind: PolicyLayer['kind'], policyId: string): PolicyLayer => ({
+  kind,
+  policyId,
+  policyName: policyId,
+  policyVersion: 1,
+});
+
+describe('mergePolicyLayers', () => {
+  it('merges wifi and applications by key and replaces everything else', () => {
+    const base = layer('default', 'corporate');
+    const store = layer('group', 'store');
+
+    const { settings, sources } = mergePolicyLayers([
+      {
+        layer: base,
+        settings: {
+          allowedApps: ['com.a', 'com.b'],
+          passwordPolicy: { required: true, minLength: 8 },
+          wifiConfigs: [
+            { ssid: 'Corp', securityType: 'wpa2' },
+            { ssid: 'Guest', securityType: 'none' },
+          ],
+          applications: [{ packageName: 'com.mail', action: 'install' }],
+          custom: { geofence: { radius: 100 } },
+        },
+      },
+      {
+        layer: store,
+        settings: {
+          allowedApps: ['com.pos'],
+          passwordPolicy: { required: false },
+          wifiConfigs: [
+            { ssid: 'Guest', securityType: 'wpa2', password: 'store' },
+            { ssid: 'Store-5G', securityType: 'wpa3' },
+          ],
+          custom: { printer: 'zebra' },
+        },
+      },
+    ]);
+
+    expect(settings.allowedApps).toEqual(['com.pos']);
+    expect(settings.passwordPolicy).toEqual({ required: false });
+    expect(settings.wifiConfigs?.map((wifi) => [wifi.ssid, wifi.securityType])).toEqual([
+      ['Corp', 'wpa2'],
+      ['Guest', 'wpa2'],
+      ['Store-5G', 'wpa3'],
+    ]);
+    expect(settings.applications).toEqual([{ packageName: 'com.mail', action: 'install' }]);
+    expect(settings.custom).toEqual({ geofence: { radius: 100 }, printer: 'zebra' });
+    expect(sources).toMatchObject({
+      allowedApps: store,
+      'wifiConfigs.Corp': base,
+      'wifiConfigs.Guest': store,
+      'applications.com.mail': base,
+      'custom.geofence': base,
+      'custom.printer': store,
+    });
+  });
+});
+
+function createMemoryAdapter() {
+  const policies = new Map<string, any>(
+    [
+      { id: 'corporate', isDefault: true, tenantId: null, settings: { kioskMode: false } },
+      { id: 'other-tenant', isDefault: true, tenantId: 't2', settings: { kioskMode: true } },
+      { id: 'region', settings: { heartbeatInterval: 300 } },
+      { id: 'store', settings: { wifiConfigs: [{ ssid: 'Store', securityType: 'wpa2' }] } },
+      { id: 'kiosk', settings: { kioskMode: true, mainApp: 'com.pos' } },
+    ].map((policy) => [policy.id, { isDefault: false, name: policy.id, version: 2, ...policy }]),
+  );
+  const groups = new Map<string, any>([
+    ['emea', { id: 'emea', name: 'EMEA', parentId: null, policyId: 'region' }],
+    ['store-1', { id: 'store-1', name: 'Store 1', parentId: 'emea', policyId: 'store' }],
+  ]);
+  const devices = new Map<string, any>([
+    ['d1', { id: 'd1', tenantId: 't1', policyId: 'kiosk' }],
+    ['d2', { id: 'd2', tenantId: null, policyId: null }],
+  ]);
+
+  return {
+    _policies: policies,
+    _groups: groups,
+    _devices: devices,
+    async findDevice(id: string) {
+      return devices.get(id) || null;
+    },
+    async updateDevice(id: string, data: any) {
+      const updated = { ...devices.get(id), ...data };
+      devices.set(id, updated);
+      return updated;
+    },
+    async createEvent(data: any) {
+      return { id: 'event', ...data, createdAt: new Date() };
+    },
+    async listPolicies() {
+      return Array.from(policies.values());
+    },
+    async findPolicy(id: string) {
+      return policies.get(id) || null;
+    },
+    async listGroups() {
+      return Array.from(groups.values());
+    },
+    async getDeviceGroups(deviceId: string) {
+      return deviceId === 'd1' ? [groups.get('store-1')] : [];
+    },
+  } as any;
+}
+
+describe('devices.getEffectiveSettings', () => {
+  it('layers the default, the group ancestry and the device policy in order', async () => {
+    const mdm = createMDM({ database: createMemoryAdapter(), logger: createSilentLogger() });
+
+    const effective = await mdm.devices.getEffectiveSettings('d1');
+
+    expect(effective.layers.map((l) => [l.kind, l.policyId, l.groupId])).toEqual([
+      ['default', 'corporate', undefined],
+      ['group', 'region', 'emea'],
+      ['group', 'store', 'store-1'],
+      ['device', 'kiosk', undefined],
+    ]);
+    expect(effective.settings).toEqual({
+      kioskMode: true,
+      mainApp: 'com.pos',
+      heartbeatInterval: 300,
+      wifiConfigs: [{ ssid: 'Store', securityType: 'wpa2' }],
+    });
+    expect(effective.sources.kioskMode).toMatchObject({ kind: 'device', policyVersion: 2 });
+    expect(effective.sources.heartbeatInterval).toMatchObject({ groupName: 'EMEA' });
+  });
+
+  it('throws for an unknown device', async () => {
+    const mdm = createMDM({ database: createMemoryAdapter(), logger: createSilentLogger() });
+
+    await expect(mdm.devices.getEffectiveSettings('nope')).rejects.toBeInstanceOf(
+      DeviceNotFoundError,
+    );
+  });
+});
+
+describe('policies.getForDevice', () => {
+  const heartbeat = (policyVersion: number) => ({
+    deviceId: 'd1',
+    timestamp: new Date(),
+    batteryLevel: 80,
+    isCharging: false,
+    storageUsed: 0,
+    storageTotal: 0,
+    memoryUsed: 0,
+    memoryTotal: 0,
+    installedApps: [],
+    policyVersion: String(policyVersion),
+  });
+
+  it('serves the merged settings under the most specific policy', async () => {
+    const mdm = createMDM({ database: createMemoryAdapter(), logger: createSilentLogger() });
+
+    const policy = await mdm.policies.getForDevice('d1');
+    const effective = await mdm.devices.getEffectiveSettings('d1');
+
+    expect(policy).toMatchObject({ id: 'kiosk', settings: effective.settings });
+    // A device with only the default gets it unchanged.
+    expect(await mdm.policies.getForDevice('d2')).toMatchObject({ id: 'corporate', version: 2 });
+  });
+
+  it('changes the version when any layer changes', async () => {
+    const db = createMemoryAdapter();
+    const mdm = createMDM({ database: db, logger: createSilentLogger() });
+    const versions = new Set<number>();
+    const serve = async () => versions.add((await mdm.policies.getForDevice('d1'))!.version);
+
+    await serve();
+    db._policies.get('region').version = 3;
+    await serve();
+    // Same version, different policy.
+    db._groups.get('store-1').policyId = 'corporate';
+    await serve();
+
+    expect(versions.size).toBe(3);
+  });
+
+  it('records the applied version once the device reports the layered one', async () => {
+    const db = createMemoryAdapter();
+    const mdm = createMDM({ database: db, logger: createSilentLogger() });
+    const drifted = vi.fn();
+    mdm.on('device.policyDrifted', drifted);
+
+    await mdm.processHeartbeat('d1', heartbeat(2));
+    expect(db._devices.get('d1').appliedPolicyVersion).toBeUndefined();
+    expect(drifted).toHaveBeenCalledTimes(1);
+
+    const { version } = (await mdm.policies.getForDevice('d1'))!;
+    await mdm.processHeartbeat('d1', heartbeat(version));
+    expect(db._devices.get('d1').appliedPolicyVersion).toBe(2);
+    expect(drifted).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Staged policy rollouts.
+ *
+ * `policies.update` publishes a new version to every assigned device at
+ * once, so one bad password policy could lock out the whole fleet before
+ * anyone noticed. A rollout publishes the version to a deterministic slice
+ * of devices, the rest keep being served the previous version, and the
+ * operator widens, pauses or rolls back from there.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMDM, createSilentLogger, ValidationError } from '../src/index';
+import type { MDMInstance, PolicySettings, PolicyVersion } from '../src/types';
+
+const FLEET_SIZE = 40;
+
+function createMemoryAdapter() {
+  const devices = new Map<string, any>();
+  const policies = new Map<string, any>();
+  const groups = new Map<string, any>();
+  const members = new Map<string, string[]>();
+  const policyVersions: PolicyVersion[] = [];
+
+  return {
+    _devices: devices,
+    _groups: groups,
+    _members: members,
+
+    async findDevice(id: string) {
+      return devices.get(id) ?? null;
+    },
+    async listDevices(filter?: any) {
+      let list = Array.from(devices.values());
+      if (filter?.policyId) list = list.filter((d) => d.policyId === filter.policyId);
+      return { devices: list, total: list.length, limit: 100, offset: 0 };
+    },
+    async updateDevice(id: string, data: any) {
+      const updated = { ...devices.get(id), ...data };
+      devices.set(id, updated);
+      return updated;
+    },
+    async findPolicy(id: string) {
+      return policies.get(id) ?? null;
+    },
+    async listPolicies() {
+      return Array.from(policies.values());
+    },
+    async findGroup(id: string) {
+      return groups.get(id) ?? null;
+    },
+    async listGroups() {
+      return Array.from(groups.values());
+    },
+    async listDevicesInGroup(groupId: string) {
+      return (members.get(groupId) ?? []).map((id) => devices.get(id));
+    },
+    async getDeviceGroups(deviceId: string) {
+      return Array.from(groups.values()).filter((group) =>
+        (members.get(group.id) ?? []).includes(deviceId),
+      );
+    },
+    async createPolicy(data: any) {
+      const policy = {
+        id: `pol_${policies.size + 1}`,
+        isDefault: false,
+        ...data,
+        version: data.version ?? 1,
+      };
+      policies.set(policy.id, policy);
+      return policy;
+    },
+    async updatePolicy(id: string, data: any) {
+      const updated = { ...policies.get(id), ...data };
+      policies.set(id, updated);
+      return updated;
+    },
+    async createPolicyVersion(data: any) {
+      const version = { id: `pv_${policyVersions.length + 1}`, ...data, createdAt: new Date() };
+      policyVersions.push(version);
+      return version;
+    },
+    async findPolicyVersion(policyId: string, version: number) {
+      return policyVersions.find((v) => v.policyId === policyId && v.version === version) ?? null;
+    },
+    async listPolicyVersions(policyId: string) {
+      return policyVersions.filter((v) => v.policyId === policyId).reverse();
+    },
+    async createEvent(data: any) {
+      return { id: 'event', ...data, createdAt: new Date() };
+    },
+  } as any;
+}
+
+const STRICT: PolicySettings = { passwordPolicy: { required: true, minLength: 12 } };
+const RELAXED: PolicySettings = { passwordPolicy: { required: true, minLength: 4 } };
+
+describe('policy rollouts', () => {
+  let db: ReturnType<typeof createMemoryAdapter>;
+  let mdm: MDMInstance;
+  let sendBatch: ReturnType<typeof vi.fn>;
+  let policyId: string;
+
+  const servedVersions = async () =>
+    Promise.all(
+      Array.from(db._devices.keys(), async (id) => (await mdm.policies.getForDevice(id))!.version),
+    );
+
+  beforeEach(async () => {
+    db = createMemoryAdapter();
+    sendBatch = vi.fn(async () => ({ successCount: 0, failureCount: 0, results: [] }));
+    mdm = createMDM({
+      database: db,
+      push: { send: vi.fn(async () => ({ success: true })), sendBatch },
+      logger: createSilentLogger(),
+    });
+
+    policyId = (await mdm.policies.create({ name: 'Password', settings: RELAXED })).id;
+    for (let i = 0; i < FLEET_SIZE; i++) {
+      db._devices.set(`dev_${i}`, {
+        id: `dev_${i}`,
+        status: 'enrolled',
+        policyId,
+        appliedPolicyVersion: 1,
+      });
+    }
+  });
+
+  it('serves the new version to a stable slice and the previous one to everyone else', async () => {
+    await mdm.policies.startRollout(policyId, STRICT, { percentage: 25 });
+
+    const first = await servedVersions();
+    const selected = first.filter((version) => version === 2).length;
+
+    expect(selected).toBeGreaterThan(0);
+    expect(selected).toBeLessThan(FLEET_SIZE);
+    expect(await servedVersions()).toEqual(first);
+    expect(sendBatch.mock.calls[0]![0]).toHaveLength(selected);
+
+    const outside = first.indexOf(1);
+    expect(await mdm.policies.getForDevice(`dev_${outside}`)).toMatchObject({
+      version: 1,
+      settings: RELAXED,
+    });
+  });
+
+  it('widens to everyone and completes at 100%', async () => {
+    await mdm.policies.startRollout(policyId, STRICT, { percentage: 10 });
+
+    const policy = await mdm.policies.setRolloutPercentage(policyId, 100);
+
+    expect(policy.rollout).toMatchObject({ status: 'completed', percentage: 100 });
+    expect(new Set(await servedVersions())).toEqual(new Set([2]));
+  });
+
+  it('cannot be narrowed', async () => {
+    await mdm.policies.startRollout(policyId, STRICT, { percentage: 50 });
+
+    await expect(mdm.policies.setRolloutPercentage(policyId, 10)).rejects.toBeInstanceOf(
+      ValidationError,
+    );
+  });
+
+  it('when paused, keeps devices that applied the new version on it and holds back the rest', async () => {
+    await mdm.policies.startRollout(policyId, STRICT, { percentage: 99 });
+    db._devices.get('dev_0').appliedPolicyVersion = 2;
+
+    await mdm.policies.pauseRollout(policyId);
+    const served = await servedVersions();
+
+    expect(served[0]).toBe(2);
+    expect(served.slice(1)).toEqual(Array(FLEET_SIZE - 1).fill(1));
+  });
+
+  it('rolls back by republishing the previous settings to everyone as a new version', async () => {
+    const changed = vi.fn();
+    mdm.on('policy.rolloutChanged', changed);
+    await mdm.policies.startRollout(policyId, STRICT, { percentage: 50 });
+
+    const policy = await mdm.policies.rollbackRollout(policyId);
+
+    expect(policy).toMatchObject({ version: 3, settings: RELAXED });
+    expect(policy.rollout?.status).toBe('rolledBack');
+    expect(new Set(await servedVersions())).toEqual(new Set([3]));
+    expect(changed.mock.calls.map(([event]) => event.payload.rollout.status)).toEqual([
+      'active',
+      'rolledBack',
+    ]);
+  });
+
+  it('reports progress through getCompliance', async () => {
+    await mdm.policies.startRollout(policyId, STRICT, { percentage: 25 });
+    const targeted = (await servedVersions()).filter((version) => version === 2).length;
+
+    const compliance = await mdm.policies.getCompliance(policyId);
+
+    expect(compliance.rollout).toEqual({
+      status: 'active',
+      percentage: 25,
+      targeted,
+      applied: 0,
+    });
+    // Devices outside the rollout are on the version they should be on.
+    expect(compliance.compliant).toBe(FLEET_SIZE - targeted);
+    expect(compliance.pending).toBe(targeted);
+  });
+
+  it('emits policy.failed when a device reports it could not apply the policy', async () => {
+    const failed = vi.fn();
+    mdm.on('policy.failed', failed);
+    await mdm.policies.startRollout(policyId, STRICT, { percentage: 100 });
+
+    await mdm.processHeartbeat('dev_0', {
+      deviceId: 'dev_0',
+      timestamp: new Date(),
+      batteryLevel: 80,
+      isCharging: false,
+      storageUsed: 0,
+      storageTotal: 0,
+      memoryUsed: 0,
+      memoryTotal: 0,
+      installedApps: [],
+      policyVersion: '1',
+      policyError: 'Screen lock cannot be changed while a work profile is locked',
+    });
+
+    expect(failed).toHaveBeenCalledWith(
+      expect.objectContaining({
+        payload: expect.objectContaining({
+          policy: expect.objectContaining({ version: 2 }),
+          error: 'Screen lock cannot be changed while a work profile is locked',
+        }),
+      }),
+    );
+  });
+
+  it('rolls out a group policy to the devices that inherit it', async () => {
+    const groupPolicyId = (await mdm.policies.create({ name: 'Stores', settings: RELAXED })).id;
+    db._groups.set('stores', {
+      id: 'stores',
+      name: 'Stores',
+      parentId: null,
+      policyId: groupPolicyId,
+    });
+    const inherited = Array.from({ length: 20 }, (_, i) => `store_${i}`);
+    for (const id of inherited) {
+      db._devices.set(id, { id, status: 'enrolled', policyId: null, appliedPolicyVersion: 1 });
+    }
+    // dev_0 has a policy of its own over the group's: what it reports
+    // applying is a version of that one, not of the group's.
+    db._members.set('stores', [...inherited, 'dev_0']);
+
+    await mdm.policies.startRollout(groupPolicyId, STRICT, { percentage: 50 });
+    const notified: string[] = sendBatch.mock.calls.at(-1)![0];
+    const compliance = await mdm.policies.getCompliance(groupPolicyId);
+
+    expect(notified.length).toBeGreaterThan(0);
+    expect(compliance).toMatchObject({ total: 21, unknown: 1 });
+    expect(compliance.rollout).toMatchObject({ targeted: notified.length, applied: 0 });
+    expect([...compliance.laggingDeviceIds].sort()).toEqual(
+      Array.from(new Set([...notified, 'dev_0'])).sort(),
+    );
+
+    const storeId = notified.find((id) => id !== 'dev_0')!;
+    expect((await mdm.policies.getForDevice(storeId))!.version).toBe(2);
+    await mdm.processHeartbeat(storeId, {
+      deviceId: storeId,
+      timestamp: new Date(),
+      batteryLevel: 80,
+      isCharging: false,
+      storageUsed: 0,
+      storageTotal: 0,
+      memoryUsed: 0,
+      memoryTotal: 0,
+      installedApps: [],
+      policyVersion: '2',
+    });
+
+    expect((await mdm.policies.getCompliance(groupPolicyId)).rollout?.applied).toBe(1);
+  });
+});
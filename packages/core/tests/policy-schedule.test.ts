@@ -0,0 +1,234 @@
+/**
+ * Scheduled policy assignments.
+ *
+ * Schools and shops lock devices down during opening hours and relax them
+ * after. A device's `policySchedule` names a policy per weekly window in a
+ * timezone; `policies.applySchedules` switches devices at the boundaries,
+ * and `getForDevice` switches a device that missed one.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createMDM,
+  createSilentLogger,
+  type MDMInstance,
+  type PolicySchedule,
+  type PushAdapter,
+  scheduledPolicyId,
+  ValidationError,
+  validatePolicySchedule,
+} from '../src/index';
+
+const SCHOOL_HOURS: PolicySchedule = {
+  timezone: 'America/New_York',
+  windows: [
+    { policyId: 'lockdown', daysOfWeek: [1, 2, 3, 4, 5], startTime: '08:00', endTime: '17:00' },
+  ],
+  defaultPolicyId: 'relaxed',
+};
+
+// Monday 19 October 2026. New York is on UTC-4.
+const MONDAY_0830 = new Date('2026-10-19T12:30:00Z');
+const MONDAY_0730 = new Date('2026-10-19T11:30:00Z');
+const MONDAY_1700 = new Date('2026-10-19T21:00:00Z');
+
+describe('scheduledPolicyId', () => {
+  it('reads the window in the schedule timezone, not the server one', () => {
+    expect(scheduledPolicyId(SCHOOL_HOURS, MONDAY_0830)).toBe('lockdown');
+    expect(scheduledPolicyId(SCHOOL_HOURS, MONDAY_0730)).toBe('relaxed');
+    expect(scheduledPolicyId(SCHOOL_HOURS, MONDAY_1700)).toBe('relaxed');
+    // 08:30 on a Saturday
+    expect(scheduledPolicyId(SCHOOL_HOURS, new Date('2026-10-24T12:30:00Z'))).toBe('relaxed');
+  });
+
+  it('runs an overnight window into the next day', () => {
+    const nights: PolicySchedule = {
+      timezone: 'UTC',
+      windows: [{ policyId: 'night', daysOfWeek: [5], startTime: '22:00', endTime: '06:00' }],
+      defaultPolicyId: 'day',
+    };
+
+    expect(scheduledPolicyId(nights, new Date('2026-10-23T23:00:00Z'))).toBe('night'); // Fri
+    expect(scheduledPolicyId(nights, new Date('2026-10-24T05:59:00Z'))).toBe('night'); // Sat
+    expect(scheduledPolicyId(nights, new Date('2026-10-23T03:00:00Z'))).toBe('day'); // Fri
+  });
+
+  it('reports every malformed field', () => {
+    expect(
+      validatePolicySchedule({
+        timezone: 'Mars/Olympus',
+        windows: [{ policyId: 'a', daysOfWeek: [7], startTime: '8:00', endTime: '17:00' }],
+        defaultPolicyId: '',
+      }),
+    ).toEqual([
+      'timezone is not a known IANA timezone: Mars/Olympus',
+      'defaultPolicyId is required',
+      'windows[0].daysOfWeek must list days from 0 (Sunday) to 6 (Saturday)',
+      'windows[0].startTime must be HH:mm',
+    ]);
+  });
+});
+
+function createMemoryAdapter() {
+  const policies = new Map<string, any>([
+    ['lockdown', { id: 'lockdown', name: 'Lockdown', isDefault: false, settings: {}, version: 1 }],
+    ['relaxed', { id: 'relaxed', name: 'Relaxed', isDefault: false, settings: {}, version: 1 }],
+    ['quarantine', { id: 'quarantine', name: 'Quarantine', isDefault: false, settings: {} }],
+  ]);
+  const devices = new Map<string, any>([
+    ['d1', { id: 'd1', status: 'enrolled', policyId: 'relaxed' }],
+    ['d2', { id: 'd2', status: 'enrolled', policyId: 'relaxed' }],
+    ['d3', { id: 'd3', status: 'enrolled', policyId: 'relaxed' }],
+  ]);
+
+  return {
+    _devices: devices,
+    _policies: policies,
+    async findDevice(id: string) {
+      return devices.get(id) ?? null;
+    },
+    async updateDevice(id: string, data: any) {
+      const updated = { ...devices.get(id), ...data };
+      devices.set(id, updated);
+      return updated;
+    },
+    async listDevices(filter: any = {}) {
+      const matched = Array.from(devices.values()).filter(
+        (device) => !filter.status || device.status === filter.status,
+      );
+      const page = matched.slice(filter.offset ?? 0, (filter.offset ?? 0) + (filter.limit ?? 100));
+      return { devices: page, total: matched.length };
+    },
+    async findPolicy(id: string) {
+      return policies.get(id) ?? null;
+    },
+    async listPolicies() {
+      return Array.from(policies.values());
+    },
+    async getDeviceGroups() {
+      return [];
+    },
+    async deletePolicy(id: string) {
+      policies.delete(id);
+    },
+    async createEvent(data: any) {
+      return { id: 'event', ...data, createdAt: new Date() };
+    },
+  } as any;
+}
+
+describe('policy schedules', () => {
+  let db: ReturnType<typeof createMemoryAdapter>;
+  let push: PushAdapter;
+  let mdm: MDMInstance;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(MONDAY_0730);
+    db = createMemoryAdapter();
+    push = {
+      send: vi.fn(async () => ({ success: true })),
+      sendBatch: vi.fn(async () => ({ successCount: 0, failureCount: 0, results: [] })),
+    };
+    mdm = createMDM({ database: db, push, logger: createSilentLogger() });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('switches scheduled devices at the boundary, and only then', async () => {
+    await mdm.devices.setPolicySchedule('d1', SCHOOL_HOURS);
+    await mdm.devices.setPolicySchedule('d2', SCHOOL_HOURS);
+    expect(push.send).not.toHaveBeenCalled();
+
+    const opening = await mdm.policies.applySchedules(MONDAY_0830);
+
+    expect(opening).toEqual({
+      checked: 2,
+      switched: [
+        { deviceId: 'd1', fromPolicyId: 'relaxed', toPolicyId: 'lockdown' },
+        { deviceId: 'd2', fromPolicyId: 'relaxed', toPolicyId: 'lockdown' },
+      ],
+    });
+    expect(db._devices.get('d3').policyId).toBe('relaxed');
+    expect(push.send).toHaveBeenCalledWith(
+      'd1',
+      expect.objectContaining({ type: 'policy.updated', payload: { policyId: 'lockdown' } }),
+    );
+
+    expect((await mdm.policies.applySchedules(MONDAY_0830)).switched).toEqual([]);
+    expect((await mdm.policies.applySchedules(MONDAY_1700)).switched).toHaveLength(2);
+    expect(db._devices.get('d1').policyId).toBe('relaxed');
+  });
+
+  it('serves a device that missed the switch the policy it should be on', async () => {
+    await mdm.devices.setPolicySchedule('d1', SCHOOL_HOURS);
+    vi.setSystemTime(MONDAY_0830);
+
+    const policy = await mdm.policies.getForDevice('d1');
+
+    expect(policy?.id).toBe('lockdown');
+    expect(db._devices.get('d1').policyId).toBe('lockdown');
+  });
+
+  it('applies the current window as soon as the schedule is set', async () => {
+    vi.setSystemTime(MONDAY_0830);
+
+    const device = await mdm.devices.setPolicySchedule('d1', SCHOOL_HOURS);
+
+    expect(device.policyId).toBe('lockdown');
+
+    const cleared = await mdm.devices.setPolicySchedule('d1', null);
+    expect(cleared).toMatchObject({ policySchedule: null, policyId: 'lockdown' });
+  });
+
+  it('leaves a quarantined device where compliance put it', async () => {
+    await mdm.devices.setPolicySchedule('d1', SCHOOL_HOURS);
+    await db.updateDevice('d1', { policyId: 'quarantine', quarantinedFromPolicyId: 'relaxed' });
+
+    const result = await mdm.policies.applySchedules(MONDAY_0830);
+
+    expect(result.switched).toEqual([]);
+    expect(db._devices.get('d1').policyId).toBe('quarantine');
+  });
+
+  it('rejects a schedule naming a policy that does not exist', async () => {
+    const error = await mdm.devices
+      .setPolicySchedule('d1', { ...SCHOOL_HOURS, defaultPolicyId: 'gone' })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe('Invalid policy schedule: Policy gone does not exist');
+    expect(db._devices.get('d1').policySchedule).toBeUndefined();
+  });
+
+  it('refuses to delete a policy a schedule names', async () => {
+    await mdm.devices.setPolicySchedule('d1', SCHOOL_HOURS);
+
+    const error = await mdm.policies.delete('lockdown').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe('Policy lockdown is still referenced: policy schedule of device d1');
+    expect(db._policies.has('lockdown')).toBe(true);
+  });
+
+  it('does not assign a scheduled policy that has gone', async () => {
+    await mdm.devices.setPolicySchedule('d1', SCHOOL_HOURS);
+    db._policies.delete('lockdown');
+
+    const result = await mdm.policies.applySchedules(MONDAY_0830);
+
+    expect(result.switched).toEqual([]);
+    expect(db._devices.get('d1').policyId).toBe('relaxed');
+  });
+
+  it('drops the schedule when an admin assigns a policy by hand', async () => {
+    await mdm.devices.setPolicySchedule('d1', SCHOOL_HOURS);
+
+    await mdm.devices.assignPolicy('d1', 'quarantine');
+    await mdm.policies.applySchedules(MONDAY_0830);
+
+    expect(db._devices.get('d1')).toMatchObject({ policyId: 'quarantine', policySchedule: null });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Policy settings schema.
+ *
+ * `PolicySettings` was only a TypeScript type and `MDMPlugin.policySchema`
+ * was never read, so a policy posted as JSON was stored with whatever it
+ * held. Core now composes a JSON Schema — built-in fields plus each plugin's
+ * keys under `custom` — and checks every policy write against it.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  composePolicySchema,
+  createMDM,
+  createSilentLogger,
+  type MDMPlugin,
+  ValidationError,
+  validateJsonSchema,
+} from '../src/index';
+
+const geofence: MDMPlugin = {
+  name: 'geofence',
+  version: '1.0.0',
+  policySchema: {
+    type: 'object',
+    properties: { geofenceRadius: { type: 'integer', minimum: 10 } },
+    required: ['geofenceRadius'],
+  },
+};
+
+const printer: MDMPlugin = {
+  name: 'printer',
+  version: '1.0.0',
+  policySchema: { printerModel: { type: 'string', enum: ['zebra', 'brother'] } },
+};
+
+describe('composePolicySchema', () => {
+  it('merges plugin schemas under custom, in either shape', () => {
+    const schema = composePolicySchema([geofence, printer]);
+
+    expect(schema.properties?.custom).toMatchObject({
+      type: 'object',
+      properties: {
+        geofenceRadius: { type: 'integer', minimum: 10 },
+        printerModel: { type: 'string', enum: ['zebra', 'brother'] },
+      },
+      required: ['geofenceRadius'],
+    });
+    expect(schema.properties?.passwordPolicy).toBeDefined();
+  });
+});
+
+describe('validateJsonSchema', () => {
+  it('reports every problem with its path', () => {
+    const schema = composePolicySchema([printer]);
+
+    const issues = validateJsonSchema(
+      {
+        kioskMod: true,
+        camera: 'disabled',
+        passwordPolicy: { minLength: 3.5 },
+        wifiConfigs: [{ ssid: 'Store', securityType: 'wpa2' }, { ssid: '' }],
+        updateWindow: { start: '25:00', end: '06:00' },
+        custom: { printerModel: 'epson', somethingElse: 1 },
+      },
+      schema,
+    );
+
+    expect(issues).toEqual([
+      { path: 'settings.kioskMod', message: 'is not a known field' },
+      { path: 'settings.camera', message: 'must be one of: on, off, user' },
+      { path: 'settings.passwordPolicy.required', message: 'is required' },
+      { path: 'settings.passwordPolicy.minLength', message: 'must be an integer' },
+      { path: 'settings.wifiConfigs[1].securityType', message: 'is required' },
+      { path: 'settings.wifiConfigs[1].ssid', message: 'must not be empty' },
+      { path: 'settings.updateWindow.start', message: 'must match ^([01]\\d|2[0-3]):[0-5]\\d$' },
+      { path: 'settings.custom.printerModel', message: 'must be one of: zebra, brother' },
+    ]);
+  });
+});
+
+describe('policy writes', () => {
+  function buildMDM(plugins: MDMPlugin[] = []) {
+    const createPolicy = vi.fn(async (data: any) => ({ id: 'pol_1', ...data }));
+    const mdm = createMDM({
+      database: { createPolicy } as any,
+      logger: createSilentLogger(),
+      plugins,
+    });
+    return { mdm, createPolicy };
+  }
+
+  it('are checked against the schema before plugin hooks run', async () => {
+    const validatePolicy = vi.fn(async () => ({ valid: true }));
+    const { mdm, createPolicy } = buildMDM([{ ...printer, validatePolicy }]);
+
+    const attempt = mdm.policies.create({
+      name: 'Store',
+      settings: { heartbeatInterval: 0, custom: { printerModel: 'zebra' } },
+    });
+
+    await expect(attempt).rejects.toBeInstanceOf(ValidationError);
+    await expect(attempt).rejects.toMatchObject({
+      details: { issues: [{ path: 'settings.heartbeatInterval', message: 'must be at least 1' }] },
+    });
+    expect(validatePolicy).not.toHaveBeenCalled();
+    expect(createPolicy).not.toHaveBeenCalled();
+  });
+
+  it('accept valid settings, including plugin keys', async () => {
+    const { mdm } = buildMDM([printer]);
+
+    const policy = await mdm.policies.create({
+      name: 'Store',
+      settings: { kioskMode: true, mainApp: 'com.pos', custom: { printerModel: 'zebra' } },
+    });
+
+    expect(policy.settings.custom).toEqual({ printerModel: 'zebra' });
+    expect(mdm.policies.getSchema().properties?.custom?.properties).toHaveProperty('printerModel');
+  });
+
+  it('take finer kiosk controls under custom, as the kiosk recipe documents', async () => {
+    const { mdm } = buildMDM();
+    const kiosk = { disableHomeButton: true, disableRecentApps: true };
+
+    await expect(
+      mdm.policies.create({ name: 'POS', settings: { kioskMode: true, ...kiosk } as any }),
+    ).rejects.toMatchObject({
+      details: {
+        issues: [
+          { path: 'settings.disableHomeButton', message: 'is not a known field' },
+          { path: 'settings.disableRecentApps', message: 'is not a known field' },
+        ],
+      },
+    });
+    const policy = await mdm.policies.create({
+      name: 'POS',
+      settings: { kioskMode: true, mainApp: 'com.pos', custom: { kiosk } },
+    });
+    expect(policy.settings.custom).toEqual({ kiosk });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Policy templates.
+ *
+ * Each deployment used to start by hand-writing the same kiosk or
+ * corporate-owned `PolicySettings`. Templates ship that JSON once, with the
+ * per-deployment parts declared as parameters and validated before any
+ * settings are built.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createMDM,
+  createSilentLogger,
+  type MDMPlugin,
+  PolicyTemplateNotFoundError,
+  ValidationError,
+} from '../src/index';
+
+function buildMDM(plugins: MDMPlugin[] = []) {
+  const createPolicy = vi.fn(async (data: any) => ({ id: 'pol_1', ...data }));
+  const mdm = createMDM({
+    database: { createPolicy, listPolicies: async () => [] } as any,
+    logger: createSilentLogger(),
+    plugins,
+  });
+  return { mdm, createPolicy };
+}
+
+describe('policies.createFromTemplate', () => {
+  it('builds a kiosk policy from its parameters', async () => {
+    const { mdm } = buildMDM();
+
+    const policy = await mdm.policies.createFromTemplate('kiosk', {
+      mainApp: 'com.example.pos',
+      wifiSsid: 'Store-5G',
+      wifiPassword: 'secret',
+    });
+
+    expect(policy.name).toBe('Kiosk');
+    expect(policy.settings).toMatchObject({
+      kioskMode: true,
+      mainApp: 'com.example.pos',
+      allowedApps: ['com.example.pos'],
+      lockStatusBar: true,
+      wifiConfigs: [
+        { ssid: 'Store-5G', securityType: 'wpa2', password: 'secret', autoConnect: true },
+      ],
+    });
+  });
+
+  it("applies parameter defaults and the caller's policy fields", async () => {
+    const { mdm } = buildMDM();
+
+    const policy = await mdm.policies.createFromTemplate(
+      'corporate-owned',
+      {},
+      { name: 'Sales phones', isDefault: true },
+    );
+
+    expect(policy).toMatchObject({ name: 'Sales phones', isDefault: true });
+    expect(policy.settings.passwordPolicy).toMatchObject({ minLength: 6 });
+    expect(policy.settings.wifiConfigs).toBeUndefined();
+  });
+
+  it('rejects missing and malformed parameters with their paths', async () => {
+    const { mdm, createPolicy } = buildMDM();
+
+    const attempt = mdm.policies.createFromTemplate('dedicated-device', {
+      passwordStrength: 'extreme',
+      colour: 'blue',
+    });
+
+    await expect(attempt).rejects.toBeInstanceOf(ValidationError);
+    await expect(attempt).rejects.toMatchObject({
+      details: {
+        issues: [
+          { path: 'params.mainApp', message: 'is required' },
+          { path: 'params.passwordStrength', message: 'must be one of: none, low, medium, high' },
+          { path: 'params.colour', message: 'is not a known field' },
+        ],
+      },
+    });
+    expect(createPolicy).not.toHaveBeenCalled();
+  });
+
+  it('reports an unknown template', async () => {
+    const { mdm } = buildMDM();
+
+    await expect(mdm.policies.createFromTemplate('nope', {})).rejects.toBeInstanceOf(
+      PolicyTemplateNotFoundError,
+    );
+  });
+});
+
+describe('plugin templates', () => {
+  it('are listed after the built-ins and cannot replace one', () => {
+    const build = vi.fn(() => ({}));
+    const { mdm } = buildMDM([
+      {
+        name: 'signage',
+        version: '1.0.0',
+        policyTemplates: [
+          { id: 'kiosk', name: 'Other kiosk', parameters: { type: 'object' }, build },
+          { id: 'signage', name: 'Digital signage', parameters: { type: 'object' }, build },
+        ],
+      },
+    ]);
+
+    expect(mdm.policies.listTemplates().map((template) => template.id)).toEqual([
+      'kiosk',
+      'dedicated-device',
+      'corporate-owned',
+      'signage',
+    ]);
+    expect(mdm.policies.getTemplate('kiosk')?.name).toBe('Kiosk');
+  });
+});
@@ -327,6 +327,99 @@ describe('policy history and rollback', () => {
   });
 });
 
+describe('policy diff', () => {
+  let stack: ReturnType<typeof buildMDM>;
+
+  beforeEach(() => {
+    stack = buildMDM();
+  });
+
+  it('reports field-level changes between two versions', async () => {
+    const policy = await stack.mdm.policies.create({
+      name: 'Kiosk',
+      settings: { ...KIOSK, passwordPolicy: { required: true } },
+    });
+    await stack.mdm.policies.update(policy.id, {
+      settings: { kioskMode: false, passwordPolicy: { required: true, minLength: 8 } },
+    });
+
+    const diff = await stack.mdm.policies.diff(policy.id, 1, 2);
+
+    expect(diff).toMatchObject({ policyId: policy.id, fromVersion: 1, toVersion: 2 });
+    expect(diff.changes).toEqual([
+      { path: 'kioskMode', kind: 'changed', before: true, after: false },
+      { path: 'mainApp', kind: 'removed', before: 'com.example.kiosk' },
+      { path: 'passwordPolicy.minLength', kind: 'added', after: 8 },
+    ]);
+  });
+
+  it('matches applications and wifi configs by key, not position', async () => {
+    const policy = await stack.mdm.policies.create({
+      name: 'Store',
+      settings: {
+        applications: [
+          { packageName: 'com.pos', action: 'install', version: '4.1.0' },
+          { packageName: 'com.mail', action: 'install' },
+        ],
+        wifiConfigs: [{ ssid: 'Guest', securityType: 'none' }],
+      },
+    });
+    await stack.mdm.policies.update(policy.id, {
+      settings: {
+        applications: [
+          { packageName: 'com.mail', action: 'install' },
+          { packageName: 'com.pos', action: 'install', version: '4.2.0' },
+        ],
+        wifiConfigs: [{ ssid: 'Store-5G', securityType: 'wpa3' }],
+      },
+    });
+
+    const { changes } = await stack.mdm.policies.diff(policy.id, 1, 2);
+
+    expect(changes).toEqual([
+      {
+        path: 'applications[com.pos].version',
+        kind: 'changed',
+        before: '4.1.0',
+        after: '4.2.0',
+      },
+      {
+        path: 'wifiConfigs[Guest]',
+        kind: 'removed',
+        before: { ssid: 'Guest', securityType: 'none' },
+      },
+      {
+        path: 'wifiConfigs[Store-5G]',
+        kind: 'added',
+        after: { ssid: 'Store-5G', securityType: 'wpa3' },
+      },
+    ]);
+  });
+
+  it('sorts keyed entries by key, not by where they sat in the list', async () => {
+    const policy = await stack.mdm.policies.create({
+      name: 'Store',
+      settings: { wifiConfigs: [{ ssid: 'Shop', securityType: 'wpa2' }] },
+    });
+    await stack.mdm.policies.update(policy.id, {
+      settings: { wifiConfigs: [{ ssid: 'Back office', securityType: 'wpa2' }] },
+    });
+
+    const { changes } = await stack.mdm.policies.diff(policy.id, 1, 2);
+
+    expect(changes.map((change) => change.path)).toEqual([
+      'wifiConfigs[Back office]',
+      'wifiConfigs[Shop]',
+    ]);
+  });
+
+  it('refuses a version that never existed', async () => {
+    const policy = await stack.mdm.policies.create({ name: 'Kiosk', settings: KIOSK });
+
+    await expect(stack.mdm.policies.diff(policy.id, 1, 7)).rejects.toThrow(/no version 7/);
+  });
+});
+
 describe('policy drift and compliance', () => {
   let stack: ReturnType<typeof buildMDM>;
 
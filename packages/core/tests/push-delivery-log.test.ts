@@ -0,0 +1,262 @@
+/**
+ * Push delivery log and device receipts.
+ *
+ * `commands.send` used to drop the transport's message id as soon as the push
+ * returned, so the only evidence a wipe reached a phone was `sentAt` — which
+ * says FCM accepted it, nothing more. These tests pin the log that replaced
+ * it: every push result is recorded against its command, and a receipt from
+ * the device moves the entry to `delivered`.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createMDM, createSilentLogger, type MDMConfig, type PushResult } from '../src/index';
+
+function createMemoryAdapter() {
+  const devices = new Map<string, any>();
+  const commands = new Map<string, any>();
+  const deliveries: any[] = [];
+  let counter = 0;
+
+  const adapter: any = {
+    _deliveries: deliveries,
+
+    async findDevice(id: string) {
+      return devices.get(id) || null;
+    },
+    async createDevice(data: any) {
+      const device = { id: `device-${++counter}`, status: 'enrolled', ...data };
+      devices.set(device.id, device);
+      return device;
+    },
+    async findCommand(id: string) {
+      return commands.get(id) || null;
+    },
+    async createCommand(data: any) {
+      const command = {
+        id: `command-${++counter}`,
+        status: 'pending',
+        attemptCount: 0,
+        maxAttempts: 5,
+        payload: data.payload ?? null,
+        deviceId: data.deviceId,
+        type: data.type,
+        createdAt: new Date(),
+      };
+      commands.set(command.id, command);
+      return command;
+    },
+    async createCommandIdempotent(data: any) {
+      return { command: await adapter.createCommand(data), created: true };
+    },
+    async updateCommand(id: string, data: any) {
+      const updated = { ...commands.get(id), ...data };
+      commands.set(id, updated);
+      return updated;
+    },
+    async listRetryableCommands() {
+      return Array.from(commands.values()).filter((c) => c.status === 'pending');
+    },
+    async createEvent(d: any) {
+      return { id: `event-${++counter}`, ...d, createdAt: new Date() };
+    },
+    async upsertPushToken(data: any) {
+      return data;
+    },
+    async deletePushToken() {},
+
+    async createPushDelivery(data: any) {
+      const now = new Date();
+      const delivery = {
+        id: `delivery-${++counter}`,
+        messageId: null,
+        provider: null,
+        commandId: null,
+        error: null,
+        deliveredAt: null,
+        ...data,
+        createdAt: now,
+        updatedAt: now,
+      };
+      deliveries.push(delivery);
+      return delivery;
+    },
+    async markPushDelivered(deviceId: string, messageId: string, at: Date) {
+      const delivery = deliveries.find((d) => d.deviceId === deviceId && d.messageId === messageId);
+      if (!delivery) return null;
+      Object.assign(delivery, {
+        status: 'delivered',
+        deliveredAt: delivery.deliveredAt ?? at,
+        updatedAt: at,
+      });
+      return delivery;
+    },
+    async listPushDeliveries(filter?: any) {
+      return deliveries
+        .filter((d) => !filter?.commandId || d.commandId === filter.commandId)
+        .reverse();
+    },
+  };
+
+  return adapter;
+}
+
+function scriptedPush(results: PushResult[]) {
+  return {
+    async send() {
+      return results.shift() ?? { success: true, messageId: 'msg-default' };
+    },
+    async sendBatch(deviceIds: string[]) {
+      const batch = deviceIds.map((deviceId, i) => ({
+        deviceId,
+        result: { success: true, messageId: `batch-${i}` },
+      }));
+      return { successCount: batch.length, failureCount: 0, results: batch };
+    },
+  };
+}
+
+function buildMDM(push: MDMConfig['push']) {
+  const db = createMemoryAdapter();
+  const mdm = createMDM({
+    database: db,
+    push,
+    logger: createSilentLogger(),
+    enrollment: { deviceSecret: 'delivery-secret', autoEnroll: true },
+  });
+  return { mdm, db };
+}
+
+describe('push delivery log', () => {
+  it('records the message id of a command push against the command', async () => {
+    const { mdm, db } = buildMDM({
+      provider: 'fcm',
+      adapter: scriptedPush([{ success: true, messageId: 'fcm-1' }]),
+    });
+    const device = await db.createDevice({ enrollmentId: 'e1' });
+
+    const command = await mdm.commands.send({ deviceId: device.id, type: 'wipe' });
+    const deliveries = await mdm.commands.getDeliveries(command.id);
+
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0]).toMatchObject({
+      messageId: 'fcm-1',
+      deviceId: device.id,
+      provider: 'fcm',
+      commandId: command.id,
+      messageType: 'command.wipe',
+      status: 'sent',
+      deliveredAt: null,
+    });
+  });
+
+  it('records failed attempts and retries as separate entries', async () => {
+    const { mdm, db } = buildMDM(
+      scriptedPush([
+        { success: false, error: 'UNAVAILABLE', retryable: true },
+        { success: true, messageId: 'msg-2' },
+      ]),
+    );
+    const device = await db.createDevice({ enrollmentId: 'e1' });
+
+    const command = await mdm.commands.send({ deviceId: device.id, type: 'reboot' });
+    await mdm.commands.retryPending();
+
+    const deliveries = await mdm.commands.getDeliveries(command.id);
+    expect(deliveries.map((d) => d.status)).toEqual(['sent', 'failed']);
+    expect(deliveries[1].error).toBe('UNAVAILABLE');
+  });
+
+  it('records a transport ack as delivered', async () => {
+    const { mdm, db } = buildMDM(
+      scriptedPush([{ success: true, messageId: 'ws-1', acknowledged: true }]),
+    );
+    const device = await db.createDevice({ enrollmentId: 'e1' });
+
+    const command = await mdm.commands.send({ deviceId: device.id, type: 'lock' });
+    const [delivery] = await mdm.commands.getDeliveries(command.id);
+
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.deliveredAt).toBeInstanceOf(Date);
+  });
+
+  it('records polling as deferred rather than sent', async () => {
+    const { mdm, db } = buildMDM({ provider: 'polling' });
+    const device = await db.createDevice({ enrollmentId: 'e1' });
+
+    const command = await mdm.commands.send({ deviceId: device.id, type: 'sync' });
+    const [delivery] = await mdm.commands.getDeliveries(command.id);
+
+    expect(delivery).toMatchObject({ status: 'deferred', provider: null, messageId: null });
+  });
+
+  it('does not grow the log while a polled command waits for its device', async () => {
+    const { mdm, db } = buildMDM({ provider: 'polling' });
+    const device = await db.createDevice({ enrollmentId: 'e1' });
+
+    const command = await mdm.commands.send({ deviceId: device.id, type: 'sync' });
+    await mdm.commands.retryPending();
+    await mdm.commands.retryPending();
+
+    expect(await mdm.commands.getDeliveries(command.id)).toHaveLength(1);
+    // Stamped so the sweep backs off, without spending an attempt.
+    expect(await mdm.commands.get(command.id)).toMatchObject({
+      attemptCount: 0,
+      lastAttemptAt: expect.any(Date),
+    });
+  });
+
+  it('records one entry per device for a batch send', async () => {
+    const { mdm, db } = buildMDM(scriptedPush([]));
+
+    await mdm.push.sendBatch(['d1', 'd2'], { type: 'policy.updated' });
+
+    expect(db._deliveries.map((d: any) => [d.deviceId, d.messageId])).toEqual([
+      ['d1', 'batch-0'],
+      ['d2', 'batch-1'],
+    ]);
+  });
+});
+
+describe('push receipts', () => {
+  it('moves the delivery to delivered when the device confirms it', async () => {
+    const { mdm, db } = buildMDM(scriptedPush([{ success: true, messageId: 'fcm-1' }]));
+    const device = await db.createDevice({ enrollmentId: 'e1' });
+    const command = await mdm.commands.send({ deviceId: device.id, type: 'wipe' });
+
+    const receipt = await mdm.recordPushReceipt(device.id, 'fcm-1');
+
+    expect(receipt).toMatchObject({ status: 'delivered', commandId: command.id });
+    const [delivery] = await mdm.commands.getDeliveries(command.id);
+    expect(delivery.deliveredAt).toBeInstanceOf(Date);
+  });
+
+  it('does not let one device confirm another device’s message', async () => {
+    const { mdm, db } = buildMDM(scriptedPush([{ success: true, messageId: 'fcm-1' }]));
+    const device = await db.createDevice({ enrollmentId: 'e1' });
+    const other = await db.createDevice({ enrollmentId: 'e2' });
+    const command = await mdm.commands.send({ deviceId: device.id, type: 'wipe' });
+
+    expect(await mdm.recordPushReceipt(other.id, 'fcm-1')).toBeNull();
+    const [delivery] = await mdm.commands.getDeliveries(command.id);
+    expect(delivery.status).toBe('sent');
+  });
+
+  it('keeps pushing when the adapter has no delivery log', async () => {
+    const db = createMemoryAdapter();
+    delete db.createPushDelivery;
+    delete db.markPushDelivered;
+    delete db.listPushDeliveries;
+    const mdm = createMDM({
+      database: db,
+      push: scriptedPush([{ success: true, messageId: 'fcm-1' }]),
+      logger: createSilentLogger(),
+    });
+    const device = await db.createDevice({ enrollmentId: 'e1' });
+
+    const command = await mdm.commands.send({ deviceId: device.id, type: 'sync' });
+
+    expect(command.status).toBe('sent');
+    expect(await mdm.recordPushReceipt(device.id, 'fcm-1')).toBeNull();
+    await expect(mdm.commands.getDeliveries(command.id)).rejects.toThrow(/listPushDeliveries/);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Failover push routing.
+ *
+ * A fleet that mixes devices with and without Google Play Services needs FCM
+ * for some and MQTT for others. Before `createFailoverPushAdapter`, a host had
+ * to pick one adapter for the whole fleet, so every device on the other
+ * channel simply never heard from the server.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createFailoverPushAdapter,
+  type PushAdapter,
+  type PushMessage,
+  type PushResult,
+} from '../src/index';
+
+const message: PushMessage = { type: 'command.sync' };
+
+/** Tokens keyed `${deviceId}:${provider}`. */
+function createTokenStore(tokens: string[]) {
+  const registered = new Set(tokens);
+  return {
+    async findPushToken(deviceId: string, provider: string) {
+      return registered.has(`${deviceId}:${provider}`)
+        ? { id: 't', deviceId, provider, token: 'tok', isActive: true }
+        : null;
+    },
+  } as any;
+}
+
+/** An adapter that answers from a per-device script. */
+function createScriptedAdapter(outcomes: Record<string, PushResult>) {
+  const send = vi.fn(
+    async (deviceId: string): Promise<PushResult> =>
+      outcomes[deviceId] ?? { success: true, messageId: `msg-${deviceId}` },
+  );
+  const adapter: PushAdapter & { send: typeof send; sendBatch: ReturnType<typeof vi.fn> } = {
+    send,
+    sendBatch: vi.fn(async (deviceIds: string[]) => {
+      const results = await Promise.all(
+        deviceIds.map(async (deviceId) => ({ deviceId, result: await send(deviceId) })),
+      );
+      const successCount = results.filter((r) => r.result.success).length;
+      return { successCount, failureCount: results.length - successCount, results };
+    }),
+  };
+  return adapter;
+}
+
+describe('createFailoverPushAdapter', () => {
+  it('routes a device to the channel it registered a token for', async () => {
+    const fcm = createScriptedAdapter({});
+    const mqtt = createScriptedAdapter({});
+    const push = createFailoverPushAdapter({
+      database: createTokenStore(['d1:mqtt']),
+      channels: [
+        { provider: 'fcm', adapter: fcm },
+        { provider: 'mqtt', adapter: mqtt },
+      ],
+    });
+
+    const result = await push.send('d1', message);
+
+    expect(result).toMatchObject({ success: true, provider: 'mqtt' });
+    expect(fcm.send).not.toHaveBeenCalled();
+  });
+
+  it('fails over when the primary fails permanently', async () => {
+    const fcm = createScriptedAdapter({
+      d1: { success: false, error: 'Requested entity was not found.' },
+    });
+    const mqtt = createScriptedAdapter({});
+    const push = createFailoverPushAdapter({
+      database: createTokenStore(['d1:fcm', 'd1:mqtt']),
+      channels: [
+        { provider: 'fcm', adapter: fcm },
+        { provider: 'mqtt', adapter: mqtt },
+      ],
+    });
+
+    const result = await push.send('d1', message);
+
+    expect(result).toMatchObject({ success: true, provider: 'mqtt' });
+  });
+
+  it('does not fail over on a retryable error', async () => {
+    const fcm = createScriptedAdapter({
+      d1: { success: false, error: 'UNAVAILABLE', retryable: true },
+    });
+    const mqtt = createScriptedAdapter({});
+    const push = createFailoverPushAdapter({
+      database: createTokenStore(['d1:fcm', 'd1:mqtt']),
+      channels: [
+        { provider: 'fcm', adapter: fcm },
+        { provider: 'mqtt', adapter: mqtt },
+      ],
+    });
+
+    const result = await push.send('d1', message);
+
+    // A transient FCM failure is the retry sweep's job, not a reason to move
+    // the device to another transport.
+    expect(result).toMatchObject({ success: false, retryable: true, provider: 'fcm' });
+    expect(mqtt.send).not.toHaveBeenCalled();
+  });
+
+  it('tries every channel for a device with no registered token', async () => {
+    const fcm = createScriptedAdapter({
+      d1: { success: false, error: 'No FCM token registered for device' },
+    });
+    const mqtt = createScriptedAdapter({});
+    const push = createFailoverPushAdapter({
+      database: createTokenStore([]),
+      channels: [
+        { provider: 'fcm', adapter: fcm },
+        { provider: 'mqtt', adapter: mqtt },
+      ],
+    });
+
+    expect(await push.send('d1', message)).toMatchObject({ success: true, provider: 'mqtt' });
+  });
+
+  it('reports per-channel outcomes for a batch', async () => {
+    const fcm = createScriptedAdapter({
+      d2: { success: false, error: 'registration-token-not-registered' },
+    });
+    const mqtt = createScriptedAdapter({ d3: { success: false, error: 'ACK_TIMEOUT' } });
+    const push = createFailoverPushAdapter({
+      database: createTokenStore(['d1:fcm', 'd2:fcm', 'd2:mqtt', 'd3:mqtt']),
+      channels: [
+        { provider: 'fcm', adapter: fcm },
+        { provider: 'mqtt', adapter: mqtt },
+      ],
+    });
+
+    const batch = await push.sendBatch(['d1', 'd2', 'd3'], message);
+
+    expect(batch.successCount).toBe(2);
+    expect(batch.failureCount).toBe(1);
+    expect(batch.byProvider).toEqual({
+      fcm: { successCount: 1, failureCount: 1 },
+      mqtt: { successCount: 1, failureCount: 1 },
+    });
+    expect(batch.results.map((r) => [r.deviceId, r.result.provider, r.result.success])).toEqual([
+      ['d1', 'fcm', true],
+      ['d2', 'mqtt', true],
+      ['d3', 'mqtt', false],
+    ]);
+    // One provider call per channel per round, not one per device.
+    expect(fcm.sendBatch).toHaveBeenCalledTimes(1);
+    expect(mqtt.sendBatch).toHaveBeenCalledTimes(2);
+  });
+});
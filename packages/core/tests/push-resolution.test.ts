@@ -0,0 +1,197 @@
+/**
+ * Push transport resolution.
+ *
+ * The built-in push adapter used to log each message and answer
+ * `{ success: true }` without sending anything, so every command was marked
+ * `sent` on its first attempt and the retry sweep never had anything to do.
+ * These tests pin what replaced it: a configured transport is actually used,
+ * polling says "deferred" instead of "delivered", and a provider with no
+ * transport fails at startup.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  ConfigurationError,
+  createMDM,
+  createSilentLogger,
+  type MDMConfig,
+  type PushAdapter,
+} from '../src/index';
+
+function createMemoryAdapter() {
+  const devices = new Map<string, any>();
+  const commands = new Map<string, any>();
+  const pushTokens: any[] = [];
+  let counter = 0;
+
+  const adapter: any = {
+    _commands: commands,
+    _pushTokens: pushTokens,
+
+    async findDevice(id: string) {
+      return devices.get(id) || null;
+    },
+    async findDeviceByEnrollmentId() {
+      return null;
+    },
+    async findDefaultPolicy() {
+      return null;
+    },
+    async createDevice(data: any) {
+      const device = { id: `device-${++counter}`, status: 'enrolled', ...data };
+      devices.set(device.id, device);
+      return device;
+    },
+    async findCommand(id: string) {
+      return commands.get(id) || null;
+    },
+    async createCommand(data: any) {
+      const command = {
+        id: `command-${++counter}`,
+        status: 'pending',
+        attemptCount: 0,
+        maxAttempts: data.maxAttempts ?? 5,
+        payload: data.payload ?? null,
+        deviceId: data.deviceId,
+        type: data.type,
+        createdAt: new Date(),
+      };
+      commands.set(command.id, command);
+      return command;
+    },
+    async createCommandIdempotent(data: any) {
+      return { command: await adapter.createCommand(data), created: true };
+    },
+    async updateCommand(id: string, data: any) {
+      const updated = { ...commands.get(id), ...data };
+      commands.set(id, updated);
+      return updated;
+    },
+    async listRetryableCommands() {
+      return Array.from(commands.values()).filter((c) => c.status === 'pending');
+    },
+    async upsertPushToken(data: any) {
+      pushTokens.push(data);
+      return data;
+    },
+    async deletePushToken() {},
+    async createEvent(d: any) {
+      return { id: `event-${++counter}`, ...d, createdAt: new Date() };
+    },
+  };
+
+  return adapter;
+}
+
+function createRecordingPush(): PushAdapter & { send: ReturnType<typeof vi.fn> } {
+  return {
+    send: vi.fn(async () => ({ success: true, messageId: 'msg-1' })),
+    async sendBatch() {
+      return { successCount: 0, failureCount: 0, results: [] };
+    },
+  };
+}
+
+function buildMDM(push: MDMConfig['push']) {
+  const db = createMemoryAdapter();
+  const mdm = createMDM({
+    database: db,
+    push,
+    logger: createSilentLogger(),
+    enrollment: { deviceSecret: 'push-secret', autoEnroll: true },
+  });
+  return { mdm, db };
+}
+
+describe('push transport resolution', () => {
+  it('delivers through an adapter passed as `push`', async () => {
+    const push = createRecordingPush();
+    const { mdm, db } = buildMDM(push);
+    const device = await db.createDevice({ enrollmentId: 'e1' });
+
+    const command = await mdm.devices.sendCommand(device.id, { type: 'sync' });
+
+    expect(push.send).toHaveBeenCalledTimes(1);
+    expect(command.status).toBe('sent');
+  });
+
+  it('delivers through `push.adapter` and persists tokens it does not handle', async () => {
+    const push = createRecordingPush();
+    const { mdm, db } = buildMDM({ provider: 'mqtt', mqttUrl: 'mqtt://broker', adapter: push });
+    const device = await db.createDevice({ enrollmentId: 'e1' });
+
+    await mdm.devices.sendCommand(device.id, { type: 'sync' });
+    await mdm.push.registerToken?.(device.id, 'token-1');
+
+    expect(push.send).toHaveBeenCalledTimes(1);
+    expect(db._pushTokens).toEqual([{ deviceId: device.id, provider: 'mqtt', token: 'token-1' }]);
+  });
+
+  it('tells enrolling agents the transport a bare adapter names', async () => {
+    const push = { ...createRecordingPush(), provider: 'websocket' as const };
+    const enrollment = {
+      model: 'Pixel',
+      manufacturer: 'Google',
+      osVersion: '14',
+      androidId: 'a1',
+      method: 'app-only' as const,
+      timestamp: new Date().toISOString(),
+      signature: '',
+    };
+
+    // No device secret, so the request needs no signature.
+    const enrollWith = (transport: PushAdapter) =>
+      createMDM({
+        database: createMemoryAdapter(),
+        push: transport,
+        logger: createSilentLogger(),
+        enrollment: { autoEnroll: true },
+      }).enroll(enrollment);
+
+    const bare = await enrollWith(push);
+    const unnamed = await enrollWith(createRecordingPush());
+
+    expect(bare.pushConfig.provider).toBe('websocket');
+    expect(unnamed.pushConfig.provider).toBe('polling');
+  });
+
+  it('refuses a provider that has no transport', () => {
+    expect(() => buildMDM({ provider: 'fcm' })).toThrow(ConfigurationError);
+    expect(() => buildMDM({ provider: 'websocket' })).toThrow(/@openmdm\/push-websocket/);
+  });
+});
+
+describe('polling (no push transport)', () => {
+  it.each([
+    ['polling provider', { provider: 'polling' } as const],
+    ['no push config', undefined],
+  ])('%s reports a deferral, not a delivery', async (_label, push) => {
+    const { mdm } = buildMDM(push);
+
+    const result = await mdm.push.send('device-1', { type: 'command.sync' });
+
+    expect(result.success).toBe(false);
+    expect(result.deferred).toBe(true);
+  });
+
+  it('leaves the command pending without spending an attempt', async () => {
+    const { mdm, db } = buildMDM({ provider: 'polling' });
+    const device = await db.createDevice({ enrollmentId: 'e1' });
+
+    const command = await mdm.devices.sendCommand(device.id, { type: 'sync' });
+
+    expect(command.status).toBe('pending');
+    expect(command.sentAt).toBeUndefined();
+    expect(db._commands.get(command.id).attemptCount).toBe(0);
+  });
+
+  it('counts deferred commands separately in the retry sweep', async () => {
+    const { mdm, db } = buildMDM({ provider: 'polling' });
+    const device = await db.createDevice({ enrollmentId: 'e1' });
+    await mdm.devices.sendCommand(device.id, { type: 'sync' });
+
+    const result = await mdm.commands.retryPending();
+
+    expect(result).toEqual({ delivered: 0, retried: 0, deadLettered: 0, deferred: 1 });
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Interactive shell sessions.
+ *
+ * A `shell` command runs one line and reports once, so field engineers
+ * rebooted devices they could not look inside. A session sends each line as
+ * a `shell` command tagged with the session, relays the output the agent
+ * posts while it runs, audits every line before it is sent, and closes
+ * itself when left idle.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  AuthorizationError,
+  ConfigurationError,
+  createMDM,
+  createSilentLogger,
+  type ShellSessionFrame,
+  ShellSessionNotFoundError,
+  ValidationError,
+} from '../src/index';
+
+function createMemoryAdapter() {
+  const devices = new Map<string, any>([
+    ['d1', { id: 'd1', status: 'enrolled', tenantId: 't1' }],
+    ['d2', { id: 'd2', status: 'enrolled', tenantId: 't2' }],
+  ]);
+  const commands = new Map<string, any>();
+  const auditLogs: any[] = [];
+  let counter = 0;
+
+  return {
+    supportsTenantScoping: true,
+    _commands: commands,
+    _auditLogs: auditLogs,
+
+    async findDevice(id: string) {
+      return devices.get(id) || null;
+    },
+    async findCommand(id: string) {
+      return commands.get(id) || null;
+    },
+    async createCommand(data: any) {
+      const command = {
+        id: `command-${++counter}`,
+        attemptCount: 0,
+        ...data,
+        createdAt: new Date(),
+      };
+      commands.set(command.id, command);
+      return command;
+    },
+    async updateCommand(id: string, data: any) {
+      if (!commands.has(id)) return null;
+      const updated = { ...commands.get(id), ...data };
+      commands.set(id, updated);
+      return updated;
+    },
+    async createAuditLog(data: any) {
+      const log = { id: `audit-${++counter}`, ...data, createdAt: new Date() };
+      auditLogs.push(log);
+      return log;
+    },
+    async createEvent(data: any) {
+      return { id: `event-${++counter}`, ...data, createdAt: new Date() };
+    },
+  } as any;
+}
+
+function buildMDM(options: { audit?: boolean; authorization?: boolean } = {}) {
+  const db = createMemoryAdapter();
+  const mdm = createMDM({
+    database: db,
+    push: {
+      send: vi.fn(async () => ({ success: true })),
+      sendBatch: vi.fn(async () => ({ successCount: 0, failureCount: 0, results: [] })),
+    },
+    audit: options.audit === false ? undefined : { enabled: true },
+    ...(options.authorization ? { authorization: { enabled: true } } : {}),
+    logger: createSilentLogger(),
+  });
+  return { mdm, db };
+}
+
+describe('shell sessions', () => {
+  it('send each line as a shell command and audit it first', async () => {
+    const { mdm, db } = buildMDM();
+    const session = await mdm.shell.open({ deviceId: 'd1', openedBy: 'alice' });
+
+    const command = await mdm.shell.exec(session.id, 'logcat -d | tail');
+
+    expect(command).toMatchObject({
+      deviceId: 'd1',
+      type: 'shell',
+      payload: { command: 'logcat -d | tail', sessionId: session.id },
+      requestedBy: 'alice',
+    });
+    expect(db._auditLogs).toContainEqual(
+      expect.objectContaining({
+        userId: 'alice',
+        action: 'command',
+        resource: 'shell',
+        resourceId: session.id,
+        details: { deviceId: 'd1', line: 'logcat -d | tail' },
+      }),
+    );
+  });
+
+  it('stream input, output and exit to subscribers in order', async () => {
+    const { mdm } = buildMDM();
+    const session = await mdm.shell.open({ deviceId: 'd1' });
+    const frames: ShellSessionFrame[] = [];
+    mdm.shell.subscribe(session.id, (frame) => frames.push(frame));
+
+    const command = await mdm.shell.exec(session.id, 'ls /sdcard');
+    await mdm.shell.appendOutput(session.id, 'd1', {
+      commandId: command.id,
+      stream: 'stdout',
+      data: 'Download\n',
+    });
+    await mdm.shell.appendOutput(session.id, 'd1', {
+      commandId: command.id,
+      stream: 'stderr',
+      data: 'ls: Android: Permission denied\n',
+    });
+    await mdm.commands.complete(command.id, { success: true, data: { exitCode: 1 } });
+
+    expect(frames.map((frame) => frame.type)).toEqual(['input', 'output', 'output', 'exit']);
+    expect(frames[3]).toMatchObject({ commandId: command.id, success: true, exitCode: 1 });
+  });
+
+  it('refuse output from another device or for a command outside the session', async () => {
+    const { mdm } = buildMDM();
+    const session = await mdm.shell.open({ deviceId: 'd1' });
+    const command = await mdm.shell.exec(session.id, 'id');
+
+    await expect(
+      mdm.shell.appendOutput(session.id, 'd2', {
+        commandId: command.id,
+        stream: 'stdout',
+        data: 'uid=0',
+      }),
+    ).rejects.toBeInstanceOf(ShellSessionNotFoundError);
+    await expect(
+      mdm.shell.appendOutput(session.id, 'd1', {
+        commandId: 'command-other',
+        stream: 'stdout',
+        data: 'uid=0',
+      }),
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('cancel lines the device has not finished when closed', async () => {
+    const { mdm, db } = buildMDM();
+    const session = await mdm.shell.open({ deviceId: 'd1' });
+    const frames: ShellSessionFrame[] = [];
+    mdm.shell.subscribe(session.id, (frame) => frames.push(frame));
+    const command = await mdm.shell.exec(session.id, 'dumpsys battery');
+
+    const closed = await mdm.shell.close(session.id, { by: 'alice' });
+
+    expect(closed).toMatchObject({ status: 'closed', closedBy: 'alice' });
+    // The line was pushed, so the agent is told to drop it too.
+    expect(db._commands.get(command.id)).toMatchObject({
+      status: 'cancelled',
+      cancellation: 'requested',
+    });
+    expect(frames.at(-1)).toMatchObject({ type: 'closed', status: 'closed' });
+    await expect(mdm.shell.exec(session.id, 'id')).rejects.toBeInstanceOf(
+      ShellSessionNotFoundError,
+    );
+  });
+
+  it('expire once idle', async () => {
+    const { mdm } = buildMDM();
+    const closed = vi.fn();
+    mdm.on('shell.closed', closed);
+    const session = await mdm.shell.open({ deviceId: 'd1', idleTimeoutSeconds: 0 });
+
+    expect(await mdm.shell.expireIdle()).toBe(1);
+    expect(await mdm.shell.get(session.id)).toBeNull();
+    expect(closed).toHaveBeenCalledWith(
+      expect.objectContaining({
+        payload: expect.objectContaining({
+          session: expect.objectContaining({ status: 'expired' }),
+        }),
+      }),
+    );
+  });
+
+  it('take no listeners once they have timed out', async () => {
+    const { mdm } = buildMDM();
+    const session = await mdm.shell.open({ deviceId: 'd1', idleTimeoutSeconds: 0 });
+
+    expect(() => mdm.shell.subscribe(session.id, () => {})).toThrow(ShellSessionNotFoundError);
+    await vi.waitFor(async () => expect(await mdm.shell.list()).toEqual([]));
+  });
+
+  it('cannot be opened without audit logging', async () => {
+    const { mdm } = buildMDM({ audit: false });
+
+    await expect(mdm.shell.open({ deviceId: 'd1' })).rejects.toBeInstanceOf(ConfigurationError);
+  });
+});
+
+describe('shell session expiry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('closes an abandoned session without anyone touching it', async () => {
+    vi.useFakeTimers();
+    const { mdm } = buildMDM();
+    const closed = vi.fn();
+    mdm.on('shell.closed', closed);
+    await mdm.shell.open({ deviceId: 'd1', idleTimeoutSeconds: 60 });
+
+    await vi.advanceTimersByTimeAsync(90_000);
+
+    expect(closed).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
+
+describe('tenant-scoped shell sessions', () => {
+  it('are confined to the caller tenant', async () => {
+    const { mdm } = buildMDM();
+    const mine = mdm.withContext({ tenantId: 't1', userId: 'alice' });
+    const theirs = await mdm.shell.open({ deviceId: 'd2' });
+
+    const session = await mine.shell.open({ deviceId: 'd1', openedBy: 'mallory' });
+
+    expect(session).toMatchObject({ tenantId: 't1', openedBy: 'alice' });
+    await expect(mine.shell.open({ deviceId: 'd2' })).rejects.toThrow();
+    expect(await mine.shell.get(theirs.id)).toBeNull();
+    expect((await mine.shell.list()).map((s) => s.id)).toEqual([session.id]);
+    await expect(mine.shell.exec(theirs.id, 'id')).rejects.toBeInstanceOf(
+      ShellSessionNotFoundError,
+    );
+    expect(() => mine.shell.subscribe(theirs.id, () => {})).toThrow(ShellSessionNotFoundError);
+    await expect(mine.shell.close(theirs.id)).rejects.toBeInstanceOf(ShellSessionNotFoundError);
+  });
+});
+
+describe('authorized shell streams', () => {
+  it('are only handed out once the caller may read the session', async () => {
+    const { mdm } = buildMDM({ authorization: true });
+    (mdm as any).authorization = { can: vi.fn(async () => true), requirePermission: vi.fn() };
+    const session = await mdm.shell.open({ deviceId: 'd1' });
+    const alice = mdm.withContext({ userId: 'alice' });
+
+    expect(() => alice.shell.subscribe(session.id, () => {})).toThrow(AuthorizationError);
+
+    await alice.shell.get(session.id);
+    expect(typeof alice.shell.subscribe(session.id, () => {})).toBe('function');
+  });
+});
@@ -27,6 +27,7 @@ function createMockAdapter(options: { supportsTenantScoping?: boolean } = {}) {
   const devices = new Map<string, any>();
   const policies = new Map<string, any>();
   const commands = new Map<string, any>();
+  const tasks = new Map<string, any>();
   const auditLogs: AuditLog[] = [];
   let counter = 0;
 
@@ -136,6 +137,23 @@ function createMockAdapter(options: { supportsTenantScoping?: boolean } = {}) {
       return [];
     },
 
+    async findScheduledTask(id: string) {
+      return tasks.get(id) ?? null;
+    },
+    async createScheduledTask(data: any) {
+      const task = { id: `task_${++counter}`, status: 'active', ...data };
+      tasks.set(task.id, task);
+      return task;
+    },
+    async updateScheduledTask(id: string, data: any) {
+      const updated = { ...tasks.get(id), ...data };
+      tasks.set(id, updated);
+      return updated;
+    },
+    async deleteScheduledTask(id: string) {
+      tasks.delete(id);
+    },
+
     // Audit storage
     async createAuditLog(entry: any) {
       const log = { id: `audit_${++counter}`, ...entry, createdAt: new Date() };
@@ -463,6 +481,36 @@ describe('audit logging is automatic on scoped instances', () => {
     });
   });
 
+  it('records scheduled task writes, and keeps tenants apart', async () => {
+    const db = createMockAdapter();
+    const mdm = createMDM({
+      database: db,
+      audit: { enabled: true },
+      scheduling: { enabled: true },
+      logger: { ...console, child: () => console } as any,
+    });
+    const task = await mdm.withContext({ tenantId: GLOBEX }).schedules!.create({
+      name: 'Nightly reboot',
+      taskType: 'command',
+      schedule: { type: 'recurring', cron: '0 3 * * *' },
+    });
+
+    expect(task.tenantId).toBe(GLOBEX);
+    await expect(
+      mdm.withContext({ tenantId: ACME, userId: 'mallory' }).schedules!.delete(task.id),
+    ).rejects.toThrow(/not found/);
+    expect(await mdm.schedules!.get(task.id)).not.toBeNull();
+
+    await mdm.withContext({ tenantId: GLOBEX, userId: 'user-1' }).schedules!.pause(task.id);
+    expect(db._auditLogs.find((l) => l.resource === 'schedules' && l.userId)).toMatchObject({
+      tenantId: GLOBEX,
+      userId: 'user-1',
+      action: 'update',
+      resourceId: task.id,
+      status: 'success',
+    });
+  });
+
   it('does not audit reads (they would drown the table)', async () => {
     const { db, mdm } = buildWithAudit();
     await mdm.withContext({ tenantId: ACME, userId: 'user-1' }).devices.list();
@@ -23,16 +23,23 @@
 
 import type {
   Command,
-  CommandResult,
   Device,
   Heartbeat,
   MDMInstance,
   MDMPlugin,
+  PluginCommandResult,
   PluginRoute,
   Policy,
   PolicySettings,
 } from '@openmdm/core';
 
+declare module '@openmdm/core' {
+  interface CommandPayloadMap {
+    enterKiosk: { app?: string };
+    exitKiosk: { password?: string };
+  }
+}
+
 // ============================================
 // Kiosk Types
 // ============================================
@@ -327,9 +334,10 @@ export function kioskPlugin(options: KioskPluginOptions = {}): MDMPlugin {
   }
 
   /**
-   * Handle exit kiosk command
+   * Handle exit kiosk command. Records the exit, then has core deliver the
+   * command: the device is what actually leaves kiosk mode.
    */
-  async function handleExitKiosk(device: Device, command: Command): Promise<CommandResult> {
+  async function handleExitKiosk(device: Device, command: Command): Promise<PluginCommandResult> {
     if (!allowRemoteExit) {
       return {
         success: false,
@@ -339,8 +347,11 @@ export function kioskPlugin(options: KioskPluginOptions = {}): MDMPlugin {
 
     const state = await getKioskState(device.id);
     if (!state?.enabled) {
+      // Still delivered: a device can be in kiosk mode without this plugin
+      // having recorded it, e.g. one that entered it from its policy.
       return {
         success: true,
+        deliver: true,
         message: 'Device is not in kiosk mode',
       };
     }
@@ -362,14 +373,16 @@ export function kioskPlugin(options: KioskPluginOptions = {}): MDMPlugin {
 
     return {
       success: true,
+      deliver: true,
       message: 'Kiosk mode exit command sent',
     };
   }
 
   /**
-   * Handle enter kiosk command
+   * Handle enter kiosk command. Resolves the main app and records the state,
+   * then has core deliver the command to the device.
    */
-  async function handleEnterKiosk(device: Device, command: Command): Promise<CommandResult> {
+  async function handleEnterKiosk(device: Device, command: Command): Promise<PluginCommandResult> {
     const payload = command.payload as { app?: string } | undefined;
 
     // Get policy kiosk settings
@@ -409,6 +422,8 @@ export function kioskPlugin(options: KioskPluginOptions = {}): MDMPlugin {
 
     return {
       success: true,
+      deliver: true,
+      payload: { ...payload, app: mainApp },
       message: `Kiosk mode activated with ${mainApp}`,
       data: { mainApp },
     };
@@ -492,7 +507,12 @@ export function kioskPlugin(options: KioskPluginOptions = {}): MDMPlugin {
           payload: { app: body.app },
         });
 
-        return context.json({ success: true, commandId: command.id });
+        // Executed by this plugin during send, so the outcome is already known.
+        return context.json({
+          success: command.status === 'completed',
+          commandId: command.id,
+          result: command.result,
+        });
       },
     },
 
@@ -510,7 +530,12 @@ export function kioskPlugin(options: KioskPluginOptions = {}): MDMPlugin {
           type: 'exitKiosk',
         });
 
-        return context.json({ success: true, commandId: command.id });
+        // Executed by this plugin during send, so the outcome is already known.
+        return context.json({
+          success: command.status === 'completed',
+          commandId: command.id,
+          result: command.result,
+        });
       },
     },
 
@@ -723,30 +748,17 @@ export function kioskPlugin(options: KioskPluginOptions = {}): MDMPlugin {
       }
     },
 
-    policySchema: {
-      kioskMode: { type: 'boolean', description: 'Enable kiosk mode' },
-      mainApp: {
-        type: 'string',
-        description: 'Main kiosk app package name',
-      },
-      allowedApps: {
-        type: 'array',
-        items: { type: 'string' },
-        description: 'Allowed apps in kiosk mode',
-      },
-      kioskExitPassword: {
-        type: 'string',
-        description: 'Password to exit kiosk mode',
-      },
-    },
-
     validatePolicy: async (settings: PolicySettings) => {
       return validateKioskPolicy(settings);
     },
 
-    commandTypes: ['enterKiosk', 'exitKiosk'] as any,
+    commandTypes: ['enterKiosk', 'exitKiosk'],
+    commandPayloadSchemas: {
+      enterKiosk: { fields: { app: { type: 'string' } } },
+      exitKiosk: { fields: { password: { type: 'string' } } },
+    },
 
-    executeCommand: async (device: Device, command: Command): Promise<CommandResult> => {
+    executeCommand: async (device: Device, command: Command): Promise<PluginCommandResult> => {
       switch (command.type) {
         case 'enterKiosk':
           return handleEnterKiosk(device, command);
@@ -137,7 +137,7 @@ export function fcmPushAdapter(options: FCMAdapterOptions): PushAdapter {
    */
   const sendWithRetry = async (
     fcmMessage: admin.messaging.Message,
-    deviceId: string,
+    target: { deviceId: string } | { topic: string },
   ): Promise<string> => {
     let lastError: any;
 
@@ -153,7 +153,7 @@ export function fcmPushAdapter(options: FCMAdapterOptions): PushAdapter {
 
         const delay = Math.min(initialDelayMs * 2 ** (attempt - 1), maxDelayMs);
         log.warn(
-          { deviceId, attempt, maxAttempts, delayMs: delay, err: error.message, code: error.code },
+          { ...target, attempt, maxAttempts, delayMs: delay, err: error.message, code: error.code },
           'Transient FCM failure; retrying',
         );
         await sleep(delay);
@@ -220,11 +220,15 @@ export function fcmPushAdapter(options: FCMAdapterOptions): PushAdapter {
   }
 
   /**
-   * Build FCM message from OpenMDM push message
+   * Build FCM message from OpenMDM push message, addressed to a device token
+   * or to a topic
    */
-  function buildMessage(token: string, message: PushMessage): admin.messaging.Message {
+  function buildMessage(
+    target: { token: string } | { topic: string },
+    message: PushMessage,
+  ): admin.messaging.Message {
     const fcmMessage: admin.messaging.Message = {
-      token,
+      ...target,
       android: {
         priority: message.priority === 'high' ? 'high' : 'normal',
         ttl: (message.ttl ?? defaultTtl) * 1000, // Convert to milliseconds
@@ -260,6 +264,8 @@ export function fcmPushAdapter(options: FCMAdapterOptions): PushAdapter {
   }
 
   return {
+    provider: 'fcm',
+
     async send(deviceId: string, message: PushMessage): Promise<PushResult> {
       try {
         const token = await getToken(deviceId);
@@ -271,8 +277,8 @@ export function fcmPushAdapter(options: FCMAdapterOptions): PushAdapter {
           };
         }
 
-        const fcmMessage = buildMessage(token, message);
-        const messageId = await sendWithRetry(fcmMessage, deviceId);
+        const fcmMessage = buildMessage({ token }, message);
+        const messageId = await sendWithRetry(fcmMessage, { deviceId });
 
         log.debug({ deviceId, type: message.type, messageId }, 'Message sent');
 
@@ -298,6 +304,9 @@ export function fcmPushAdapter(options: FCMAdapterOptions): PushAdapter {
         return {
           success: false,
           error: error.message || 'FCM send failed',
+          // Retries inside this adapter are already spent; this tells a
+          // failover adapter whether another channel is worth trying.
+          retryable: isRetryableFcmError(error),
         };
       }
     },
@@ -334,7 +343,7 @@ export function fcmPushAdapter(options: FCMAdapterOptions): PushAdapter {
       const deviceIdOrder: string[] = [];
 
       for (const [deviceId, token] of tokensMap) {
-        messages.push(buildMessage(token, message));
+        messages.push(buildMessage({ token }, message));
         deviceIdOrder.push(deviceId);
       }
 
@@ -378,6 +387,7 @@ export function fcmPushAdapter(options: FCMAdapterOptions): PushAdapter {
                 result: {
                   success: false,
                   error: error?.message || 'FCM send failed',
+                  retryable: error ? isRetryableFcmError(error) : false,
                 },
               });
               failureCount++;
@@ -400,6 +410,7 @@ export function fcmPushAdapter(options: FCMAdapterOptions): PushAdapter {
               result: {
                 success: false,
                 error: error.message || 'FCM batch send failed',
+                retryable: isRetryableFcmError(error),
               },
             });
             failureCount++;
@@ -457,6 +468,24 @@ export function fcmPushAdapter(options: FCMAdapterOptions): PushAdapter {
       await messaging.unsubscribeFromTopic(token, topic);
       log.debug({ deviceId, topic }, 'Unsubscribed device from topic');
     },
+
+    async sendToTopic(topic: string, message: PushMessage): Promise<PushResult> {
+      try {
+        const messageId = await sendWithRetry(buildMessage({ topic }, message), { topic });
+        log.debug({ topic, type: message.type, messageId }, 'Topic message sent');
+        return { success: true, messageId };
+      } catch (error: any) {
+        log.error(
+          { topic, err: error.message, code: error.code },
+          'Failed to send FCM topic message',
+        );
+        return {
+          success: false,
+          error: error.message || 'FCM topic send failed',
+          retryable: isRetryableFcmError(error),
+        };
+      }
+    },
   };
 }
 
@@ -32,6 +32,14 @@ import type {
 } from '@openmdm/core';
 import { createConsoleLogger } from '@openmdm/core';
 import * as mqtt from 'mqtt';
+import { createUplinkHandler, type MQTTRpcRequest, type MQTTUplinkTarget } from './uplink';
+
+export type {
+  MQTTRpcMethod,
+  MQTTRpcRequest,
+  MQTTRpcResponse,
+  MQTTUplinkTarget,
+} from './uplink';
 
 export interface MQTTAdapterOptions {
   /**
@@ -63,7 +71,9 @@ export interface MQTTAdapterOptions {
   topicPrefix?: string;
 
   /**
-   * Database adapter for storing/retrieving connection state
+   * Database adapter for storing/retrieving connection state. Also records
+   * device acks that arrive when no `send` is waiting for them (batch sends,
+   * late acks) in the push delivery log.
    */
   database?: DatabaseAdapter;
 
@@ -139,6 +149,43 @@ export interface MQTTAdapterOptions {
     treatTimeoutAsSuccess?: boolean;
   };
 
+  /**
+   * Accept agent calls over the broker: heartbeats, events and command
+   * ack/complete/fail published to `{topicPrefix}/{deviceId}/rpc`, answered on
+   * `{topicPrefix}/{deviceId}/rpc/result`. Each call is authenticated with the
+   * same device token as the HTTP `/agent/*` routes.
+   *
+   * `mdm` is a function because the adapter is built before the instance it
+   * is passed to:
+   *
+   * ```typescript
+   * const push = mqttPushAdapter({ brokerUrl, uplink: { mdm: () => mdm } });
+   * const mdm = createMDM({ push, ... });
+   * ```
+   */
+  uplink?: {
+    mdm: () => MQTTUplinkTarget;
+  };
+
+  /**
+   * Called when a device's presence topic reports a change. The registry
+   * itself is in-memory; wire this to `mdm.devices.setPresence` to persist
+   * presence and emit `device.online` / `device.offline`:
+   *
+   * ```typescript
+   * onPresenceChange: ({ deviceId, online, lastSeen }) =>
+   *   mdm.devices.setPresence(deviceId, online, { at: lastSeen, transport: 'mqtt' }),
+   * ```
+   *
+   * A crashed server never reports its connections closing: call
+   * `mdm.devices.resetPresence()` on startup, before connecting.
+   *
+   * Presence messages carry no device token (a broker last-will cannot), so
+   * restrict who may publish to `{topicPrefix}/{deviceId}/presence` with
+   * broker ACLs.
+   */
+  onPresenceChange?: (status: MQTTDeviceStatus) => void | Promise<void>;
+
   /** Structured logger. Defaults to the console-backed logger from core. */
   logger?: Logger;
 }
@@ -179,6 +226,8 @@ function createMqttAdapter(options: MQTTAdapterOptions): MqttInternals {
   // Generate unique client ID
   const clientId = `${options.clientIdPrefix ?? 'openmdm-server'}-${Math.random().toString(36).substring(2, 10)}`;
 
+  const handleRpc = options.uplink ? createUplinkHandler(options.uplink.mdm, log) : undefined;
+
   // Device presence tracking
   const devicePresence = new Map<string, DevicePresence>();
 
@@ -235,6 +284,14 @@ function createMqttAdapter(options: MQTTAdapterOptions): MqttInternals {
         log.error({ err: err.message }, 'Failed to subscribe to ack topic');
       }
     });
+
+    if (handleRpc) {
+      client.subscribe(`${topicPrefix}/+/rpc`, { qos: 1 }, (err) => {
+        if (err) {
+          log.error({ err: err.message }, 'Failed to subscribe to rpc topic');
+        }
+      });
+    }
   });
 
   client.on('disconnect', () => {
@@ -276,16 +333,41 @@ function createMqttAdapter(options: MQTTAdapterOptions): MqttInternals {
       const deviceId = parts[parts.length - 2];
       const messageType = parts[parts.length - 1];
 
-      if (messageType === 'presence') {
+      if (messageType === 'rpc' && handleRpc) {
+        const request = JSON.parse(payload.toString()) as MQTTRpcRequest;
+        handleRpc(deviceId, request)
+          .then((response) => {
+            client.publish(`${topicPrefix}/${deviceId}/rpc/result`, JSON.stringify(response), {
+              qos,
+            });
+          })
+          .catch((error) => {
+            log.error(
+              { deviceId, err: error instanceof Error ? error.message : String(error) },
+              'Failed to answer MQTT RPC',
+            );
+          });
+      } else if (messageType === 'presence') {
         // Device presence update
         const data = JSON.parse(payload.toString());
-        devicePresence.set(deviceId, {
-          deviceId,
-          online: data.online ?? true,
-          lastSeen: new Date(),
-        });
-
-        log.debug({ deviceId, online: data.online }, 'Device presence changed');
+        const online = data.online ?? true;
+        const previous = devicePresence.get(deviceId);
+        const status = { deviceId, online, lastSeen: new Date() };
+        devicePresence.set(deviceId, status);
+
+        log.debug({ deviceId, online }, 'Device presence changed');
+
+        if (previous?.online !== online && options.onPresenceChange) {
+          // A failing presence hook must not take the message loop down.
+          Promise.resolve()
+            .then(() => options.onPresenceChange?.({ ...status }))
+            .catch((error) => {
+              log.error(
+                { deviceId, err: error instanceof Error ? error.message : String(error) },
+                'onPresenceChange hook failed',
+              );
+            });
+        }
       } else if (messageType === 'ack') {
         // Message acknowledgment
         const data = JSON.parse(payload.toString());
@@ -299,6 +381,17 @@ function createMqttAdapter(options: MQTTAdapterOptions): MqttInternals {
           pending.resolve({
             success: true,
             messageId,
+            acknowledged: true,
+          });
+        } else if (messageId && database?.markPushDelivered) {
+          // Nobody is waiting: a batch publish, or an ack that arrived after
+          // the timeout. Core has already logged the push as sent or failed,
+          // so record the receipt against that entry instead of dropping it.
+          database.markPushDelivered(deviceId, messageId, new Date()).catch((err) => {
+            log.warn(
+              { deviceId, messageId, err: err instanceof Error ? err.message : String(err) },
+              'Failed to record push receipt',
+            );
           });
         }
       }
@@ -441,6 +534,8 @@ function createMqttAdapter(options: MQTTAdapterOptions): MqttInternals {
   }
 
   const adapter: PushAdapter = {
+    provider: 'mqtt',
+
     async send(deviceId: string, message: PushMessage): Promise<PushResult> {
       try {
         const result = await publishToDevice(deviceId, message);
@@ -567,6 +662,36 @@ function createMqttAdapter(options: MQTTAdapterOptions): MqttInternals {
       });
     },
 
+    async sendToTopic(topic: string, message: PushMessage): Promise<PushResult> {
+      // Subscribed devices receive it on the topic `subscribe` pointed them
+      // at. No acks: a topic has no single device to wait for.
+      try {
+        await waitForConnection();
+      } catch (error: any) {
+        return { success: false, error: error.message || 'MQTT send failed' };
+      }
+
+      const messageId = generateMessageId();
+      const payload = buildPayload(message, messageId);
+
+      return new Promise((resolve) => {
+        client.publish(
+          `${topicPrefix}/topics/${topic}`,
+          payload,
+          { qos, properties: { messageExpiryInterval } },
+          (err) => {
+            if (err) {
+              log.warn({ topic, err: err.message }, 'Topic publish failed');
+              resolve({ success: false, error: err.message });
+            } else {
+              log.debug({ topic, type: message.type, messageId }, 'Published to topic');
+              resolve({ success: true, messageId });
+            }
+          },
+        );
+      });
+    },
+
     disconnect,
   };
 
@@ -0,0 +1,168 @@
+/**
+ * Agent RPC over MQTT.
+ *
+ * The HTTP `/agent/*` routes are the only way an agent could report back, so a
+ * device on a flaky cellular link held an MQTT connection for commands and
+ * still had to open HTTPS requests for every heartbeat and result. This module
+ * handles the same calls arriving on the broker instead:
+ *
+ * - the agent publishes `{ id, token, method, params }` to
+ *   `{topicPrefix}/{deviceId}/rpc`;
+ * - the server replies on `{topicPrefix}/{deviceId}/rpc/result` with
+ *   `{ id, ...AgentResponse }` — the protocol v2 envelope, so the agent reacts
+ *   to `action` exactly as it does over HTTP.
+ *
+ * Every call carries the device token the HTTP routes take in
+ * `Authorization`, and the token's device must be the one in the topic. Broker
+ * ACLs are not trusted to keep one device off another's topics.
+ */
+
+import type {
+  AgentHeartbeatResponse,
+  AgentResponse,
+  CommandResult,
+  Heartbeat,
+  Logger,
+  MDMInstance,
+} from '@openmdm/core';
+import { agentFail, agentOk, buildHeartbeatResponse, DeviceNotFoundError } from '@openmdm/core';
+
+/** The parts of the MDM instance agent RPC is routed to. */
+export type MQTTUplinkTarget = Pick<
+  MDMInstance,
+  'verifyDeviceToken' | 'processHeartbeat' | 'commands' | 'devices' | 'policies' | 'db'
+>;
+
+export type MQTTRpcMethod =
+  | 'heartbeat'
+  | 'event'
+  | 'command.ack'
+  | 'command.complete'
+  | 'command.fail';
+
+/** A call published by the agent on `{topicPrefix}/{deviceId}/rpc`. */
+export interface MQTTRpcRequest {
+  /** Echoed on the reply so the agent can match it to the call. */
+  id?: string;
+  /** The device token, as sent in `Authorization` over HTTP. */
+  token?: string;
+  method?: MQTTRpcMethod;
+  params?: Record<string, unknown>;
+}
+
+/** The reply published on `{topicPrefix}/{deviceId}/rpc/result`. */
+export type MQTTRpcResponse = AgentResponse & { id: string | null };
+
+/**
+ * Build the RPC dispatcher. Returns the reply for one call; it never throws,
+ * because a throw in the broker's message handler would leave the agent
+ * waiting for a reply that never comes.
+ */
+export function createUplinkHandler(
+  getTarget: () => MQTTUplinkTarget,
+  log: Logger,
+): (deviceId: string, request: MQTTRpcRequest) => Promise<MQTTRpcResponse> {
+  return async (deviceId, request) => {
+    const id = typeof request.id === 'string' ? request.id : null;
+    const reply = (response: AgentResponse): MQTTRpcResponse => ({ id, ...response });
+    const mdm = getTarget();
+
+    if (typeof request.token !== 'string' || request.token.length === 0) {
+      return reply(agentFail('reauth', 'Device authentication required'));
+    }
+
+    const params = request.params ?? {};
+
+    try {
+      const verified = await mdm.verifyDeviceToken(request.token);
+      if (!verified || verified.deviceId !== deviceId) {
+        log.warn({ deviceId, method: request.method }, 'Rejected MQTT RPC with an invalid token');
+        return reply(agentFail('reauth', 'Invalid or expired device token'));
+      }
+
+      switch (request.method) {
+        case 'heartbeat':
+          return reply(agentOk(await heartbeat(mdm, deviceId, params)));
+        case 'event':
+          return reply(await event(mdm, deviceId, params));
+        case 'command.ack':
+        case 'command.complete':
+        case 'command.fail':
+          return reply(await commandResult(mdm, deviceId, request.method, params));
+        default:
+          return reply(agentFail('retry', `Unknown RPC method: ${String(request.method)}`));
+      }
+    } catch (error) {
+      if (error instanceof DeviceNotFoundError) {
+        return reply(agentFail('unenroll', 'Device not found'));
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      log.error({ deviceId, method: request.method, err: message }, 'MQTT RPC failed');
+      return reply(agentFail('retry', message));
+    }
+  };
+}
+
+/** Same response as `POST /agent/heartbeat`. */
+async function heartbeat(
+  mdm: MQTTUplinkTarget,
+  deviceId: string,
+  params: Record<string, unknown>,
+): Promise<AgentHeartbeatResponse> {
+  const body = params as Omit<Heartbeat, 'deviceId' | 'timestamp'> & { timestamp?: string };
+
+  await mdm.processHeartbeat(deviceId, {
+    ...body,
+    deviceId,
+    timestamp: new Date(body.timestamp || Date.now()),
+  });
+
+  return buildHeartbeatResponse(mdm, deviceId);
+}
+
+/** Same rules as `POST /agent/events`. */
+async function event(
+  mdm: MQTTUplinkTarget,
+  deviceId: string,
+  params: Record<string, unknown>,
+): Promise<AgentResponse> {
+  const type = params.type;
+  if (typeof type !== 'string' || type.length === 0 || type.length > 100) {
+    return agentFail('retry', 'Missing or invalid required field: type (string, max 100 chars)');
+  }
+
+  const created = await mdm.db.createEvent({
+    deviceId,
+    type: type as Parameters<typeof mdm.db.createEvent>[0]['type'],
+    payload: (params.payload as Record<string, unknown> | undefined) ?? {},
+  });
+
+  return agentOk({ id: created.id, status: 'ok' });
+}
+
+async function commandResult(
+  mdm: MQTTUplinkTarget,
+  deviceId: string,
+  method: 'command.ack' | 'command.complete' | 'command.fail',
+  params: Record<string, unknown>,
+): Promise<AgentResponse> {
+  const commandId = params.commandId;
+  if (typeof commandId !== 'string') {
+    return agentFail('retry', 'Missing required field: commandId');
+  }
+
+  // The token proves which device is calling; the command must be that
+  // device's, or one agent could complete another's wipe.
+  const command = await mdm.commands.get(commandId);
+  if (!command || command.deviceId !== deviceId) {
+    return agentFail('retry', `Command ${commandId} not found`);
+  }
+
+  if (method === 'command.ack') {
+    return agentOk(await mdm.commands.acknowledge(commandId));
+  }
+  if (method === 'command.complete') {
+    return agentOk(await mdm.commands.complete(commandId, params.result as CommandResult));
+  }
+  return agentOk(await mdm.commands.fail(commandId, String(params.error ?? 'Unknown error')));
+}
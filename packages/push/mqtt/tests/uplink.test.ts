@@ -0,0 +1,164 @@
+/**
+ * Agent RPC over MQTT.
+ *
+ * The MQTT adapter used to carry server→device messages only, so an agent on
+ * a persistent broker connection still had to open HTTPS requests to report
+ * heartbeats and command results. These tests pin the uplink dispatcher: the
+ * same calls, the same device-token authentication, the same v2 envelope.
+ */
+
+import { createSilentLogger, DeviceNotFoundError } from '@openmdm/core';
+import { describe, expect, it, vi } from 'vitest';
+import { createUplinkHandler, type MQTTUplinkTarget } from '../src/uplink';
+
+const TOKENS: Record<string, string> = { 'token-a': 'device-a', 'token-b': 'device-b' };
+
+function createTarget() {
+  const commands = new Map<string, any>([
+    ['cmd-a', { id: 'cmd-a', deviceId: 'device-a', status: 'sent' }],
+    ['cmd-b', { id: 'cmd-b', deviceId: 'device-b', status: 'sent' }],
+  ]);
+
+  const target = {
+    verifyDeviceToken: vi.fn(async (token: string) =>
+      TOKENS[token] ? { deviceId: TOKENS[token] } : null,
+    ),
+    processHeartbeat: vi.fn(async () => {}),
+    commands: {
+      get: vi.fn(async (id: string) => commands.get(id) ?? null),
+      getPending: vi.fn(async () => [{ id: 'cmd-a' }]),
+      getCancellations: vi.fn(async () => ['cmd-old']),
+      acknowledge: vi.fn(async (id: string) => ({ ...commands.get(id), status: 'acknowledged' })),
+      complete: vi.fn(async (id: string) => ({ ...commands.get(id), status: 'completed' })),
+      fail: vi.fn(async (id: string) => ({ ...commands.get(id), status: 'failed' })),
+    },
+    devices: {
+      get: vi.fn(async (id: string) => ({
+        id,
+        policyId: 'policy-1',
+        desiredState: { kiosk: true },
+        desiredStateVersion: 3,
+      })),
+    },
+    // The version the device is served, which mid-rollout is not the
+    // policy row's own.
+    policies: { getForDevice: vi.fn(async () => ({ id: 'policy-1', version: 4 })) },
+    db: { createEvent: vi.fn(async (data: any) => ({ id: 'event-1', ...data })) },
+  };
+
+  const handle = createUplinkHandler(
+    () => target as unknown as MQTTUplinkTarget,
+    createSilentLogger(),
+  );
+  return { target, handle };
+}
+
+describe('MQTT agent RPC', () => {
+  it('processes a heartbeat and answers like the HTTP route', async () => {
+    const { target, handle } = createTarget();
+
+    const response = await handle('device-a', {
+      id: 'r1',
+      token: 'token-a',
+      method: 'heartbeat',
+      params: { batteryLevel: 80, timestamp: '2026-01-01T00:00:00.000Z' },
+    });
+
+    expect(target.processHeartbeat).toHaveBeenCalledWith(
+      'device-a',
+      expect.objectContaining({ deviceId: 'device-a', batteryLevel: 80 }),
+    );
+    expect(response).toEqual({
+      id: 'r1',
+      ok: true,
+      action: 'none',
+      data: {
+        success: true,
+        pendingCommands: [{ id: 'cmd-a' }],
+        cancelledCommandIds: ['cmd-old'],
+        policyUpdate: { id: 'policy-1', version: 4 },
+        desiredState: { kiosk: true },
+        desiredStateVersion: 3,
+      },
+    });
+  });
+
+  it('rejects a call whose token belongs to another device', async () => {
+    const { target, handle } = createTarget();
+
+    const response = await handle('device-a', {
+      id: 'r1',
+      token: 'token-b',
+      method: 'heartbeat',
+    });
+
+    expect(response).toMatchObject({ id: 'r1', ok: false, action: 'reauth' });
+    expect(target.processHeartbeat).not.toHaveBeenCalled();
+  });
+
+  it('asks for re-auth when the token is missing', async () => {
+    const { handle } = createTarget();
+
+    const response = await handle('device-a', { method: 'heartbeat' });
+
+    expect(response).toMatchObject({ id: null, ok: false, action: 'reauth' });
+  });
+
+  it('records agent events', async () => {
+    const { target, handle } = createTarget();
+
+    const response = await handle('device-a', {
+      token: 'token-a',
+      method: 'event',
+      params: { type: 'app.crashed', payload: { packageName: 'com.example' } },
+    });
+
+    expect(response).toMatchObject({ ok: true, data: { id: 'event-1' } });
+    expect(target.db.createEvent).toHaveBeenCalledWith({
+      deviceId: 'device-a',
+      type: 'app.crashed',
+      payload: { packageName: 'com.example' },
+    });
+  });
+
+  it('drives the command lifecycle', async () => {
+    const { target, handle } = createTarget();
+
+    const ack = await handle('device-a', {
+      token: 'token-a',
+      method: 'command.ack',
+      params: { commandId: 'cmd-a' },
+    });
+    const complete = await handle('device-a', {
+      token: 'token-a',
+      method: 'command.complete',
+      params: { commandId: 'cmd-a', result: { success: true } },
+    });
+
+    expect(ack).toMatchObject({ ok: true, data: { status: 'acknowledged' } });
+    expect(complete).toMatchObject({ ok: true, data: { status: 'completed' } });
+    expect(target.commands.complete).toHaveBeenCalledWith('cmd-a', { success: true });
+  });
+
+  it('does not let a device report on another device’s command', async () => {
+    const { target, handle } = createTarget();
+
+    const response = await handle('device-a', {
+      token: 'token-a',
+      method: 'command.fail',
+      params: { commandId: 'cmd-b', error: 'nope' },
+    });
+
+    expect(response).toMatchObject({ ok: false, action: 'retry' });
+    expect(target.commands.fail).not.toHaveBeenCalled();
+  });
+
+  it('tells a deleted device to unenroll', async () => {
+    const { target, handle } = createTarget();
+    target.processHeartbeat.mockRejectedValueOnce(new DeviceNotFoundError('device-a'));
+
+    const response = await handle('device-a', { token: 'token-a', method: 'heartbeat' });
+
+    expect(response).toMatchObject({ ok: false, action: 'unenroll' });
+  });
+});
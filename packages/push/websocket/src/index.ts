@@ -0,0 +1,516 @@
+/**
+ * OpenMDM WebSocket Push Adapter
+ *
+ * Push adapter that keeps a persistent WebSocket open to every enrolled agent
+ * and delivers commands over it. Needs neither Google Play Services nor a
+ * separate MQTT broker: the socket terminates on the same Node server that
+ * already serves the `/agent/*` routes, which makes it the simplest push
+ * channel for on-prem and air-gapped installs.
+ *
+ * @example
+ * ```typescript
+ * import { serve } from '@hono/node-server';
+ * import { createMDM } from '@openmdm/core';
+ * import { websocketPushAdapter } from '@openmdm/push-websocket';
+ *
+ * const push = websocketPushAdapter({
+ *   // Resolved lazily on each connection, so `mdm` can be created afterwards.
+ *   authenticate: (token) => mdm.verifyDeviceToken(token),
+ *   path: '/mdm/push',
+ * });
+ *
+ * const mdm = createMDM({
+ *   database: drizzleAdapter(db),
+ *   push,
+ * });
+ *
+ * const server = serve({ fetch: app.fetch, port: 3000 });
+ * push.attach(server);
+ * ```
+ *
+ * ## Wire protocol
+ *
+ * The agent opens `ws(s)://{host}{path}` with `Authorization: Bearer <token>`,
+ * the same device token it uses for the HTTP agent routes. Server → device
+ * frames are JSON `{ messageId, type, payload, priority, timestamp }` — the
+ * shape the MQTT adapter publishes — and the device answers each one with
+ * `{ "type": "ack", "messageId": "..." }`.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { IncomingMessage, Server } from 'node:http';
+import type { Duplex } from 'node:stream';
+import type { Logger, PushAdapter, PushBatchResult, PushMessage, PushResult } from '@openmdm/core';
+import { createConsoleLogger } from '@openmdm/core';
+import { type RawData, WebSocket, WebSocketServer } from 'ws';
+
+export interface WebSocketAdapterOptions {
+  /**
+   * Resolve a device token to the device it was issued to, or `null` if the
+   * token is invalid or expired. Pass `mdm.verifyDeviceToken` — the adapter
+   * deliberately does not accept a bare device id, for the same reason the
+   * HTTP agent routes do not: ids are enumerable, tokens are not.
+   */
+  authenticate: (token: string) => Promise<{ deviceId: string } | null>;
+
+  /**
+   * Path agents connect to (default: '/mdm/push'). Mirrors
+   * `PushProviderConfig.wsPath`. Upgrade requests for any other path are left
+   * untouched so other WebSocket handlers on the same server keep working.
+   */
+  path?: string;
+
+  /**
+   * Interval between server pings, in milliseconds (default: 30000). Mirrors
+   * `PushProviderConfig.wsPingInterval`. A connection that has not answered
+   * the previous ping when the next one is due is terminated and the device
+   * is marked offline.
+   */
+  pingInterval?: number;
+
+  /**
+   * Device-acknowledgment behaviour.
+   *
+   * A frame written to the socket is not proof the agent processed it — the
+   * TCP connection may be half-open after the phone lost signal. The adapter
+   * therefore waits for the agent's `ack` frame before reporting success.
+   */
+  ack?: {
+    /** Wait for a device ack (default: true). */
+    enabled?: boolean;
+    /** How long to wait before giving up (default: 30000ms). */
+    timeoutMs?: number;
+  };
+
+  /**
+   * Maximum size of an inbound frame in bytes (default: 64 KiB). Agents only
+   * ever send small control frames on this channel.
+   */
+  maxPayload?: number;
+
+  /**
+   * Called whenever a device connects or disconnects. The registry itself is
+   * in-memory; wire this to `mdm.devices.setPresence` to persist presence and
+   * emit `device.online` / `device.offline`:
+   *
+   * ```typescript
+   * onPresenceChange: ({ deviceId, online }) =>
+   *   mdm.devices.setPresence(deviceId, online, { transport: 'websocket' }),
+   * ```
+   *
+   * A crashed server never reports its connections closing: call
+   * `mdm.devices.resetPresence()` on startup, before accepting connections.
+   */
+  onPresenceChange?: (status: WebSocketDeviceStatus) => void | Promise<void>;
+
+  /** Structured logger. Defaults to the console-backed logger from core. */
+  logger?: Logger;
+}
+
+/**
+ * Presence of a single device as seen by this server process.
+ */
+export interface WebSocketDeviceStatus {
+  deviceId: string;
+  online: boolean;
+  /** When the connection was opened. `null` once the device has disconnected. */
+  connectedAt: Date | null;
+  /** Last time any frame (including a pong) arrived from the device. */
+  lastSeen: Date;
+}
+
+/**
+ * WebSocket push adapter with a connection registry and presence.
+ */
+export interface WebSocketPushAdapter extends PushAdapter {
+  /**
+   * Start accepting agent connections on an existing HTTP(S) server. Only
+   * upgrade requests for the configured `path` are handled.
+   */
+  attach(server: Server): void;
+
+  /**
+   * Handle a single upgrade request. Use this instead of `attach` when the
+   * server routes upgrades itself. Resolves `false` when the request was not
+   * for this adapter's path and was left untouched.
+   */
+  handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): Promise<boolean>;
+
+  /** Current status of a device, or `undefined` if it never connected. */
+  getDeviceStatus(deviceId: string): WebSocketDeviceStatus | undefined;
+
+  /** Every device with an open connection. */
+  getOnlineDevices(): WebSocketDeviceStatus[];
+
+  /** Whether the device has an open connection to this server. */
+  isDeviceOnline(deviceId: string): boolean;
+
+  /** Close every connection and stop accepting new ones. */
+  disconnect(): Promise<void>;
+}
+
+/**
+ * Close code sent to an older connection when the same device reconnects.
+ * Application-range code so agents can tell it apart from a server shutdown.
+ */
+const CLOSE_REPLACED = 4000;
+
+/** Close code sent on `disconnect()`. */
+const CLOSE_GOING_AWAY = 1001;
+
+interface Connection {
+  socket: WebSocket;
+  alive: boolean;
+}
+
+/**
+ * Create a WebSocket push adapter for OpenMDM.
+ */
+export function websocketPushAdapter(options: WebSocketAdapterOptions): WebSocketPushAdapter {
+  const path = options.path ?? '/mdm/push';
+  const pingInterval = options.pingInterval ?? 30_000;
+  const ackEnabled = options.ack?.enabled ?? true;
+  const ackTimeoutMs = options.ack?.timeoutMs ?? 30_000;
+  const log = (options.logger ?? createConsoleLogger()).child({ component: 'push-websocket' });
+
+  const wss = new WebSocketServer({ noServer: true, maxPayload: options.maxPayload ?? 65_536 });
+
+  // One live socket per device. A device that reconnects replaces its old
+  // socket rather than accumulating them — otherwise a flapping agent would
+  // receive every command once per stale connection.
+  const connections = new Map<string, Connection>();
+  const presence = new Map<string, WebSocketDeviceStatus>();
+
+  // messageId -> resolver for a frame awaiting the agent's ack
+  const pendingAcks = new Map<
+    string,
+    { deviceId: string; resolve: (result: PushResult) => void; timeout: NodeJS.Timeout }
+  >();
+
+  const attachedServers = new Set<Server>();
+  let closed = false;
+
+  const reportPresence = (status: WebSocketDeviceStatus) => {
+    presence.set(status.deviceId, status);
+    log.debug({ deviceId: status.deviceId, online: status.online }, 'Device presence changed');
+
+    if (!options.onPresenceChange) return;
+    // A failing presence hook must not take the socket down with it.
+    Promise.resolve()
+      .then(() => options.onPresenceChange?.({ ...status }))
+      .catch((error) => {
+        log.error(
+          {
+            deviceId: status.deviceId,
+            err: error instanceof Error ? error.message : String(error),
+          },
+          'onPresenceChange hook failed',
+        );
+      });
+  };
+
+  const settleAck = (messageId: string, result: PushResult) => {
+    const pending = pendingAcks.get(messageId);
+    if (!pending) return;
+    clearTimeout(pending.timeout);
+    pendingAcks.delete(messageId);
+    pending.resolve(result);
+  };
+
+  // Ping sweep. `alive` is cleared before each ping and set again by the pong;
+  // a socket still marked dead on the next sweep stopped answering.
+  const pingTimer = setInterval(() => {
+    for (const [deviceId, connection] of connections) {
+      if (!connection.alive) {
+        log.warn({ deviceId }, 'Device missed a ping; terminating connection');
+        connection.socket.terminate();
+        continue;
+      }
+      connection.alive = false;
+      connection.socket.ping();
+    }
+  }, pingInterval);
+  pingTimer.unref();
+
+  const register = (deviceId: string, socket: WebSocket) => {
+    const previous = connections.get(deviceId);
+    const connection: Connection = { socket, alive: true };
+    connections.set(deviceId, connection);
+
+    if (previous) {
+      log.info({ deviceId }, 'Device reconnected; closing its previous connection');
+      previous.socket.close(CLOSE_REPLACED, 'Replaced by a newer connection');
+    }
+
+    const now = new Date();
+    reportPresence({ deviceId, online: true, connectedAt: now, lastSeen: now });
+
+    const touch = () => {
+      connection.alive = true;
+      const current = presence.get(deviceId);
+      if (current && connections.get(deviceId) === connection) {
+        current.lastSeen = new Date();
+      }
+    };
+
+    socket.on('pong', touch);
+
+    socket.on('message', (data: RawData) => {
+      touch();
+      try {
+        const frame = JSON.parse(data.toString());
+        if (frame?.type === 'ack' && typeof frame.messageId === 'string') {
+          // Only the device a message was sent to may ack it. Without this
+          // check one agent could confirm delivery on another's behalf.
+          if (pendingAcks.get(frame.messageId)?.deviceId === deviceId) {
+            settleAck(frame.messageId, {
+              success: true,
+              messageId: frame.messageId,
+              acknowledged: true,
+            });
+          }
+        }
+      } catch (error) {
+        log.warn(
+          { deviceId, err: error instanceof Error ? error.message : String(error) },
+          'Ignoring malformed frame from device',
+        );
+      }
+    });
+
+    socket.on('close', () => {
+      // A replaced socket closing must not mark the device offline — its
+      // successor is already registered.
+      if (connections.get(deviceId) !== connection) return;
+      connections.delete(deviceId);
+
+      const lastSeen = presence.get(deviceId)?.lastSeen ?? new Date();
+      reportPresence({ deviceId, online: false, connectedAt: null, lastSeen });
+
+      // Whatever was still waiting on this socket is never going to be acked.
+      for (const [messageId, pending] of pendingAcks) {
+        if (pending.deviceId !== deviceId) continue;
+        settleAck(messageId, {
+          success: false,
+          messageId,
+          error: `CONNECTION_CLOSED: ${deviceId} disconnected before acknowledging`,
+        });
+      }
+    });
+
+    socket.on('error', (error) => {
+      log.warn({ deviceId, err: error.message }, 'Device connection error');
+    });
+  };
+
+  /**
+   * Reject an upgrade with a plain HTTP response. The socket has not been
+   * upgraded yet, so this is the only way to tell the agent why.
+   */
+  const rejectUpgrade = (socket: Duplex, status: number, reason: string) => {
+    socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+    socket.destroy();
+  };
+
+  async function handleUpgrade(
+    request: IncomingMessage,
+    socket: Duplex,
+    head: Buffer,
+  ): Promise<boolean> {
+    const requestPath = new URL(request.url ?? '/', 'http://localhost').pathname;
+    if (requestPath !== path) return false;
+
+    if (closed) {
+      rejectUpgrade(socket, 503, 'Service Unavailable');
+      return true;
+    }
+
+    const token = request.headers.authorization?.replace('Bearer ', '');
+    if (!token) {
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return true;
+    }
+
+    let identity: { deviceId: string } | null;
+    try {
+      identity = await options.authenticate(token);
+    } catch (error) {
+      log.error(
+        { err: error instanceof Error ? error.message : String(error) },
+        'Device token verification failed',
+      );
+      rejectUpgrade(socket, 500, 'Internal Server Error');
+      return true;
+    }
+
+    if (!identity) {
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return true;
+    }
+
+    const { deviceId } = identity;
+    wss.handleUpgrade(request, socket, head, (ws) => register(deviceId, ws));
+    return true;
+  }
+
+  const onUpgrade = (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    handleUpgrade(request, socket, head).catch((error) => {
+      log.error(
+        { err: error instanceof Error ? error.message : String(error) },
+        'Error handling WebSocket upgrade',
+      );
+      socket.destroy();
+    });
+  };
+
+  /**
+   * Write one frame to a device and, unless acks are disabled, wait for the
+   * agent to confirm it.
+   */
+  async function deliver(deviceId: string, message: PushMessage): Promise<PushResult> {
+    const connection = connections.get(deviceId);
+    if (!connection || connection.socket.readyState !== WebSocket.OPEN) {
+      // Nothing is queued for offline devices: the command stays `pending`
+      // in core and is handed over on the agent's next poll or heartbeat.
+      return {
+        success: false,
+        error: `DEVICE_OFFLINE: ${deviceId} has no open WebSocket connection`,
+      };
+    }
+
+    const messageId = randomUUID();
+    const frame = JSON.stringify({
+      messageId,
+      type: message.type,
+      payload: message.payload,
+      priority: message.priority ?? 'normal',
+      timestamp: new Date().toISOString(),
+    });
+
+    return new Promise((resolve) => {
+      if (ackEnabled) {
+        const timeout = setTimeout(() => {
+          pendingAcks.delete(messageId);
+          log.warn(
+            { deviceId, messageId, ackTimeoutMs },
+            'Device did not acknowledge the frame within the ack timeout',
+          );
+          resolve({
+            success: false,
+            messageId,
+            error: `ACK_TIMEOUT: written to socket but ${deviceId} did not acknowledge within ${ackTimeoutMs}ms`,
+          });
+        }, ackTimeoutMs);
+
+        pendingAcks.set(messageId, { deviceId, resolve, timeout });
+      }
+
+      connection.socket.send(frame, (err) => {
+        if (err) {
+          if (ackEnabled) {
+            settleAck(messageId, { success: false, messageId, error: err.message });
+          } else {
+            resolve({ success: false, messageId, error: err.message });
+          }
+        } else if (!ackEnabled) {
+          resolve({ success: true, messageId });
+        }
+        // If waiting for ack, resolution happens in the message handler
+      });
+    });
+  }
+
+  async function disconnect(): Promise<void> {
+    closed = true;
+    clearInterval(pingTimer);
+
+    for (const server of attachedServers) {
+      server.off('upgrade', onUpgrade);
+    }
+    attachedServers.clear();
+
+    for (const [messageId, pending] of pendingAcks) {
+      clearTimeout(pending.timeout);
+      pending.resolve({
+        success: false,
+        messageId,
+        error:
+          'ADAPTER_DISCONNECTED: the WebSocket adapter shut down before the device acknowledged',
+      });
+    }
+    pendingAcks.clear();
+
+    for (const connection of connections.values()) {
+      connection.socket.close(CLOSE_GOING_AWAY, 'Server shutting down');
+    }
+
+    await new Promise<void>((resolve) => wss.close(() => resolve()));
+    log.info('WebSocket push adapter closed');
+  }
+
+  return {
+    provider: 'websocket',
+
+    async send(deviceId: string, message: PushMessage): Promise<PushResult> {
+      const result = await deliver(deviceId, message);
+
+      if (result.success) {
+        log.debug(
+          { deviceId, type: message.type, messageId: result.messageId },
+          'Message delivered',
+        );
+      } else {
+        log.warn({ deviceId, err: result.error }, 'Message delivery failed');
+      }
+
+      return result;
+    },
+
+    async sendBatch(deviceIds: string[], message: PushMessage): Promise<PushBatchResult> {
+      // Unlike the MQTT adapter, a batch here waits for acks too: every
+      // device has its own socket, so the waits run in parallel and the
+      // batch costs at most one ack timeout while reporting real outcomes.
+      const results = await Promise.all(
+        deviceIds.map(async (deviceId) => ({ deviceId, result: await deliver(deviceId, message) })),
+      );
+
+      const successCount = results.filter(({ result }) => result.success).length;
+      const failureCount = results.length - successCount;
+
+      log.info({ successCount, failureCount }, 'Batch send complete');
+
+      return { successCount, failureCount, results };
+    },
+
+    async unregisterToken(deviceId: string): Promise<void> {
+      connections.get(deviceId)?.socket.close(CLOSE_GOING_AWAY, 'Device unregistered');
+      presence.delete(deviceId);
+      log.debug({ deviceId }, 'Unregistered device');
+    },
+
+    attach(server: Server): void {
+      if (attachedServers.has(server)) return;
+      attachedServers.add(server);
+      server.on('upgrade', onUpgrade);
+    },
+
+    handleUpgrade,
+
+    getDeviceStatus(deviceId: string): WebSocketDeviceStatus | undefined {
+      const status = presence.get(deviceId);
+      return status ? { ...status } : undefined;
+    },
+
+    getOnlineDevices(): WebSocketDeviceStatus[] {
+      return Array.from(presence.values())
+        .filter((status) => status.online)
+        .map((status) => ({ ...status }));
+    },
+
+    isDeviceOnline(deviceId: string): boolean {
+      return connections.has(deviceId);
+    },
+
+    disconnect,
+  };
+}
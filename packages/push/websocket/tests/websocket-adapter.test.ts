@@ -0,0 +1,159 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createSilentLogger } from '@openmdm/core';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+import { type WebSocketPushAdapter, websocketPushAdapter } from '../src/index';
+
+/**
+ * End-to-end behaviour of the WebSocket push adapter against a real socket.
+ *
+ * The built-in push adapter used to answer `{ success: true }` for every send,
+ * so a `websocket` provider in config silently delivered nothing. These tests
+ * pin down what "delivered" means here: the agent authenticated with its device
+ * token, held an open connection, and acknowledged the frame.
+ */
+
+const TOKENS: Record<string, string> = {
+  'token-a': 'device-a',
+  'token-b': 'device-b',
+};
+
+describe('websocketPushAdapter', () => {
+  let server: Server;
+  let adapter: WebSocketPushAdapter;
+  let url: string;
+  const clients: WebSocket[] = [];
+
+  beforeEach(async () => {
+    adapter = websocketPushAdapter({
+      authenticate: async (token) => (TOKENS[token] ? { deviceId: TOKENS[token] } : null),
+      ack: { timeoutMs: 200 },
+      logger: createSilentLogger(),
+    });
+    server = createServer();
+    adapter.attach(server);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/mdm/push`;
+  });
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) client.terminate();
+    await adapter.disconnect();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  /** Connect an agent and, unless told otherwise, ack every frame it receives. */
+  async function connect(token: string, options: { autoAck?: boolean } = {}) {
+    const client = new WebSocket(url, { headers: { Authorization: `Bearer ${token}` } });
+    clients.push(client);
+    const frames: any[] = [];
+    client.on('message', (data) => {
+      const frame = JSON.parse(data.toString());
+      frames.push(frame);
+      if (options.autoAck !== false) {
+        client.send(JSON.stringify({ type: 'ack', messageId: frame.messageId }));
+      }
+    });
+    await new Promise<void>((resolve, reject) => {
+      client.once('open', () => resolve());
+      client.once('error', reject);
+    });
+    // The server registers the connection after the handshake completes.
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    return { client, frames };
+  }
+
+  it('rejects a connection without a valid device token', async () => {
+    const client = new WebSocket(url, { headers: { Authorization: 'Bearer forged' } });
+    const status = await new Promise<number | undefined>((resolve) => {
+      client.once('unexpected-response', (req, res) => {
+        req.destroy();
+        resolve(res.statusCode);
+      });
+      client.once('open', () => resolve(undefined));
+    });
+    expect(status).toBe(401);
+  });
+
+  it('reports success only after the agent acknowledges', async () => {
+    const { frames } = await connect('token-a');
+
+    const result = await adapter.send('device-a', {
+      type: 'command.reboot',
+      payload: { commandId: 'c1' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.acknowledged).toBe(true);
+    expect(result.messageId).toBe(frames[0].messageId);
+    expect(frames[0]).toMatchObject({ type: 'command.reboot', payload: { commandId: 'c1' } });
+  });
+
+  it('fails when the agent never acknowledges', async () => {
+    await connect('token-a', { autoAck: false });
+
+    const result = await adapter.send('device-a', { type: 'command.sync' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^ACK_TIMEOUT/);
+  });
+
+  it('fails immediately for a device that is not connected', async () => {
+    const result = await adapter.send('device-b', { type: 'command.sync' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^DEVICE_OFFLINE/);
+  });
+
+  it('does not let one device ack a message sent to another', async () => {
+    const a = await connect('token-a', { autoAck: false });
+    const b = await connect('token-b', { autoAck: false });
+
+    const pending = adapter.send('device-a', { type: 'command.sync' });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    b.client.send(JSON.stringify({ type: 'ack', messageId: a.frames[0].messageId }));
+
+    const result = await pending;
+    expect(result.success).toBe(false);
+  });
+
+  it('reports per-device outcomes in a batch', async () => {
+    await connect('token-a');
+
+    const batch = await adapter.sendBatch(['device-a', 'device-b'], { type: 'command.sync' });
+
+    expect(batch.successCount).toBe(1);
+    expect(batch.failureCount).toBe(1);
+    expect(batch.results.find((r) => r.deviceId === 'device-a')?.result.success).toBe(true);
+    expect(batch.results.find((r) => r.deviceId === 'device-b')?.result.success).toBe(false);
+  });
+
+  it('tracks presence across connect and disconnect', async () => {
+    const { client } = await connect('token-a');
+
+    expect(adapter.isDeviceOnline('device-a')).toBe(true);
+    expect(adapter.getOnlineDevices().map((d) => d.deviceId)).toEqual(['device-a']);
+
+    client.close();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(adapter.isDeviceOnline('device-a')).toBe(false);
+    expect(adapter.getDeviceStatus('device-a')).toMatchObject({ online: false, connectedAt: null });
+  });
+
+  it('keeps the device online when a reconnect replaces the old socket', async () => {
+    const first = await connect('token-a');
+    const second = await connect('token-a');
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(first.client.readyState).toBe(WebSocket.CLOSED);
+    expect(adapter.isDeviceOnline('device-a')).toBe(true);
+
+    const result = await adapter.send('device-a', { type: 'command.sync' });
+    expect(result.success).toBe(true);
+    expect(second.frames).toHaveLength(1);
+    expect(first.frames).toHaveLength(0);
+  });
+});